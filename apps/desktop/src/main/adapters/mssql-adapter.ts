@@ -11,6 +11,9 @@ import type {
   IndexDefinition,
   SequenceInfo,
   CustomTypeInfo,
+  IndexInfo,
+  TriggerInfo,
+  SchemaObjectRef,
   StatementResult,
   RoutineInfo,
   RoutineParameterInfo
@@ -19,8 +22,17 @@ import type {
   DatabaseAdapter,
   AdapterQueryResult,
   AdapterMultiQueryResult,
-  ExplainResult
+  ExplainResult,
+  QueryOptions
 } from '../db-adapter'
+import { getPool, resolvePoolOptions } from '../pool-manager'
+import { trackQuery, wasQueryCancelled } from '../query-tracker'
+import { getSSLConfig, toTLSOptions } from '../ssl-config'
+import { registerCursor, createStreamReader } from '../cursor-manager'
+import { getSessionConnection } from '../session-manager'
+import { bindQueryParameters } from '../sql-builder'
+import { isDataModifying, normalizeMSSQLPlan } from '../explain-plan'
+import { quoteIdentifier } from '../sql-utils'
 
 const MSSQL_TYPE_MAP: Record<number, string> = {
   34: 'image',
@@ -106,6 +118,75 @@ function bindParameter(request: sql.Request, paramName: string, value: unknown):
   }
 }
 
+/**
+ * Bind positional parameters to a request.
+ * Accepts @p1-style placeholders or `?` (rewritten to @pN).
+ */
+function bindParameters(request: sql.Request, sqlQuery: string, params: unknown[]): string {
+  // Without parameters, a `?` can only be part of a literal
+  if (params.length === 0) return sqlQuery
+
+  if (/@p\d+/.test(sqlQuery)) {
+    for (let i = 0; i < params.length; i++) {
+      bindParameter(request, `p${i + 1}`, params[i])
+    }
+    return sqlQuery
+  }
+
+  let paramIndex = 1
+  return sqlQuery.replace(/\?/g, () => {
+    bindParameter(request, `p${paramIndex}`, params[paramIndex - 1])
+    return `@p${paramIndex++}`
+  })
+}
+
+/**
+ * Build field metadata from recordset columns, inferring types from the first row
+ * when the driver doesn't report them
+ */
+function toQueryFields(
+  columns: sql.IColumnMetadata | undefined,
+  rows: Record<string, unknown>[]
+): QueryField[] {
+  const fields: QueryField[] = []
+
+  if (columns) {
+    for (const col of Object.values(columns)) {
+      const meta = col as { name: string; type?: { id?: number; name?: string } }
+      let dataTypeID: number | undefined
+      let dataType: string
+
+      if (meta.type?.id) {
+        dataTypeID = meta.type.id
+        dataType = resolveMSSQLType(dataTypeID)
+      } else if (meta.type?.name) {
+        dataType = meta.type.name.toLowerCase()
+        const match = Object.entries(MSSQL_TYPE_MAP).find(
+          ([, name]) => name.toLowerCase() === dataType
+        )
+        dataTypeID = match ? Number(match[0]) : undefined
+      } else {
+        const inferred = inferTypeFromValue(rows[0]?.[meta.name])
+        dataType = inferred.dataType
+        dataTypeID = inferred.dataTypeID
+      }
+
+      fields.push({
+        name: meta.name,
+        dataType: dataType || 'nvarchar',
+        dataTypeID: dataTypeID || 231
+      })
+    }
+  } else if (rows.length > 0) {
+    for (const [name, value] of Object.entries(rows[0])) {
+      const inferred = inferTypeFromValue(value)
+      fields.push({ name, ...inferred })
+    }
+  }
+
+  return fields
+}
+
 /**
  * Create MSSQL connection config from our ConnectionConfig
  */
@@ -117,7 +198,8 @@ function toMSSQLConfig(config: ConnectionConfig): sql.config {
   const isAzureAD = authentication === 'ActiveDirectoryIntegrated'
 
   // Build options object - for Azure AD, keep it minimal
-  const defaultSsl = config.ssl ?? false
+  const ssl = getSSLConfig(config)
+  const defaultSsl = !!ssl
   const options: sql.config['options'] = {}
 
   // Always set encrypt if specified
@@ -132,20 +214,45 @@ function toMSSQLConfig(config: ConnectionConfig): sql.config {
   if (!isAzureAD) {
     if (mssqlOptions.trustServerCertificate !== undefined) {
       options.trustServerCertificate = mssqlOptions.trustServerCertificate
-    } else if (!defaultSsl) {
+    } else if (!ssl || ssl.mode === 'require') {
       options.trustServerCertificate = true
     }
     options.enableArithAbort = mssqlOptions.enableArithAbort ?? true
   }
 
+  // Custom CA and client certificate for verified connections
+  const tlsOptions = toTLSOptions(config)
+  if (tlsOptions && (tlsOptions.ca || tlsOptions.cert || tlsOptions.key)) {
+    options.cryptoCredentialsDetails = {
+      ca: tlsOptions.ca,
+      cert: tlsOptions.cert,
+      key: tlsOptions.key,
+      passphrase: tlsOptions.passphrase
+    }
+  }
+
+  // Through a tunnel, verify the certificate against the real host
+  if (ssl?.servername) {
+    options.serverName = ssl.servername
+  }
+
   // Add connection timeout if specified
   if (mssqlOptions.connectionTimeout !== undefined) {
     options.connectTimeout = mssqlOptions.connectionTimeout
   }
 
-  // Add request timeout if specified
+  // Add request timeout if specified (falls back to the connection's statement timeout)
   if (mssqlOptions.requestTimeout !== undefined) {
     options.requestTimeout = mssqlOptions.requestTimeout
+  } else if (config.statementTimeout) {
+    options.requestTimeout = config.statementTimeout
+  }
+
+  // ApplicationIntent=ReadOnly: routed to a readable secondary where one exists, and
+  // rejected by databases that only accept read-only connections. A primary still
+  // accepts writes, so queryMultiple also rolls back everything a read-only one runs.
+  if (config.readOnly) {
+    options.readOnlyIntent = true
   }
 
   // Build base config
@@ -189,6 +296,78 @@ function toMSSQLConfig(config: ConnectionConfig): sql.config {
   return sqlConfig
 }
 
+/**
+ * Get the shared pool for a connection
+ */
+function getMSSQLPool(config: ConnectionConfig): Promise<sql.ConnectionPool> {
+  return getPool(
+    config,
+    async () => {
+      const { max, idleTimeoutMillis } = resolvePoolOptions(config)
+      const pool = new sql.ConnectionPool({
+        ...toMSSQLConfig(config),
+        pool: { max, min: config.mssqlOptions?.pool?.min ?? 0, idleTimeoutMillis }
+      })
+      pool.on('error', (error) => {
+        console.error('[mssql] Pool error:', error instanceof Error ? error.message : error)
+      })
+      return pool.connect()
+    },
+    (pool) => pool.close()
+  )
+}
+
+/**
+ * Close a connection that ran user SQL, rolling back any transaction the SQL left open
+ */
+async function closeUserPool(pool: sql.ConnectionPool): Promise<void> {
+  await pool
+    .request()
+    .query('IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION')
+    .catch(() => {})
+  await pool.close().catch((error) => {
+    console.error('[mssql] Failed to close query connection:', error)
+  })
+}
+
+/**
+ * Check out a connection for user queries: a single-connection pool of the session's own
+ * when the query runs in a pinned session (see session-manager), otherwise one opened
+ * for this run. Shared pool connections can't be reset, so the transactions, SET options
+ * and #temp tables user SQL leaves behind would carry over to whatever gets them next.
+ */
+async function acquireQueryPool(
+  config: ConnectionConfig,
+  sessionId?: string
+): Promise<{ pool: sql.ConnectionPool; release: () => Promise<void> }> {
+  if (!sessionId) {
+    const pool = new sql.ConnectionPool({ ...toMSSQLConfig(config), pool: { max: 1 } })
+    pool.on('error', (error) => {
+      console.error('[mssql] Query error:', error instanceof Error ? error.message : error)
+    })
+    await pool.connect()
+    return { pool, release: () => closeUserPool(pool) }
+  }
+
+  // min keeps the one connection open while idle, so session state survives between runs
+  const pool = await getSessionConnection(
+    sessionId,
+    config,
+    async () => {
+      const pool = new sql.ConnectionPool({
+        ...toMSSQLConfig(config),
+        pool: { max: 1, min: 1, idleTimeoutMillis: Number.MAX_SAFE_INTEGER }
+      })
+      pool.on('error', (error) => {
+        console.error('[mssql] Session error:', error instanceof Error ? error.message : error)
+      })
+      return pool.connect()
+    },
+    (pool) => pool.close()
+  )
+  return { pool, release: async () => {} }
+}
+
 /**
  * Split SQL into individual statements, respecting string literals and comments
  */
@@ -326,6 +505,55 @@ function isDataReturningStatement(sqlText: string): boolean {
   return false
 }
 
+/**
+ * Showplan XML among the result sets of a statement run with SHOWPLAN_XML or
+ * STATISTICS XML (a single-row result set with a "... XML Showplan" column)
+ */
+function findShowplanXml(recordsets: Array<Record<string, unknown>[]>): string | undefined {
+  for (const recordset of recordsets) {
+    for (const row of recordset) {
+      for (const [key, value] of Object.entries(row)) {
+        const name = key.toLowerCase()
+        if ((name.includes('showplan') || name.includes('xml')) && typeof value === 'string') {
+          return value
+        }
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Type name with its length, precision or scale as written in DDL
+ * (sys.columns and sys.types store nchar/nvarchar lengths in bytes)
+ */
+function formatTypeName(
+  typeName: string,
+  maxLength: number,
+  precision: number,
+  scale: number
+): string {
+  switch (typeName) {
+    case 'char':
+    case 'varchar':
+    case 'binary':
+    case 'varbinary':
+      return `${typeName}(${maxLength === -1 ? 'MAX' : maxLength})`
+    case 'nchar':
+    case 'nvarchar':
+      return `${typeName}(${maxLength === -1 ? 'MAX' : maxLength / 2})`
+    case 'decimal':
+    case 'numeric':
+      return `${typeName}(${precision}, ${scale})`
+    case 'datetime2':
+    case 'datetimeoffset':
+    case 'time':
+      return `${typeName}(${scale})`
+    default:
+      return typeName
+  }
+}
+
 /**
  * MSSQL database adapter
  */
@@ -338,113 +566,169 @@ export class MSSQLAdapter implements DatabaseAdapter {
     await pool.close()
   }
 
-  async query(config: ConnectionConfig, sqlQuery: string): Promise<AdapterQueryResult> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
+  async query(
+    config: ConnectionConfig,
+    sqlQuery: string,
+    params: unknown[] = []
+  ): Promise<AdapterQueryResult> {
+    const pool = await getMSSQLPool(config)
+
+    const request = pool.request()
+    const result = await request.query(bindParameters(request, sqlQuery, params))
+    const rows = result.recordset as Record<string, unknown>[]
+    const fields: QueryField[] = []
+
+    if (result.recordset?.columns) {
+      for (const col of Object.values(result.recordset.columns)) {
+        const meta = col as { name: string; type?: { id?: number; name?: string } }
+        let dataTypeID: number | undefined
+        let dataType: string
+
+        if (meta.type?.id) {
+          dataTypeID = meta.type.id
+          dataType = resolveMSSQLType(dataTypeID)
+        } else if (meta.type?.name) {
+          dataType = meta.type.name.toLowerCase()
+          const match = Object.entries(MSSQL_TYPE_MAP).find(
+            ([, name]) => name.toLowerCase() === dataType
+          )
+          dataTypeID = match ? Number(match[0]) : undefined
+        } else {
+          const inferred = inferTypeFromValue(rows[0]?.[meta.name])
+          dataType = inferred.dataType
+          dataTypeID = inferred.dataTypeID
+        }
+
+        fields.push({
+          name: meta.name,
+          dataType: dataType || 'nvarchar',
+          dataTypeID: dataTypeID || 231
+        })
+      }
+    } else if (rows.length > 0) {
+      for (const [name, value] of Object.entries(rows[0])) {
+        const inferred = inferTypeFromValue(value)
+        fields.push({ name, ...inferred })
+      }
+    }
+
+    return { rows, fields, rowCount: result.rowsAffected[0] ?? rows.length }
+  }
+
+  async queryReadOnly(config: ConnectionConfig, sqlQuery: string): Promise<AdapterQueryResult> {
+    const pool = await getMSSQLPool(config)
+
+    // SQL Server has no read-only transactions: run it in one that is always rolled back
+    const transaction = new sql.Transaction(pool)
+    await transaction.begin()
 
     try {
-      const result = await pool.request().query(sqlQuery)
-      const rows = result.recordset as Record<string, unknown>[]
-      const fields: QueryField[] = []
-
-      if (result.recordset?.columns) {
-        for (const col of Object.values(result.recordset.columns)) {
-          const meta = col as { name: string; type?: { id?: number; name?: string } }
-          let dataTypeID: number | undefined
-          let dataType: string
-
-          if (meta.type?.id) {
-            dataTypeID = meta.type.id
-            dataType = resolveMSSQLType(dataTypeID)
-          } else if (meta.type?.name) {
-            dataType = meta.type.name.toLowerCase()
-            const match = Object.entries(MSSQL_TYPE_MAP).find(
-              ([, name]) => name.toLowerCase() === dataType
-            )
-            dataTypeID = match ? Number(match[0]) : undefined
-          } else {
-            const inferred = inferTypeFromValue(rows[0]?.[meta.name])
-            dataType = inferred.dataType
-            dataTypeID = inferred.dataTypeID
-          }
+      const result = await new sql.Request(transaction).query(sqlQuery)
+      const rows = (result.recordset ?? []) as Record<string, unknown>[]
 
-          fields.push({
-            name: meta.name,
-            dataType: dataType || 'nvarchar',
-            dataTypeID: dataTypeID || 231
-          })
-        }
-      } else if (rows.length > 0) {
-        for (const [name, value] of Object.entries(rows[0])) {
-          const inferred = inferTypeFromValue(value)
-          fields.push({ name, ...inferred })
-        }
+      return {
+        rows,
+        fields: toQueryFields(result.recordset?.columns, rows),
+        rowCount: rows.length
       }
-
-      return { rows, fields, rowCount: result.rowsAffected[0] ?? rows.length }
     } finally {
-      await pool.close()
+      await transaction.rollback().catch(() => {})
     }
   }
 
   async queryMultiple(
     config: ConnectionConfig,
-    sqlQuery: string
+    sqlQuery: string,
+    options?: QueryOptions
   ): Promise<AdapterMultiQueryResult> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
+    const { pool, release } = await acquireQueryPool(config, options?.sessionId)
+
+    // SQL Server has no read-only sessions: on a read-only connection the statements run
+    // in a transaction that is always rolled back (sessions roll theirs back instead of
+    // committing, see manual-commit)
+    const transaction = config.readOnly && !options?.sessionId ? new sql.Transaction(pool) : null
+    if (transaction) {
+      await transaction.begin().catch(async (error) => {
+        await release()
+        throw error
+      })
+    }
 
     const totalStart = Date.now()
     const results: StatementResult[] = []
 
+    let currentRequest: sql.Request | null = null
+    const untrack = trackQuery(options?.executionId, async () => currentRequest?.cancel())
+    const executionId = options?.executionId
+    // A streamed result would keep the transaction open, so those are loaded in full
+    const chunkSize = transaction ? undefined : options?.chunkSize
+    // Set once a streamed result is left open: the connection is released when it ends
+    let releaseOnStreamEnd = false
+
     try {
       const statements = splitStatements(sqlQuery)
 
       for (let i = 0; i < statements.length; i++) {
         const statement = statements[i]
         const stmtStart = Date.now()
+        const bound = bindQueryParameters(statement, options?.parameters, 'mssql')
 
         try {
-          const result = await pool.request().query(statement)
-          const stmtDuration = Date.now() - stmtStart
-
-          const rows = (result.recordset || []) as Record<string, unknown>[]
-          const fields: QueryField[] = []
-
-          if (result.recordset?.columns) {
-            for (const col of Object.values(result.recordset.columns)) {
-              const meta = col as { name: string; type?: { id?: number; name?: string } }
-              let dataTypeID: number | undefined
-              let dataType: string
-
-              if (meta.type?.id) {
-                dataTypeID = meta.type.id
-                dataType = resolveMSSQLType(dataTypeID)
-              } else if (meta.type?.name) {
-                dataType = meta.type.name.toLowerCase()
-                const match = Object.entries(MSSQL_TYPE_MAP).find(
-                  ([, name]) => name.toLowerCase() === dataType
-                )
-                dataTypeID = match ? Number(match[0]) : undefined
-              } else {
-                const inferred = inferTypeFromValue(rows[0]?.[meta.name])
-                dataType = inferred.dataType
-                dataTypeID = inferred.dataTypeID
-              }
-
-              fields.push({
-                name: meta.name,
-                dataType: dataType || 'nvarchar',
-                dataTypeID: dataTypeID || 231
+          currentRequest = transaction ? new sql.Request(transaction) : pool.request()
+
+          // Stream the final result set (cursors are registered under the execution ID)
+          const streamResult = !!executionId && !!chunkSize && i === statements.length - 1
+          if (streamResult && isDataReturningStatement(statement)) {
+            const request = currentRequest
+            const stream = request.toReadableStream({ highWaterMark: chunkSize })
+            let columns: sql.IColumnMetadata | undefined
+            request.on('recordset', (recordsetColumns: sql.IColumnMetadata) => {
+              columns = recordsetColumns
+            })
+            request.query(bindParameters(request, bound.sql, bound.params)).catch(() => {
+              // Errors are delivered through the stream
+            })
+
+            const read = createStreamReader(stream)
+            const rows = await read(chunkSize)
+            const hasMore = rows.length === chunkSize
+
+            results.push({
+              statement,
+              statementIndex: i,
+              rows,
+              fields: toQueryFields(columns, rows),
+              rowCount: rows.length,
+              durationMs: Date.now() - stmtStart,
+              isDataReturning: true,
+              hasMore
+            })
+
+            if (hasMore) {
+              releaseOnStreamEnd = true
+              stream.once('close', () => release())
+              registerCursor(executionId, {
+                connectionId: config.id,
+                read,
+                close: async () => {
+                  if (!stream.readableEnded) {
+                    request.cancel()
+                    stream.destroy()
+                  }
+                }
               })
             }
-          } else if (rows.length > 0) {
-            for (const [name, value] of Object.entries(rows[0])) {
-              const inferred = inferTypeFromValue(value)
-              fields.push({ name, ...inferred })
-            }
+            continue
           }
 
+          const result = await currentRequest.query(
+            bindParameters(currentRequest, bound.sql, bound.params)
+          )
+          const stmtDuration = Date.now() - stmtStart
+
+          const rows = (result.recordset || []) as Record<string, unknown>[]
+          const fields = toQueryFields(result.recordset?.columns, rows)
+
           const isDataReturning = isDataReturningStatement(statement)
           const rowCount = isDataReturning ? rows.length : (result.rowsAffected[0] ?? 0)
 
@@ -471,6 +755,11 @@ export class MSSQLAdapter implements DatabaseAdapter {
             isDataReturning: false
           })
 
+          // Checked here since the flag is cleared once the query is untracked
+          if (wasQueryCancelled(executionId)) {
+            throw new Error('Query cancelled')
+          }
+
           throw new Error(
             `Error in statement ${i + 1}: ${errorMessage}\n\nStatement:\n${statement}`
           )
@@ -482,7 +771,11 @@ export class MSSQLAdapter implements DatabaseAdapter {
         totalDurationMs: Date.now() - totalStart
       }
     } finally {
-      await pool.close()
+      untrack()
+      await transaction?.rollback().catch(() => {})
+      if (!releaseOnStreamEnd) {
+        await release()
+      }
     }
   }
 
@@ -491,38 +784,18 @@ export class MSSQLAdapter implements DatabaseAdapter {
     sqlQuery: string,
     params: unknown[]
   ): Promise<{ rowCount: number | null }> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
+    const pool = await getMSSQLPool(config)
 
-    try {
-      const request = pool.request()
-      const hasMSSQLPlaceholders = /@p\d+/.test(sqlQuery)
-
-      if (hasMSSQLPlaceholders) {
-        for (let i = 0; i < params.length; i++) {
-          bindParameter(request, `p${i + 1}`, params[i])
-        }
-      } else {
-        let paramIndex = 1
-        sqlQuery = sqlQuery.replace(/\?/g, () => {
-          bindParameter(request, `p${paramIndex}`, params[paramIndex - 1])
-          return `@p${paramIndex++}`
-        })
-      }
-
-      const result = await request.query(sqlQuery)
-      return { rowCount: result.rowsAffected[0] ?? null }
-    } finally {
-      await pool.close()
-    }
+    const request = pool.request()
+    const result = await request.query(bindParameters(request, sqlQuery, params))
+    return { rowCount: result.rowsAffected[0] ?? null }
   }
 
   async executeTransaction(
     config: ConnectionConfig,
     statements: Array<{ sql: string; params: unknown[] }>
   ): Promise<{ rowsAffected: number; results: Array<{ rowCount: number | null }> }> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
+    const pool = await getMSSQLPool(config)
     const transaction = new sql.Transaction(pool)
 
     try {
@@ -532,22 +805,7 @@ export class MSSQLAdapter implements DatabaseAdapter {
 
       for (const stmt of statements) {
         const request = new sql.Request(transaction)
-        const hasMSSQLPlaceholders = /@p\d+/.test(stmt.sql)
-        let querySql = stmt.sql
-
-        if (hasMSSQLPlaceholders) {
-          for (let i = 0; i < stmt.params.length; i++) {
-            bindParameter(request, `p${i + 1}`, stmt.params[i])
-          }
-        } else {
-          let paramIndex = 1
-          querySql = stmt.sql.replace(/\?/g, () => {
-            bindParameter(request, `p${paramIndex}`, stmt.params[paramIndex - 1])
-            return `@p${paramIndex++}`
-          })
-        }
-
-        const result = await request.query(querySql)
+        const result = await request.query(bindParameters(request, stmt.sql, stmt.params))
         const affected = result.rowsAffected[0] ?? 0
         results.push({ rowCount: affected })
         rowsAffected += affected
@@ -558,191 +816,184 @@ export class MSSQLAdapter implements DatabaseAdapter {
     } catch (error) {
       await transaction.rollback().catch(() => {})
       throw error
-    } finally {
-      await pool.close()
     }
   }
 
   async getSchemas(config: ConnectionConfig): Promise<SchemaInfo[]> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
+    const pool = await getMSSQLPool(config)
 
-    try {
-      const schemaList = SYSTEM_SCHEMAS.map((s) => `'${s}'`).join(', ')
+    const schemaList = SYSTEM_SCHEMAS.map((s) => `'${s}'`).join(', ')
 
-      const [schemasResult, tablesResult] = await Promise.all([
-        pool
-          .request()
-          .query(
-            `SELECT schema_name FROM information_schema.schemata WHERE schema_name NOT IN (${schemaList}) ORDER BY schema_name`
-          ),
-        pool
-          .request()
-          .query(
-            `SELECT table_schema, table_name, table_type FROM information_schema.tables WHERE table_schema NOT IN (${schemaList}) ORDER BY table_schema, table_name`
-          )
-      ])
-
-      const [columnsResult, foreignKeysResult, routinesResult, paramsResult] = await Promise.all([
-        pool.request().query(`
-          SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable,
-                 c.column_default, c.ordinal_position, c.character_maximum_length,
-                 c.numeric_precision, c.numeric_scale,
-                 CASE WHEN pk.column_name IS NOT NULL THEN 1 ELSE 0 END as is_primary_key
-          FROM information_schema.columns c
-          LEFT JOIN (
-            SELECT kcu.table_schema, kcu.table_name, kcu.column_name
-            FROM information_schema.table_constraints tc
-            JOIN information_schema.key_column_usage kcu
-              ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
-            WHERE tc.constraint_type = 'PRIMARY KEY'
-          ) pk ON c.table_schema = pk.table_schema AND c.table_name = pk.table_name AND c.column_name = pk.column_name
-          WHERE c.table_schema NOT IN (${schemaList})
-          ORDER BY c.table_schema, c.table_name, c.ordinal_position
-        `),
-        pool.request().query(`
-          SELECT fk_schema.table_schema, fk_schema.table_name, fk_col.column_name,
-                 fk_schema.constraint_name, pk_schema.table_schema AS referenced_schema,
-                 pk_schema.table_name AS referenced_table, pk_col.column_name AS referenced_column
-          FROM information_schema.table_constraints fk_schema
-          JOIN information_schema.referential_constraints rc
-            ON fk_schema.constraint_name = rc.constraint_name AND fk_schema.table_schema = rc.constraint_schema
-          JOIN information_schema.table_constraints pk_schema
-            ON rc.unique_constraint_name = pk_schema.constraint_name AND rc.unique_constraint_schema = pk_schema.table_schema
-          JOIN information_schema.key_column_usage fk_col
-            ON fk_schema.constraint_name = fk_col.constraint_name AND fk_schema.table_schema = fk_col.table_schema
-          JOIN information_schema.key_column_usage pk_col
-            ON pk_schema.constraint_name = pk_col.constraint_name AND pk_schema.table_schema = pk_col.table_schema
-            AND fk_col.ordinal_position = pk_col.ordinal_position
-          WHERE fk_schema.constraint_type = 'FOREIGN KEY'
-            AND fk_schema.table_schema NOT IN (${schemaList})
-            AND pk_schema.table_schema NOT IN (${schemaList})
-          ORDER BY fk_schema.table_schema, fk_schema.table_name, fk_col.column_name
-        `),
-        pool.request().query(`
-          SELECT r.routine_schema, r.routine_name, r.routine_type,
-                 r.data_type as return_type, r.specific_name
-          FROM information_schema.routines r
-          WHERE r.routine_schema NOT IN (${schemaList})
-          ORDER BY r.routine_schema, r.routine_name
-        `),
-        pool.request().query(`
-          SELECT p.specific_schema, p.specific_name, p.parameter_name,
-                 p.data_type, p.parameter_mode, p.ordinal_position
-          FROM information_schema.parameters p
-          WHERE p.specific_schema NOT IN (${schemaList})
-            AND p.parameter_name IS NOT NULL
-          ORDER BY p.specific_schema, p.specific_name, p.ordinal_position
-        `)
-      ])
-
-      // Build parameters lookup map
-      const paramsMap = new Map<string, RoutineParameterInfo[]>()
-      for (const row of paramsResult.recordset) {
-        const key = `${row.specific_schema}.${row.specific_name}`
-        if (!paramsMap.has(key)) {
-          paramsMap.set(key, [])
-        }
-        paramsMap.get(key)!.push({
-          name: row.parameter_name || '',
-          dataType: row.data_type,
-          mode: (row.parameter_mode?.toUpperCase() || 'IN') as 'IN' | 'OUT' | 'INOUT',
-          ordinalPosition: row.ordinal_position
-        })
+    const [schemasResult, tablesResult] = await Promise.all([
+      pool
+        .request()
+        .query(
+          `SELECT schema_name FROM information_schema.schemata WHERE schema_name NOT IN (${schemaList}) ORDER BY schema_name`
+        ),
+      pool
+        .request()
+        .query(
+          `SELECT table_schema, table_name, table_type FROM information_schema.tables WHERE table_schema NOT IN (${schemaList}) ORDER BY table_schema, table_name`
+        )
+    ])
+
+    const [columnsResult, foreignKeysResult, routinesResult, paramsResult] = await Promise.all([
+      pool.request().query(`
+        SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable,
+               c.column_default, c.ordinal_position, c.character_maximum_length,
+               c.numeric_precision, c.numeric_scale,
+               CASE WHEN pk.column_name IS NOT NULL THEN 1 ELSE 0 END as is_primary_key
+        FROM information_schema.columns c
+        LEFT JOIN (
+          SELECT kcu.table_schema, kcu.table_name, kcu.column_name
+          FROM information_schema.table_constraints tc
+          JOIN information_schema.key_column_usage kcu
+            ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
+          WHERE tc.constraint_type = 'PRIMARY KEY'
+        ) pk ON c.table_schema = pk.table_schema AND c.table_name = pk.table_name AND c.column_name = pk.column_name
+        WHERE c.table_schema NOT IN (${schemaList})
+        ORDER BY c.table_schema, c.table_name, c.ordinal_position
+      `),
+      pool.request().query(`
+        SELECT fk_schema.table_schema, fk_schema.table_name, fk_col.column_name,
+               fk_schema.constraint_name, pk_schema.table_schema AS referenced_schema,
+               pk_schema.table_name AS referenced_table, pk_col.column_name AS referenced_column
+        FROM information_schema.table_constraints fk_schema
+        JOIN information_schema.referential_constraints rc
+          ON fk_schema.constraint_name = rc.constraint_name AND fk_schema.table_schema = rc.constraint_schema
+        JOIN information_schema.table_constraints pk_schema
+          ON rc.unique_constraint_name = pk_schema.constraint_name AND rc.unique_constraint_schema = pk_schema.table_schema
+        JOIN information_schema.key_column_usage fk_col
+          ON fk_schema.constraint_name = fk_col.constraint_name AND fk_schema.table_schema = fk_col.table_schema
+        JOIN information_schema.key_column_usage pk_col
+          ON pk_schema.constraint_name = pk_col.constraint_name AND pk_schema.table_schema = pk_col.table_schema
+          AND fk_col.ordinal_position = pk_col.ordinal_position
+        WHERE fk_schema.constraint_type = 'FOREIGN KEY'
+          AND fk_schema.table_schema NOT IN (${schemaList})
+          AND pk_schema.table_schema NOT IN (${schemaList})
+        ORDER BY fk_schema.table_schema, fk_schema.table_name, fk_col.column_name
+      `),
+      pool.request().query(`
+        SELECT r.routine_schema, r.routine_name, r.routine_type,
+               r.data_type as return_type, r.specific_name
+        FROM information_schema.routines r
+        WHERE r.routine_schema NOT IN (${schemaList})
+        ORDER BY r.routine_schema, r.routine_name
+      `),
+      pool.request().query(`
+        SELECT p.specific_schema, p.specific_name, p.parameter_name,
+               p.data_type, p.parameter_mode, p.ordinal_position
+        FROM information_schema.parameters p
+        WHERE p.specific_schema NOT IN (${schemaList})
+          AND p.parameter_name IS NOT NULL
+        ORDER BY p.specific_schema, p.specific_name, p.ordinal_position
+      `)
+    ])
+
+    // Build parameters lookup map
+    const paramsMap = new Map<string, RoutineParameterInfo[]>()
+    for (const row of paramsResult.recordset) {
+      const key = `${row.specific_schema}.${row.specific_name}`
+      if (!paramsMap.has(key)) {
+        paramsMap.set(key, [])
       }
+      paramsMap.get(key)!.push({
+        name: row.parameter_name || '',
+        dataType: row.data_type,
+        mode: (row.parameter_mode?.toUpperCase() || 'IN') as 'IN' | 'OUT' | 'INOUT',
+        ordinalPosition: row.ordinal_position
+      })
+    }
 
-      // Build routines lookup map
-      const routinesMap = new Map<string, RoutineInfo[]>()
-      for (const row of routinesResult.recordset) {
-        if (!routinesMap.has(row.routine_schema)) {
-          routinesMap.set(row.routine_schema, [])
-        }
-        const paramsKey = `${row.routine_schema}.${row.specific_name}`
-        const routineParams = paramsMap.get(paramsKey) || []
-
-        routinesMap.get(row.routine_schema)!.push({
-          name: row.routine_name,
-          type: row.routine_type === 'PROCEDURE' ? 'procedure' : 'function',
-          returnType: row.return_type || undefined,
-          parameters: routineParams
-        })
+    // Build routines lookup map
+    const routinesMap = new Map<string, RoutineInfo[]>()
+    for (const row of routinesResult.recordset) {
+      if (!routinesMap.has(row.routine_schema)) {
+        routinesMap.set(row.routine_schema, [])
       }
+      const paramsKey = `${row.routine_schema}.${row.specific_name}`
+      const routineParams = paramsMap.get(paramsKey) || []
+
+      routinesMap.get(row.routine_schema)!.push({
+        name: row.routine_name,
+        type: row.routine_type === 'PROCEDURE' ? 'procedure' : 'function',
+        returnType: row.return_type || undefined,
+        parameters: routineParams
+      })
+    }
 
-      // Build schema structure
-      const schemaMap = new Map<string, SchemaInfo>()
-
-      // Initialize schemas
-      for (const row of schemasResult.recordset) {
-        schemaMap.set(row.schema_name, {
-          name: row.schema_name,
-          tables: [],
-          routines: routinesMap.get(row.schema_name) || []
-        })
-      }
+    // Build schema structure
+    const schemaMap = new Map<string, SchemaInfo>()
 
-      // Build tables map
-      const tableMap = new Map<string, TableInfo>()
-      for (const row of tablesResult.recordset) {
-        const tableKey = `${row.table_schema}.${row.table_name}`
-        const table: TableInfo = {
-          name: row.table_name,
-          type: row.table_type === 'VIEW' ? 'view' : 'table',
-          columns: []
-        }
-        tableMap.set(tableKey, table)
+    // Initialize schemas
+    for (const row of schemasResult.recordset) {
+      schemaMap.set(row.schema_name, {
+        name: row.schema_name,
+        tables: [],
+        routines: routinesMap.get(row.schema_name) || []
+      })
+    }
 
-        const schema = schemaMap.get(row.table_schema)
-        if (schema) {
-          schema.tables.push(table)
-        }
+    // Build tables map
+    const tableMap = new Map<string, TableInfo>()
+    for (const row of tablesResult.recordset) {
+      const tableKey = `${row.table_schema}.${row.table_name}`
+      const table: TableInfo = {
+        name: row.table_name,
+        type: row.table_type === 'VIEW' ? 'view' : 'table',
+        columns: []
       }
+      tableMap.set(tableKey, table)
 
-      // Build foreign key lookup map - only include FKs where both source and target tables exist
-      const fkMap = new Map<string, ForeignKeyInfo>()
-      for (const row of foreignKeysResult.recordset) {
-        const sourceTableKey = `${row.table_schema}.${row.table_name}`
-        const targetTableKey = `${row.referenced_schema}.${row.referenced_table}`
-
-        // Only include FK if both source and target tables exist in our table map
-        if (tableMap.has(sourceTableKey) && tableMap.has(targetTableKey)) {
-          const key = `${row.table_schema}.${row.table_name}.${row.column_name}`
-          fkMap.set(key, {
-            constraintName: row.constraint_name,
-            referencedSchema: row.referenced_schema,
-            referencedTable: row.referenced_table,
-            referencedColumn: row.referenced_column
-          })
-        }
+      const schema = schemaMap.get(row.table_schema)
+      if (schema) {
+        schema.tables.push(table)
       }
+    }
 
-      for (const row of columnsResult.recordset) {
-        const table = tableMap.get(`${row.table_schema}.${row.table_name}`)
-        if (!table) continue
-
-        let dataType = row.data_type
-        if (row.character_maximum_length) {
-          dataType = `${row.data_type}(${row.character_maximum_length})`
-        } else if (row.numeric_precision && row.numeric_scale) {
-          dataType = `${row.data_type}(${row.numeric_precision},${row.numeric_scale})`
-        } else if (row.numeric_precision) {
-          dataType = `${row.data_type}(${row.numeric_precision})`
-        }
-
-        table.columns.push({
-          name: row.column_name,
-          dataType,
-          isNullable: row.is_nullable === 'YES',
-          isPrimaryKey: row.is_primary_key === 1,
-          defaultValue: row.column_default || undefined,
-          ordinalPosition: row.ordinal_position,
-          foreignKey: fkMap.get(`${row.table_schema}.${row.table_name}.${row.column_name}`)
+    // Build foreign key lookup map - only include FKs where both source and target tables exist
+    const fkMap = new Map<string, ForeignKeyInfo>()
+    for (const row of foreignKeysResult.recordset) {
+      const sourceTableKey = `${row.table_schema}.${row.table_name}`
+      const targetTableKey = `${row.referenced_schema}.${row.referenced_table}`
+
+      // Only include FK if both source and target tables exist in our table map
+      if (tableMap.has(sourceTableKey) && tableMap.has(targetTableKey)) {
+        const key = `${row.table_schema}.${row.table_name}.${row.column_name}`
+        fkMap.set(key, {
+          constraintName: row.constraint_name,
+          referencedSchema: row.referenced_schema,
+          referencedTable: row.referenced_table,
+          referencedColumn: row.referenced_column
         })
       }
+    }
 
-      return Array.from(schemaMap.values())
-    } finally {
-      await pool.close()
+    for (const row of columnsResult.recordset) {
+      const table = tableMap.get(`${row.table_schema}.${row.table_name}`)
+      if (!table) continue
+
+      let dataType = row.data_type
+      if (row.character_maximum_length) {
+        dataType = `${row.data_type}(${row.character_maximum_length})`
+      } else if (row.numeric_precision && row.numeric_scale) {
+        dataType = `${row.data_type}(${row.numeric_precision},${row.numeric_scale})`
+      } else if (row.numeric_precision) {
+        dataType = `${row.data_type}(${row.numeric_precision})`
+      }
+
+      table.columns.push({
+        name: row.column_name,
+        dataType,
+        isNullable: row.is_nullable === 'YES',
+        isPrimaryKey: row.is_primary_key === 1,
+        defaultValue: row.column_default || undefined,
+        ordinalPosition: row.ordinal_position,
+        foreignKey: fkMap.get(`${row.table_schema}.${row.table_name}.${row.column_name}`)
+      })
     }
+
+    return Array.from(schemaMap.values())
   }
 
   async explain(
@@ -750,50 +1001,45 @@ export class MSSQLAdapter implements DatabaseAdapter {
     sqlQuery: string,
     analyze: boolean
   ): Promise<ExplainResult> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
+    // SHOWPLAN/STATISTICS settings are per session, so use a dedicated single connection
+    // instead of the shared pool where each request may land on a different connection
+    const pool = new sql.ConnectionPool({ ...toMSSQLConfig(config), pool: { max: 1 } })
     await pool.connect()
 
     try {
       const start = Date.now()
 
+      // STATISTICS XML runs the statement and adds the actual plan as an extra result
+      // set; SHOWPLAN_XML only returns the estimated plan (doesn't execute)
+      const setting = analyze ? 'STATISTICS XML' : 'SHOWPLAN_XML'
+
+      // Executed statements run in a transaction that is always rolled back, so
+      // analyzing a write doesn't keep its changes
       if (analyze) {
-        // Use SET STATISTICS XML ON for actual execution plan
-        await pool.request().query('SET STATISTICS XML ON')
-        const result = await pool.request().query(sqlQuery)
-        await pool.request().query('SET STATISTICS XML OFF')
-
-        // Extract XML plan from result
-        const plan = result.recordset.find((row: Record<string, unknown>) => {
-          const keys = Object.keys(row)
-          return keys.some(
-            (k) => k.toLowerCase().includes('executionplan') || k.toLowerCase().includes('xml')
-          )
-        })
+        await pool.request().query('BEGIN TRANSACTION')
+      }
 
-        return {
-          plan: plan || result.recordset,
-          durationMs: Date.now() - start
-        }
-      } else {
-        // Use SET SHOWPLAN_XML ON for estimated plan (doesn't execute)
-        await pool.request().query('SET SHOWPLAN_XML ON')
-        const result = await pool.request().query(sqlQuery)
-        await pool.request().query('SET SHOWPLAN_XML OFF')
-
-        // Extract XML plan from result
-        const plan = result.recordset.find((row: Record<string, unknown>) => {
-          const keys = Object.keys(row)
-          return keys.some(
-            (k) => k.toLowerCase().includes('executionplan') || k.toLowerCase().includes('xml')
-          )
-        })
+      await pool.request().query(`SET ${setting} ON`)
+      const result = await pool.request().query(sqlQuery)
+      await pool.request().query(`SET ${setting} OFF`)
 
-        return {
-          plan: plan || result.recordset,
-          durationMs: Date.now() - start
-        }
+      const recordsets = result.recordsets as unknown as Array<Record<string, unknown>[]>
+      const xml = findShowplanXml(recordsets)
+      if (!xml) {
+        throw new Error('SQL Server did not return an execution plan')
+      }
+
+      return {
+        plan: { ...normalizeMSSQLPlan(xml), rolledBack: analyze && isDataModifying(sqlQuery) },
+        durationMs: Date.now() - start
       }
     } finally {
+      if (analyze) {
+        await pool
+          .request()
+          .query('IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION')
+          .catch(() => {})
+      }
       await pool.close()
     }
   }
@@ -803,265 +1049,562 @@ export class MSSQLAdapter implements DatabaseAdapter {
     schema: string,
     table: string
   ): Promise<TableDefinition> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
-
-    try {
-      // Query columns with full metadata
-      const columnsResult = await pool
-        .request()
-        .input('schema', sql.NVarChar, schema)
-        .input('table', sql.NVarChar, table).query(`
-        SELECT
-          c.column_name,
-          c.data_type,
-          c.is_nullable,
-          c.column_default,
-          c.ordinal_position,
-          c.character_maximum_length,
-          c.numeric_precision,
-          c.numeric_scale,
-          c.collation_name,
-          CASE WHEN pk.column_name IS NOT NULL THEN 1 ELSE 0 END as is_primary_key,
-          ep.value as column_comment
-        FROM information_schema.columns c
-        LEFT JOIN (
-          SELECT kcu.column_name
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          WHERE tc.constraint_type = 'PRIMARY KEY'
-            AND tc.table_schema = @schema
-            AND tc.table_name = @table
-        ) pk ON c.column_name = pk.column_name
-        LEFT JOIN sys.extended_properties ep
-          ON ep.major_id = OBJECT_ID(QUOTENAME(@schema) + '.' + QUOTENAME(@table))
-          AND ep.minor_id = c.ordinal_position
-          AND ep.name = 'MS_Description'
-        WHERE c.table_schema = @schema AND c.table_name = @table
-        ORDER BY c.ordinal_position
-      `)
-
-      // Query constraints
-      const constraintsResult = await pool
-        .request()
-        .input('schema', sql.NVarChar, schema)
-        .input('table', sql.NVarChar, table).query(`
-        SELECT
-          tc.constraint_name,
-          tc.constraint_type,
-          kcu.column_name,
-          ccu.table_schema AS ref_schema,
-          ccu.table_name AS ref_table,
-          ccu.column_name AS ref_column,
-          rc.update_rule,
-          rc.delete_rule,
-          cc.check_clause
+    const pool = await getMSSQLPool(config)
+
+    // Query columns with full metadata
+    const columnsResult = await pool
+      .request()
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, table).query(`
+      SELECT
+        c.column_name,
+        c.data_type,
+        c.is_nullable,
+        c.column_default,
+        c.ordinal_position,
+        c.character_maximum_length,
+        c.numeric_precision,
+        c.numeric_scale,
+        c.collation_name,
+        CASE WHEN pk.column_name IS NOT NULL THEN 1 ELSE 0 END as is_primary_key,
+        ep.value as column_comment
+      FROM information_schema.columns c
+      LEFT JOIN (
+        SELECT kcu.column_name
         FROM information_schema.table_constraints tc
-        LEFT JOIN information_schema.key_column_usage kcu
+        JOIN information_schema.key_column_usage kcu
           ON tc.constraint_name = kcu.constraint_name
           AND tc.table_schema = kcu.table_schema
-        LEFT JOIN information_schema.constraint_column_usage ccu
-          ON tc.constraint_name = ccu.constraint_name
-          AND tc.constraint_type = 'FOREIGN KEY'
-        LEFT JOIN information_schema.referential_constraints rc
-          ON tc.constraint_name = rc.constraint_name
-        LEFT JOIN information_schema.check_constraints cc
-          ON tc.constraint_name = cc.constraint_name
-        WHERE tc.table_schema = @schema AND tc.table_name = @table
-        ORDER BY tc.constraint_name, kcu.ordinal_position
-      `)
+        WHERE tc.constraint_type = 'PRIMARY KEY'
+          AND tc.table_schema = @schema
+          AND tc.table_name = @table
+      ) pk ON c.column_name = pk.column_name
+      LEFT JOIN sys.extended_properties ep
+        ON ep.major_id = OBJECT_ID(QUOTENAME(@schema) + '.' + QUOTENAME(@table))
+        AND ep.minor_id = c.ordinal_position
+        AND ep.name = 'MS_Description'
+      WHERE c.table_schema = @schema AND c.table_name = @table
+      ORDER BY c.ordinal_position
+    `)
+
+    // Query constraints
+    const constraintsResult = await pool
+      .request()
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, table).query(`
+      SELECT
+        tc.constraint_name,
+        tc.constraint_type,
+        kcu.column_name,
+        ccu.table_schema AS ref_schema,
+        ccu.table_name AS ref_table,
+        ccu.column_name AS ref_column,
+        rc.update_rule,
+        rc.delete_rule,
+        cc.check_clause
+      FROM information_schema.table_constraints tc
+      LEFT JOIN information_schema.key_column_usage kcu
+        ON tc.constraint_name = kcu.constraint_name
+        AND tc.table_schema = kcu.table_schema
+      LEFT JOIN information_schema.constraint_column_usage ccu
+        ON tc.constraint_name = ccu.constraint_name
+        AND tc.constraint_type = 'FOREIGN KEY'
+      LEFT JOIN information_schema.referential_constraints rc
+        ON tc.constraint_name = rc.constraint_name
+      LEFT JOIN information_schema.check_constraints cc
+        ON tc.constraint_name = cc.constraint_name
+      WHERE tc.table_schema = @schema AND tc.table_name = @table
+      ORDER BY tc.constraint_name, kcu.ordinal_position
+    `)
+
+    // Query indexes
+    const indexesResult = await pool
+      .request()
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, table).query(`
+      SELECT
+        i.name as index_name,
+        i.is_unique,
+        i.type_desc as index_type,
+        STRING_AGG(c.name, ', ') WITHIN GROUP (ORDER BY ic.key_ordinal) as columns
+      FROM sys.indexes i
+      JOIN sys.index_columns ic ON i.object_id = ic.object_id AND i.index_id = ic.index_id
+      JOIN sys.columns c ON ic.object_id = c.object_id AND ic.column_id = c.column_id
+      JOIN sys.tables t ON i.object_id = t.object_id
+      JOIN sys.schemas s ON t.schema_id = s.schema_id
+      WHERE s.name = @schema AND t.name = @table
+        AND i.is_primary_key = 0
+      GROUP BY i.name, i.is_unique, i.type_desc
+    `)
+
+    // Query table comment
+    const tableCommentResult = await pool
+      .request()
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, table).query(`
+      SELECT ep.value as comment
+      FROM sys.extended_properties ep
+      JOIN sys.tables t ON ep.major_id = t.object_id
+      JOIN sys.schemas s ON t.schema_id = s.schema_id
+      WHERE s.name = @schema AND t.name = @table
+        AND ep.minor_id = 0
+        AND ep.name = 'MS_Description'
+    `)
+
+    // Build TableDefinition
+    const columns: ColumnDefinition[] = columnsResult.recordset.map((row, idx) => ({
+      id: `col-${idx}`,
+      name: row.column_name,
+      dataType: row.data_type,
+      length: row.character_maximum_length || undefined,
+      precision: row.numeric_precision || undefined,
+      scale: row.numeric_scale || undefined,
+      isNullable: row.is_nullable === 'YES',
+      isPrimaryKey: row.is_primary_key === 1,
+      isUnique: false, // Will be set from constraints
+      defaultValue: row.column_default || undefined,
+      comment: row.column_comment || undefined,
+      collation: row.collation_name || undefined
+    }))
+
+    // Build constraints from query results
+    const constraintMap = new Map<
+      string,
+      {
+        type: string
+        columns: string[]
+        refSchema?: string
+        refTable?: string
+        refColumns?: string[]
+        onUpdate?: string
+        onDelete?: string
+        checkExpression?: string
+      }
+    >()
+
+    for (const row of constraintsResult.recordset) {
+      const key = row.constraint_name
+      if (!constraintMap.has(key)) {
+        constraintMap.set(key, {
+          type: row.constraint_type,
+          columns: [],
+          refSchema: row.ref_schema,
+          refTable: row.ref_table,
+          refColumns: [],
+          onUpdate: row.update_rule,
+          onDelete: row.delete_rule,
+          checkExpression: row.check_clause
+        })
+      }
+      const constraint = constraintMap.get(key)!
+      if (row.column_name && !constraint.columns.includes(row.column_name)) {
+        constraint.columns.push(row.column_name)
+      }
+      if (row.ref_column && !constraint.refColumns!.includes(row.ref_column)) {
+        constraint.refColumns!.push(row.ref_column)
+      }
+    }
 
-      // Query indexes
-      const indexesResult = await pool
-        .request()
-        .input('schema', sql.NVarChar, schema)
-        .input('table', sql.NVarChar, table).query(`
-        SELECT
-          i.name as index_name,
-          i.is_unique,
-          i.type_desc as index_type,
-          STRING_AGG(c.name, ', ') WITHIN GROUP (ORDER BY ic.key_ordinal) as columns
-        FROM sys.indexes i
-        JOIN sys.index_columns ic ON i.object_id = ic.object_id AND i.index_id = ic.index_id
-        JOIN sys.columns c ON ic.object_id = c.object_id AND ic.column_id = c.column_id
-        JOIN sys.tables t ON i.object_id = t.object_id
-        JOIN sys.schemas s ON t.schema_id = s.schema_id
-        WHERE s.name = @schema AND t.name = @table
-          AND i.is_primary_key = 0
-        GROUP BY i.name, i.is_unique, i.type_desc
-      `)
+    const constraints: ConstraintDefinition[] = []
+    let constraintIdx = 0
+    for (const [name, data] of constraintMap) {
+      // Skip primary key (handled at column level)
+      if (data.type === 'PRIMARY KEY') continue
+
+      const constraintDef: ConstraintDefinition = {
+        id: `constraint-${constraintIdx++}`,
+        name,
+        type:
+          data.type === 'FOREIGN KEY'
+            ? 'foreign_key'
+            : data.type === 'UNIQUE'
+              ? 'unique'
+              : data.type === 'CHECK'
+                ? 'check'
+                : 'unique',
+        columns: data.columns
+      }
 
-      // Query table comment
-      const tableCommentResult = await pool
-        .request()
-        .input('schema', sql.NVarChar, schema)
-        .input('table', sql.NVarChar, table).query(`
-        SELECT ep.value as comment
-        FROM sys.extended_properties ep
-        JOIN sys.tables t ON ep.major_id = t.object_id
-        JOIN sys.schemas s ON t.schema_id = s.schema_id
-        WHERE s.name = @schema AND t.name = @table
-          AND ep.minor_id = 0
-          AND ep.name = 'MS_Description'
-      `)
+      if (data.type === 'FOREIGN KEY') {
+        constraintDef.referencedSchema = data.refSchema
+        constraintDef.referencedTable = data.refTable
+        constraintDef.referencedColumns = data.refColumns
+        constraintDef.onUpdate = data.onUpdate as ConstraintDefinition['onUpdate']
+        constraintDef.onDelete = data.onDelete as ConstraintDefinition['onDelete']
+      }
 
-      // Build TableDefinition
-      const columns: ColumnDefinition[] = columnsResult.recordset.map((row, idx) => ({
-        id: `col-${idx}`,
-        name: row.column_name,
-        dataType: row.data_type,
-        length: row.character_maximum_length || undefined,
-        precision: row.numeric_precision || undefined,
-        scale: row.numeric_scale || undefined,
-        isNullable: row.is_nullable === 'YES',
-        isPrimaryKey: row.is_primary_key === 1,
-        isUnique: false, // Will be set from constraints
-        defaultValue: row.column_default || undefined,
-        comment: row.column_comment || undefined,
-        collation: row.collation_name || undefined
-      }))
-
-      // Build constraints from query results
-      const constraintMap = new Map<
-        string,
-        {
-          type: string
-          columns: string[]
-          refSchema?: string
-          refTable?: string
-          refColumns?: string[]
-          onUpdate?: string
-          onDelete?: string
-          checkExpression?: string
-        }
-      >()
-
-      for (const row of constraintsResult.recordset) {
-        const key = row.constraint_name
-        if (!constraintMap.has(key)) {
-          constraintMap.set(key, {
-            type: row.constraint_type,
-            columns: [],
-            refSchema: row.ref_schema,
-            refTable: row.ref_table,
-            refColumns: [],
-            onUpdate: row.update_rule,
-            onDelete: row.delete_rule,
-            checkExpression: row.check_clause
-          })
-        }
-        const constraint = constraintMap.get(key)!
-        if (row.column_name && !constraint.columns.includes(row.column_name)) {
-          constraint.columns.push(row.column_name)
-        }
-        if (row.ref_column && !constraint.refColumns!.includes(row.ref_column)) {
-          constraint.refColumns!.push(row.ref_column)
-        }
+      if (data.type === 'CHECK') {
+        constraintDef.checkExpression = data.checkExpression
       }
 
-      const constraints: ConstraintDefinition[] = []
-      let constraintIdx = 0
-      for (const [name, data] of constraintMap) {
-        // Skip primary key (handled at column level)
-        if (data.type === 'PRIMARY KEY') continue
-
-        const constraintDef: ConstraintDefinition = {
-          id: `constraint-${constraintIdx++}`,
-          name,
-          type:
-            data.type === 'FOREIGN KEY'
-              ? 'foreign_key'
-              : data.type === 'UNIQUE'
-                ? 'unique'
-                : data.type === 'CHECK'
-                  ? 'check'
-                  : 'unique',
-          columns: data.columns
-        }
+      // Mark columns as unique for UNIQUE constraints
+      if (data.type === 'UNIQUE' && data.columns.length === 1) {
+        const col = columns.find((c) => c.name === data.columns[0])
+        if (col) col.isUnique = true
+      }
 
-        if (data.type === 'FOREIGN KEY') {
-          constraintDef.referencedSchema = data.refSchema
-          constraintDef.referencedTable = data.refTable
-          constraintDef.referencedColumns = data.refColumns
-          constraintDef.onUpdate = data.onUpdate as ConstraintDefinition['onUpdate']
-          constraintDef.onDelete = data.onDelete as ConstraintDefinition['onDelete']
+      constraints.push(constraintDef)
+    }
+
+    // Build indexes
+    const indexes: IndexDefinition[] = indexesResult.recordset.map((row, idx) => {
+      const columnsArray = row.columns ? row.columns.split(', ').filter((c: string) => c) : []
+
+      return {
+        id: `index-${idx}`,
+        name: row.index_name,
+        columns: columnsArray.map((c: string) => ({ name: c.trim() })),
+        isUnique: row.is_unique,
+        method: 'btree' // MSSQL doesn't expose index method in the same way
+      }
+    })
+
+    return {
+      schema,
+      name: table,
+      columns,
+      constraints,
+      indexes,
+      comment: tableCommentResult.recordset[0]?.comment || undefined
+    }
+  }
+
+  async getSequences(config: ConnectionConfig): Promise<SequenceInfo[]> {
+    const pool = await getMSSQLPool(config)
+
+    // Sequence values are sql_variant, so read them as text
+    const result = await pool.request().query(`
+      SELECT
+        s.name AS schema_name,
+        seq.name,
+        TYPE_NAME(seq.user_type_id) AS data_type,
+        CAST(seq.start_value AS NVARCHAR(40)) AS start_value,
+        CAST(seq.increment AS NVARCHAR(40)) AS increment
+      FROM sys.sequences seq
+      JOIN sys.schemas s ON s.schema_id = seq.schema_id
+      ORDER BY s.name, seq.name
+    `)
+
+    return result.recordset.map((row) => ({
+      schema: row.schema_name,
+      name: row.name,
+      dataType: row.data_type,
+      startValue: row.start_value,
+      increment: row.increment
+    }))
+  }
+
+  async getTypes(config: ConnectionConfig): Promise<CustomTypeInfo[]> {
+    const pool = await getMSSQLPool(config)
+
+    // Get user-defined types from sys.types
+    const typesResult = await pool.request().query(`
+      SELECT
+        s.name as schema_name,
+        t.name as type_name,
+        t.is_user_defined,
+        t.is_table_type
+      FROM sys.types t
+      JOIN sys.schemas s ON t.schema_id = s.schema_id
+      WHERE t.is_user_defined = 1
+        AND s.name NOT IN ('sys', 'INFORMATION_SCHEMA')
+      ORDER BY s.name, t.name
+    `)
+
+    // MSSQL doesn't have enum types like PostgreSQL
+    // User-defined types are typically table types or aliases
+    return typesResult.recordset.map((row) => ({
+      schema: row.schema_name,
+      name: row.type_name,
+      type: 'composite' as const // Treat as composite for now
+    }))
+  }
+
+  async getIndexes(config: ConnectionConfig): Promise<IndexInfo[]> {
+    const pool = await getMSSQLPool(config)
+    const schemaList = SYSTEM_SCHEMAS.map((s) => `'${s}'`).join(', ')
+
+    // One row per key column; heaps have an unnamed entry in sys.indexes
+    const result = await pool.request().query(`
+      SELECT
+        s.name AS schema_name,
+        o.name AS table_name,
+        i.name AS index_name,
+        i.is_unique,
+        i.is_primary_key,
+        c.name AS column_name
+      FROM sys.indexes i
+      JOIN sys.objects o ON o.object_id = i.object_id
+      JOIN sys.schemas s ON s.schema_id = o.schema_id
+      JOIN sys.index_columns ic
+        ON ic.object_id = i.object_id
+        AND ic.index_id = i.index_id
+        AND ic.is_included_column = 0
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE i.name IS NOT NULL
+        AND o.type IN ('U', 'V')
+        AND o.is_ms_shipped = 0
+        AND s.name NOT IN (${schemaList})
+      ORDER BY s.name, o.name, i.name, ic.key_ordinal, ic.index_column_id
+    `)
+
+    const indexMap = new Map<string, IndexInfo>()
+    for (const row of result.recordset) {
+      const key = `${row.schema_name}.${row.table_name}.${row.index_name}`
+      let index = indexMap.get(key)
+      if (!index) {
+        index = {
+          schema: row.schema_name,
+          name: row.index_name,
+          table: row.table_name,
+          columns: [],
+          isUnique: row.is_unique,
+          isPrimary: row.is_primary_key
         }
+        indexMap.set(key, index)
+      }
+      index.columns.push(row.column_name)
+    }
 
-        if (data.type === 'CHECK') {
-          constraintDef.checkExpression = data.checkExpression
+    return Array.from(indexMap.values())
+  }
+
+  async getTriggers(config: ConnectionConfig): Promise<TriggerInfo[]> {
+    const pool = await getMSSQLPool(config)
+    const schemaList = SYSTEM_SCHEMAS.map((s) => `'${s}'`).join(', ')
+
+    // DML triggers only (parent_class 1); database-level DDL triggers have no table
+    const result = await pool.request().query(`
+      SELECT
+        s.name AS schema_name,
+        tr.name AS trigger_name,
+        o.name AS table_name,
+        tr.is_instead_of_trigger,
+        te.type_desc AS event
+      FROM sys.triggers tr
+      JOIN sys.objects o ON o.object_id = tr.parent_id
+      JOIN sys.schemas s ON s.schema_id = o.schema_id
+      JOIN sys.trigger_events te ON te.object_id = tr.object_id
+      WHERE tr.parent_class = 1
+        AND tr.is_ms_shipped = 0
+        AND s.name NOT IN (${schemaList})
+      ORDER BY s.name, o.name, tr.name, te.type
+    `)
+
+    const triggerMap = new Map<string, TriggerInfo>()
+    for (const row of result.recordset) {
+      const key = `${row.schema_name}.${row.trigger_name}`
+      let trigger = triggerMap.get(key)
+      if (!trigger) {
+        trigger = {
+          schema: row.schema_name,
+          name: row.trigger_name,
+          table: row.table_name,
+          timing: row.is_instead_of_trigger ? 'INSTEAD OF' : 'AFTER',
+          events: []
         }
+        triggerMap.set(key, trigger)
+      }
+      trigger.events.push(row.event)
+    }
 
-        // Mark columns as unique for UNIQUE constraints
-        if (data.type === 'UNIQUE' && data.columns.length === 1) {
-          const col = columns.find((c) => c.name === data.columns[0])
-          if (col) col.isUnique = true
+    return Array.from(triggerMap.values())
+  }
+
+  async getObjectDefinition(config: ConnectionConfig, object: SchemaObjectRef): Promise<string> {
+    const pool = await getMSSQLPool(config)
+    const qualifiedName = `${quoteIdentifier(object.schema, '[')}.${quoteIdentifier(object.name, '[')}`
+
+    switch (object.kind) {
+      case 'view':
+      case 'trigger': {
+        // DML triggers live in their table's schema
+        const result = await pool
+          .request()
+          .input('name', sql.NVarChar, qualifiedName)
+          .query('SELECT OBJECT_DEFINITION(OBJECT_ID(@name)) AS definition')
+        const definition = result.recordset[0]?.definition
+        if (!definition) break
+        return definition
+      }
+
+      case 'index': {
+        // Index names are only unique per table
+        const result = await pool
+          .request()
+          .input('schema', sql.NVarChar, object.schema)
+          .input('name', sql.NVarChar, object.name)
+          .input('table', sql.NVarChar, object.table ?? null).query(`
+            SELECT
+              o.name AS table_name,
+              i.type_desc,
+              i.is_unique,
+              i.is_primary_key,
+              i.is_unique_constraint,
+              i.filter_definition,
+              c.name AS column_name,
+              ic.is_descending_key,
+              ic.is_included_column
+            FROM sys.indexes i
+            JOIN sys.objects o ON o.object_id = i.object_id
+            JOIN sys.schemas s ON s.schema_id = o.schema_id
+            JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+            JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+            WHERE s.name = @schema AND i.name = @name AND (@table IS NULL OR o.name = @table)
+            ORDER BY o.name, ic.is_included_column, ic.key_ordinal, ic.index_column_id
+          `)
+        const rows = result.recordset.filter(
+          (row) => row.table_name === result.recordset[0]?.table_name
+        )
+        if (rows.length === 0) break
+
+        const [first] = rows
+        const tableName = `${quoteIdentifier(object.schema, '[')}.${quoteIdentifier(first.table_name, '[')}`
+        const indexName = quoteIdentifier(object.name, '[')
+        const kind = first.type_desc === 'CLUSTERED' ? 'CLUSTERED' : 'NONCLUSTERED'
+        const keyColumns = rows
+          .filter((row) => !row.is_included_column)
+          .map(
+            (row) =>
+              `${quoteIdentifier(row.column_name, '[')} ${row.is_descending_key ? 'DESC' : 'ASC'}`
+          )
+          .join(', ')
+
+        if (first.is_primary_key || first.is_unique_constraint) {
+          const constraint = first.is_primary_key ? 'PRIMARY KEY' : 'UNIQUE'
+          return `ALTER TABLE ${tableName} ADD CONSTRAINT ${indexName} ${constraint} ${kind} (${keyColumns});`
         }
 
-        constraints.push(constraintDef)
+        const lines = [
+          `CREATE ${first.is_unique ? 'UNIQUE ' : ''}${kind} INDEX ${indexName} ON ${tableName} (${keyColumns})`
+        ]
+        const included = rows.filter((row) => row.is_included_column)
+        if (included.length > 0) {
+          const includeColumns = included.map((row) => quoteIdentifier(row.column_name, '['))
+          lines.push(`INCLUDE (${includeColumns.join(', ')})`)
+        }
+        if (first.filter_definition) {
+          lines.push(`WHERE ${first.filter_definition}`)
+        }
+        return `${lines.join('\n')};`
       }
 
-      // Build indexes
-      const indexes: IndexDefinition[] = indexesResult.recordset.map((row, idx) => {
-        const columnsArray = row.columns ? row.columns.split(', ').filter((c: string) => c) : []
+      case 'sequence': {
+        const result = await pool
+          .request()
+          .input('schema', sql.NVarChar, object.schema)
+          .input('name', sql.NVarChar, object.name).query(`
+            SELECT
+              TYPE_NAME(seq.user_type_id) AS data_type,
+              CAST(seq.start_value AS NVARCHAR(40)) AS start_value,
+              CAST(seq.increment AS NVARCHAR(40)) AS increment,
+              CAST(seq.minimum_value AS NVARCHAR(40)) AS minimum_value,
+              CAST(seq.maximum_value AS NVARCHAR(40)) AS maximum_value,
+              seq.is_cycling,
+              seq.is_cached,
+              seq.cache_size
+            FROM sys.sequences seq
+            JOIN sys.schemas s ON s.schema_id = seq.schema_id
+            WHERE s.name = @schema AND seq.name = @name
+          `)
+        const row = result.recordset[0]
+        if (!row) break
+
+        const cache = !row.is_cached
+          ? 'NO CACHE'
+          : row.cache_size !== null
+            ? `CACHE ${row.cache_size}`
+            : 'CACHE'
+        return [
+          `CREATE SEQUENCE ${qualifiedName}`,
+          `  AS ${row.data_type}`,
+          `  START WITH ${row.start_value}`,
+          `  INCREMENT BY ${row.increment}`,
+          `  MINVALUE ${row.minimum_value}`,
+          `  MAXVALUE ${row.maximum_value}`,
+          `  ${row.is_cycling ? 'CYCLE' : 'NO CYCLE'}`,
+          `  ${cache};`
+        ].join('\n')
+      }
 
-        return {
-          id: `index-${idx}`,
-          name: row.index_name,
-          columns: columnsArray.map((c: string) => ({ name: c.trim() })),
-          isUnique: row.is_unique,
-          method: 'btree' // MSSQL doesn't expose index method in the same way
+      case 'type': {
+        const typeResult = await pool
+          .request()
+          .input('schema', sql.NVarChar, object.schema)
+          .input('name', sql.NVarChar, object.name).query(`
+            SELECT
+              t.is_table_type,
+              t.is_nullable,
+              TYPE_NAME(t.system_type_id) AS base_type,
+              t.max_length,
+              t.precision,
+              t.scale,
+              tt.type_table_object_id
+            FROM sys.types t
+            JOIN sys.schemas s ON s.schema_id = t.schema_id
+            LEFT JOIN sys.table_types tt ON tt.user_type_id = t.user_type_id
+            WHERE t.is_user_defined = 1 AND s.name = @schema AND t.name = @name
+          `)
+        const type = typeResult.recordset[0]
+        if (!type) break
+
+        if (!type.is_table_type) {
+          const baseType = formatTypeName(
+            type.base_type,
+            type.max_length,
+            type.precision,
+            type.scale
+          )
+          return `CREATE TYPE ${qualifiedName} FROM ${baseType} ${type.is_nullable ? 'NULL' : 'NOT NULL'};`
         }
-      })
 
-      return {
-        schema,
-        name: table,
-        columns,
-        constraints,
-        indexes,
-        comment: tableCommentResult.recordset[0]?.comment || undefined
+        const columnsResult = await pool
+          .request()
+          .input('objectId', sql.Int, type.type_table_object_id).query(`
+            SELECT c.name, TYPE_NAME(c.user_type_id) AS type_name, c.max_length, c.precision, c.scale, c.is_nullable
+            FROM sys.columns c
+            WHERE c.object_id = @objectId
+            ORDER BY c.column_id
+          `)
+        const columns = columnsResult.recordset.map(
+          (column) =>
+            `  ${quoteIdentifier(column.name, '[')} ${formatTypeName(
+              column.type_name,
+              column.max_length,
+              column.precision,
+              column.scale
+            )} ${column.is_nullable ? 'NULL' : 'NOT NULL'}`
+        )
+        return `CREATE TYPE ${qualifiedName} AS TABLE (\n${columns.join(',\n')}\n);`
       }
-    } finally {
-      await pool.close()
+
+      default:
+        throw new Error(`SQL Server has no ${object.kind} objects`)
     }
-  }
 
-  async getSequences(): Promise<SequenceInfo[]> {
-    // MSSQL uses IDENTITY columns instead of sequences
-    // Return empty array as sequences are a PostgreSQL concept
-    return []
+    throw new Error(`${object.name} was not found in schema ${object.schema}`)
   }
 
-  async getTypes(config: ConnectionConfig): Promise<CustomTypeInfo[]> {
-    const pool = new sql.ConnectionPool(toMSSQLConfig(config))
-    await pool.connect()
-
-    try {
-      // Get user-defined types from sys.types
-      const typesResult = await pool.request().query(`
-        SELECT
-          s.name as schema_name,
-          t.name as type_name,
-          t.is_user_defined,
-          t.is_table_type
-        FROM sys.types t
-        JOIN sys.schemas s ON t.schema_id = s.schema_id
-        WHERE t.is_user_defined = 1
-          AND s.name NOT IN ('sys', 'INFORMATION_SCHEMA')
-        ORDER BY s.name, t.name
+  async estimateRowCount(
+    config: ConnectionConfig,
+    schema: string,
+    table: string
+  ): Promise<number | null> {
+    const pool = await getMSSQLPool(config)
+
+    // Row counts kept per partition of the heap or clustered index
+    const result = await pool
+      .request()
+      .input('schema', sql.NVarChar, schema)
+      .input('table', sql.NVarChar, table).query(`
+        SELECT SUM(p.rows) AS estimate
+        FROM sys.partitions p
+        JOIN sys.tables t ON t.object_id = p.object_id
+        JOIN sys.schemas s ON s.schema_id = t.schema_id
+        WHERE s.name = @schema AND t.name = @table AND p.index_id IN (0, 1)
       `)
 
-      // MSSQL doesn't have enum types like PostgreSQL
-      // User-defined types are typically table types or aliases
-      return typesResult.recordset.map((row) => ({
-        schema: row.schema_name,
-        name: row.type_name,
-        type: 'composite' as const // Treat as composite for now
-      }))
-    } finally {
-      await pool.close()
-    }
+    const estimate = result.recordset[0]?.estimate
+    return estimate === null || estimate === undefined ? null : Number(estimate)
   }
 }
@@ -1,4 +1,5 @@
 import mysql from 'mysql2/promise'
+import type { Connection as CoreConnection } from 'mysql2'
 import type {
   ConnectionConfig,
   SchemaInfo,
@@ -12,6 +13,9 @@ import type {
   IndexDefinition,
   SequenceInfo,
   CustomTypeInfo,
+  IndexInfo,
+  TriggerInfo,
+  SchemaObjectRef,
   StatementResult,
   RoutineInfo,
   RoutineParameterInfo
@@ -20,8 +24,17 @@ import type {
   DatabaseAdapter,
   AdapterQueryResult,
   AdapterMultiQueryResult,
-  ExplainResult
+  ExplainResult,
+  QueryOptions
 } from '../db-adapter'
+import { getPool, resolvePoolOptions } from '../pool-manager'
+import { trackQuery, wasQueryCancelled } from '../query-tracker'
+import { getSSLConfig } from '../ssl-config'
+import { registerCursor, createStreamReader } from '../cursor-manager'
+import { closeSession, getSessionConnection } from '../session-manager'
+import { bindQueryParameters } from '../sql-builder'
+import { isDataModifying, normalizeMySQLJsonPlan, normalizeMySQLTreePlan } from '../explain-plan'
+import { quoteIdentifier } from '../sql-utils'
 
 /**
  * MySQL type codes to type name mapping
@@ -65,6 +78,40 @@ function resolveMySQLType(typeCode: number): string {
   return MYSQL_TYPE_MAP[typeCode] ?? `unknown(${typeCode})`
 }
 
+/**
+ * Convert mysql2 field packets to our field metadata
+ */
+function toQueryFields(fields: mysql.FieldPacket[] | undefined): QueryField[] {
+  return (
+    fields?.map((f) => ({
+      name: f.name,
+      dataType: resolveMySQLType(f.type ?? 253),
+      dataTypeID: f.type ?? 253
+    })) || []
+  )
+}
+
+/**
+ * Create mysql2 SSL options from the connection's SSL settings
+ */
+function toMySQLSSLOptions(config: ConnectionConfig): mysql.ConnectionOptions['ssl'] {
+  const ssl = getSSLConfig(config)
+  if (!ssl) return undefined
+  // The legacy flag enabled TLS with mysql2's defaults
+  if (config.ssl === true) return {}
+
+  return {
+    ca: ssl.ca,
+    cert: ssl.cert,
+    key: ssl.key,
+    passphrase: ssl.keyPassphrase || undefined,
+    rejectUnauthorized: ssl.mode !== 'require',
+    // mysql2 always checks the hostname it connected to, which is the local end of a
+    // tunnel - fall back to verifying the chain only in that case
+    verifyIdentity: ssl.mode === 'verify-full' && !ssl.servername
+  }
+}
+
 /**
  * Create MySQL connection config from our ConnectionConfig
  */
@@ -75,10 +122,95 @@ function toMySQLConfig(config: ConnectionConfig): mysql.ConnectionOptions {
     user: config.user,
     password: config.password,
     database: config.database,
-    ssl: config.ssl ? {} : undefined
+    ssl: toMySQLSSLOptions(config)
+  }
+}
+
+/**
+ * Get the shared pool for a connection
+ */
+function getMySQLPool(config: ConnectionConfig): Promise<mysql.Pool> {
+  return getPool(
+    config,
+    async () => {
+      const { max, idleTimeoutMillis } = resolvePoolOptions(config)
+      return mysql.createPool({
+        ...toMySQLConfig(config),
+        connectionLimit: max,
+        // mysql2 only closes idle connections after idleTimeout when maxIdle < connectionLimit
+        maxIdle: Math.max(max - 1, 1),
+        idleTimeout: idleTimeoutMillis,
+        enableKeepAlive: true
+      })
+    },
+    (pool) => pool.end()
+  )
+}
+
+/**
+ * Abort the statement running on a connection thread with KILL QUERY.
+ * Uses a separate connection since the busy one can't accept commands.
+ */
+async function killQuery(config: ConnectionConfig, threadId: number): Promise<void> {
+  const connection = await mysql.createConnection(toMySQLConfig(config))
+
+  try {
+    await connection.query(`KILL QUERY ${Number(threadId)}`)
+  } finally {
+    await connection.end()
+  }
+}
+
+/**
+ * Return a pooled connection that ran user SQL. The SQL may have left a transaction
+ * open or changed session variables (SET), which would carry over to whatever gets the
+ * connection next. Changing to the same user resets the session (rolls back, drops
+ * temporary tables, restores variables); a connection that can't be reset is destroyed.
+ */
+async function releaseUserConnection(connection: mysql.PoolConnection): Promise<void> {
+  try {
+    await connection.changeUser({})
+    connection.release()
+  } catch (error) {
+    console.error('[mysql] Failed to reset connection, discarding it:', error)
+    connection.destroy()
   }
 }
 
+/**
+ * Check out a connection for user queries: the session's own connection when the query
+ * runs in a pinned session (see session-manager), otherwise a pooled one
+ */
+async function acquireConnection(
+  config: ConnectionConfig,
+  sessionId?: string
+): Promise<{ connection: mysql.Connection; release: () => Promise<void> }> {
+  if (sessionId) {
+    const connection = await getSessionConnection(
+      sessionId,
+      config,
+      async () => {
+        const sessionConnection = await mysql.createConnection({
+          ...toMySQLConfig(config),
+          enableKeepAlive: true
+        })
+        // The server dropped the connection, so its transaction is gone too
+        sessionConnection.on('error', (error) => {
+          console.error('[mysql] Session connection error:', error.message)
+          closeSession(sessionId)
+        })
+        return sessionConnection
+      },
+      (sessionConnection) => sessionConnection.end()
+    )
+    return { connection, release: async () => {} }
+  }
+
+  const pool = await getMySQLPool(config)
+  const connection = await pool.getConnection()
+  return { connection, release: () => releaseUserConnection(connection) }
+}
+
 /**
  * Normalize row from MySQL query to lowercase keys
  * MySQL can return column names in different cases depending on configuration
@@ -249,11 +381,16 @@ export class MySQLAdapter implements DatabaseAdapter {
     await connection.end()
   }
 
-  async query(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+  async query(
+    config: ConnectionConfig,
+    sql: string,
+    params: unknown[] = []
+  ): Promise<AdapterQueryResult> {
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
-      const [rows, fields] = await connection.query(sql)
+      const [rows, fields] = await connection.query(sql, params)
 
       const queryFields: QueryField[] = (fields as mysql.FieldPacket[]).map((f) => ({
         name: f.name,
@@ -269,33 +406,129 @@ export class MySQLAdapter implements DatabaseAdapter {
         rowCount: resultRows.length
       }
     } finally {
-      await connection.end()
+      connection.release()
     }
   }
 
-  async queryMultiple(config: ConnectionConfig, sql: string): Promise<AdapterMultiQueryResult> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+  async queryReadOnly(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult> {
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
+
+    try {
+      // The server rejects writes to tables in a READ ONLY transaction (MySQL 5.6.5+)
+      await connection.query('START TRANSACTION READ ONLY')
+      const [rows, fields] = await connection.query(sql)
+      const resultRows = (Array.isArray(rows) ? rows : [rows]) as Record<string, unknown>[]
+
+      return {
+        rows: resultRows,
+        fields: ((fields ?? []) as mysql.FieldPacket[]).map((f) => ({
+          name: f.name,
+          dataType: resolveMySQLType(f.type ?? 253),
+          dataTypeID: f.type ?? 253
+        })),
+        rowCount: resultRows.length
+      }
+    } finally {
+      await connection.rollback().catch(() => {})
+      connection.release()
+    }
+  }
+
+  async queryMultiple(
+    config: ConnectionConfig,
+    sql: string,
+    options?: QueryOptions
+  ): Promise<AdapterMultiQueryResult> {
+    const { connection, release } = await acquireConnection(config, options?.sessionId)
+    const untrack = trackQuery(options?.executionId, () => killQuery(config, connection.threadId))
 
     const totalStart = Date.now()
     const results: StatementResult[] = []
+    const executionId = options?.executionId
+    const chunkSize = options?.chunkSize
+    let cursorOpen = false
 
     try {
+      // max_execution_time is per session and only applies to read-only SELECTs
+      if (config.statementTimeout) {
+        await connection.query('SET SESSION max_execution_time = ?', [config.statementTimeout])
+      }
+      // Every following transaction on the session is read-only (see START TRANSACTION
+      // READ ONLY in manual-commit for the explicit ones)
+      if (config.readOnly) {
+        await connection.query('SET SESSION TRANSACTION READ ONLY')
+      }
+
       const statements = splitStatements(sql)
 
       for (let i = 0; i < statements.length; i++) {
         const statement = statements[i]
         const stmtStart = Date.now()
+        const bound = bindQueryParameters(statement, options?.parameters, 'mysql')
 
         try {
-          const [rows, fields] = await connection.query(statement)
+          // Stream the final result set (cursors are registered under the execution ID)
+          const streamResult = !!executionId && !!chunkSize && i === statements.length - 1
+          if (streamResult && isDataReturningStatement(statement)) {
+            // Streaming is only available on the callback API's query object. At runtime
+            // `connection.connection` is the underlying callback connection. Bound values
+            // go through a prepared statement, as below.
+            const coreConnection = (connection as unknown as { connection: CoreConnection })
+              .connection
+            const command =
+              bound.params.length > 0
+                ? coreConnection.execute(bound.sql, bound.params)
+                : coreConnection.query(bound.sql)
+            const stream = command.stream({ highWaterMark: chunkSize })
+            let fields: mysql.FieldPacket[] | undefined
+            stream.on('fields', (packets: mysql.FieldPacket[]) => {
+              fields = packets
+            })
+
+            const read = createStreamReader(stream)
+            const rows = await read(chunkSize)
+            const hasMore = rows.length === chunkSize
+
+            results.push({
+              statement,
+              statementIndex: i,
+              rows,
+              fields: toQueryFields(fields),
+              rowCount: rows.length,
+              durationMs: Date.now() - stmtStart,
+              isDataReturning: true,
+              hasMore
+            })
+
+            if (hasMore) {
+              registerCursor(executionId, {
+                connectionId: config.id,
+                read,
+                close: async () => {
+                  if (stream.readableEnded) {
+                    await release()
+                  } else {
+                    // Unread rows are still on the wire, so the connection can't be reused
+                    stream.destroy()
+                    connection.destroy()
+                  }
+                }
+              })
+              cursorOpen = true
+            }
+            continue
+          }
+
+          // Bound values are sent with a server-side prepared statement. Not every
+          // statement can be prepared, so those without parameters run as plain queries.
+          const [rows, fields] =
+            bound.params.length > 0
+              ? await connection.execute(bound.sql, bound.params)
+              : await connection.query(bound.sql)
           const stmtDuration = Date.now() - stmtStart
 
-          const queryFields: QueryField[] =
-            (fields as mysql.FieldPacket[] | undefined)?.map((f) => ({
-              name: f.name,
-              dataType: resolveMySQLType(f.type ?? 253),
-              dataTypeID: f.type ?? 253
-            })) || []
+          const queryFields = toQueryFields(fields as mysql.FieldPacket[] | undefined)
 
           const resultRows = Array.isArray(rows) ? rows : []
           const isDataReturning = isDataReturningStatement(statement)
@@ -332,6 +565,11 @@ export class MySQLAdapter implements DatabaseAdapter {
             isDataReturning: false
           })
 
+          // Checked here since the flag is cleared once the query is untracked
+          if (wasQueryCancelled(executionId)) {
+            throw new Error('Query cancelled')
+          }
+
           throw new Error(
             `Error in statement ${i + 1}: ${errorMessage}\n\nStatement:\n${statement}`
           )
@@ -343,7 +581,10 @@ export class MySQLAdapter implements DatabaseAdapter {
         totalDurationMs: Date.now() - totalStart
       }
     } finally {
-      await connection.end()
+      untrack()
+      if (!cursorOpen) {
+        await release()
+      }
     }
   }
 
@@ -352,14 +593,15 @@ export class MySQLAdapter implements DatabaseAdapter {
     sql: string,
     params: unknown[]
   ): Promise<{ rowCount: number | null }> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
       const [result] = await connection.execute(sql, params)
       const affectedRows = (result as mysql.ResultSetHeader).affectedRows ?? null
       return { rowCount: affectedRows }
     } finally {
-      await connection.end()
+      connection.release()
     }
   }
 
@@ -367,7 +609,8 @@ export class MySQLAdapter implements DatabaseAdapter {
     config: ConnectionConfig,
     statements: Array<{ sql: string; params: unknown[] }>
   ): Promise<{ rowsAffected: number; results: Array<{ rowCount: number | null }> }> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
       await connection.beginTransaction()
@@ -388,12 +631,13 @@ export class MySQLAdapter implements DatabaseAdapter {
       await connection.rollback().catch(() => {})
       throw error
     } finally {
-      await connection.end()
+      connection.release()
     }
   }
 
   async getSchemas(config: ConnectionConfig): Promise<SchemaInfo[]> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
       // In MySQL, "schema" = "database"
@@ -661,42 +905,47 @@ export class MySQLAdapter implements DatabaseAdapter {
 
       return Array.from(schemaMap.values())
     } finally {
-      await connection.end()
+      connection.release()
     }
   }
 
   async explain(config: ConnectionConfig, sql: string, analyze: boolean): Promise<ExplainResult> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
       // MySQL uses EXPLAIN ANALYZE (8.0.18+) or just EXPLAIN
       const explainQuery = analyze ? `EXPLAIN ANALYZE ${sql}` : `EXPLAIN FORMAT=JSON ${sql}`
 
+      // EXPLAIN ANALYZE executes UPDATE and DELETE statements: run it in a transaction
+      // that is always rolled back (changes to non-transactional tables such as MyISAM
+      // can't be undone)
+      if (analyze) {
+        await connection.beginTransaction()
+      }
+
       const start = Date.now()
       const [rows] = await connection.query(explainQuery)
       const duration = Date.now() - start
 
-      // For JSON format, the result is in the first row
-      let plan: unknown
-      if (analyze) {
-        // EXPLAIN ANALYZE returns text output
-        plan = rows
-      } else {
-        // EXPLAIN FORMAT=JSON returns JSON in EXPLAIN column
-        const resultRows = rows as Array<{ EXPLAIN: string }>
-        if (resultRows.length > 0 && resultRows[0].EXPLAIN) {
-          plan = JSON.parse(resultRows[0].EXPLAIN)
-        } else {
-          plan = rows
-        }
-      }
+      // Both formats return the plan in the EXPLAIN column of the first row
+      const resultRows = rows as Array<{ EXPLAIN?: string }>
+      const output = resultRows[0]?.EXPLAIN ?? ''
+
+      // EXPLAIN ANALYZE returns a text tree, EXPLAIN FORMAT=JSON a JSON document
+      const plan = analyze
+        ? normalizeMySQLTreePlan(output)
+        : normalizeMySQLJsonPlan(output ? JSON.parse(output) : null)
 
       return {
-        plan,
+        plan: { ...plan, rolledBack: analyze && isDataModifying(sql) },
         durationMs: duration
       }
     } finally {
-      await connection.end()
+      if (analyze) {
+        await connection.rollback().catch(() => {})
+      }
+      connection.release()
     }
   }
 
@@ -705,7 +954,8 @@ export class MySQLAdapter implements DatabaseAdapter {
     schema: string,
     table: string
   ): Promise<TableDefinition> {
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
       // Get columns with full metadata
@@ -948,7 +1198,7 @@ export class MySQLAdapter implements DatabaseAdapter {
         comment: tableCommentResult[0]?.table_comment || undefined
       }
     } finally {
-      await connection.end()
+      connection.release()
     }
   }
 
@@ -961,7 +1211,8 @@ export class MySQLAdapter implements DatabaseAdapter {
 
   async getTypes(config: ConnectionConfig): Promise<CustomTypeInfo[]> {
     // Get MySQL ENUM types from columns
-    const connection = await mysql.createConnection(toMySQLConfig(config))
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
 
     try {
       // MySQL doesn't have standalone enum types, they're defined per column
@@ -999,7 +1250,217 @@ export class MySQLAdapter implements DatabaseAdapter {
 
       return types
     } finally {
-      await connection.end()
+      connection.release()
+    }
+  }
+
+  async getIndexes(config: ConnectionConfig): Promise<IndexInfo[]> {
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
+
+    try {
+      // One row per index column, in key order
+      const [rows] = await connection.query(`
+        SELECT
+          table_schema,
+          table_name,
+          index_name,
+          non_unique,
+          column_name
+        FROM information_schema.statistics
+        WHERE table_schema NOT IN ('mysql', 'performance_schema', 'information_schema', 'sys')
+        ORDER BY table_schema, table_name, index_name, seq_in_index
+      `)
+
+      const indexMap = new Map<string, IndexInfo>()
+      for (const raw of rows as Array<Record<string, unknown>>) {
+        const row = normalizeRow<{
+          table_schema: string
+          table_name: string
+          index_name: string
+          non_unique: number | string
+          column_name: string | null
+        }>(raw)
+        const key = `${row.table_schema}.${row.table_name}.${row.index_name}`
+        let index = indexMap.get(key)
+        if (!index) {
+          index = {
+            schema: row.table_schema,
+            name: row.index_name,
+            table: row.table_name,
+            columns: [],
+            isUnique: Number(row.non_unique) === 0,
+            isPrimary: row.index_name === 'PRIMARY'
+          }
+          indexMap.set(key, index)
+        }
+        // Functional key parts (MySQL 8.0.13+) have no column name
+        index.columns.push(row.column_name ?? '(expression)')
+      }
+
+      return Array.from(indexMap.values())
+    } finally {
+      connection.release()
+    }
+  }
+
+  async getTriggers(config: ConnectionConfig): Promise<TriggerInfo[]> {
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
+
+    try {
+      const [rows] = await connection.query(`
+        SELECT
+          trigger_schema,
+          trigger_name,
+          event_object_table,
+          action_timing,
+          event_manipulation
+        FROM information_schema.triggers
+        WHERE trigger_schema NOT IN ('mysql', 'performance_schema', 'information_schema', 'sys')
+        ORDER BY trigger_schema, event_object_table, trigger_name
+      `)
+
+      // MySQL triggers fire on exactly one event
+      return (rows as Array<Record<string, unknown>>).map((raw) => {
+        const row = normalizeRow<{
+          trigger_schema: string
+          trigger_name: string
+          event_object_table: string
+          action_timing: string
+          event_manipulation: string
+        }>(raw)
+        return {
+          schema: row.trigger_schema,
+          name: row.trigger_name,
+          table: row.event_object_table,
+          timing: row.action_timing,
+          events: [row.event_manipulation]
+        }
+      })
+    } finally {
+      connection.release()
+    }
+  }
+
+  async getObjectDefinition(config: ConnectionConfig, object: SchemaObjectRef): Promise<string> {
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
+    const qualifiedName = `${quoteIdentifier(object.schema, '`')}.${quoteIdentifier(object.name, '`')}`
+
+    try {
+      switch (object.kind) {
+        case 'view': {
+          const [rows] = await connection.query(`SHOW CREATE VIEW ${qualifiedName}`)
+          const definition = (rows as Array<Record<string, string>>)[0]?.['Create View']
+          if (!definition) break
+          return `${definition};`
+        }
+
+        case 'trigger': {
+          const [rows] = await connection.query(`SHOW CREATE TRIGGER ${qualifiedName}`)
+          const definition = (rows as Array<Record<string, string>>)[0]?.['SQL Original Statement']
+          if (!definition) break
+          return `${definition};`
+        }
+
+        case 'index': {
+          // SELECT * picks up the EXPRESSION column where the server has one (MySQL 8.0.13+)
+          const [rows] = await connection.query(
+            `SELECT * FROM information_schema.statistics
+             WHERE table_schema = ? AND table_name = ? AND index_name = ?
+             ORDER BY seq_in_index`,
+            [object.schema, object.table, object.name]
+          )
+          const parts = (rows as Array<Record<string, unknown>>).map((raw) =>
+            normalizeRow<{
+              table_name: string
+              non_unique: number | string
+              column_name: string | null
+              sub_part: number | null
+              index_type: string
+              expression?: string | null
+            }>(raw)
+          )
+          if (parts.length === 0) break
+
+          const keyParts = parts.map((part) => {
+            if (!part.column_name) return `(${part.expression ?? ''})`
+            const column = quoteIdentifier(part.column_name, '`')
+            return part.sub_part ? `${column}(${part.sub_part})` : column
+          })
+          const tableName = `${quoteIdentifier(object.schema, '`')}.${quoteIdentifier(parts[0].table_name, '`')}`
+          if (object.name === 'PRIMARY') {
+            return `ALTER TABLE ${tableName} ADD PRIMARY KEY (${keyParts.join(', ')});`
+          }
+
+          const indexType = parts[0].index_type
+          const prefix =
+            indexType === 'FULLTEXT' || indexType === 'SPATIAL'
+              ? `${indexType} `
+              : Number(parts[0].non_unique) === 0
+                ? 'UNIQUE '
+                : ''
+          const using = indexType === 'HASH' ? ' USING HASH' : ''
+          return `CREATE ${prefix}INDEX ${quoteIdentifier(object.name, '`')} ON ${tableName} (${keyParts.join(', ')})${using};`
+        }
+
+        case 'type': {
+          // MySQL enums are column types, so show the enum and the columns declared with it
+          const type = (await this.getTypes(config)).find(
+            (t) => t.schema === object.schema && t.name === object.name
+          )
+          if (!type?.values) break
+
+          // Values are kept as written in COLUMN_TYPE, with quotes still escaped
+          const values = type.values.map((v) => `'${v}'`)
+          const columnType = `enum(${values.join(',')})`
+          const [rows] = await connection.query(
+            `SELECT table_name, column_name
+             FROM information_schema.columns
+             WHERE table_schema = ? AND data_type = 'enum' AND column_type = ?
+             ORDER BY table_name, ordinal_position`,
+            [object.schema, columnType]
+          )
+          const usages = (rows as Array<Record<string, unknown>>).map((raw) => {
+            const row = normalizeRow<{ table_name: string; column_name: string }>(raw)
+            return `--   ${row.table_name}.${row.column_name}`
+          })
+          return ['-- ENUM column type used by:', ...usages, `ENUM(${values.join(', ')})`].join(
+            '\n'
+          )
+        }
+
+        default:
+          throw new Error(`MySQL has no ${object.kind} objects`)
+      }
+
+      throw new Error(`${object.name} was not found in schema ${object.schema}`)
+    } finally {
+      connection.release()
+    }
+  }
+
+  async estimateRowCount(
+    config: ConnectionConfig,
+    schema: string,
+    table: string
+  ): Promise<number | null> {
+    const pool = await getMySQLPool(config)
+    const connection = await pool.getConnection()
+
+    try {
+      // TABLE_ROWS is an estimate for InnoDB and NULL for views
+      const [rows] = await connection.query(
+        `SELECT TABLE_ROWS AS estimate
+         FROM information_schema.TABLES
+         WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+        [schema, table]
+      )
+      const estimate = (rows as Array<{ estimate: number | string | null }>)[0]?.estimate
+      return estimate === null || estimate === undefined ? null : Number(estimate)
+    } finally {
+      connection.release()
     }
   }
 }
@@ -1,4 +1,5 @@
-import { Client } from 'pg'
+import { Client, Pool, type ClientBase, type FieldDef, type PoolClient, type PoolConfig } from 'pg'
+import Cursor from 'pg-cursor'
 import type {
   ConnectionConfig,
   SchemaInfo,
@@ -12,16 +13,29 @@ import type {
   IndexDefinition,
   SequenceInfo,
   CustomTypeInfo,
+  IndexInfo,
+  TriggerInfo,
+  SchemaObjectRef,
   StatementResult,
   RoutineInfo,
   RoutineParameterInfo
 } from '@shared/index'
+import { classifyQuery } from '@shared/index'
 import type {
   DatabaseAdapter,
   AdapterQueryResult,
   AdapterMultiQueryResult,
-  ExplainResult
+  ExplainResult,
+  QueryOptions
 } from '../db-adapter'
+import { getPool, resolvePoolOptions } from '../pool-manager'
+import { trackQuery, wasQueryCancelled } from '../query-tracker'
+import { toTLSOptions } from '../ssl-config'
+import { registerCursor } from '../cursor-manager'
+import { closeSession, getSessionConnection } from '../session-manager'
+import { bindQueryParameters } from '../sql-builder'
+import { isDataModifying, normalizePostgresPlan } from '../explain-plan'
+import { quoteIdentifier } from '../sql-utils'
 
 /**
  * PostgreSQL OID to Type Name Mapping
@@ -266,6 +280,148 @@ function isDataReturningStatement(sql: string): boolean {
   return false
 }
 
+/**
+ * Create pg pool config from our ConnectionConfig
+ */
+function toPostgresPoolConfig(config: ConnectionConfig): PoolConfig {
+  const { max, idleTimeoutMillis } = resolvePoolOptions(config)
+  return {
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    ssl: toTLSOptions(config) ?? false,
+    max,
+    idleTimeoutMillis,
+    statement_timeout: config.statementTimeout || undefined,
+    // Every transaction is read-only on connections flagged `readOnly`, so the server
+    // rejects writes whatever the SQL. As a startup parameter it is in effect before any
+    // query runs (a server that refuses it refuses the connection) and survives a reset.
+    options: config.readOnly ? '-c default_transaction_read_only=on' : undefined
+  }
+}
+
+/**
+ * Get the shared pool for a connection
+ */
+function getPostgresPool(config: ConnectionConfig): Promise<Pool> {
+  return getPool(
+    config,
+    async () => {
+      const pool = new Pool(toPostgresPoolConfig(config))
+      // Idle clients can error when the server drops them - log instead of crashing main
+      pool.on('error', (error) => {
+        console.error('[postgres] Idle client error:', error.message)
+      })
+      return pool
+    },
+    (pool) => pool.end()
+  )
+}
+
+/**
+ * Cancel the statement running on a pooled client via pg_cancel_backend.
+ * Uses a separate connection since the busy one can't accept commands.
+ */
+async function cancelBackend(config: ConnectionConfig, client: ClientBase): Promise<void> {
+  // pg sets processID from the BackendKeyData message but doesn't declare it in its types
+  const pid = (client as ClientBase & { processID: number }).processID
+  const cancelClient = new Client(toPostgresPoolConfig(config))
+  await cancelClient.connect()
+
+  try {
+    await cancelClient.query('SELECT pg_cancel_backend($1)', [pid])
+  } finally {
+    await cancelClient.end()
+  }
+}
+
+/**
+ * Return a pooled client that ran user SQL. The SQL may have left a transaction open
+ * (BEGIN) or changed settings (SET), which would carry over to whatever gets the client
+ * next, so the session is reset first. A client that can't be reset is destroyed.
+ */
+async function releaseUserClient(client: PoolClient): Promise<void> {
+  try {
+    // ROLLBACK outside a transaction only warns, and DISCARD ALL can't run inside one
+    await client.query('ROLLBACK')
+    await client.query('DISCARD ALL')
+    client.release()
+  } catch (error) {
+    console.error('[postgres] Failed to reset client, discarding it:', error)
+    client.release(true)
+  }
+}
+
+/**
+ * Check out a client for user queries: the session's own connection when the query runs
+ * in a pinned session (see session-manager), otherwise a pooled one
+ */
+async function acquireClient(
+  config: ConnectionConfig,
+  sessionId?: string
+): Promise<{ client: ClientBase; release: () => Promise<void> }> {
+  if (sessionId) {
+    const client = await getSessionConnection(
+      sessionId,
+      config,
+      async () => {
+        const sessionClient = new Client(toPostgresPoolConfig(config))
+        // The server dropped the connection, so its transaction is gone too
+        sessionClient.on('error', (error) => {
+          console.error('[postgres] Session client error:', error.message)
+          closeSession(sessionId)
+        })
+        await sessionClient.connect()
+        return sessionClient
+      },
+      (sessionClient) => sessionClient.end()
+    )
+    return { client, release: async () => {} }
+  }
+
+  const pool = await getPostgresPool(config)
+  const client = await pool.connect()
+  return { client, release: () => releaseUserClient(client) }
+}
+
+/**
+ * Read the next rows from a pg cursor along with the result's field metadata
+ */
+function readCursor(
+  cursor: Cursor,
+  count: number
+): Promise<{ rows: Record<string, unknown>[]; fields: FieldDef[] }> {
+  return new Promise((resolve, reject) => {
+    cursor.read(count, (error, rows, result) => {
+      if (error) {
+        reject(error)
+      } else {
+        resolve({ rows, fields: result.fields })
+      }
+    })
+  })
+}
+
+/**
+ * Decode pg_trigger.tgtype bits into timing and events
+ * Reference: https://github.com/postgres/postgres/blob/master/src/include/catalog/pg_trigger.h
+ */
+function decodeTriggerType(tgtype: number): { timing: string; events: string[] } {
+  const timing = tgtype & 64 ? 'INSTEAD OF' : tgtype & 2 ? 'BEFORE' : 'AFTER'
+  const events: string[] = []
+  if (tgtype & 4) events.push('INSERT')
+  if (tgtype & 16) events.push('UPDATE')
+  if (tgtype & 8) events.push('DELETE')
+  if (tgtype & 32) events.push('TRUNCATE')
+  return { timing, events }
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
 /**
  * PostgreSQL database adapter
  */
@@ -273,17 +429,21 @@ export class PostgresAdapter implements DatabaseAdapter {
   readonly dbType = 'postgresql' as const
 
   async connect(config: ConnectionConfig): Promise<void> {
-    const client = new Client(config)
+    const client = new Client(toPostgresPoolConfig(config))
     await client.connect()
     await client.end()
   }
 
-  async query(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult> {
-    const client = new Client(config)
-    await client.connect()
+  async query(
+    config: ConnectionConfig,
+    sql: string,
+    params: unknown[] = []
+  ): Promise<AdapterQueryResult> {
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
-      const res = await client.query(sql)
+      const res = await client.query(sql, params)
 
       const fields: QueryField[] = res.fields.map((f) => ({
         name: f.name,
@@ -297,16 +457,46 @@ export class PostgresAdapter implements DatabaseAdapter {
         rowCount: res.rowCount
       }
     } finally {
-      await client.end()
+      client.release()
     }
   }
 
-  async queryMultiple(config: ConnectionConfig, sql: string): Promise<AdapterMultiQueryResult> {
-    const client = new Client(config)
-    await client.connect()
+  async queryReadOnly(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult> {
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
+
+    try {
+      // The server rejects any write in a READ ONLY transaction
+      await client.query('BEGIN READ ONLY')
+      const res = await client.query(sql)
+
+      return {
+        rows: res.rows,
+        fields: res.fields.map((f) => ({
+          name: f.name,
+          dataType: resolvePostgresType(f.dataTypeID),
+          dataTypeID: f.dataTypeID
+        })),
+        rowCount: res.rowCount
+      }
+    } finally {
+      await releaseUserClient(client)
+    }
+  }
+
+  async queryMultiple(
+    config: ConnectionConfig,
+    sql: string,
+    options?: QueryOptions
+  ): Promise<AdapterMultiQueryResult> {
+    const { client, release } = await acquireClient(config, options?.sessionId)
+    const untrack = trackQuery(options?.executionId, () => cancelBackend(config, client))
 
     const totalStart = Date.now()
     const results: StatementResult[] = []
+    const executionId = options?.executionId
+    const chunkSize = options?.chunkSize
+    let cursorOpen = false
 
     try {
       const statements = splitStatements(sql)
@@ -314,9 +504,52 @@ export class PostgresAdapter implements DatabaseAdapter {
       for (let i = 0; i < statements.length; i++) {
         const statement = statements[i]
         const stmtStart = Date.now()
+        const bound = bindQueryParameters(statement, options?.parameters, 'postgresql')
 
         try {
-          const res = await client.query(statement)
+          // Stream the final result set (cursors are registered under the execution ID)
+          const streamResult = !!executionId && !!chunkSize && i === statements.length - 1
+          if (streamResult && isDataReturningStatement(statement)) {
+            const cursor = client.query(new Cursor(bound.sql, bound.params))
+            const chunk = await readCursor(cursor, chunkSize)
+            const hasMore = chunk.rows.length === chunkSize
+
+            results.push({
+              statement,
+              statementIndex: i,
+              rows: chunk.rows,
+              fields: chunk.fields.map((f) => ({
+                name: f.name,
+                dataType: resolvePostgresType(f.dataTypeID),
+                dataTypeID: f.dataTypeID
+              })),
+              rowCount: chunk.rows.length,
+              durationMs: Date.now() - stmtStart,
+              isDataReturning: true,
+              hasMore
+            })
+
+            if (hasMore) {
+              // The client stays checked out until the cursor is closed
+              registerCursor(executionId, {
+                connectionId: config.id,
+                read: async (count) => (await readCursor(cursor, count)).rows,
+                close: async () => {
+                  try {
+                    await cursor.close()
+                  } finally {
+                    await release()
+                  }
+                }
+              })
+              cursorOpen = true
+            } else {
+              await cursor.close()
+            }
+            continue
+          }
+
+          const res = await client.query(bound.sql, bound.params)
           const stmtDuration = Date.now() - stmtStart
 
           const fields: QueryField[] = (res.fields || []).map((f) => ({
@@ -351,6 +584,11 @@ export class PostgresAdapter implements DatabaseAdapter {
             isDataReturning: false
           })
 
+          // Checked here since the flag is cleared once the query is untracked
+          if (wasQueryCancelled(executionId)) {
+            throw new Error('Query cancelled')
+          }
+
           // Re-throw to stop execution of remaining statements
           throw new Error(
             `Error in statement ${i + 1}: ${errorMessage}\n\nStatement:\n${statement}`
@@ -363,7 +601,10 @@ export class PostgresAdapter implements DatabaseAdapter {
         totalDurationMs: Date.now() - totalStart
       }
     } finally {
-      await client.end()
+      untrack()
+      if (!cursorOpen) {
+        await release()
+      }
     }
   }
 
@@ -372,14 +613,14 @@ export class PostgresAdapter implements DatabaseAdapter {
     sql: string,
     params: unknown[]
   ): Promise<{ rowCount: number | null }> {
-    const client = new Client(config)
-    await client.connect()
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       const res = await client.query(sql, params)
       return { rowCount: res.rowCount }
     } finally {
-      await client.end()
+      client.release()
     }
   }
 
@@ -387,8 +628,8 @@ export class PostgresAdapter implements DatabaseAdapter {
     config: ConnectionConfig,
     statements: Array<{ sql: string; params: unknown[] }>
   ): Promise<{ rowsAffected: number; results: Array<{ rowCount: number | null }> }> {
-    const client = new Client(config)
-    await client.connect()
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       await client.query('BEGIN')
@@ -408,13 +649,13 @@ export class PostgresAdapter implements DatabaseAdapter {
       await client.query('ROLLBACK').catch(() => {})
       throw error
     } finally {
-      await client.end()
+      client.release()
     }
   }
 
   async getSchemas(config: ConnectionConfig): Promise<SchemaInfo[]> {
-    const client = new Client(config)
-    await client.connect()
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       // Query 1: Get all schemas (excluding system schemas)
@@ -542,6 +783,28 @@ export class PostgresAdapter implements DatabaseAdapter {
         ORDER BY p.specific_schema, p.specific_name, p.ordinal_position
       `)
 
+      // Query 7: Get materialized views and their columns (missing from information_schema)
+      const matviewsResult = await client.query(`
+        SELECT
+          n.nspname AS table_schema,
+          c.relname AS table_name,
+          a.attname AS column_name,
+          format_type(a.atttypid, a.atttypmod) AS data_type,
+          NOT a.attnotnull AS is_nullable,
+          a.attnum AS ordinal_position
+        FROM pg_catalog.pg_class c
+        JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+        LEFT JOIN pg_catalog.pg_attribute a
+          ON a.attrelid = c.oid
+          AND a.attnum > 0
+          AND NOT a.attisdropped
+        WHERE c.relkind = 'm'
+          AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+          AND n.nspname NOT LIKE 'pg_toast_temp_%'
+          AND n.nspname NOT LIKE 'pg_temp_%'
+        ORDER BY n.nspname, c.relname, a.attnum
+      `)
+
       // Build foreign key lookup map: "schema.table.column" -> ForeignKeyInfo
       const fkMap = new Map<string, ForeignKeyInfo>()
       for (const row of foreignKeysResult.rows) {
@@ -656,15 +919,50 @@ export class PostgresAdapter implements DatabaseAdapter {
         }
       }
 
+      // Add materialized views, keeping each schema's objects sorted by name
+      const schemasWithMatviews = new Set<SchemaInfo>()
+      for (const row of matviewsResult.rows) {
+        const tableKey = `${row.table_schema}.${row.table_name}`
+        let matview = tableMap.get(tableKey)
+        if (!matview) {
+          matview = { name: row.table_name, type: 'materialized-view', columns: [] }
+          tableMap.set(tableKey, matview)
+
+          const schema = schemaMap.get(row.table_schema)
+          if (schema) {
+            schema.tables.push(matview)
+            schemasWithMatviews.add(schema)
+          }
+        }
+        if (row.column_name) {
+          matview.columns.push({
+            name: row.column_name,
+            dataType: row.data_type,
+            isNullable: row.is_nullable,
+            isPrimaryKey: false,
+            ordinalPosition: row.ordinal_position
+          })
+        }
+      }
+      for (const schema of schemasWithMatviews) {
+        schema.tables.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      }
+
       return Array.from(schemaMap.values())
     } finally {
-      await client.end()
+      client.release()
     }
   }
 
   async explain(config: ConnectionConfig, sql: string, analyze: boolean): Promise<ExplainResult> {
-    const client = new Client(config)
-    await client.connect()
+    // Over the simple protocol the statements after the first would run as they are
+    // (and a COMMIT would end the rolled-back transaction)
+    if (classifyQuery(sql).length !== 1) {
+      throw new Error('Only a single statement can be explained')
+    }
+
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       const explainOptions = analyze
@@ -672,6 +970,12 @@ export class PostgresAdapter implements DatabaseAdapter {
         : 'COSTS, VERBOSE, FORMAT JSON'
       const explainQuery = `EXPLAIN (${explainOptions}) ${sql}`
 
+      // ANALYZE executes the statement: run it in a transaction that is always rolled
+      // back so writes (including ones hidden in CTEs or functions) are discarded
+      if (analyze) {
+        await client.query('BEGIN')
+      }
+
       const start = Date.now()
       const res = await client.query(explainQuery)
       const duration = Date.now() - start
@@ -679,11 +983,15 @@ export class PostgresAdapter implements DatabaseAdapter {
       const planJson = res.rows[0]?.['QUERY PLAN']
 
       return {
-        plan: planJson,
+        plan: {
+          ...normalizePostgresPlan(planJson),
+          rolledBack: analyze && isDataModifying(sql)
+        },
         durationMs: duration
       }
     } finally {
-      await client.end()
+      // Resets whatever the statement changed in the session, rolling back first
+      await releaseUserClient(client)
     }
   }
 
@@ -692,8 +1000,8 @@ export class PostgresAdapter implements DatabaseAdapter {
     schema: string,
     table: string
   ): Promise<TableDefinition> {
-    const client = new Client(config)
-    await client.connect()
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       // Query columns with full metadata
@@ -927,13 +1235,13 @@ export class PostgresAdapter implements DatabaseAdapter {
         comment: tableCommentResult.rows[0]?.comment || undefined
       }
     } finally {
-      await client.end()
+      client.release()
     }
   }
 
   async getSequences(config: ConnectionConfig): Promise<SequenceInfo[]> {
-    const client = new Client(config)
-    await client.connect()
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       const result = await client.query(`
@@ -956,13 +1264,13 @@ export class PostgresAdapter implements DatabaseAdapter {
         increment: row.increment
       }))
     } finally {
-      await client.end()
+      client.release()
     }
   }
 
   async getTypes(config: ConnectionConfig): Promise<CustomTypeInfo[]> {
-    const client = new Client(config)
-    await client.connect()
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
 
     try {
       // Get enum types with their values
@@ -1007,7 +1315,229 @@ export class PostgresAdapter implements DatabaseAdapter {
         }))
       ]
     } finally {
-      await client.end()
+      client.release()
+    }
+  }
+
+  async getIndexes(config: ConnectionConfig): Promise<IndexInfo[]> {
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
+
+    try {
+      // pg_get_indexdef with a column number returns that key's column name or expression
+      const result = await client.query(`
+        SELECT
+          n.nspname AS schema,
+          i.relname AS name,
+          t.relname AS table_name,
+          ix.indisunique AS is_unique,
+          ix.indisprimary AS is_primary,
+          ARRAY(
+            SELECT pg_get_indexdef(ix.indexrelid, k, true)
+            FROM generate_series(1, ix.indnkeyatts) AS k
+            ORDER BY k
+          ) AS columns
+        FROM pg_catalog.pg_index ix
+        JOIN pg_catalog.pg_class i ON i.oid = ix.indexrelid
+        JOIN pg_catalog.pg_class t ON t.oid = ix.indrelid
+        JOIN pg_catalog.pg_namespace n ON n.oid = t.relnamespace
+        WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+          AND n.nspname NOT LIKE 'pg_toast_temp_%'
+          AND n.nspname NOT LIKE 'pg_temp_%'
+        ORDER BY n.nspname, t.relname, i.relname
+      `)
+
+      return result.rows.map((row) => ({
+        schema: row.schema,
+        name: row.name,
+        table: row.table_name,
+        columns: row.columns,
+        isUnique: row.is_unique,
+        isPrimary: row.is_primary
+      }))
+    } finally {
+      client.release()
+    }
+  }
+
+  async getTriggers(config: ConnectionConfig): Promise<TriggerInfo[]> {
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
+
+    try {
+      // Internal triggers implement foreign keys and deferrable constraints
+      const result = await client.query(`
+        SELECT
+          n.nspname AS schema,
+          t.tgname AS name,
+          c.relname AS table_name,
+          t.tgtype
+        FROM pg_catalog.pg_trigger t
+        JOIN pg_catalog.pg_class c ON c.oid = t.tgrelid
+        JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+        WHERE NOT t.tgisinternal
+          AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+          AND n.nspname NOT LIKE 'pg_toast_temp_%'
+          AND n.nspname NOT LIKE 'pg_temp_%'
+        ORDER BY n.nspname, c.relname, t.tgname
+      `)
+
+      return result.rows.map((row) => ({
+        schema: row.schema,
+        name: row.name,
+        table: row.table_name,
+        ...decodeTriggerType(row.tgtype)
+      }))
+    } finally {
+      client.release()
+    }
+  }
+
+  async getObjectDefinition(config: ConnectionConfig, object: SchemaObjectRef): Promise<string> {
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
+    const qualifiedName = `${quoteIdentifier(object.schema, '"')}.${quoteIdentifier(object.name, '"')}`
+
+    try {
+      switch (object.kind) {
+        case 'view':
+        case 'materialized-view': {
+          const result = await client.query(
+            `SELECT pg_get_viewdef(c.oid, true) AS definition
+             FROM pg_catalog.pg_class c
+             JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+             WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('v', 'm')`,
+            [object.schema, object.name]
+          )
+          const definition = result.rows[0]?.definition
+          if (!definition) break
+          const keyword = object.kind === 'view' ? 'OR REPLACE VIEW' : 'MATERIALIZED VIEW'
+          return `CREATE ${keyword} ${qualifiedName} AS\n${definition}`
+        }
+
+        case 'index': {
+          const result = await client.query(
+            `SELECT pg_get_indexdef(c.oid) AS definition
+             FROM pg_catalog.pg_class c
+             JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+             WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('i', 'I')`,
+            [object.schema, object.name]
+          )
+          const definition = result.rows[0]?.definition
+          if (!definition) break
+          return `${definition};`
+        }
+
+        case 'trigger': {
+          const result = await client.query(
+            `SELECT pg_get_triggerdef(t.oid, true) AS definition
+             FROM pg_catalog.pg_trigger t
+             JOIN pg_catalog.pg_class c ON c.oid = t.tgrelid
+             JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+             WHERE n.nspname = $1 AND t.tgname = $2 AND ($3::text IS NULL OR c.relname = $3)`,
+            [object.schema, object.name, object.table ?? null]
+          )
+          const definition = result.rows[0]?.definition
+          if (!definition) break
+          return `${definition};`
+        }
+
+        case 'sequence': {
+          const result = await client.query(
+            `SELECT
+               data_type,
+               start_value::text,
+               min_value::text,
+               max_value::text,
+               increment_by::text,
+               cache_size::text,
+               cycle
+             FROM pg_catalog.pg_sequences
+             WHERE schemaname = $1 AND sequencename = $2`,
+            [object.schema, object.name]
+          )
+          const row = result.rows[0]
+          if (!row) break
+          return [
+            `CREATE SEQUENCE ${qualifiedName}`,
+            `  AS ${row.data_type}`,
+            `  INCREMENT BY ${row.increment_by}`,
+            `  MINVALUE ${row.min_value}`,
+            `  MAXVALUE ${row.max_value}`,
+            `  START WITH ${row.start_value}`,
+            `  CACHE ${row.cache_size}`,
+            `  ${row.cycle ? 'CYCLE' : 'NO CYCLE'};`
+          ].join('\n')
+        }
+
+        case 'type': {
+          const result = await client.query(
+            `SELECT
+               t.typtype,
+               format_type(t.typbasetype, t.typtypmod) AS base_type,
+               t.typnotnull AS not_null,
+               t.typdefault AS default_value,
+               ARRAY(
+                 SELECT e.enumlabel::text FROM pg_catalog.pg_enum e
+                 WHERE e.enumtypid = t.oid
+                 ORDER BY e.enumsortorder
+               ) AS labels,
+               ARRAY(
+                 SELECT 'CONSTRAINT ' || quote_ident(con.conname) || ' ' || pg_get_constraintdef(con.oid, true)
+                 FROM pg_catalog.pg_constraint con
+                 WHERE con.contypid = t.oid
+                 ORDER BY con.conname
+               ) AS constraints
+             FROM pg_catalog.pg_type t
+             JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+             WHERE n.nspname = $1 AND t.typname = $2`,
+            [object.schema, object.name]
+          )
+          const row = result.rows[0]
+          if (!row) break
+
+          if (row.typtype === 'e') {
+            const labels = (row.labels as string[]).map((label) => `  ${quoteLiteral(label)}`)
+            return `CREATE TYPE ${qualifiedName} AS ENUM (\n${labels.join(',\n')}\n);`
+          }
+          if (row.typtype === 'd') {
+            const lines = [`CREATE DOMAIN ${qualifiedName} AS ${row.base_type}`]
+            if (row.default_value) lines.push(`  DEFAULT ${row.default_value}`)
+            if (row.not_null) lines.push('  NOT NULL')
+            lines.push(...(row.constraints as string[]).map((constraint) => `  ${constraint}`))
+            return `${lines.join('\n')};`
+          }
+          throw new Error(`Showing the definition of type ${object.name} is not supported`)
+        }
+      }
+
+      throw new Error(`${object.name} was not found in schema ${object.schema}`)
+    } finally {
+      client.release()
+    }
+  }
+
+  async estimateRowCount(
+    config: ConnectionConfig,
+    schema: string,
+    table: string
+  ): Promise<number | null> {
+    const pool = await getPostgresPool(config)
+    const client = await pool.connect()
+
+    try {
+      // reltuples is -1 until the table has been vacuumed or analyzed (PostgreSQL 14+)
+      const res = await client.query(
+        `SELECT c.reltuples::bigint AS estimate
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE n.nspname = $1 AND c.relname = $2`,
+        [schema, table]
+      )
+      const estimate = res.rows[0] ? Number(res.rows[0].estimate) : -1
+      return estimate < 0 ? null : estimate
+    } finally {
+      client.release()
     }
   }
 }
@@ -0,0 +1,795 @@
+import Database from 'better-sqlite3'
+import type {
+  ConnectionConfig,
+  SchemaInfo,
+  TableInfo,
+  ColumnInfo,
+  QueryField,
+  ForeignKeyInfo,
+  TableDefinition,
+  ColumnDefinition,
+  ConstraintDefinition,
+  IndexDefinition,
+  SequenceInfo,
+  CustomTypeInfo,
+  IndexInfo,
+  TriggerInfo,
+  SchemaObjectRef,
+  StatementResult
+} from '@shared/index'
+import type {
+  DatabaseAdapter,
+  AdapterQueryResult,
+  AdapterMultiQueryResult,
+  ExplainResult,
+  QueryOptions
+} from '../db-adapter'
+import { bindQueryParameters } from '../sql-builder'
+import { getSessionConnection } from '../session-manager'
+import { normalizeSQLitePlan } from '../explain-plan'
+
+/**
+ * SQLite has no schemas - every connection exposes a single 'main' database
+ */
+const SQLITE_SCHEMA = 'main'
+
+/**
+ * Open a SQLite database from our ConnectionConfig
+ * For SQLite, `database` holds the path to the database file
+ */
+function openDatabase(config: ConnectionConfig): Database.Database {
+  if (!config.database) {
+    throw new Error('No SQLite database file specified')
+  }
+  return new Database(config.database, { fileMustExist: true, readonly: !!config.readOnly })
+}
+
+/**
+ * Open the database for user queries: the session's own handle when the query runs in
+ * a pinned session (see session-manager), otherwise a new one the caller closes
+ */
+async function openQueryDatabase(
+  config: ConnectionConfig,
+  sessionId?: string
+): Promise<{ db: Database.Database; release: () => void }> {
+  if (sessionId) {
+    const db = await getSessionConnection(
+      sessionId,
+      config,
+      async () => openDatabase(config),
+      async (sessionDb) => {
+        sessionDb.close()
+      }
+    )
+    return { db, release: () => {} }
+  }
+
+  const db = openDatabase(config)
+  return { db, release: () => db.close() }
+}
+
+/**
+ * Resolve a declared column type (or the runtime value) to a type name
+ * SQLite columns are dynamically typed, so expressions have no declared type
+ */
+function resolveSQLiteType(declaredType: string | null, value: unknown): string {
+  if (declaredType) return declaredType.toLowerCase()
+  if (value === null || value === undefined) return 'text'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'real'
+  if (typeof value === 'bigint') return 'integer'
+  if (Buffer.isBuffer(value)) return 'blob'
+  return 'text'
+}
+
+/**
+ * Convert a parameter into a value better-sqlite3 can bind
+ * The driver only accepts numbers, strings, bigints, buffers and null
+ */
+function toSQLiteParam(value: unknown): unknown {
+  if (value === undefined) return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof Date) return value.toISOString()
+  if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+    return JSON.stringify(value)
+  }
+  return value
+}
+
+/**
+ * Split SQL into individual statements, respecting string literals and comments
+ * Handles: single quotes, double quotes, backticks, bracket identifiers, line comments (--)
+ * and block comments
+ */
+function splitStatements(sql: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let i = 0
+
+  const closingQuote: Record<string, string> = { "'": "'", '"': '"', '`': '`', '[': ']' }
+
+  while (i < sql.length) {
+    const char = sql[i]
+    const nextChar = sql[i + 1]
+
+    // Handle quoted strings and identifiers
+    if (char in closingQuote) {
+      const close = closingQuote[char]
+      current += char
+      i++
+      while (i < sql.length) {
+        if (sql[i] === close && sql[i + 1] === close && close !== ']') {
+          // Escaped quote
+          current += close + close
+          i += 2
+        } else if (sql[i] === close) {
+          current += close
+          i++
+          break
+        } else {
+          current += sql[i]
+          i++
+        }
+      }
+      continue
+    }
+
+    // Handle line comments (--)
+    if (char === '-' && nextChar === '-') {
+      current += '--'
+      i += 2
+      while (i < sql.length && sql[i] !== '\n') {
+        current += sql[i]
+        i++
+      }
+      continue
+    }
+
+    // Handle block comments (/* */)
+    if (char === '/' && nextChar === '*') {
+      current += '/*'
+      i += 2
+      while (i < sql.length) {
+        if (sql[i] === '*' && sql[i + 1] === '/') {
+          current += '*/'
+          i += 2
+          break
+        } else {
+          current += sql[i]
+          i++
+        }
+      }
+      continue
+    }
+
+    // Statement separator
+    if (char === ';') {
+      const stmt = current.trim()
+      if (stmt) {
+        statements.push(stmt)
+      }
+      current = ''
+      i++
+      continue
+    }
+
+    current += char
+    i++
+  }
+
+  const lastStmt = current.trim()
+  if (lastStmt) {
+    statements.push(lastStmt)
+  }
+
+  return statements
+}
+
+/**
+ * Map SQLite foreign key actions to our referential action type
+ */
+function toReferentialAction(action: string | null): ConstraintDefinition['onUpdate'] {
+  switch (action?.toUpperCase()) {
+    case 'CASCADE':
+      return 'CASCADE'
+    case 'RESTRICT':
+      return 'RESTRICT'
+    case 'SET NULL':
+      return 'SET NULL'
+    case 'SET DEFAULT':
+      return 'SET DEFAULT'
+    default:
+      return 'NO ACTION'
+  }
+}
+
+/**
+ * Split a declared type like "varchar(255)" or "decimal(10,2)" into its parts
+ */
+function parseDeclaredType(declaredType: string): {
+  dataType: string
+  length?: number
+  precision?: number
+  scale?: number
+} {
+  const match = declaredType.match(/^\s*([^(]+?)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)\s*$/)
+  if (!match) {
+    return { dataType: declaredType.toLowerCase() || 'blob' }
+  }
+
+  const dataType = match[1].toLowerCase()
+  const first = Number(match[2])
+  const second = match[3] !== undefined ? Number(match[3]) : undefined
+
+  if (second !== undefined || dataType === 'numeric' || dataType === 'decimal') {
+    return { dataType, precision: first, scale: second }
+  }
+  return { dataType, length: first }
+}
+
+interface TableInfoRow {
+  cid: number
+  name: string
+  type: string
+  notnull: number
+  dflt_value: string | null
+  pk: number
+}
+
+interface ForeignKeyRow {
+  id: number
+  seq: number
+  table: string
+  from: string
+  to: string | null
+  on_update: string
+  on_delete: string
+}
+
+interface IndexListRow {
+  seq: number
+  name: string
+  unique: number
+  origin: 'c' | 'u' | 'pk'
+  partial: number
+}
+
+interface IndexInfoRow {
+  seqno: number
+  cid: number
+  name: string | null
+}
+
+/**
+ * SQLite database adapter
+ * better-sqlite3 is synchronous; methods stay async to satisfy the adapter interface
+ */
+export class SQLiteAdapter implements DatabaseAdapter {
+  readonly dbType = 'sqlite' as const
+
+  async connect(config: ConnectionConfig): Promise<void> {
+    const db = openDatabase(config)
+    try {
+      // Reading the schema fails fast if the file is not a SQLite database
+      db.prepare('SELECT count(*) FROM sqlite_master').get()
+    } finally {
+      db.close()
+    }
+  }
+
+  async query(
+    config: ConnectionConfig,
+    sql: string,
+    params: unknown[] = []
+  ): Promise<AdapterQueryResult> {
+    const db = openDatabase(config)
+
+    try {
+      const stmt = db.prepare(sql)
+      const values = params.map(toSQLiteParam)
+
+      if (!stmt.reader) {
+        const info = stmt.run(...values)
+        return { rows: [], fields: [], rowCount: info.changes }
+      }
+
+      const rows = stmt.all(...values) as Record<string, unknown>[]
+      const fields: QueryField[] = stmt.columns().map((col) => ({
+        name: col.name,
+        dataType: resolveSQLiteType(col.type, rows[0]?.[col.name])
+      }))
+
+      return { rows, fields, rowCount: rows.length }
+    } finally {
+      db.close()
+    }
+  }
+
+  async queryReadOnly(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult> {
+    // A read-only handle: SQLite refuses any write through it
+    const db = openDatabase({ ...config, readOnly: true })
+
+    try {
+      const stmt = db.prepare(sql)
+      if (!stmt.reader) {
+        throw new Error('Only statements that return rows can run read-only')
+      }
+
+      const rows = stmt.all() as Record<string, unknown>[]
+      const fields: QueryField[] = stmt.columns().map((col) => ({
+        name: col.name,
+        dataType: resolveSQLiteType(col.type, rows[0]?.[col.name])
+      }))
+
+      return { rows, fields, rowCount: rows.length }
+    } finally {
+      db.close()
+    }
+  }
+
+  /**
+   * better-sqlite3 is synchronous and runs on the main process: a long query blocks
+   * the app until it finishes, and it can't be cancelled (no handler is registered
+   * with the query tracker, so cancelling reports the query as no longer running)
+   */
+  async queryMultiple(
+    config: ConnectionConfig,
+    sql: string,
+    options?: QueryOptions
+  ): Promise<AdapterMultiQueryResult> {
+    const { db, release } = await openQueryDatabase(config, options?.sessionId)
+
+    const totalStart = Date.now()
+    const results: StatementResult[] = []
+
+    try {
+      const statements = splitStatements(sql)
+
+      for (let i = 0; i < statements.length; i++) {
+        const statement = statements[i]
+        const stmtStart = Date.now()
+        const bound = bindQueryParameters(statement, options?.parameters, 'sqlite')
+
+        try {
+          const stmt = db.prepare(bound.sql)
+          const values = bound.params.map(toSQLiteParam)
+          let rows: Record<string, unknown>[] = []
+          let fields: QueryField[] = []
+          let rowCount: number
+
+          // `reader` is true for anything that returns rows (SELECT, PRAGMA, RETURNING, ...)
+          if (stmt.reader) {
+            rows = stmt.all(...values) as Record<string, unknown>[]
+            fields = stmt.columns().map((col) => ({
+              name: col.name,
+              dataType: resolveSQLiteType(col.type, rows[0]?.[col.name])
+            }))
+            rowCount = rows.length
+          } else {
+            rowCount = stmt.run(...values).changes
+          }
+
+          results.push({
+            statement,
+            statementIndex: i,
+            rows,
+            fields,
+            rowCount,
+            durationMs: Date.now() - stmtStart,
+            isDataReturning: stmt.reader
+          })
+        } catch (error) {
+          const stmtDuration = Date.now() - stmtStart
+          const errorMessage = error instanceof Error ? error.message : String(error)
+
+          results.push({
+            statement,
+            statementIndex: i,
+            rows: [],
+            fields: [{ name: 'error', dataType: 'text' }],
+            rowCount: 0,
+            durationMs: stmtDuration,
+            isDataReturning: false
+          })
+
+          throw new Error(
+            `Error in statement ${i + 1}: ${errorMessage}\n\nStatement:\n${statement}`
+          )
+        }
+      }
+
+      return {
+        results,
+        totalDurationMs: Date.now() - totalStart
+      }
+    } finally {
+      release()
+    }
+  }
+
+  async execute(
+    config: ConnectionConfig,
+    sql: string,
+    params: unknown[]
+  ): Promise<{ rowCount: number | null }> {
+    const db = openDatabase(config)
+
+    try {
+      const info = db.prepare(sql).run(...params.map(toSQLiteParam))
+      return { rowCount: info.changes }
+    } finally {
+      db.close()
+    }
+  }
+
+  async executeTransaction(
+    config: ConnectionConfig,
+    statements: Array<{ sql: string; params: unknown[] }>
+  ): Promise<{ rowsAffected: number; results: Array<{ rowCount: number | null }> }> {
+    const db = openDatabase(config)
+
+    try {
+      // db.transaction() commits on return and rolls back if the callback throws
+      const runAll = db.transaction(() => {
+        const results: Array<{ rowCount: number | null }> = []
+        let rowsAffected = 0
+
+        for (const stmt of statements) {
+          const info = db.prepare(stmt.sql).run(...stmt.params.map(toSQLiteParam))
+          results.push({ rowCount: info.changes })
+          rowsAffected += info.changes
+        }
+
+        return { rowsAffected, results }
+      })
+
+      return runAll()
+    } finally {
+      db.close()
+    }
+  }
+
+  async getSchemas(config: ConnectionConfig): Promise<SchemaInfo[]> {
+    const db = openDatabase(config)
+
+    try {
+      // Tables and views, excluding SQLite's internal tables
+      const objects = db
+        .prepare(
+          `
+          SELECT name, type
+          FROM sqlite_master
+          WHERE type IN ('table', 'view')
+            AND name NOT LIKE 'sqlite_%'
+          ORDER BY name
+        `
+        )
+        .all() as Array<{ name: string; type: 'table' | 'view' }>
+
+      const tables: TableInfo[] = []
+
+      for (const obj of objects) {
+        const columnRows = db
+          .prepare('SELECT * FROM pragma_table_info(?)')
+          .all(obj.name) as TableInfoRow[]
+
+        // Views have no foreign keys
+        const fkRows =
+          obj.type === 'table'
+            ? (db
+                .prepare('SELECT * FROM pragma_foreign_key_list(?)')
+                .all(obj.name) as ForeignKeyRow[])
+            : []
+
+        const fkMap = new Map<string, ForeignKeyInfo>()
+        for (const fk of fkRows) {
+          fkMap.set(fk.from, {
+            constraintName: `fk_${obj.name}_${fk.id}`,
+            referencedSchema: SQLITE_SCHEMA,
+            referencedTable: fk.table,
+            // A NULL target column means the referenced table's primary key
+            referencedColumn: fk.to ?? ''
+          })
+        }
+
+        const columns: ColumnInfo[] = columnRows.map((row) => ({
+          name: row.name,
+          dataType: row.type ? row.type.toLowerCase() : 'blob',
+          isNullable: row.notnull === 0 && row.pk === 0,
+          isPrimaryKey: row.pk > 0,
+          defaultValue: row.dflt_value ?? undefined,
+          ordinalPosition: row.cid + 1,
+          foreignKey: fkMap.get(row.name)
+        }))
+
+        tables.push({
+          name: obj.name,
+          type: obj.type,
+          columns
+        })
+      }
+
+      // Resolve implicit FK targets (REFERENCES parent without a column list)
+      for (const table of tables) {
+        for (const column of table.columns) {
+          if (column.foreignKey && !column.foreignKey.referencedColumn) {
+            const parent = tables.find((t) => t.name === column.foreignKey!.referencedTable)
+            const parentPk = parent?.columns.find((c) => c.isPrimaryKey)
+            column.foreignKey.referencedColumn = parentPk?.name ?? 'rowid'
+          }
+        }
+      }
+
+      return [{ name: SQLITE_SCHEMA, tables, routines: [] }]
+    } finally {
+      db.close()
+    }
+  }
+
+  async explain(config: ConnectionConfig, sql: string, analyze: boolean): Promise<ExplainResult> {
+    const db = openDatabase(config)
+
+    try {
+      const start = Date.now()
+      const rows = db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all() as Array<{
+        id: number
+        parent: number
+        notused: number
+        detail: string
+      }>
+      const duration = Date.now() - start
+
+      const plan = normalizeSQLitePlan(rows)
+      // SQLite has no EXPLAIN ANALYZE; the query plan is always an estimate
+      if (analyze) {
+        plan.warnings.push('SQLite cannot analyze queries - showing the estimated plan only')
+      }
+
+      return {
+        plan,
+        durationMs: duration
+      }
+    } finally {
+      db.close()
+    }
+  }
+
+  async getTableDDL(
+    config: ConnectionConfig,
+    schema: string,
+    table: string
+  ): Promise<TableDefinition> {
+    const db = openDatabase(config)
+
+    try {
+      const columnRows = db
+        .prepare('SELECT * FROM pragma_table_info(?)')
+        .all(table) as TableInfoRow[]
+
+      if (columnRows.length === 0) {
+        throw new Error(`Table "${table}" not found`)
+      }
+
+      const fkRows = db
+        .prepare('SELECT * FROM pragma_foreign_key_list(?)')
+        .all(table) as ForeignKeyRow[]
+
+      const indexRows = db
+        .prepare('SELECT * FROM pragma_index_list(?)')
+        .all(table) as IndexListRow[]
+
+      // Build columns
+      const columns: ColumnDefinition[] = columnRows.map((row, idx) => {
+        const { dataType, length, precision, scale } = parseDeclaredType(row.type)
+        return {
+          id: `col-${idx}`,
+          name: row.name,
+          dataType,
+          length,
+          precision,
+          scale,
+          isNullable: row.notnull === 0 && row.pk === 0,
+          isPrimaryKey: row.pk > 0,
+          isUnique: false, // Will be set from unique indexes
+          defaultValue: row.dflt_value ?? undefined
+        }
+      })
+
+      // Build foreign keys - multi-column keys share the same id
+      const fkMap = new Map<number, ForeignKeyRow[]>()
+      for (const row of fkRows) {
+        if (!fkMap.has(row.id)) {
+          fkMap.set(row.id, [])
+        }
+        fkMap.get(row.id)!.push(row)
+      }
+
+      const constraints: ConstraintDefinition[] = []
+      let constraintIdx = 0
+      for (const [id, rows] of fkMap) {
+        const ordered = rows.sort((a, b) => a.seq - b.seq)
+        constraints.push({
+          id: `constraint-${constraintIdx++}`,
+          name: `fk_${table}_${id}`,
+          type: 'foreign_key',
+          columns: ordered.map((r) => r.from),
+          referencedSchema: SQLITE_SCHEMA,
+          referencedTable: ordered[0].table,
+          referencedColumns: ordered.map((r) => r.to).filter((c): c is string => c !== null),
+          onUpdate: toReferentialAction(ordered[0].on_update),
+          onDelete: toReferentialAction(ordered[0].on_delete)
+        })
+      }
+
+      // Build indexes - UNIQUE constraints are implemented as automatic indexes (origin 'u')
+      const indexes: IndexDefinition[] = []
+      let indexIdx = 0
+      for (const index of indexRows) {
+        if (index.origin === 'pk') continue
+
+        const indexColumns = (
+          db.prepare('SELECT * FROM pragma_index_info(?)').all(index.name) as IndexInfoRow[]
+        )
+          .sort((a, b) => a.seqno - b.seqno)
+          .map((c) => c.name)
+          .filter((c): c is string => c !== null)
+
+        if (index.origin === 'u') {
+          constraints.push({
+            id: `constraint-${constraintIdx++}`,
+            name: index.name,
+            type: 'unique',
+            columns: indexColumns
+          })
+          if (indexColumns.length === 1) {
+            const col = columns.find((c) => c.name === indexColumns[0])
+            if (col) col.isUnique = true
+          }
+          continue
+        }
+
+        let where: string | undefined
+        if (index.partial) {
+          const indexSql = db
+            .prepare("SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?")
+            .get(index.name) as { sql: string | null } | undefined
+          const match = indexSql?.sql?.match(/\bWHERE\s+([\s\S]+)$/i)
+          where = match ? match[1].trim() : undefined
+        }
+
+        indexes.push({
+          id: `index-${indexIdx++}`,
+          name: index.name,
+          columns: indexColumns.map((c) => ({ name: c })),
+          isUnique: index.unique === 1,
+          where
+        })
+      }
+
+      return {
+        schema: schema || SQLITE_SCHEMA,
+        name: table,
+        columns,
+        constraints,
+        indexes
+      }
+    } finally {
+      db.close()
+    }
+  }
+
+  async getSequences(): Promise<SequenceInfo[]> {
+    // SQLite uses AUTOINCREMENT/rowid instead of sequences
+    return []
+  }
+
+  async getTypes(): Promise<CustomTypeInfo[]> {
+    // SQLite has no user-defined types
+    return []
+  }
+
+  async getIndexes(config: ConnectionConfig): Promise<IndexInfo[]> {
+    const db = openDatabase(config)
+
+    try {
+      // origin is 'pk' for the primary key, 'u' for UNIQUE constraints, 'c' for CREATE INDEX
+      const indexRows = db
+        .prepare(
+          `
+          SELECT m.name AS table_name, il.name AS index_name, il."unique" AS is_unique, il.origin
+          FROM sqlite_master m, pragma_index_list(m.name) il
+          WHERE m.type = 'table'
+            AND m.name NOT LIKE 'sqlite_%'
+          ORDER BY m.name, il.name
+        `
+        )
+        .all() as Array<{
+        table_name: string
+        index_name: string
+        is_unique: number
+        origin: string
+      }>
+
+      const columnsStatement = db.prepare('SELECT name FROM pragma_index_info(?) ORDER BY seqno')
+
+      return indexRows.map((row) => {
+        // Expression key parts have no column name
+        const columns = (
+          columnsStatement.all(row.index_name) as Array<{ name: string | null }>
+        ).map((column) => column.name ?? '(expression)')
+        return {
+          schema: SQLITE_SCHEMA,
+          name: row.index_name,
+          table: row.table_name,
+          columns,
+          isUnique: row.is_unique === 1,
+          isPrimary: row.origin === 'pk'
+        }
+      })
+    } finally {
+      db.close()
+    }
+  }
+
+  async getTriggers(config: ConnectionConfig): Promise<TriggerInfo[]> {
+    const db = openDatabase(config)
+
+    try {
+      const triggerRows = db
+        .prepare(
+          `
+          SELECT name, tbl_name, sql
+          FROM sqlite_master
+          WHERE type = 'trigger'
+          ORDER BY tbl_name, name
+        `
+        )
+        .all() as Array<{ name: string; tbl_name: string; sql: string }>
+
+      // SQLite keeps only the CREATE TRIGGER text; timing defaults to BEFORE
+      return triggerRows.map((row) => {
+        const match = row.sql.match(
+          /\b(?:(BEFORE|AFTER|INSTEAD\s+OF)\s+)?(DELETE|INSERT|UPDATE)\b(?:\s+OF\s[\s\S]*?)?\s+ON\s/i
+        )
+        return {
+          schema: SQLITE_SCHEMA,
+          name: row.name,
+          table: row.tbl_name,
+          timing: match?.[1]?.toUpperCase().replace(/\s+/, ' ') ?? 'BEFORE',
+          events: match ? [match[2].toUpperCase()] : []
+        }
+      })
+    } finally {
+      db.close()
+    }
+  }
+
+  async getObjectDefinition(config: ConnectionConfig, object: SchemaObjectRef): Promise<string> {
+    if (object.kind !== 'view' && object.kind !== 'index' && object.kind !== 'trigger') {
+      throw new Error(`SQLite has no ${object.kind} objects`)
+    }
+
+    const db = openDatabase(config)
+
+    try {
+      const row = db
+        .prepare('SELECT sql FROM sqlite_master WHERE type = ? AND name = ?')
+        .get(object.kind, object.name) as { sql: string | null } | undefined
+
+      if (!row) {
+        throw new Error(`${object.name} was not found`)
+      }
+      // Indexes created for PRIMARY KEY and UNIQUE constraints have no SQL of their own
+      if (!row.sql) {
+        return `-- ${object.name} is created by a PRIMARY KEY or UNIQUE constraint of table ${object.table ?? ''}`
+      }
+      return `${row.sql};`
+    } finally {
+      db.close()
+    }
+  }
+
+  async estimateRowCount(): Promise<number | null> {
+    // SQLite keeps no row statistics by default; COUNT(*) on a local file is cheap
+    return null
+  }
+}
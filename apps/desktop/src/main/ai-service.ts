@@ -2,27 +2,57 @@
  * AI Service - Main Process
  *
  * Handles AI provider configuration, API key storage, and structured responses.
- * Uses AI SDK's generateObject for typed JSON output.
+ * Uses AI SDK's streamObject for typed JSON output, reporting the response as it
+ * streams in so the chat can render it progressively. On large databases only the
+ * tables relevant to the conversation are described in the prompt (see schema-retrieval).
+ * With a connection, the model can first inspect the database through read-only tools
+ * (see ai-tools) and gives its structured response by calling an `answer` tool.
  */
 
 import { createOpenAI } from '@ai-sdk/openai'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { createGroq } from '@ai-sdk/groq'
-import { generateObject, generateText } from 'ai'
+import {
+  generateObject,
+  generateText,
+  hasToolCall,
+  parsePartialJson,
+  stepCountIs,
+  streamObject,
+  streamText,
+  tool,
+  type LanguageModel,
+  type ToolSet
+} from 'ai'
 import { z } from 'zod'
 import type {
   SchemaInfo,
+  ConnectionConfig,
+  AIToolCallTrace,
   AIProvider,
   AIConfig,
   AIMessage,
   AIStructuredResponse,
+  AIChatResponse,
+  AIChatProgress,
+  AIQueryAttempt,
+  AIQueryFix,
+  AIQueryAssistMode,
+  AIQueryAssistResult,
   StoredChatMessage,
   ChatSession,
   AIMultiProviderConfig,
-  AIProviderConfig
+  AIProviderConfig,
+  ExecutionPlan
 } from '@shared/index'
 import { DEFAULT_MODELS } from '@shared/index'
+import {
+  selectSchemaContext,
+  type SchemaSelection,
+  type SchemaSelectionOptions
+} from './schema-retrieval'
+import { createDatabaseTools, summarizePlan } from './ai-tools'
 
 // Re-export types for main process consumers
 export type {
@@ -30,6 +60,12 @@ export type {
   AIConfig,
   AIMessage,
   AIStructuredResponse,
+  AIChatResponse,
+  AIChatProgress,
+  AIQueryAttempt,
+  AIQueryFix,
+  AIQueryAssistMode,
+  AIQueryAssistResult,
   StoredChatMessage,
   ChatSession,
   AIMultiProviderConfig,
@@ -70,6 +106,58 @@ const responseSchema = z.object({
   tables: z.array(z.string()).nullish().describe('Table names - for schema type')
 })
 
+type ResponseObject = z.infer<typeof responseSchema>
+
+const queryAssistSchema = z.object({
+  explanation: z
+    .string()
+    .describe('The explanation, or why the rewrite is faster, as plain text without markdown'),
+  sql: z.string().nullable().describe('The rewritten query, or null')
+})
+
+const QUERY_ASSIST_INSTRUCTIONS: Record<AIQueryAssistMode, string> = {
+  explain: `Explain in plain language what the query does: what it returns, how the tables are joined and filtered, and anything surprising (e.g. a join that can multiply rows). If an execution plan is given, say briefly how the database runs it. Keep it short. Set sql to null.`,
+  optimize: `Rewrite the query to run faster. The rewrite must return exactly the same result (columns, rows and ordering) and must not change what the query writes. Use the execution plan, if given, to find the costly steps. In the explanation, give the rationale of each change. If an index would help more than a rewrite, say which in the explanation. If the query can't be improved, set sql to null and explain why.`
+}
+
+const queryFixSchema = z.object({
+  sql: z.string().describe('The corrected query'),
+  explanation: z.string().describe('What was wrong and what changed, in one sentence')
+})
+
+// Steps of the tool loop (each may call several tools), the final answer included
+const MAX_AGENT_STEPS = 8
+
+const TOOL_INSTRUCTIONS = `## Tools
+
+Before answering you can inspect the database with read-only tools: list_tables, describe_table, sample_rows, count_distinct and explain_query. Use them when the answer depends on actual data (the spelling of a status, the format of a date column, whether a column is populated) or on a table not described above, and to check a query with explain_query before returning it. Don't use them when the schema above is enough.
+
+When you are done, call the answer tool exactly once with your response, following the response format above.`
+
+/**
+ * Options for a chat response
+ */
+export interface ChatResponseOptions extends SchemaSelectionOptions {
+  /** Connection the model may inspect with the read-only tools */
+  connection?: ConnectionConfig
+  /** Stops the provider request */
+  abortSignal?: AbortSignal
+  /** Called with the response so far as it streams in */
+  onProgress?: (progress: ChatProgress) => void
+}
+
+export type ChatProgress = Omit<AIChatProgress, 'requestId'>
+
+// What the streaming calls of one response share
+interface ResponseStream {
+  model: LanguageModel
+  system: string
+  prompt: string
+  toolCalls: AIToolCallTrace[]
+  abortSignal?: AbortSignal
+  onProgress?: (progress: ChatProgress) => void
+}
+
 import { DpStorage } from './storage'
 
 // Chat history store structure: map of connectionId -> sessions
@@ -338,11 +426,13 @@ function getModel(config: AIConfig) {
 }
 
 /**
- * Build the system prompt with schema context
+ * Build the system prompt with the selected tables as schema context
+ */
+/**
+ * Concise description of the tables for a prompt
  */
-function buildSystemPrompt(schemas: SchemaInfo[], dbType: string): string {
-  // Build a concise schema representation
-  const schemaContext = schemas
+function describeSchemas(schemas: SchemaInfo[]): string {
+  return schemas
     .map((schema) => {
       const tables = schema.tables
         .map((table) => {
@@ -362,12 +452,30 @@ function buildSystemPrompt(schemas: SchemaInfo[], dbType: string): string {
       return `Schema "${schema.name}":\n${tables}`
     })
     .join('\n\n')
+}
+
+function buildSystemPrompt(selection: SchemaSelection, dbType: string, withTools: boolean): string {
+  const { schemas, context, omittedTables } = selection
+
+  const schemaContext = describeSchemas(schemas)
+
+  // Tell the model the rest of the database exists, so it can ask instead of guessing
+  const omittedCount = context.totalTables - context.tables.length
+  let otherTables = ''
+  if (context.ranked && omittedCount > 0) {
+    otherTables = omittedTables.length
+      ? `\n\nOnly the tables relevant to the conversation are described above. The database also has these tables: ${omittedTables.join(', ')}.`
+      : `\n\nOnly the tables relevant to the conversation are described above. The database has ${omittedCount} other tables.`
+    otherTables += withTools
+      ? ' If the request needs a table that is not described, look it up with list_tables and describe_table instead of guessing its columns.'
+      : ' If the request needs a table that is not described, say so and ask the user to pin it in the AI panel instead of guessing its columns.'
+  }
 
   return `You are a helpful database assistant for a ${dbType} database.
 
 ## Database Schema
 
-${schemaContext}
+${schemaContext}${otherTables}
 
 ## Response Format
 
@@ -407,7 +515,7 @@ Use for general questions, clarifications, or when no SQL is needed.
 - Use proper ${dbType} syntax
 - Use table aliases for readability
 - Quote identifiers if they contain special characters
-- Be precise with JOINs based on foreign key relationships`
+- Be precise with JOINs based on foreign key relationships${withTools ? `\n\n${TOOL_INSTRUCTIONS}` : ''}`
 }
 
 /**
@@ -449,21 +557,144 @@ export async function validateAPIKey(
 }
 
 /**
- * Generate a structured chat response using AI SDK's generateObject
+ * What to show of a partial response. The SQL is left out until it is complete, which
+ * is when the model has moved on to a field after it (fields stream in order).
+ */
+function toChatProgress(
+  partial: Record<string, unknown>,
+  toolCalls: AIToolCallTrace[]
+): ChatProgress {
+  const keys = Object.keys(partial)
+  const sqlComplete = keys.includes('sql') && keys[keys.length - 1] !== 'sql'
+  return {
+    message: typeof partial.message === 'string' ? partial.message : '',
+    sql: sqlComplete && typeof partial.sql === 'string' ? partial.sql : null,
+    toolCalls: toolCalls.length > 0 ? [...toolCalls] : undefined
+  }
+}
+
+/**
+ * Stream the response object, reporting it as it grows
+ */
+async function streamResponseObject(
+  stream: ResponseStream,
+  prompt = stream.prompt
+): Promise<ResponseObject> {
+  const result = streamObject({
+    model: stream.model,
+    schema: responseSchema,
+    system: stream.system,
+    prompt,
+    temperature: 0.1, // Lower temperature for more consistent SQL generation
+    abortSignal: stream.abortSignal
+  })
+
+  for await (const part of result.fullStream) {
+    if (part.type === 'object') {
+      stream.onProgress?.(toChatProgress(part.object, stream.toolCalls))
+    } else if (part.type === 'error') {
+      throw part.error
+    }
+  }
+  stream.abortSignal?.throwIfAborted()
+
+  return result.object
+}
+
+/**
+ * Let the model call the inspection tools until it calls `answer`, reporting the tool
+ * calls and then the answer as they stream in. If it runs out of steps first, one more
+ * call turns what the tools returned into the response.
+ */
+async function runToolLoop(stream: ResponseStream, tools: ToolSet): Promise<ResponseObject> {
+  const result = streamText({
+    model: stream.model,
+    system: stream.system,
+    prompt: stream.prompt,
+    tools: {
+      ...tools,
+      // No execute: calling it ends the loop with the response as its input
+      answer: tool({
+        description: 'Give the final response to the user',
+        inputSchema: responseSchema
+      })
+    },
+    toolChoice: 'required',
+    stopWhen: [stepCountIs(MAX_AGENT_STEPS), hasToolCall('answer')],
+    temperature: 0.1,
+    abortSignal: stream.abortSignal
+  })
+
+  // The answer's input is the response, streamed as JSON text
+  let answerId: string | null = null
+  let answerInput = ''
+  for await (const part of result.fullStream) {
+    switch (part.type) {
+      case 'tool-input-start':
+        if (part.toolName === 'answer') {
+          answerId = part.id
+          answerInput = ''
+        }
+        break
+      case 'tool-input-delta':
+        if (part.id === answerId) {
+          answerInput += part.delta
+          const { value } = await parsePartialJson(answerInput)
+          if (value && typeof value === 'object' && !Array.isArray(value)) {
+            stream.onProgress?.(toChatProgress(value, stream.toolCalls))
+          }
+        }
+        break
+      case 'tool-result':
+        stream.onProgress?.(toChatProgress({}, stream.toolCalls))
+        break
+      case 'error':
+        throw part.error
+    }
+  }
+  stream.abortSignal?.throwIfAborted()
+
+  const steps = await result.steps
+  const answer = steps
+    .flatMap((step) => step.toolCalls)
+    .find((call) => call.toolName === 'answer' && !call.invalid)
+  if (answer) {
+    return answer.input as ResponseObject
+  }
+
+  const findings = steps
+    .flatMap((step) => step.toolResults)
+    .map(
+      (toolResult) =>
+        `${toolResult.toolName}(${JSON.stringify(toolResult.input)}): ${toolResult.output}`
+    )
+    .join('\n')
+
+  return streamResponseObject(
+    stream,
+    `${stream.prompt}\n\nWhat you found inspecting the database:\n${findings}`
+  )
+}
+
+/**
+ * Generate a structured chat response, with the tool loop when a connection is given.
+ * Returns "Response stopped" as the error when aborted.
  */
 export async function generateChatResponse(
   config: AIConfig,
   messages: AIMessage[],
   schemas: SchemaInfo[],
-  dbType: string
+  dbType: string,
+  options: ChatResponseOptions = {}
 ): Promise<{
   success: boolean
-  data?: AIStructuredResponse
+  data?: AIChatResponse
   error?: string
 }> {
   try {
     const model = getModel(config)
-    const systemPrompt = buildSystemPrompt(schemas, dbType)
+    const selection = selectSchemaContext(schemas, messages, options)
+    const systemPrompt = buildSystemPrompt(selection, dbType, !!options.connection)
 
     // Build the conversation context
     const lastUserMessage = messages[messages.length - 1]
@@ -476,36 +707,49 @@ export async function generateChatResponse(
       ? `Previous conversation:\n${conversationContext}\n\nUser's current request: ${lastUserMessage.content}`
       : lastUserMessage.content
 
-    const result = await generateObject({
+    const toolCalls: AIToolCallTrace[] = []
+    const stream: ResponseStream = {
       model,
-      schema: responseSchema,
       system: systemPrompt,
       prompt,
-      temperature: 0.1 // Lower temperature for more consistent SQL generation
-    })
+      toolCalls,
+      abortSignal: options.abortSignal,
+      onProgress: options.onProgress
+    }
+    const object = options.connection
+      ? await runToolLoop(stream, createDatabaseTools(options.connection, schemas, toolCalls))
+      : await streamResponseObject(stream)
 
     // Normalize undefined to null for consistency
     const normalizedData = {
-      ...result.object,
-      sql: result.object.sql ?? null,
-      explanation: result.object.explanation ?? null,
-      warning: result.object.warning ?? null,
-      requiresConfirmation: result.object.requiresConfirmation ?? null,
-      title: result.object.title ?? null,
-      description: result.object.description ?? null,
-      chartType: result.object.chartType ?? null,
-      xKey: result.object.xKey ?? null,
-      yKeys: result.object.yKeys ?? null,
-      label: result.object.label ?? null,
-      format: result.object.format ?? null,
-      tables: result.object.tables ?? null
+      ...object,
+      sql: object.sql ?? null,
+      explanation: object.explanation ?? null,
+      warning: object.warning ?? null,
+      requiresConfirmation: object.requiresConfirmation ?? null,
+      title: object.title ?? null,
+      description: object.description ?? null,
+      chartType: object.chartType ?? null,
+      xKey: object.xKey ?? null,
+      yKeys: object.yKeys ?? null,
+      label: object.label ?? null,
+      format: object.format ?? null,
+      tables: object.tables ?? null
     }
 
     return {
       success: true,
-      data: normalizedData as AIStructuredResponse
+      data: {
+        ...(normalizedData as AIStructuredResponse),
+        schemaContext: selection.context,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      }
     }
   } catch (error: unknown) {
+    if (options.abortSignal?.aborted) {
+      return { success: false, error: 'Response stopped' }
+    }
+
     const message = error instanceof Error ? error.message : 'Unknown error'
     console.error('[ai-service] generateChatResponse error:', JSON.stringify(error, null, 2))
 
@@ -513,6 +757,127 @@ export async function generateChatResponse(
   }
 }
 
+/**
+ * Ask for a fixed version of a query that failed. `attempts` are the failed runs,
+ * oldest first: the last is the one to fix, the earlier ones are fixes that didn't
+ * work. The tables the queries and errors mention are described in the prompt.
+ */
+export async function generateQueryFix(
+  config: AIConfig,
+  attempts: AIQueryAttempt[],
+  schemas: SchemaInfo[],
+  dbType: string
+): Promise<{
+  success: boolean
+  data?: AIQueryFix
+  error?: string
+}> {
+  try {
+    const failed = attempts[attempts.length - 1]
+    if (!failed) {
+      return { success: false, error: 'No failed query to fix' }
+    }
+
+    const selection = selectSchemaContext(
+      schemas,
+      [{ role: 'user', content: attempts.map((a) => `${a.sql}\n${a.error}`).join('\n') }],
+      { recentQueries: attempts.map((a) => a.sql) }
+    )
+
+    const system = `You fix SQL queries that failed on a ${dbType} database.
+
+## Database Schema
+
+${describeSchemas(selection.schemas)}
+
+## Rules
+
+- Change only what the error requires and keep what the query is meant to return
+- Use only tables and columns from the schema above
+- Return a single statement that only reads data`
+
+    const earlier = attempts
+      .slice(0, -1)
+      .map((a, i) => `Attempt ${i + 1}:\n${a.sql}\nError: ${a.error}`)
+      .join('\n\n')
+
+    const result = await generateObject({
+      model: getModel(config),
+      schema: queryFixSchema,
+      system,
+      prompt: `${earlier ? `These versions of the query failed before:\n\n${earlier}\n\n` : ''}This query failed:\n${failed.sql}\n\nError: ${failed.error}`,
+      temperature: 0.1
+    })
+
+    return { success: true, data: result.object }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[ai-service] generateQueryFix error:', message)
+
+    return { success: false, error: message }
+  }
+}
+
+/**
+ * Explain a query from the editor in plain language, or rewrite it to run faster.
+ * The tables it uses and, when available, its execution plan are the context.
+ */
+export async function generateQueryAssist(
+  config: AIConfig,
+  mode: AIQueryAssistMode,
+  sql: string,
+  schemas: SchemaInfo[],
+  dbType: string,
+  plan: ExecutionPlan | null
+): Promise<{
+  success: boolean
+  data?: AIQueryAssistResult
+  error?: string
+}> {
+  try {
+    const selection = selectSchemaContext(schemas, [{ role: 'user', content: sql }], {
+      recentQueries: [sql]
+    })
+
+    const planContext = plan?.root
+      ? `\n\n## Execution Plan (estimated)\n\n${JSON.stringify({ plan: summarizePlan(plan.root), warnings: plan.warnings })}`
+      : ''
+
+    const system = `You are a database expert reviewing a query for a ${dbType} database.
+
+## Database Schema
+
+${describeSchemas(selection.schemas)}${planContext}
+
+## Task
+
+${QUERY_ASSIST_INSTRUCTIONS[mode]}`
+
+    const result = await generateObject({
+      model: getModel(config),
+      schema: queryAssistSchema,
+      system,
+      prompt: sql,
+      temperature: 0.1
+    })
+
+    return {
+      success: true,
+      data: {
+        mode,
+        explanation: result.object.explanation,
+        sql: mode === 'optimize' ? result.object.sql : null,
+        usedPlan: !!plan?.root
+      }
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[ai-service] generateQueryAssist error:', message)
+
+    return { success: false, error: message }
+  }
+}
+
 /**
  * Generate a title for a chat session based on its first message
  */
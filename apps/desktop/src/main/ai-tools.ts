@@ -0,0 +1,276 @@
+import { tool, type ToolSet } from 'ai'
+import { z } from 'zod'
+import {
+  classifyQuery,
+  type AIToolCallTrace,
+  type AIToolName,
+  type ConnectionConfig,
+  type PlanNode,
+  type SchemaInfo,
+  type TableInfo
+} from '@shared/index'
+import { getAdapter } from './db-adapter'
+import { buildColumnStatsQuery, buildColumnValuesQuery, buildTablePageQuery } from './sql-builder'
+
+/**
+ * AI assistant tools
+ *
+ * The tools the model can call to look at the database before answering: list and
+ * describe tables (from the schema already loaded), sample rows, count a column's
+ * distinct values and explain a query. Everything is read-only: the tools build their
+ * own SQL from known table and column names, the one taking SQL from the model only
+ * accepts a single read statement and never executes it, and the queries run through
+ * the adapters' `queryReadOnly` so the database itself refuses (or rolls back) writes.
+ */
+
+const MAX_LISTED_TABLES = 200
+const MAX_SAMPLE_ROWS = 20
+const MAX_TOP_VALUES = 25
+const MAX_PLAN_NODES = 40
+
+// Long values are cut so a few wide rows don't fill the model's context
+const MAX_VALUE_LENGTH = 200
+const MAX_OUTPUT_LENGTH = 8000
+
+/**
+ * Text sent back to the model for a tool's result
+ */
+function toToolOutput(result: unknown): string {
+  const output = JSON.stringify(result, (_, value: unknown) => {
+    if (typeof value === 'bigint') return value.toString()
+    if (value instanceof Uint8Array) return `<${value.length} bytes>`
+    if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+      return `${value.slice(0, MAX_VALUE_LENGTH)}…`
+    }
+    return value
+  })
+  return output.length > MAX_OUTPUT_LENGTH ? `${output.slice(0, MAX_OUTPUT_LENGTH)}…` : output
+}
+
+function findTable(
+  schemas: SchemaInfo[],
+  schemaName: string | undefined,
+  tableName: string
+): { schema: string; table: TableInfo } {
+  const lowerName = tableName.toLowerCase()
+  for (const schema of schemas) {
+    if (schemaName && schema.name.toLowerCase() !== schemaName.toLowerCase()) continue
+    const table = schema.tables.find((t) => t.name.toLowerCase() === lowerName)
+    if (table) return { schema: schema.name, table }
+  }
+  throw new Error(
+    `Table "${schemaName ? `${schemaName}.` : ''}${tableName}" not found. Use list_tables to find it.`
+  )
+}
+
+function findColumn(table: TableInfo, columnName: string): string {
+  const column = table.columns.find((c) => c.name.toLowerCase() === columnName.toLowerCase())
+  if (!column) {
+    throw new Error(`Column "${columnName}" not found in "${table.name}". Use describe_table.`)
+  }
+  return column.name
+}
+
+/**
+ * The plan as a flat list of operations with their depth, compact enough for a prompt
+ */
+export function summarizePlan(root: PlanNode | null): Array<Record<string, unknown>> {
+  const nodes: Array<Record<string, unknown>> = []
+  const visit = (node: PlanNode, depth: number): void => {
+    if (nodes.length >= MAX_PLAN_NODES) return
+    nodes.push({
+      depth,
+      operation: node.nodeType,
+      relation: node.relation,
+      index: node.index,
+      estimatedRows: node.estimatedRows,
+      cost: node.totalCost,
+      fullScan: node.fullScan || undefined,
+      warnings: node.warnings.length > 0 ? node.warnings : undefined
+    })
+    node.children.forEach((child) => visit(child, depth + 1))
+  }
+  if (root) visit(root, 0)
+  return nodes
+}
+
+/**
+ * Create the inspection tools for a connection. Each call is recorded in `trace` (in
+ * call order) for the trace shown under the response.
+ */
+export function createDatabaseTools(
+  config: ConnectionConfig,
+  schemas: SchemaInfo[],
+  trace: AIToolCallTrace[]
+): ToolSet {
+  const adapter = getAdapter(config)
+  const dbType = config.dbType || 'postgresql'
+
+  // Run a tool, record it and turn failures into a result the model can react to
+  const traced = async <T>(
+    name: AIToolName,
+    input: Record<string, unknown>,
+    run: () => Promise<{ result: T; summary: string }>
+  ): Promise<string> => {
+    const start = Date.now()
+    try {
+      const { result, summary } = await run()
+      trace.push({ tool: name, input, summary, durationMs: Date.now() - start })
+      return toToolOutput(result)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      trace.push({ tool: name, input, error: message, durationMs: Date.now() - start })
+      return toToolOutput({ error: message })
+    }
+  }
+
+  return {
+    list_tables: tool({
+      description:
+        'List the tables and views of the database, optionally only those of a schema or whose name contains a search term.',
+      inputSchema: z.object({
+        schema: z.string().nullish().describe('Only tables of this schema'),
+        search: z.string().nullish().describe('Only tables whose name contains this text')
+      }),
+      execute: (input) =>
+        traced('list_tables', input, async () => {
+          const search = input.search?.toLowerCase()
+          const tables = schemas
+            .filter((schema) => !input.schema || schema.name === input.schema)
+            .flatMap((schema) =>
+              schema.tables
+                .filter((table) => !search || table.name.toLowerCase().includes(search))
+                .map((table) => ({
+                  schema: schema.name,
+                  name: table.name,
+                  type: table.type,
+                  estimatedRows: table.estimatedRowCount
+                }))
+            )
+          return {
+            result: {
+              tables: tables.slice(0, MAX_LISTED_TABLES),
+              total: tables.length,
+              truncated: tables.length > MAX_LISTED_TABLES
+            },
+            summary: `${tables.length} table${tables.length === 1 ? '' : 's'}`
+          }
+        })
+    }),
+
+    describe_table: tool({
+      description:
+        'Get the columns of a table: names, data types, nullability, primary key and foreign key references.',
+      inputSchema: z.object({
+        schema: z.string().nullish().describe('Schema of the table'),
+        table: z.string().describe('Table name')
+      }),
+      execute: (input) =>
+        traced('describe_table', input, async () => {
+          const { schema, table } = findTable(schemas, input.schema ?? undefined, input.table)
+          return {
+            result: {
+              schema,
+              table: table.name,
+              type: table.type,
+              estimatedRows: table.estimatedRowCount,
+              columns: table.columns.map((column) => ({
+                name: column.name,
+                type: column.dataType,
+                nullable: column.isNullable,
+                primaryKey: column.isPrimaryKey || undefined,
+                references: column.foreignKey
+                  ? `${column.foreignKey.referencedSchema}.${column.foreignKey.referencedTable}.${column.foreignKey.referencedColumn}`
+                  : undefined
+              }))
+            },
+            summary: `${table.columns.length} columns`
+          }
+        })
+    }),
+
+    sample_rows: tool({
+      description: `Read a few rows of a table to see what its values look like (at most ${MAX_SAMPLE_ROWS}).`,
+      inputSchema: z.object({
+        schema: z.string().nullish().describe('Schema of the table'),
+        table: z.string().describe('Table name'),
+        limit: z.number().int().min(1).max(MAX_SAMPLE_ROWS).nullish().describe('Rows to read')
+      }),
+      execute: (input) =>
+        traced('sample_rows', input, async () => {
+          const { schema, table } = findTable(schemas, input.schema ?? undefined, input.table)
+          const { sql } = buildTablePageQuery(
+            {
+              schema,
+              table: table.name,
+              filters: [],
+              sort: [],
+              page: 0,
+              pageSize: input.limit ?? 5
+            },
+            dbType
+          )
+          const { rows } = await adapter.queryReadOnly(config, sql)
+          return { result: { rows }, summary: `${rows.length} row${rows.length === 1 ? '' : 's'}` }
+        })
+    }),
+
+    count_distinct: tool({
+      description:
+        'Count the distinct values of a column and list its most frequent values with their counts.',
+      inputSchema: z.object({
+        schema: z.string().nullish().describe('Schema of the table'),
+        table: z.string().describe('Table name'),
+        column: z.string().describe('Column name'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_TOP_VALUES)
+          .nullish()
+          .describe('Most frequent values to list')
+      }),
+      execute: (input) =>
+        traced('count_distinct', input, async () => {
+          const { schema, table } = findTable(schemas, input.schema ?? undefined, input.table)
+          const column = findColumn(table, input.column)
+          const context = { schema, table: table.name }
+
+          const stats = await adapter.queryReadOnly(
+            config,
+            buildColumnStatsQuery(context, column, dbType)
+          )
+          const values = await adapter.queryReadOnly(
+            config,
+            buildColumnValuesQuery(context, column, input.limit ?? 10, dbType)
+          )
+          const distinct = Number(stats.rows[0]?.distinct_values ?? 0)
+          return {
+            result: { ...stats.rows[0], topValues: values.rows },
+            summary: `${distinct.toLocaleString()} distinct value${distinct === 1 ? '' : 's'}`
+          }
+        })
+    }),
+
+    explain_query: tool({
+      description:
+        'Get the estimated execution plan of a SELECT query (it is not executed), to check it is valid and uses indexes.',
+      inputSchema: z.object({
+        sql: z.string().describe('A single SELECT statement')
+      }),
+      execute: (input) =>
+        traced('explain_query', input, async () => {
+          const statements = classifyQuery(input.sql)
+          if (statements.length !== 1 || statements[0].risk !== 'read') {
+            throw new Error('Only a single read-only statement can be explained')
+          }
+          const { plan } = await adapter.explain(config, input.sql, false)
+          const nodes = summarizePlan(plan.root)
+          return {
+            result: { plan: nodes, warnings: plan.warnings },
+            summary: `${nodes.length} plan node${nodes.length === 1 ? '' : 's'}`
+          }
+        })
+    })
+  }
+}
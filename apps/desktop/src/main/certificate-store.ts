@@ -0,0 +1,123 @@
+import { readFile } from 'fs/promises'
+import type { ConnectionConfig, SSLConfig } from '@shared/index'
+import { DpSecureStorage } from './storage'
+
+/**
+ * SSL certificate store
+ *
+ * Connections only persist the file paths of their CA, client certificate and key.
+ * The PEM contents are read when the connection is saved and kept in encrypted
+ * storage, so a connection keeps working if the original files move.
+ */
+
+interface StoredCertificates {
+  ca?: string
+  cert?: string
+  key?: string
+}
+
+type CertificateField = keyof StoredCertificates
+
+const CERTIFICATE_FIELDS: Array<{ field: CertificateField; path: keyof SSLConfig }> = [
+  { field: 'ca', path: 'caPath' },
+  { field: 'cert', path: 'certPath' },
+  { field: 'key', path: 'keyPath' }
+]
+
+let store: DpSecureStorage<{ certificates: Record<string, StoredCertificates> }> | null = null
+
+/**
+ * Initialize the certificate store
+ */
+export async function initCertificateStore(): Promise<void> {
+  if (store) return
+
+  store = await DpSecureStorage.create<{ certificates: Record<string, StoredCertificates> }>({
+    name: 'data-peek-certificates',
+    defaults: {
+      certificates: {}
+    }
+  })
+}
+
+function getStoredCertificates(connectionId: string): StoredCertificates | undefined {
+  return store?.get('certificates', {})[connectionId]
+}
+
+async function readCertificateFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf-8')
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to read certificate file ${path}: ${errorMessage}`)
+  }
+}
+
+/**
+ * Read the certificate files referenced by a connection into secure storage.
+ * Returns the config to persist, with any inline PEM contents removed.
+ */
+export async function saveCertificates(config: ConnectionConfig): Promise<ConnectionConfig> {
+  if (!store) return config
+
+  const ssl = typeof config.ssl === 'object' ? config.ssl : null
+  const certificates: StoredCertificates = {}
+
+  if (ssl && ssl.mode !== 'disable') {
+    for (const { field, path } of CERTIFICATE_FIELDS) {
+      const filePath = ssl[path] as string | undefined
+      if (filePath) {
+        certificates[field] = await readCertificateFile(filePath)
+      }
+    }
+  }
+
+  const allCertificates = store.get('certificates', {})
+  if (Object.keys(certificates).length > 0) {
+    allCertificates[config.id] = certificates
+  } else {
+    delete allCertificates[config.id]
+  }
+  store.set('certificates', allCertificates)
+
+  if (!ssl) return config
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { ca, cert, key, ...persisted } = ssl
+  return { ...config, ssl: persisted }
+}
+
+/**
+ * Remove the stored certificates for a connection
+ */
+export function deleteCertificates(connectionId: string): void {
+  if (!store) return
+
+  const allCertificates = store.get('certificates', {})
+  if (!(connectionId in allCertificates)) return
+
+  delete allCertificates[connectionId]
+  store.set('certificates', allCertificates)
+}
+
+/**
+ * Fill in the PEM contents for a connection's SSL settings.
+ * Uses the stored copies when available and falls back to reading the files
+ * (e.g. when testing a connection that hasn't been saved yet).
+ */
+export async function resolveCertificates(config: ConnectionConfig): Promise<ConnectionConfig> {
+  if (typeof config.ssl !== 'object' || config.ssl.mode === 'disable') {
+    return config
+  }
+
+  const ssl: SSLConfig = { ...config.ssl }
+  const stored = getStoredCertificates(config.id)
+
+  for (const { field, path } of CERTIFICATE_FIELDS) {
+    if (ssl[field]) continue
+    const filePath = ssl[path] as string | undefined
+    if (!filePath) continue
+    ssl[field] = stored?.[field] ?? (await readCertificateFile(filePath))
+  }
+
+  return { ...config, ssl }
+}
@@ -0,0 +1,166 @@
+import type { Readable } from 'stream'
+import type { ResultChunk } from '@shared/index'
+
+/**
+ * Result cursor manager
+ *
+ * Large result sets are read through server-side cursors (pg-cursor, mysql2 and mssql
+ * streams) and handed to the renderer one chunk at a time. The cursor stays open
+ * between fetches under the execution ID of the query that opened it.
+ *
+ * Every open cursor holds a pooled connection, so cursors are closed as soon as they
+ * are exhausted, when their connection settings change, or after sitting idle.
+ */
+
+export interface ResultCursor {
+  /** Saved connection the cursor belongs to */
+  connectionId: string
+  /** Read up to `count` rows. Returns fewer once the result set is exhausted. */
+  read: (count: number) => Promise<Record<string, unknown>[]>
+  /** Close the cursor and give its connection back to the pool */
+  close: () => Promise<void>
+}
+
+interface CursorEntry {
+  cursor: ResultCursor
+  idleTimer: ReturnType<typeof setTimeout>
+}
+
+/** Time (ms) an unused cursor is kept open before it is closed */
+const CURSOR_IDLE_TIMEOUT_MS = 5 * 60_000
+
+const cursors = new Map<string, CursorEntry>()
+
+function startIdleTimer(executionId: string): ReturnType<typeof setTimeout> {
+  return setTimeout(() => {
+    console.log('[cursor-manager] Closing idle cursor:', executionId)
+    closeCursor(executionId)
+  }, CURSOR_IDLE_TIMEOUT_MS)
+}
+
+/**
+ * Keep a cursor open so the renderer can fetch more rows from it
+ */
+export function registerCursor(executionId: string, cursor: ResultCursor): void {
+  const existing = cursors.get(executionId)
+  if (existing) {
+    clearTimeout(existing.idleTimer)
+    existing.cursor.close().catch(() => {})
+  }
+
+  cursors.set(executionId, { cursor, idleTimer: startIdleTimer(executionId) })
+}
+
+/**
+ * Read the next chunk of rows from an open cursor.
+ * The cursor is closed once it runs out of rows or fails.
+ */
+export async function fetchFromCursor(executionId: string, count: number): Promise<ResultChunk> {
+  const entry = cursors.get(executionId)
+  if (!entry) {
+    throw new Error('The result cursor is no longer open. Run the query again to load more rows.')
+  }
+
+  clearTimeout(entry.idleTimer)
+
+  let rows: Record<string, unknown>[]
+  try {
+    rows = await entry.cursor.read(count)
+  } catch (error) {
+    await closeCursor(executionId)
+    throw error
+  }
+
+  const hasMore = rows.length === count
+  if (hasMore) {
+    entry.idleTimer = startIdleTimer(executionId)
+  } else {
+    await closeCursor(executionId)
+  }
+
+  return { rows, hasMore }
+}
+
+/**
+ * Close an open cursor (if any)
+ */
+export async function closeCursor(executionId: string): Promise<void> {
+  const entry = cursors.get(executionId)
+  if (!entry) return
+
+  cursors.delete(executionId)
+  clearTimeout(entry.idleTimer)
+  try {
+    await entry.cursor.close()
+  } catch (error) {
+    console.error('[cursor-manager] Failed to close cursor:', error)
+  }
+}
+
+/**
+ * Close every cursor opened on a connection (before its pool is closed)
+ */
+export async function closeConnectionCursors(connectionId: string): Promise<void> {
+  const ids = Array.from(cursors.entries())
+    .filter(([, entry]) => entry.cursor.connectionId === connectionId)
+    .map(([id]) => id)
+  await Promise.all(ids.map((id) => closeCursor(id)))
+}
+
+/**
+ * Close every open cursor (used on app quit)
+ */
+export async function closeAllCursors(): Promise<void> {
+  await Promise.all(Array.from(cursors.keys()).map((id) => closeCursor(id)))
+}
+
+/**
+ * Pull rows from an object-mode stream on demand.
+ * The stream stays paused between reads, so the driver applies backpressure to the
+ * server instead of buffering the whole result set.
+ */
+export function createStreamReader(
+  stream: Readable
+): (count: number) => Promise<Record<string, unknown>[]> {
+  // Some drivers emit 'error' without destroying the stream, so remember it here.
+  // This listener also keeps a failure between reads from becoming an uncaught error.
+  let failure: Error | null = null
+  stream.on('error', (error) => {
+    failure = error
+  })
+
+  return (count) =>
+    new Promise((resolve, reject) => {
+      const rows: Record<string, unknown>[] = []
+
+      const cleanup = (): void => {
+        stream.off('readable', pull)
+        stream.off('end', pull)
+        stream.off('error', pull)
+      }
+
+      function pull(): void {
+        const error = failure ?? stream.errored
+        if (error) {
+          cleanup()
+          reject(error)
+          return
+        }
+
+        let row: Record<string, unknown> | null
+        while (rows.length < count && (row = stream.read()) !== null) {
+          rows.push(row)
+        }
+
+        if (rows.length >= count || stream.readableEnded) {
+          cleanup()
+          resolve(rows)
+        }
+      }
+
+      stream.on('readable', pull)
+      stream.on('end', pull)
+      stream.on('error', pull)
+      pull()
+    })
+}
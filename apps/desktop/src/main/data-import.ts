@@ -0,0 +1,273 @@
+import type {
+  ConnectionConfig,
+  DatabaseType,
+  ImportColumnType,
+  ImportRequest,
+  ImportResult,
+  ImportRowError,
+  ParameterizedQuery,
+  TableDefinition
+} from '@shared/index'
+import { getAdapter } from './db-adapter'
+import { buildCreateTable } from './ddl-builder'
+import { buildInsertRow } from './sql-builder'
+
+/**
+ * Data import
+ *
+ * Converts file rows to the mapped column types, optionally creates the target table,
+ * and inserts in batched transactions. A batch that fails is retried row by row so
+ * every bad row gets its own error and the good rows in that batch still go in.
+ */
+
+const DEFAULT_BATCH_SIZE = 500
+
+/** Errors beyond this many are counted but not returned */
+const MAX_REPORTED_ERRORS = 1000
+
+const COLUMN_TYPES: Record<DatabaseType, Record<ImportColumnType, string>> = {
+  postgresql: {
+    integer: 'bigint',
+    decimal: 'numeric',
+    boolean: 'boolean',
+    date: 'date',
+    timestamp: 'timestamp',
+    json: 'jsonb',
+    text: 'text'
+  },
+  mysql: {
+    integer: 'bigint',
+    decimal: 'decimal(38,10)',
+    boolean: 'boolean',
+    date: 'date',
+    timestamp: 'datetime',
+    json: 'json',
+    text: 'text'
+  },
+  mssql: {
+    integer: 'bigint',
+    decimal: 'decimal(38,10)',
+    boolean: 'bit',
+    date: 'date',
+    timestamp: 'datetime2',
+    json: 'nvarchar(max)',
+    text: 'nvarchar(max)'
+  },
+  sqlite: {
+    integer: 'integer',
+    decimal: 'real',
+    boolean: 'integer',
+    date: 'text',
+    timestamp: 'text',
+    json: 'text',
+    text: 'text'
+  }
+}
+
+const INTEGER_PATTERN = /^[+-]?\d+$/
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_ZONE_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/
+
+// Excel serial day 0 is 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30)
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const TRUE_VALUES = new Set(['true', 't', 'yes', 'y', '1'])
+const FALSE_VALUES = new Set(['false', 'f', 'no', 'n', '0'])
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value
+  if (typeof value === 'number') return new Date(EXCEL_EPOCH_MS + Math.round(value * MS_PER_DAY))
+  const time = Date.parse(String(value))
+  return Number.isNaN(time) ? null : new Date(time)
+}
+
+/**
+ * Convert one file value to the value bound for a column
+ * @throws Error describing why the value doesn't fit the type
+ */
+function convertValue(value: unknown, type: ImportColumnType): unknown {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'string' && value.trim() === '' && type !== 'text') return null
+
+  const text = typeof value === 'string' ? value.trim() : value
+
+  switch (type) {
+    case 'integer': {
+      if (typeof text === 'number' && Number.isInteger(text)) return text
+      if (typeof text === 'string' && INTEGER_PATTERN.test(text)) {
+        // Keep digits beyond Number's safe range as text so nothing is rounded
+        const number = Number(text)
+        return Number.isSafeInteger(number) ? number : text
+      }
+      throw new Error(`"${String(value)}" is not an integer`)
+    }
+    case 'decimal':
+      if (typeof text === 'number') return text
+      if (typeof text === 'string' && DECIMAL_PATTERN.test(text)) return text
+      throw new Error(`"${String(value)}" is not a number`)
+    case 'boolean': {
+      if (typeof text === 'boolean') return text
+      const lower = String(text).toLowerCase()
+      if (TRUE_VALUES.has(lower)) return true
+      if (FALSE_VALUES.has(lower)) return false
+      throw new Error(`"${String(value)}" is not a boolean`)
+    }
+    case 'date': {
+      if (typeof text === 'string' && DATE_PATTERN.test(text)) return text
+      const date = toDate(text)
+      if (!date) throw new Error(`"${String(value)}" is not a date`)
+      return typeof text === 'number'
+        ? date.toISOString().slice(0, 10)
+        : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    }
+    case 'timestamp': {
+      const date = toDate(text)
+      if (!date) throw new Error(`"${String(value)}" is not a timestamp`)
+      // Values with a zone are bound as instants; the rest keep their wall-clock time
+      if (typeof text === 'string' && TIME_ZONE_PATTERN.test(text)) return date
+      if (typeof text === 'string') return text.replace('T', ' ')
+      return date.toISOString().slice(0, 19).replace('T', ' ')
+    }
+    case 'json':
+      if (typeof text === 'object') return JSON.stringify(text)
+      try {
+        JSON.parse(String(text))
+      } catch {
+        throw new Error(`"${String(value)}" is not valid JSON`)
+      }
+      return String(text)
+    case 'text':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+}
+
+function buildTableDefinition(request: ImportRequest, dbType: DatabaseType): TableDefinition {
+  return {
+    schema: request.schema,
+    name: request.table,
+    columns: request.mappings.map((mapping, index) => ({
+      id: `import-${index}`,
+      name: mapping.targetColumn,
+      dataType: COLUMN_TYPES[dbType][mapping.type],
+      isNullable: true,
+      isPrimaryKey: false,
+      isUnique: false
+    })),
+    constraints: [],
+    indexes: []
+  }
+}
+
+function validateRequest(request: ImportRequest): void {
+  if (!request.table.trim()) {
+    throw new Error('Choose a table to import into')
+  }
+  if (request.mappings.length === 0) {
+    throw new Error('Map at least one column')
+  }
+
+  const targets = new Set<string>()
+  for (const mapping of request.mappings) {
+    if (!mapping.targetColumn.trim()) {
+      throw new Error(`Column "${mapping.sourceColumn}" has no target column`)
+    }
+    if (targets.has(mapping.targetColumn)) {
+      throw new Error(`Column "${mapping.targetColumn}" is mapped more than once`)
+    }
+    targets.add(mapping.targetColumn)
+  }
+}
+
+export async function importRows(
+  config: ConnectionConfig,
+  request: ImportRequest
+): Promise<ImportResult> {
+  validateRequest(request)
+
+  const start = Date.now()
+  const adapter = getAdapter(config)
+  const dbType = adapter.dbType
+  const batchSize = Math.max(1, Math.floor(request.batchSize ?? DEFAULT_BATCH_SIZE))
+
+  const errors: ImportRowError[] = []
+  let failedRows = 0
+  const addError = (rowIndex: number, error: unknown): void => {
+    failedRows++
+    if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push({ rowIndex, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  // Convert every row up front; rows that don't fit their types never reach the database
+  const prepared: Array<{ rowIndex: number; query: ParameterizedQuery }> = []
+  request.rows.forEach((row, rowIndex) => {
+    try {
+      const values: Record<string, unknown> = {}
+      for (const mapping of request.mappings) {
+        try {
+          values[mapping.targetColumn] = convertValue(row[mapping.sourceColumn], mapping.type)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          throw new Error(`${mapping.targetColumn}: ${message}`)
+        }
+      }
+      prepared.push({ rowIndex, query: buildInsertRow(request, values, dbType) })
+    } catch (error) {
+      addError(rowIndex, error)
+    }
+  })
+
+  const createTableSql = request.createTable
+    ? buildCreateTable(buildTableDefinition(request, dbType), dbType).sql
+    : undefined
+
+  let insertedRows = 0
+
+  if (request.dryRun) {
+    insertedRows = prepared.length
+  } else {
+    if (createTableSql) {
+      await adapter.execute(config, createTableSql, [])
+    }
+
+    for (let i = 0; i < prepared.length; i += batchSize) {
+      const batch = prepared.slice(i, i + batchSize)
+      try {
+        await adapter.executeTransaction(
+          config,
+          batch.map((row) => row.query)
+        )
+        insertedRows += batch.length
+      } catch {
+        // The batch rolled back; find the failing rows one at a time
+        for (const row of batch) {
+          try {
+            await adapter.executeTransaction(config, [row.query])
+            insertedRows++
+          } catch (error) {
+            addError(row.rowIndex, error)
+          }
+        }
+      }
+    }
+  }
+
+  errors.sort((a, b) => a.rowIndex - b.rowIndex)
+
+  return {
+    totalRows: request.rows.length,
+    insertedRows,
+    failedRows,
+    errors,
+    errorsTruncated: failedRows > errors.length,
+    dryRun: !!request.dryRun,
+    createTableSql,
+    durationMs: Date.now() - start
+  }
+}
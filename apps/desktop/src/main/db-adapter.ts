@@ -6,7 +6,11 @@ import type {
   TableDefinition,
   SequenceInfo,
   CustomTypeInfo,
-  StatementResult
+  IndexInfo,
+  TriggerInfo,
+  SchemaObjectRef,
+  StatementResult,
+  ExecutionPlan
 } from '@shared/index'
 
 /**
@@ -26,11 +30,32 @@ export interface AdapterMultiQueryResult {
   totalDurationMs: number
 }
 
+/**
+ * Options for running user queries
+ */
+export interface QueryOptions {
+  /** Renderer-assigned ID used to cancel the query while it runs */
+  executionId?: string
+  /**
+   * Read the final data-returning statement through a server-side cursor and load
+   * only this many rows up front. If more remain, the cursor is kept open under
+   * `executionId` (see cursor-manager) and the result is flagged with `hasMore`.
+   */
+  chunkSize?: number
+  /** Values for :name / $1 / @name placeholders, bound by the driver (see bindQueryParameters) */
+  parameters?: Record<string, unknown>
+  /**
+   * Run on the connection pinned to this session (see session-manager) instead of a
+   * pooled one, so transactions stay open between queries
+   */
+  sessionId?: string
+}
+
 /**
  * Explain plan result
  */
 export interface ExplainResult {
-  plan: unknown
+  plan: ExecutionPlan
   durationMs: number
 }
 
@@ -44,11 +69,22 @@ export interface DatabaseAdapter {
   /** Test connection */
   connect(config: ConnectionConfig): Promise<void>
 
-  /** Execute a query and return results */
-  query(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult>
+  /** Execute a query and return results (params use the dialect's placeholders) */
+  query(config: ConnectionConfig, sql: string, params?: unknown[]): Promise<AdapterQueryResult>
+
+  /**
+   * Execute a query the user didn't write (e.g. from the AI assistant's tools) so it
+   * can't change anything: in a read-only transaction where the database has them, else
+   * in a transaction that is always rolled back
+   */
+  queryReadOnly(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult>
 
   /** Execute multiple SQL statements and return results for each */
-  queryMultiple(config: ConnectionConfig, sql: string): Promise<AdapterMultiQueryResult>
+  queryMultiple(
+    config: ConnectionConfig,
+    sql: string,
+    options?: QueryOptions
+  ): Promise<AdapterMultiQueryResult>
 
   /** Execute a statement (for INSERT/UPDATE/DELETE in transactions) */
   execute(
@@ -72,23 +108,149 @@ export interface DatabaseAdapter {
   /** Get table definition (reverse engineer DDL) */
   getTableDDL(config: ConnectionConfig, schema: string, table: string): Promise<TableDefinition>
 
-  /** Get available sequences (PostgreSQL-specific, returns empty for MySQL) */
+  /** Get available sequences (returns empty for MySQL and SQLite) */
   getSequences(config: ConnectionConfig): Promise<SequenceInfo[]>
 
   /** Get custom types (enums, etc.) */
   getTypes(config: ConnectionConfig): Promise<CustomTypeInfo[]>
+
+  /** Get indexes of all tables */
+  getIndexes(config: ConnectionConfig): Promise<IndexInfo[]>
+
+  /** Get triggers of all tables and views */
+  getTriggers(config: ConnectionConfig): Promise<TriggerInfo[]>
+
+  /** Get the SQL that creates a schema object (view, index, trigger, sequence or type) */
+  getObjectDefinition(config: ConnectionConfig, object: SchemaObjectRef): Promise<string>
+
+  /** Approximate row count from table statistics (null when unavailable) */
+  estimateRowCount(config: ConnectionConfig, schema: string, table: string): Promise<number | null>
 }
 
 // Import adapters
 import { PostgresAdapter } from './adapters/postgres-adapter'
 import { MySQLAdapter } from './adapters/mysql-adapter'
 import { MSSQLAdapter } from './adapters/mssql-adapter'
+import { SQLiteAdapter } from './adapters/sqlite-adapter'
+
+import { resolveTunnelConfig } from './ssh-tunnel'
+import { resolveCertificates } from './certificate-store'
+import { getSSLConfig } from './ssl-config'
+
+/**
+ * Resolve the settings an adapter actually connects with: load stored SSL
+ * certificates and route through the SSH tunnel (if configured)
+ */
+async function resolveConnectionConfig(config: ConnectionConfig): Promise<ConnectionConfig> {
+  const resolved = await resolveCertificates(await resolveTunnelConfig(config))
+
+  // Through a tunnel the driver connects to localhost, so verify against the real host
+  const ssl = getSSLConfig(resolved)
+  if (ssl && resolved.host !== config.host) {
+    return { ...resolved, ssl: { servername: config.host, ...ssl } }
+  }
+  return resolved
+}
+
+/**
+ * Wraps an adapter so every call connects with the resolved connection settings
+ */
+class ResolvedConfigAdapter implements DatabaseAdapter {
+  constructor(private readonly adapter: DatabaseAdapter) {}
+
+  get dbType(): DatabaseType {
+    return this.adapter.dbType
+  }
+
+  async connect(config: ConnectionConfig): Promise<void> {
+    return this.adapter.connect(await resolveConnectionConfig(config))
+  }
+
+  async query(
+    config: ConnectionConfig,
+    sql: string,
+    params?: unknown[]
+  ): Promise<AdapterQueryResult> {
+    return this.adapter.query(await resolveConnectionConfig(config), sql, params)
+  }
+
+  async queryReadOnly(config: ConnectionConfig, sql: string): Promise<AdapterQueryResult> {
+    return this.adapter.queryReadOnly(await resolveConnectionConfig(config), sql)
+  }
+
+  async queryMultiple(
+    config: ConnectionConfig,
+    sql: string,
+    options?: QueryOptions
+  ): Promise<AdapterMultiQueryResult> {
+    return this.adapter.queryMultiple(await resolveConnectionConfig(config), sql, options)
+  }
+
+  async execute(
+    config: ConnectionConfig,
+    sql: string,
+    params: unknown[]
+  ): Promise<{ rowCount: number | null }> {
+    return this.adapter.execute(await resolveConnectionConfig(config), sql, params)
+  }
+
+  async executeTransaction(
+    config: ConnectionConfig,
+    statements: Array<{ sql: string; params: unknown[] }>
+  ): Promise<{ rowsAffected: number; results: Array<{ rowCount: number | null }> }> {
+    return this.adapter.executeTransaction(await resolveConnectionConfig(config), statements)
+  }
+
+  async getSchemas(config: ConnectionConfig): Promise<SchemaInfo[]> {
+    return this.adapter.getSchemas(await resolveConnectionConfig(config))
+  }
+
+  async explain(config: ConnectionConfig, sql: string, analyze: boolean): Promise<ExplainResult> {
+    return this.adapter.explain(await resolveConnectionConfig(config), sql, analyze)
+  }
+
+  async getTableDDL(
+    config: ConnectionConfig,
+    schema: string,
+    table: string
+  ): Promise<TableDefinition> {
+    return this.adapter.getTableDDL(await resolveConnectionConfig(config), schema, table)
+  }
+
+  async getSequences(config: ConnectionConfig): Promise<SequenceInfo[]> {
+    return this.adapter.getSequences(await resolveConnectionConfig(config))
+  }
+
+  async getTypes(config: ConnectionConfig): Promise<CustomTypeInfo[]> {
+    return this.adapter.getTypes(await resolveConnectionConfig(config))
+  }
+
+  async getIndexes(config: ConnectionConfig): Promise<IndexInfo[]> {
+    return this.adapter.getIndexes(await resolveConnectionConfig(config))
+  }
+
+  async getTriggers(config: ConnectionConfig): Promise<TriggerInfo[]> {
+    return this.adapter.getTriggers(await resolveConnectionConfig(config))
+  }
+
+  async getObjectDefinition(config: ConnectionConfig, object: SchemaObjectRef): Promise<string> {
+    return this.adapter.getObjectDefinition(await resolveConnectionConfig(config), object)
+  }
+
+  async estimateRowCount(
+    config: ConnectionConfig,
+    schema: string,
+    table: string
+  ): Promise<number | null> {
+    return this.adapter.estimateRowCount(await resolveConnectionConfig(config), schema, table)
+  }
+}
 
 // Adapter instances (singletons)
 const adapters: Record<DatabaseType, DatabaseAdapter> = {
   postgresql: new PostgresAdapter(),
   mysql: new MySQLAdapter(),
-  sqlite: new PostgresAdapter(), // Placeholder - SQLite not implemented yet
+  sqlite: new SQLiteAdapter(),
   mssql: new MSSQLAdapter()
 }
 
@@ -101,6 +263,10 @@ export function getAdapter(config: ConnectionConfig): DatabaseAdapter {
   if (!adapter) {
     throw new Error(`Unsupported database type: ${dbType}`)
   }
+  // SQLite opens a local file, so tunnels and SSL only apply to server databases
+  if ((config.ssh?.enabled || typeof config.ssl === 'object') && dbType !== 'sqlite') {
+    return new ResolvedConfigAdapter(adapter)
+  }
   return adapter
 }
 
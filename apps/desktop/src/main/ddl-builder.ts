@@ -90,7 +90,7 @@ function buildTableRef(schema: string, table: string, dialect: DdlDialect): stri
 /**
  * Build column data type with modifiers
  */
-function buildDataType(column: ColumnDefinition): string {
+export function buildDataType(column: ColumnDefinition): string {
   let dataType = column.dataType
 
   // Handle length for varchar/char
@@ -0,0 +1,939 @@
+import {
+  classifyQuery,
+  type DatabaseType,
+  type ExecutionPlan,
+  type PlanBuffers,
+  type PlanCondition,
+  type PlanNode,
+  type PlanSource
+} from '@shared/index'
+
+/**
+ * Execution plan normalization
+ *
+ * Each database reports its plan in its own format: PostgreSQL as EXPLAIN JSON, MySQL
+ * as EXPLAIN FORMAT=JSON or an EXPLAIN ANALYZE text tree, SQL Server as showplan XML
+ * and SQLite as EXPLAIN QUERY PLAN rows. The adapters convert them here into the
+ * dialect-neutral `PlanNode` tree the plan viewer renders, including the warnings
+ * derived from the figures of each node.
+ *
+ * Analyzing a plan executes the statement, so the adapters run EXPLAIN ANALYZE in a
+ * transaction they always roll back and flag the plans of data-modifying statements.
+ */
+
+/**
+ * Whether analyzing a query's plan would change data
+ */
+export function isDataModifying(sql: string): boolean {
+  return classifyQuery(sql).some((statement) => statement.risk !== 'read')
+}
+
+/** Statement that refreshes the optimizer statistics, suggested on bad estimates */
+const STATISTICS_HINTS: Record<DatabaseType, string> = {
+  postgresql: 'ANALYZE',
+  mysql: 'ANALYZE TABLE',
+  mssql: 'UPDATE STATISTICS',
+  sqlite: 'ANALYZE'
+}
+
+/** Rows above which a full scan is worth a warning */
+const LARGE_SCAN_ROWS = 1000
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value !== 'string' || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function createNode(nodeType: string): PlanNode {
+  return { nodeType, conditions: [], warnings: [], children: [] }
+}
+
+function addCondition(node: PlanNode, kind: PlanCondition['kind'], expression: unknown): void {
+  if (typeof expression === 'string' && expression.trim()) {
+    node.conditions.push({ kind, expression: expression.trim() })
+  }
+}
+
+/**
+ * Strip the parentheses wrapping a whole expression
+ */
+function unwrap(expression: string): string {
+  const trimmed = expression.trim()
+  return trimmed.startsWith('(') && trimmed.endsWith(')') ? trimmed.slice(1, -1) : trimmed
+}
+
+/**
+ * Add the warnings every dialect shares (full scans of large tables, inefficient
+ * filters and bad row estimates) to a plan's nodes
+ */
+function addCommonWarnings(node: PlanNode, dbType: DatabaseType): void {
+  const rows = node.actualRows ?? node.estimatedRows ?? 0
+  if (node.fullScan && rows > LARGE_SCAN_ROWS) {
+    node.warnings.push('Full scan on large table - consider adding an index')
+  }
+
+  if (node.rowsRemovedByFilter && node.actualRows) {
+    const ratio = node.rowsRemovedByFilter / (node.actualRows + node.rowsRemovedByFilter)
+    if (ratio > 0.9) {
+      node.warnings.push('High filter selectivity - index may improve performance')
+    }
+  }
+
+  if (node.estimatedRows && node.actualRows) {
+    const estimate = node.estimatedRows
+    const actual = node.actualRows
+    if (estimate / actual > 10 || actual / estimate > 10) {
+      node.warnings.push(`Row estimate significantly off - consider ${STATISTICS_HINTS[dbType]}`)
+    }
+  }
+
+  for (const child of node.children) {
+    addCommonWarnings(child, dbType)
+  }
+}
+
+function hasActuals(node: PlanNode): boolean {
+  return node.actualRows !== undefined || node.children.some(hasActuals)
+}
+
+function createPlan(
+  dbType: DatabaseType,
+  root: PlanNode | null,
+  extra: Partial<ExecutionPlan> = {}
+): ExecutionPlan {
+  if (root) addCommonWarnings(root, dbType)
+  return {
+    dbType,
+    root,
+    analyzed: root ? hasActuals(root) : false,
+    warnings: [],
+    ...extra
+  }
+}
+
+/**
+ * A single root node, grouping top-level nodes under one when there are several
+ */
+function wrapRoots(roots: PlanNode[], nodeType: string): PlanNode | null {
+  if (roots.length <= 1) return roots[0] ?? null
+  const root = createNode(nodeType)
+  root.children = roots
+  return root
+}
+
+// ============================================
+// PostgreSQL
+// ============================================
+
+// PostgreSQL EXPLAIN JSON plan node structure
+interface PostgresPlanNode {
+  'Node Type': string
+  'Parallel Aware'?: boolean
+  'Async Capable'?: boolean
+  'Join Type'?: string
+  'Startup Cost'?: number
+  'Total Cost'?: number
+  'Plan Rows'?: number
+  'Plan Width'?: number
+  'Actual Startup Time'?: number
+  'Actual Total Time'?: number
+  'Actual Rows'?: number
+  'Actual Loops'?: number
+  Filter?: string
+  'Join Filter'?: string
+  'Rows Removed by Filter'?: number
+  'Index Cond'?: string
+  'Index Name'?: string
+  'Relation Name'?: string
+  Schema?: string
+  Alias?: string
+  'Hash Cond'?: string
+  'Merge Cond'?: string
+  'Recheck Cond'?: string
+  'Sort Key'?: string[]
+  'Sort Method'?: string
+  'Sort Space Used'?: number
+  'Sort Space Type'?: string
+  'Group Key'?: string[]
+  'Shared Hit Blocks'?: number
+  'Shared Read Blocks'?: number
+  'Shared Dirtied Blocks'?: number
+  'Temp Read Blocks'?: number
+  'Temp Written Blocks'?: number
+  'I/O Read Time'?: number
+  'I/O Write Time'?: number
+  'Workers Planned'?: number
+  'Workers Launched'?: number
+  'Heap Fetches'?: number
+  Plans?: PostgresPlanNode[]
+}
+
+interface PostgresExplainPlan {
+  Plan: PostgresPlanNode
+  'Planning Time'?: number
+  'Execution Time'?: number
+}
+
+function fromPostgresNode(source: PostgresPlanNode): PlanNode {
+  const node = createNode(source['Node Type'])
+  node.relation = source['Relation Name']
+  node.schema = source.Schema
+  node.alias = source.Alias
+  node.index = source['Index Name']
+  node.joinType = source['Join Type']
+  node.fullScan = source['Node Type'] === 'Seq Scan'
+  node.parallel = source['Parallel Aware']
+  node.asyncCapable = source['Async Capable']
+  node.startupCost = source['Startup Cost']
+  node.totalCost = source['Total Cost']
+  node.estimatedRows = source['Plan Rows']
+  node.rowWidth = source['Plan Width']
+  node.actualRows = source['Actual Rows']
+  node.actualLoops = source['Actual Loops']
+  node.actualStartupTimeMs = source['Actual Startup Time']
+  node.actualTimeMs = source['Actual Total Time']
+  node.rowsRemovedByFilter = source['Rows Removed by Filter']
+  node.heapFetches = source['Heap Fetches']
+  node.sortKey = source['Sort Key']
+  node.sortMethod = source['Sort Method']
+  node.sortSpaceKb = source['Sort Space Used']
+  node.sortSpaceType = source['Sort Space Type']
+  node.groupKey = source['Group Key']
+  node.workersPlanned = source['Workers Planned']
+  node.workersLaunched = source['Workers Launched']
+
+  const buffers: PlanBuffers = {
+    sharedHit: source['Shared Hit Blocks'],
+    sharedRead: source['Shared Read Blocks'],
+    sharedDirtied: source['Shared Dirtied Blocks'],
+    tempRead: source['Temp Read Blocks'],
+    tempWritten: source['Temp Written Blocks'],
+    ioReadTimeMs: source['I/O Read Time'],
+    ioWriteTimeMs: source['I/O Write Time']
+  }
+  if (Object.values(buffers).some((value) => value !== undefined)) {
+    node.buffers = buffers
+  }
+
+  addCondition(node, 'index', source['Index Cond'])
+  addCondition(node, 'filter', source.Filter)
+  addCondition(node, 'recheck', source['Recheck Cond'])
+  addCondition(node, 'hash', source['Hash Cond'])
+  addCondition(node, 'merge', source['Merge Cond'])
+  addCondition(node, 'join', source['Join Filter'])
+
+  if (source['Sort Space Type'] === 'Disk') {
+    node.warnings.push('Sort spilling to disk - consider increasing work_mem')
+  }
+
+  node.children = (source.Plans ?? []).map(fromPostgresNode)
+  return node
+}
+
+/**
+ * Normalize the output of `EXPLAIN (FORMAT JSON)`
+ */
+export function normalizePostgresPlan(plan: unknown): ExecutionPlan {
+  const explained = (Array.isArray(plan) ? plan[0] : plan) as PostgresExplainPlan | undefined
+  const source: PlanSource = { format: 'json', content: JSON.stringify(plan ?? null, null, 2) }
+  if (!isRecord(explained) || !isRecord(explained.Plan)) {
+    return createPlan('postgresql', null, { source })
+  }
+
+  return createPlan('postgresql', fromPostgresNode(explained.Plan), {
+    planningTimeMs: explained['Planning Time'],
+    executionTimeMs: explained['Execution Time'],
+    source
+  })
+}
+
+// ============================================
+// MySQL
+// ============================================
+
+/** Plan node names of the EXPLAIN FORMAT=JSON access types */
+const MYSQL_ACCESS_TYPES: Record<string, string> = {
+  system: 'System Table Read',
+  const: 'Constant Lookup',
+  eq_ref: 'Unique Index Lookup',
+  ref: 'Index Lookup',
+  fulltext: 'Fulltext Index Lookup',
+  ref_or_null: 'Index Lookup (or NULL)',
+  index_merge: 'Index Merge',
+  unique_subquery: 'Unique Subquery Lookup',
+  index_subquery: 'Index Subquery Lookup',
+  range: 'Index Range Scan',
+  index: 'Full Index Scan',
+  ALL: 'Full Table Scan'
+}
+
+/** Operations of EXPLAIN FORMAT=JSON wrapping the tables of a query block */
+const MYSQL_OPERATIONS: Record<string, string> = {
+  ordering_operation: 'Ordering',
+  grouping_operation: 'Grouping',
+  duplicates_removal: 'Duplicates Removal',
+  windowing: 'Windowing'
+}
+
+const MYSQL_SUBQUERY_KEYS = [
+  'attached_subqueries',
+  'optimized_away_subqueries',
+  'select_list_subqueries',
+  'having_subqueries',
+  'order_by_subqueries',
+  'group_by_subqueries'
+]
+
+function fromMySQLTable(table: Record<string, unknown>): PlanNode {
+  const accessType = String(table.access_type ?? '')
+  const node = createNode(MYSQL_ACCESS_TYPES[accessType] ?? (accessType || 'Table'))
+  node.relation = typeof table.table_name === 'string' ? table.table_name : undefined
+  node.index = typeof table.key === 'string' ? table.key : undefined
+  node.fullScan = accessType === 'ALL'
+  node.estimatedRows = toNumber(table.rows_produced_per_join)
+
+  if (isRecord(table.cost_info)) {
+    const readCost = toNumber(table.cost_info.read_cost)
+    const evalCost = toNumber(table.cost_info.eval_cost)
+    if (readCost !== undefined || evalCost !== undefined) {
+      node.totalCost = (readCost ?? 0) + (evalCost ?? 0)
+    }
+  }
+
+  const keyParts = Array.isArray(table.used_key_parts) ? table.used_key_parts : []
+  const refs = Array.isArray(table.ref) ? table.ref : []
+  if (keyParts.length > 0 && keyParts.length === refs.length) {
+    addCondition(node, 'index', keyParts.map((part, i) => `${part} = ${refs[i]}`).join(' AND '))
+  }
+  addCondition(node, 'index', table.index_condition)
+  addCondition(node, 'filter', table.attached_condition)
+
+  if (accessType === 'ALL') {
+    // The produced rows are after filtering; the scan reads every examined row
+    const examined = toNumber(table.rows_examined_per_scan) ?? 0
+    if (examined > LARGE_SCAN_ROWS && (node.estimatedRows ?? 0) <= LARGE_SCAN_ROWS) {
+      node.warnings.push('Full scan on large table - consider adding an index')
+    }
+  }
+  if (table.using_join_buffer === 'Block Nested Loop') {
+    node.warnings.push('Join uses a join buffer - an index on the join columns may help')
+  }
+
+  if (isRecord(table.materialized_from_subquery)) {
+    node.children = fromMySQLBlockContents(table.materialized_from_subquery)
+  }
+  if (typeof table.message === 'string') {
+    node.children.push(createNode(table.message))
+  }
+
+  return node
+}
+
+function fromMySQLQueryBlock(block: Record<string, unknown>, nodeType?: string): PlanNode {
+  const node = createNode(nodeType ?? `Select #${block.select_id ?? 1}`)
+  if (isRecord(block.cost_info)) {
+    node.totalCost = toNumber(block.cost_info.query_cost)
+  }
+  node.children = fromMySQLBlockContents(block)
+  if (typeof block.message === 'string') {
+    node.children.push(createNode(block.message))
+  }
+  return node
+}
+
+/**
+ * Nodes for the tables, operations and subqueries of a query block (or of an
+ * operation wrapping part of one)
+ */
+function fromMySQLBlockContents(block: Record<string, unknown>): PlanNode[] {
+  const nodes: PlanNode[] = []
+
+  if (isRecord(block.query_block)) {
+    nodes.push(fromMySQLQueryBlock(block.query_block))
+  }
+
+  if (Array.isArray(block.nested_loop)) {
+    const node = createNode('Nested Loop')
+    for (const item of block.nested_loop) {
+      if (isRecord(item)) node.children.push(...fromMySQLBlockContents(item))
+    }
+    // The prefix cost of the last table is the cost of the whole join
+    const last = block.nested_loop[block.nested_loop.length - 1]
+    if (isRecord(last) && isRecord(last.table) && isRecord(last.table.cost_info)) {
+      node.totalCost = toNumber(last.table.cost_info.prefix_cost)
+    }
+    nodes.push(node)
+  }
+
+  if (isRecord(block.table)) {
+    nodes.push(fromMySQLTable(block.table))
+  }
+
+  for (const [key, name] of Object.entries(MYSQL_OPERATIONS)) {
+    const operation = block[key]
+    if (!isRecord(operation)) continue
+
+    const sorts = operation.using_filesort === true
+    const node = createNode(sorts && key === 'ordering_operation' ? 'Sort' : name)
+    if (sorts) {
+      node.warnings.push('Uses a filesort - an index matching the sort order may avoid it')
+    }
+    if (operation.using_temporary_table === true) {
+      node.warnings.push('Uses a temporary table')
+    }
+    node.children = fromMySQLBlockContents(operation)
+    nodes.push(node)
+  }
+
+  if (isRecord(block.union_result)) {
+    const union = block.union_result
+    const node = createNode('Union')
+    node.relation = typeof union.table_name === 'string' ? union.table_name : undefined
+    const specifications = Array.isArray(union.query_specifications)
+      ? union.query_specifications
+      : []
+    for (const specification of specifications) {
+      if (isRecord(specification)) node.children.push(...fromMySQLBlockContents(specification))
+    }
+    nodes.push(node)
+  }
+
+  for (const key of MYSQL_SUBQUERY_KEYS) {
+    const subqueries = block[key]
+    if (!Array.isArray(subqueries)) continue
+    for (const subquery of subqueries) {
+      if (isRecord(subquery) && isRecord(subquery.query_block)) {
+        const selectId = subquery.query_block.select_id ?? ''
+        nodes.push(fromMySQLQueryBlock(subquery.query_block, `Subquery #${selectId}`))
+      }
+    }
+  }
+
+  return nodes
+}
+
+/**
+ * Node for one operation of the tree format (EXPLAIN ANALYZE and JSON format version
+ * 2), e.g. "Index lookup on t using idx (a=1)" or "Filter: (t.a > 1)"
+ */
+function fromMySQLOperation(description: string): PlanNode {
+  const access = description.match(/^(.+?(?:scan|lookup|search)) on (\S+)(?: using (\S+))?(.*)$/i)
+  if (access) {
+    const [, operation, relation, index, rest] = access
+    const node = createNode(operation)
+    node.relation = relation
+    node.index = index
+    node.fullScan = /^table scan$/i.test(operation)
+    const condition = unwrap(rest.trim().replace(/^over\s+/i, ''))
+    addCondition(node, index ? 'index' : 'filter', condition)
+    return node
+  }
+
+  const join = description.match(/^(.+ join)\s*\((.*)\)$/i)
+  if (join) {
+    const node = createNode(join[1])
+    addCondition(node, /hash/i.test(join[1]) ? 'hash' : 'join', join[2])
+    return node
+  }
+
+  const separator = description.indexOf(': ')
+  const operation = separator > 0 ? description.slice(0, separator) : description
+  const detail = separator > 0 ? description.slice(separator + 2) : ''
+
+  if (/^filter$/i.test(operation)) {
+    const node = createNode(operation)
+    addCondition(node, 'filter', unwrap(detail))
+    return node
+  }
+  if (/^sort$/i.test(operation)) {
+    const node = createNode(operation)
+    node.sortKey = detail.split(', ').filter((key) => key && !/^limit input to/i.test(key))
+    return node
+  }
+
+  const node = createNode(description)
+  if (/temporary/i.test(description)) {
+    node.warnings.push('Uses a temporary table')
+  }
+  return node
+}
+
+/**
+ * Normalize the text tree of MySQL `EXPLAIN ANALYZE` (or `EXPLAIN FORMAT=TREE`)
+ */
+export function normalizeMySQLTreePlan(text: string): ExecutionPlan {
+  const roots: PlanNode[] = []
+  const stack: Array<{ indent: number; node: PlanNode }> = []
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(\s*)-> (.*)$/)
+    if (!match) continue
+
+    let description = match[2]
+    const actual = description.match(
+      /\(actual time=([\d.e+-]+)\.\.([\d.e+-]+) rows=([\d.e+-]+) loops=(\d+)\)/
+    )
+    const cost = description.match(/\(cost=([\d.e+-]+)(?:\.\.([\d.e+-]+))? rows=([\d.e+-]+)\)/)
+    const rowsOnly = description.match(/\(rows=([\d.e+-]+)\)/)
+    const neverExecuted = description.includes('(never executed)')
+    for (const part of [actual?.[0], cost?.[0], rowsOnly?.[0], '(never executed)']) {
+      if (part) description = description.replace(part, '')
+    }
+
+    const node = fromMySQLOperation(description.trim())
+    if (cost) {
+      node.startupCost = cost[2] !== undefined ? toNumber(cost[1]) : undefined
+      node.totalCost = toNumber(cost[2] ?? cost[1])
+      node.estimatedRows = toNumber(cost[3])
+    } else if (rowsOnly) {
+      node.estimatedRows = toNumber(rowsOnly[1])
+    }
+    if (actual) {
+      node.actualStartupTimeMs = toNumber(actual[1])
+      node.actualTimeMs = toNumber(actual[2])
+      node.actualRows = toNumber(actual[3])
+      node.actualLoops = toNumber(actual[4])
+    } else if (neverExecuted) {
+      node.actualRows = 0
+      node.actualLoops = 0
+    }
+
+    const indent = match[1].length
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop()
+    }
+    if (stack.length > 0) {
+      stack[stack.length - 1].node.children.push(node)
+    } else {
+      roots.push(node)
+    }
+    stack.push({ indent, node })
+  }
+
+  return createPlan('mysql', wrapRoots(roots, 'Query'), {
+    source: { format: 'text', content: text }
+  })
+}
+
+/**
+ * Node of the JSON format version 2, which has the shape of the tree format
+ */
+function fromMySQLTreeJson(source: Record<string, unknown>): PlanNode {
+  const node = fromMySQLOperation(String(source.operation ?? 'Operation'))
+  if (typeof source.table_name === 'string') node.relation = source.table_name
+  if (typeof source.schema_name === 'string') node.schema = source.schema_name
+  if (typeof source.alias === 'string' && source.alias !== node.relation) {
+    node.alias = source.alias
+  }
+  if (typeof source.index_name === 'string') node.index = source.index_name
+  node.startupCost = toNumber(source.estimated_first_row_cost)
+  node.totalCost = toNumber(source.estimated_total_cost)
+  node.estimatedRows = toNumber(source.estimated_rows)
+  node.actualStartupTimeMs = toNumber(source.actual_first_row_ms)
+  node.actualTimeMs = toNumber(source.actual_last_row_ms)
+  node.actualRows = toNumber(source.actual_rows)
+  node.actualLoops = toNumber(source.actual_loops)
+
+  const inputs = Array.isArray(source.inputs) ? source.inputs : []
+  node.children = inputs.filter(isRecord).map(fromMySQLTreeJson)
+  return node
+}
+
+/**
+ * Normalize the output of MySQL `EXPLAIN FORMAT=JSON` (either format version)
+ */
+export function normalizeMySQLJsonPlan(plan: unknown): ExecutionPlan {
+  if (!isRecord(plan)) return createPlan('mysql', null)
+
+  const source: PlanSource = { format: 'json', content: JSON.stringify(plan, null, 2) }
+  if (isRecord(plan.query_block)) {
+    return createPlan('mysql', fromMySQLQueryBlock(plan.query_block), { source })
+  }
+  if (typeof plan.operation === 'string') {
+    return createPlan('mysql', fromMySQLTreeJson(plan), { source })
+  }
+  return createPlan('mysql', null, { source })
+}
+
+// ============================================
+// SQL Server
+// ============================================
+
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16))
+    }
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+    return XML_ENTITIES[code] ?? entity
+  })
+}
+
+/**
+ * Parse the elements and attributes of an XML document (showplans carry everything
+ * in attributes, so text content is skipped)
+ */
+function parseXml(xml: string): XmlElement | null {
+  const tokens =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>/g
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  const stack: XmlElement[] = []
+  let root: XmlElement | null = null
+
+  for (const [, closing, rawName, rawAttributes, selfClosing] of xml.matchAll(tokens)) {
+    if (!rawName) continue
+    const name = rawName.includes(':') ? rawName.slice(rawName.indexOf(':') + 1) : rawName
+
+    if (closing) {
+      stack.pop()
+      continue
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [] }
+    for (const [, key, doubleQuoted, singleQuoted] of rawAttributes.matchAll(attributePattern)) {
+      element.attributes[key] = decodeXmlEntities(doubleQuoted ?? singleQuoted ?? '')
+    }
+
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.children.push(element)
+    } else if (!root) {
+      root = element
+    }
+    if (!selfClosing) stack.push(element)
+  }
+
+  return root
+}
+
+/**
+ * Descendants of an element with a given name, not looking inside nested operators
+ * (child RelOps belong to their own plan node)
+ */
+function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child)
+    } else if (child.name !== 'RelOp') {
+      found.push(...findElements(child, name))
+    }
+  }
+  return found
+}
+
+function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  return findElements(element, name)[0]
+}
+
+function unbracket(value: string | undefined): string | undefined {
+  return value?.replace(/^\[|\]$/g, '').replace(/\]\]/g, ']')
+}
+
+/** RelOp children describing the operator rather than being it */
+const MSSQL_RELOP_METADATA = new Set([
+  'OutputList',
+  'Warnings',
+  'MemoryFractions',
+  'RunTimeInformation',
+  'RunTimePartitionSummary',
+  'InternalInfo'
+])
+
+const MSSQL_SEEK_OPERATORS: Record<string, string> = {
+  EQ: '=',
+  GT: '>',
+  GE: '>=',
+  LT: '<',
+  LE: '<='
+}
+
+function describeScalar(element: XmlElement | undefined): string | undefined {
+  if (!element) return undefined
+  return findElement(element, 'ScalarOperator')?.attributes.ScalarString
+}
+
+/**
+ * Readable form of a seek predicate, e.g. "[id] = (1)"
+ */
+function describeSeekPredicate(seek: XmlElement): string {
+  const parts: string[] = []
+  for (const range of ['Prefix', 'StartRange', 'EndRange']) {
+    for (const element of findElements(seek, range)) {
+      const operator = MSSQL_SEEK_OPERATORS[element.attributes.ScanType] ?? '='
+      const columns = findElements(element, 'ColumnReference').map(
+        (column) => column.attributes.Column
+      )
+      const expressions = findElement(element, 'RangeExpressions')?.children ?? []
+      columns.forEach((column, i) => {
+        const value = expressions[i]?.attributes.ScalarString ?? '?'
+        parts.push(`${column} ${operator} ${value}`)
+      })
+    }
+  }
+  return parts.join(' AND ')
+}
+
+function describeMSSQLWarnings(warnings: XmlElement): string[] {
+  const messages: string[] = []
+  const { attributes } = warnings
+
+  if (attributes.NoJoinPredicate === '1' || attributes.NoJoinPredicate === 'true') {
+    messages.push('No join predicate - the join returns every row combination')
+  }
+  if (attributes.UnmatchedIndexes === '1' || attributes.UnmatchedIndexes === 'true') {
+    messages.push('A filtered index could not be used because of parameterization')
+  }
+
+  for (const warning of warnings.children) {
+    switch (warning.name) {
+      case 'SpillToTempDb':
+      case 'SortSpillDetails':
+      case 'HashSpillDetails':
+      case 'ExchangeSpillDetails':
+        messages.push('Operator spilled to tempdb - the memory grant was too small')
+        break
+      case 'ColumnsWithNoStatistics': {
+        const columns = findElements(warning, 'ColumnReference').map(
+          (column) => column.attributes.Column
+        )
+        messages.push(`Columns with no statistics: ${columns.join(', ')}`)
+        break
+      }
+      case 'PlanAffectingConvert':
+        messages.push(
+          `Type conversion in ${warning.attributes.Expression} may affect ${warning.attributes.ConvertIssue}`
+        )
+        break
+      case 'MemoryGrantWarning':
+        messages.push(`Memory grant warning: ${warning.attributes.GrantWarningKind}`)
+        break
+      case 'Wait':
+        break
+      default:
+        messages.push(warning.name)
+    }
+  }
+
+  return [...new Set(messages)]
+}
+
+function fromMSSQLRelOp(relOp: XmlElement): PlanNode {
+  const { attributes } = relOp
+  const node = createNode(attributes.PhysicalOp ?? 'Operator')
+  if (attributes.LogicalOp && attributes.LogicalOp !== attributes.PhysicalOp) {
+    node.joinType = attributes.LogicalOp
+  }
+  node.fullScan = ['Table Scan', 'Clustered Index Scan'].includes(attributes.PhysicalOp)
+  node.parallel = attributes.Parallel === '1' || attributes.Parallel === 'true'
+  node.totalCost = toNumber(attributes.EstimatedTotalSubtreeCost)
+  node.estimatedRows = toNumber(attributes.EstimateRows)
+  node.rowWidth = toNumber(attributes.AvgRowSize)
+
+  // Counters are per thread; rows and times are reported per execution like PostgreSQL
+  const counters = findElements(relOp, 'RunTimeCountersPerThread')
+  if (counters.length > 0) {
+    let rows = 0
+    let executions = 0
+    let elapsed: number | undefined
+    for (const counter of counters) {
+      rows += toNumber(counter.attributes.ActualRows) ?? 0
+      executions += toNumber(counter.attributes.ActualExecutions) ?? 0
+      const threadElapsed = toNumber(counter.attributes.ActualElapsedms)
+      if (threadElapsed !== undefined) elapsed = Math.max(elapsed ?? 0, threadElapsed)
+    }
+    node.actualRows = executions > 0 ? Math.round(rows / executions) : 0
+    node.actualLoops = executions
+    node.actualTimeMs = elapsed
+  }
+
+  const operator = relOp.children.find((child) => !MSSQL_RELOP_METADATA.has(child.name))
+  if (operator) {
+    const object = findElement(operator, 'Object')
+    if (object) {
+      node.schema = unbracket(object.attributes.Schema)
+      node.relation = unbracket(object.attributes.Table)
+      node.index = unbracket(object.attributes.Index)
+      const alias = unbracket(object.attributes.Alias)
+      if (alias && alias !== node.relation) node.alias = alias
+    }
+
+    for (const seek of findElements(operator, 'SeekPredicates')) {
+      addCondition(node, 'index', describeSeekPredicate(seek))
+    }
+    for (const predicate of findElements(operator, 'Predicate')) {
+      addCondition(node, 'filter', describeScalar(predicate))
+    }
+    addCondition(node, 'hash', describeScalar(findElement(operator, 'ProbeResidual')))
+    addCondition(node, 'merge', describeScalar(findElement(operator, 'Residual')))
+
+    if (operator.name === 'Sort' || operator.name === 'TopSort') {
+      node.sortKey = findElements(operator, 'OrderByColumn').map((column) => {
+        const name = findElement(column, 'ColumnReference')?.attributes.Column ?? '?'
+        return column.attributes.Ascending === '0' || column.attributes.Ascending === 'false'
+          ? `${name} DESC`
+          : name
+      })
+    }
+
+    node.children = findElements(operator, 'RelOp').map(fromMSSQLRelOp)
+  }
+
+  const warnings = relOp.children.find((child) => child.name === 'Warnings')
+  if (warnings) node.warnings.push(...describeMSSQLWarnings(warnings))
+
+  return node
+}
+
+/**
+ * Plan-wide warnings of a statement: missing index suggestions and the warnings of
+ * the query plan itself
+ */
+function describeMSSQLPlanWarnings(queryPlan: XmlElement): string[] {
+  const messages: string[] = []
+
+  const warnings = queryPlan.children.find((child) => child.name === 'Warnings')
+  if (warnings) messages.push(...describeMSSQLWarnings(warnings))
+
+  for (const group of findElements(queryPlan, 'MissingIndexGroup')) {
+    const impact = toNumber(group.attributes.Impact)
+    for (const index of findElements(group, 'MissingIndex')) {
+      const table = [index.attributes.Schema, index.attributes.Table].filter(Boolean).join('.')
+      const columns = findElements(index, 'ColumnGroup')
+        .map((columnGroup) => {
+          const names = findElements(columnGroup, 'Column').map((column) => column.attributes.Name)
+          return `${columnGroup.attributes.Usage}: ${names.join(', ')}`
+        })
+        .join('; ')
+      const estimate = impact !== undefined ? ` - estimated impact ${Math.round(impact)}%` : ''
+      messages.push(`Missing index on ${table} (${columns})${estimate}`)
+    }
+  }
+
+  return messages
+}
+
+/**
+ * Normalize a SQL Server showplan (SHOWPLAN_XML or STATISTICS XML)
+ */
+export function normalizeMSSQLPlan(xml: string): ExecutionPlan {
+  const source: PlanSource = { format: 'xml', content: xml }
+  const document = parseXml(xml)
+  if (!document) return createPlan('mssql', null, { source })
+
+  const statements: PlanNode[] = []
+  const warnings: string[] = []
+  let planningTimeMs: number | undefined
+  let executionTimeMs: number | undefined
+
+  for (const statement of findElements(document, 'StmtSimple')) {
+    const queryPlan = findElement(statement, 'QueryPlan')
+    if (!queryPlan) continue
+
+    const node = createNode(statement.attributes.StatementType ?? 'Statement')
+    node.totalCost = toNumber(statement.attributes.StatementSubTreeCost)
+    node.estimatedRows = toNumber(statement.attributes.StatementEstRows)
+    node.children = findElements(queryPlan, 'RelOp').map(fromMSSQLRelOp)
+    statements.push(node)
+
+    warnings.push(...describeMSSQLPlanWarnings(queryPlan))
+
+    const timeStats = findElement(queryPlan, 'QueryTimeStats')
+    const compileTime = toNumber(queryPlan.attributes.CompileTime)
+    if (compileTime !== undefined) planningTimeMs = (planningTimeMs ?? 0) + compileTime
+    const elapsedTime = toNumber(timeStats?.attributes.ElapsedTime)
+    if (elapsedTime !== undefined) executionTimeMs = (executionTimeMs ?? 0) + elapsedTime
+  }
+
+  return createPlan('mssql', wrapRoots(statements, 'Batch'), {
+    planningTimeMs,
+    executionTimeMs,
+    warnings,
+    source
+  })
+}
+
+// ============================================
+// SQLite
+// ============================================
+
+/**
+ * Node for one EXPLAIN QUERY PLAN row, e.g. "SEARCH users USING INDEX idx (id=?)"
+ */
+function fromSQLiteDetail(detail: string): PlanNode {
+  const access = detail.match(/^(SCAN|SEARCH) (?:TABLE )?(\S+)(?: AS (\S+))?(.*)$/)
+  if (!access) {
+    const node = createNode(detail)
+    if (detail.startsWith('USE TEMP B-TREE')) {
+      node.warnings.push('Uses a temporary b-tree - an index may avoid it')
+    }
+    return node
+  }
+
+  const [, operation, relation, alias, rest] = access
+  const node = createNode(operation === 'SCAN' ? 'Scan' : 'Search')
+  node.relation = relation
+  node.alias = alias
+  node.index = rest.match(/USING (?:AUTOMATIC )?(?:COVERING |PARTIAL )*INDEX (\S+)/)?.[1]
+  node.fullScan = operation === 'SCAN' && !/\bINDEX\b/.test(rest)
+  if (/USING INTEGER PRIMARY KEY/.test(rest)) node.index = 'INTEGER PRIMARY KEY'
+  addCondition(node, 'index', rest.match(/\((.+)\)\s*$/)?.[1])
+  return node
+}
+
+/**
+ * Normalize the rows of `EXPLAIN QUERY PLAN`, which link to their parent row by id
+ */
+export function normalizeSQLitePlan(
+  rows: Array<{ id: number; parent: number; detail: string }>
+): ExecutionPlan {
+  const nodes = new Map<number, PlanNode>()
+  const details = new Map<PlanNode, string>()
+  const roots: PlanNode[] = []
+
+  for (const row of rows) {
+    const node = fromSQLiteDetail(row.detail)
+    nodes.set(row.id, node)
+    details.set(node, row.detail)
+    const parent = nodes.get(row.parent)
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  // The tree as the sqlite3 shell prints it
+  const lines = ['QUERY PLAN']
+  const print = (node: PlanNode, prefix: string, last: boolean): void => {
+    lines.push(`${prefix}${last ? '`--' : '|--'}${details.get(node)}`)
+    node.children.forEach((child, i) =>
+      print(child, `${prefix}${last ? '   ' : '|  '}`, i === node.children.length - 1)
+    )
+  }
+  roots.forEach((root, i) => print(root, '', i === roots.length - 1))
+
+  return createPlan('sqlite', wrapRoots(roots, 'Query Plan'), {
+    source: { format: 'text', content: lines.join('\n') }
+  })
+}
@@ -0,0 +1,170 @@
+import type { ExportColumn } from '@shared/index'
+
+/**
+ * Column kinds for typed exports
+ *
+ * Every export column is resolved to one kind from its database type, falling back to
+ * the JavaScript types of its values when the database type is unknown or some value
+ * doesn't fit (e.g. SQL Server's binary `timestamp`). Converted values are canonical:
+ * integers are bigints, dates are days since 1970-01-01 and timestamps are epoch ms.
+ */
+
+export type ExportColumnKind =
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'json'
+  | 'binary'
+  | 'text'
+
+export interface ResolvedExportColumn {
+  name: string
+  kind: ExportColumnKind
+}
+
+const KIND_PATTERNS: Array<[RegExp, ExportColumnKind]> = [
+  [/^bool(ean)?$/, 'boolean'],
+  [/^(tiny|small|medium|big)?int(eger|2|4|8)?\b|serial$/, 'integer'],
+  [/^(numeric|decimal|newdecimal|float|double|real|money|smallmoney)/, 'decimal'],
+  [/^(new)?date$/, 'date'],
+  [/^(timestamp|datetime|smalldatetime)/, 'timestamp'],
+  [/json/, 'json'],
+  [/^(bytea|(tiny_|medium_|long_)?blob|(var)?binary|image)/, 'binary']
+]
+
+const INTEGER_PATTERN = /^[+-]?\d+$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function kindFromDataType(dataType: string): ExportColumnKind | null {
+  const lower = dataType.toLowerCase().trim()
+  for (const [pattern, kind] of KIND_PATTERNS) {
+    if (pattern.test(lower)) return kind
+  }
+  return null
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && !(value instanceof Date) && !(value instanceof Uint8Array)
+}
+
+function kindFromValues(values: unknown[]): ExportColumnKind {
+  if (values.length === 0) return 'text'
+  if (values.every((v) => typeof v === 'boolean')) return 'boolean'
+  if (values.every((v) => typeof v === 'bigint' || Number.isSafeInteger(v))) return 'integer'
+  if (values.every((v) => typeof v === 'number' && Number.isFinite(v))) return 'decimal'
+  if (values.every((v) => v instanceof Date && !Number.isNaN(v.getTime()))) return 'timestamp'
+  if (values.every((v) => v instanceof Uint8Array)) return 'binary'
+  if (values.every(isPlainObject)) return 'json'
+  return 'text'
+}
+
+function toDays(value: unknown): number | undefined {
+  // Drivers parse DATE values at local midnight, so use the local calendar day
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return undefined
+    return Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()) / MS_PER_DAY
+  }
+  if (typeof value !== 'string') return undefined
+  const match = DATE_PATTERN.exec(value.trim())
+  if (!match) return undefined
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / MS_PER_DAY
+}
+
+/**
+ * Convert a value to its kind's canonical form
+ * @returns null for null values, undefined when the value doesn't fit the kind
+ */
+export function convertExportValue(value: unknown, kind: ExportColumnKind): unknown {
+  if (value === null || value === undefined) return null
+
+  switch (kind) {
+    case 'integer':
+      if (typeof value === 'bigint') return value
+      if (Number.isSafeInteger(value)) return BigInt(value as number)
+      if (typeof value === 'string' && INTEGER_PATTERN.test(value.trim())) {
+        return BigInt(value.trim())
+      }
+      return undefined
+    case 'decimal': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+      if (typeof value !== 'string' || value.trim() === '') return undefined
+      const number = Number(value)
+      return Number.isFinite(number) ? number : undefined
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined
+    case 'date':
+      return toDays(value)
+    case 'timestamp': {
+      if (!(value instanceof Date) && typeof value !== 'string') return undefined
+      const time = value instanceof Date ? value.getTime() : Date.parse(value)
+      return Number.isNaN(time) ? undefined : time
+    }
+    case 'json':
+      if (isPlainObject(value)) return JSON.stringify(value)
+      if (typeof value !== 'string') return undefined
+      try {
+        JSON.parse(value)
+        return value
+      } catch {
+        return undefined
+      }
+    case 'binary':
+      return value instanceof Uint8Array ? Buffer.from(value) : undefined
+    case 'text':
+      return formatExportText(value)
+  }
+}
+
+/**
+ * Plain-text form of any value (CSV cells, Markdown tables, text columns)
+ */
+export function formatExportText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return value
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString()
+  if (value instanceof Uint8Array) return `\\x${Buffer.from(value).toString('hex')}`
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a converted date value
+ */
+export function formatExportDate(days: number): string {
+  return new Date(days * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Plain-text form of a value in a resolved column; dates print as calendar days
+ */
+export function formatExportCell(value: unknown, kind: ExportColumnKind): string {
+  if (kind === 'date') {
+    const days = convertExportValue(value, kind)
+    if (typeof days === 'number') return formatExportDate(days)
+  }
+  return formatExportText(value)
+}
+
+/**
+ * Pick a kind for every column
+ */
+export function resolveExportColumns(
+  columns: ExportColumn[],
+  rows: Record<string, unknown>[]
+): ResolvedExportColumn[] {
+  return columns.map((column) => {
+    const values = rows
+      .map((row) => row[column.name])
+      .filter((value) => value !== null && value !== undefined)
+
+    const kind = kindFromDataType(column.dataType)
+    if (kind && values.every((value) => convertExportValue(value, kind) !== undefined)) {
+      return { name: column.name, kind }
+    }
+    return { name: column.name, kind: kindFromValues(values) }
+  })
+}
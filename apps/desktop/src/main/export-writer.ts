@@ -0,0 +1,135 @@
+import { writeFile } from 'fs/promises'
+import type { ExportFormat, ExportRequest, ExportResult } from '@shared/index'
+import {
+  convertExportValue,
+  formatExportCell,
+  formatExportDate,
+  resolveExportColumns,
+  type ResolvedExportColumn
+} from './export-columns'
+import { buildParquet } from './parquet-writer'
+import { buildInsertRowLiteral } from './sql-builder'
+import { buildXlsx } from './xlsx-writer'
+
+/**
+ * Result exports
+ *
+ * Files are built and written here rather than in the renderer so large results
+ * don't have to be copied into a browser Blob.
+ */
+
+export const EXPORT_FILE_FILTERS: Record<ExportFormat, { name: string; extensions: string[] }> = {
+  csv: { name: 'CSV', extensions: ['csv'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  xlsx: { name: 'Excel Workbook', extensions: ['xlsx'] },
+  parquet: { name: 'Parquet', extensions: ['parquet'] },
+  markdown: { name: 'Markdown', extensions: ['md'] },
+  sql: { name: 'SQL', extensions: ['sql'] }
+}
+
+/** Table name used for SQL INSERT exports of query results */
+const DEFAULT_INSERT_TABLE = 'exported_rows'
+
+function escapeCSVValue(text: string): string {
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+function buildCSV(columns: ResolvedExportColumn[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.map((col) => escapeCSVValue(col.name)).join(',')]
+  for (const row of rows) {
+    lines.push(
+      columns.map((col) => escapeCSVValue(formatExportCell(row[col.name], col.kind))).join(',')
+    )
+  }
+  return lines.join('\n')
+}
+
+function buildJSON(columns: ResolvedExportColumn[], rows: Record<string, unknown>[]): string {
+  const objects = rows.map((row) => {
+    const obj: Record<string, unknown> = {}
+    for (const col of columns) {
+      const value = row[col.name]
+      // JSON has no binary, bigint or date-only values
+      const asText = value instanceof Uint8Array || typeof value === 'bigint' || col.kind === 'date'
+      obj[col.name] = asText && value != null ? formatExportCell(value, col.kind) : value
+    }
+    return obj
+  })
+  return JSON.stringify(objects, null, 2)
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+function buildMarkdown(columns: ResolvedExportColumn[], rows: Record<string, unknown>[]): string {
+  const numeric = new Set<ResolvedExportColumn['kind']>(['integer', 'decimal'])
+  const lines = [
+    `| ${columns.map((col) => escapeMarkdownCell(col.name)).join(' | ')} |`,
+    `| ${columns.map((col) => (numeric.has(col.kind) ? '---:' : '---')).join(' | ')} |`
+  ]
+  for (const row of rows) {
+    const cells = columns.map((col) =>
+      escapeMarkdownCell(formatExportCell(row[col.name], col.kind))
+    )
+    lines.push(`| ${cells.join(' | ')} |`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+function toInsertValue(value: unknown, kind: ResolvedExportColumn['kind']): unknown {
+  const converted = convertExportValue(value, kind)
+  if (converted === undefined || converted === null) return value
+  if (kind === 'integer') return converted
+  if (kind === 'date') return formatExportDate(converted as number)
+  return value
+}
+
+function buildInsertStatements(request: ExportRequest, columns: ResolvedExportColumn[]): string {
+  const dbType = request.dbType ?? 'postgresql'
+  const context = {
+    schema: request.table?.schema ?? '',
+    table: request.table?.name ?? DEFAULT_INSERT_TABLE
+  }
+
+  const statements = request.rows.map((row) => {
+    const values: Record<string, unknown> = {}
+    for (const column of columns) {
+      values[column.name] = toInsertValue(row[column.name], column.kind)
+    }
+    return `${buildInsertRowLiteral(context, values, dbType)};`
+  })
+  return statements.join('\n') + '\n'
+}
+
+function buildExport(request: ExportRequest): Buffer | string {
+  const columns = resolveExportColumns(request.columns, request.rows)
+  switch (request.format) {
+    case 'csv':
+      return buildCSV(columns, request.rows)
+    case 'json':
+      return buildJSON(columns, request.rows)
+    case 'xlsx':
+      return buildXlsx(columns, request.rows, request.table?.name ?? 'Results')
+    case 'parquet':
+      return buildParquet(columns, request.rows)
+    case 'markdown':
+      return buildMarkdown(columns, request.rows)
+    case 'sql':
+      return buildInsertStatements(request, columns)
+  }
+}
+
+/**
+ * Write rows to a file in the requested format
+ */
+export async function writeExport(filePath: string, request: ExportRequest): Promise<ExportResult> {
+  const content = buildExport(request)
+  const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content
+  await writeFile(filePath, data)
+
+  return { filePath, rowCount: request.rows.length, bytes: data.length }
+}
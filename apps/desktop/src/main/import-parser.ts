@@ -0,0 +1,449 @@
+import { readFile } from 'fs/promises'
+import { basename, extname } from 'path'
+import type {
+  ImportColumnType,
+  ImportFileColumn,
+  ImportFileData,
+  ImportFileFormat
+} from '@shared/index'
+import { readZipEntries } from './zip'
+
+/**
+ * Import file parsing
+ *
+ * Reads CSV, JSON (array, wrapped array or NDJSON) and Excel files into rows keyed by
+ * column name, and infers a type for each column from its values.
+ */
+
+/** Rows sampled per column when inferring types */
+const INFERENCE_SAMPLE_SIZE = 1000
+
+const INTEGER_PATTERN = /^[+-]?\d+$/
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+const BOOLEAN_PATTERN = /^(true|false)$/i
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+
+export async function readImportFile(filePath: string): Promise<ImportFileData> {
+  const format = detectFormat(filePath)
+  const buffer = await readFile(filePath)
+
+  let parsed: { rows: Record<string, unknown>[]; columnNames: string[]; sheetName?: string }
+  switch (format) {
+    case 'csv':
+      parsed = parseCSV(buffer.toString('utf8'))
+      break
+    case 'json':
+      parsed = parseJSON(buffer.toString('utf8'))
+      break
+    case 'xlsx':
+      parsed = parseXLSX(buffer)
+      break
+  }
+
+  const columns: ImportFileColumn[] = parsed.columnNames.map((name) => ({
+    name,
+    inferredType: inferColumnType(parsed.rows.map((row) => row[name]))
+  }))
+
+  return {
+    fileName: basename(filePath),
+    format,
+    columns,
+    rows: parsed.rows,
+    sheetName: parsed.sheetName
+  }
+}
+
+function detectFormat(filePath: string): ImportFileFormat {
+  const extension = extname(filePath).toLowerCase()
+  switch (extension) {
+    case '.csv':
+    case '.tsv':
+    case '.txt':
+      return 'csv'
+    case '.json':
+    case '.ndjson':
+    case '.jsonl':
+      return 'json'
+    case '.xlsx':
+      return 'xlsx'
+    default:
+      throw new Error(`Unsupported file type "${extension}". Use CSV, JSON or .xlsx files.`)
+  }
+}
+
+/**
+ * Infer a column type from its values. Empty values are ignored.
+ */
+function inferColumnType(values: unknown[]): ImportColumnType {
+  const sample = values
+    .filter((v) => v !== null && v !== undefined && v !== '')
+    .slice(0, INFERENCE_SAMPLE_SIZE)
+  if (sample.length === 0) return 'text'
+
+  const matchesAll = (test: (value: unknown) => boolean): boolean => sample.every(test)
+
+  if (matchesAll((v) => typeof v === 'object')) return 'json'
+  if (matchesAll((v) => typeof v === 'boolean' || BOOLEAN_PATTERN.test(String(v)))) {
+    return 'boolean'
+  }
+  if (
+    matchesAll(
+      (v) =>
+        (typeof v === 'number' && Number.isInteger(v)) ||
+        (typeof v === 'string' && INTEGER_PATTERN.test(v.trim()))
+    )
+  ) {
+    return 'integer'
+  }
+  if (
+    matchesAll(
+      (v) => typeof v === 'number' || (typeof v === 'string' && DECIMAL_PATTERN.test(v.trim()))
+    )
+  ) {
+    return 'decimal'
+  }
+  if (matchesAll((v) => typeof v === 'string' && DATE_PATTERN.test(v.trim()))) return 'date'
+  if (
+    matchesAll(
+      (v) =>
+        typeof v === 'string' && (DATE_PATTERN.test(v.trim()) || TIMESTAMP_PATTERN.test(v.trim()))
+    )
+  ) {
+    return 'timestamp'
+  }
+  return 'text'
+}
+
+/**
+ * Give blank and repeated headers usable, unique names
+ */
+function normalizeHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>()
+  return headers.map((header, index) => {
+    const base = header.trim() || `column_${index + 1}`
+    const count = seen.get(base) ?? 0
+    seen.set(base, count + 1)
+    return count === 0 ? base : `${base}_${count + 1}`
+  })
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Pick the delimiter that occurs most often (outside quotes) in the header line
+ */
+function detectDelimiter(text: string): string {
+  const candidates = [',', ';', '\t', '|']
+  const counts = new Map(candidates.map((c) => [c, 0]))
+  let inQuotes = false
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes
+    else if (!inQuotes && (char === '\n' || char === '\r')) break
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1)
+  }
+
+  return candidates.reduce((best, c) => (counts.get(c)! > counts.get(best)! ? c : best), ',')
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields, doubled quotes, embedded newlines)
+ */
+function parseCSVRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Blank lines are not rows
+  return records.filter((r) => r.length > 1 || r[0] !== '')
+}
+
+function parseCSV(text: string): { rows: Record<string, unknown>[]; columnNames: string[] } {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const records = parseCSVRecords(content, detectDelimiter(content))
+  if (records.length === 0) {
+    throw new Error('The file is empty')
+  }
+
+  const columnNames = normalizeHeaders(records[0])
+  const rows = records.slice(1).map((record) => {
+    const row: Record<string, unknown> = {}
+    columnNames.forEach((name, index) => {
+      row[name] = record[index] ?? ''
+    })
+    return row
+  })
+
+  return { rows, columnNames }
+}
+
+// ============================================
+// JSON
+// ============================================
+
+function parseJSON(text: string): { rows: Record<string, unknown>[]; columnNames: string[] } {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  let items: unknown[]
+  try {
+    const parsed: unknown = JSON.parse(content)
+    if (Array.isArray(parsed)) {
+      items = parsed
+    } else if (parsed && typeof parsed === 'object') {
+      // Dumps often wrap the rows: { "data": [...] }
+      const arrays = Object.values(parsed).filter(Array.isArray)
+      items = arrays.length === 1 ? arrays[0] : [parsed]
+    } else {
+      throw new Error('Expected an array of objects')
+    }
+  } catch (error) {
+    // Newline-delimited JSON: one object per line
+    const lines = content.split(/\r?\n/).filter((line) => line.trim())
+    if (lines.length < 2) throw error
+    items = lines.map((line, index) => {
+      try {
+        return JSON.parse(line)
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1}`)
+      }
+    })
+  }
+
+  const columnSet = new Set<string>()
+  const rows = items.map((item) => {
+    const row =
+      item && typeof item === 'object' && !Array.isArray(item)
+        ? (item as Record<string, unknown>)
+        : { value: item }
+    Object.keys(row).forEach((key) => columnSet.add(key))
+    return row
+  })
+
+  return { rows, columnNames: Array.from(columnSet) }
+}
+
+// ============================================
+// Excel (.xlsx)
+// ============================================
+
+// Built-in number formats that display dates and times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+// Excel serial day 0 is 1899-12-30 (accounting for the 1900 leap year bug)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30)
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp':
+        return '&'
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return "'"
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10)
+        )
+    }
+  })
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+/** Concatenate the <t> runs of a shared or inline string */
+function readStringItem(xml: string): string {
+  const parts = Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (m) => m[1])
+  return decodeXml(parts.join(''))
+}
+
+/** Column letters of a cell reference to a 0-based index (B7 -> 1) */
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A'
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+/**
+ * Style indexes (cellXfs) whose number format shows a date
+ */
+function readDateStyles(stylesXml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>()
+  if (!stylesXml) return dateStyles
+
+  const customDateFormats = new Set<number>()
+  for (const match of stylesXml.matchAll(/<numFmt\s[^>]*>/g)) {
+    const id = Number(getAttribute(match[0], 'numFmtId'))
+    // Strip quoted text, escapes and [color]/[h] sections before looking for date parts
+    const code = (getAttribute(match[0], 'formatCode') ?? '')
+      .replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '')
+      .toLowerCase()
+    if (/[dmyh]/.test(code)) customDateFormats.add(id)
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? ''
+  Array.from(cellXfs.matchAll(/<xf\s[^>]*>/g)).forEach((match, index) => {
+    const formatId = Number(getAttribute(match[0], 'numFmtId') ?? 0)
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index)
+    }
+  })
+
+  return dateStyles
+}
+
+function excelSerialToString(serial: number): string {
+  const iso = new Date(EXCEL_EPOCH_MS + Math.round(serial * MS_PER_DAY)).toISOString()
+  // Whole days are dates; anything else keeps its time of day
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ')
+}
+
+/**
+ * Resolve the path of the first worksheet through the workbook relationships
+ */
+function findFirstSheet(entries: Map<string, Buffer>): { path: string; name?: string } {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8')
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8')
+  const sheetTag = workbook?.match(/<sheet\s[^>]*>/)?.[0]
+
+  if (sheetTag && rels) {
+    const relId = getAttribute(sheetTag, 'r:id')
+    const relTag = Array.from(rels.matchAll(/<Relationship\s[^>]*>/g), (m) => m[0]).find(
+      (tag) => getAttribute(tag, 'Id') === relId
+    )
+    const target = relTag ? getAttribute(relTag, 'Target') : undefined
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+      if (entries.has(path)) return { path, name: getAttribute(sheetTag, 'name') }
+    }
+  }
+
+  if (entries.has('xl/worksheets/sheet1.xml')) return { path: 'xl/worksheets/sheet1.xml' }
+  throw new Error('The workbook has no worksheets')
+}
+
+function parseXLSX(buffer: Buffer): {
+  rows: Record<string, unknown>[]
+  columnNames: string[]
+  sheetName?: string
+} {
+  const entries = readZipEntries(buffer)
+  const sheet = findFirstSheet(entries)
+
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? ''
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), (m) =>
+    readStringItem(m[1])
+  )
+  const dateStyles = readDateStyles(entries.get('xl/styles.xml')?.toString('utf8'))
+  const sheetXml = entries.get(sheet.path)!.toString('utf8')
+
+  const records: unknown[][] = []
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const record: unknown[] = []
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const body = cellMatch[2] ?? ''
+      const ref = getAttribute(attributes, 'r')
+      const index = ref ? columnIndex(ref) : record.length
+      const type = getAttribute(attributes, 't')
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let value: unknown = null
+      if (type === 'inlineStr') {
+        value = readStringItem(body)
+      } else if (rawValue !== undefined) {
+        const text = decodeXml(rawValue)
+        if (type === 's') value = sharedStrings[Number(text)] ?? ''
+        else if (type === 'b') value = text === '1'
+        else if (type === 'str' || type === 'e') value = text
+        else {
+          const number = Number(text)
+          const style = Number(getAttribute(attributes, 's') ?? -1)
+          value = dateStyles.has(style) ? excelSerialToString(number) : number
+        }
+      }
+
+      record[index] = value
+    }
+    records.push(record)
+  }
+
+  // Skip leading blank rows; the first row with content is the header
+  const headerIndex = records.findIndex((r) => r.some((v) => v !== null && v !== undefined))
+  if (headerIndex === -1) {
+    throw new Error('The worksheet is empty')
+  }
+
+  const header = records[headerIndex]
+  const columnNames = normalizeHeaders(
+    Array.from({ length: header.length }, (_, i) => (header[i] == null ? '' : String(header[i])))
+  )
+  const rows = records
+    .slice(headerIndex + 1)
+    .filter((r) => r.some((v) => v !== null && v !== undefined && v !== ''))
+    .map((record) => {
+      const row: Record<string, unknown> = {}
+      columnNames.forEach((name, index) => {
+        row[name] = record[index] ?? null
+      })
+      return row
+    })
+
+  return { rows, columnNames, sheetName: sheet.name }
+}
@@ -1,5 +1,5 @@
 import { config } from 'dotenv'
-import { app, shell, BrowserWindow, ipcMain } from 'electron'
+import { app, shell, BrowserWindow, ipcMain, dialog } from 'electron'
 import { join, resolve } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 
@@ -8,12 +8,20 @@ config({ path: resolve(__dirname, '../../.env') })
 import icon from '../../resources/icon.png?asset'
 import type {
   ConnectionConfig,
+  ConnectionTestResult,
   EditBatch,
   EditResult,
   TableDefinition,
   AlterTableBatch,
   DDLResult,
-  SavedQuery
+  SchemaCompareSide,
+  SavedQuery,
+  TablePageRequest,
+  ImportRequest,
+  ExportRequest,
+  QueryHistoryEntry,
+  QueryHistoryFilter,
+  QueryHistoryRetention
 } from '@shared/index'
 import { buildQuery, validateOperation, buildPreviewSql } from './sql-builder'
 import {
@@ -27,6 +35,40 @@ import { createMenu } from './menu'
 import { setupContextMenu } from './context-menu'
 import { getWindowState, trackWindowState } from './window-state'
 import { getAdapter } from './db-adapter'
+import { closePool, closeAllPools } from './pool-manager'
+import { getTunnel, closeTunnel, closeAllTunnels, initKnownHosts } from './ssh-tunnel'
+import { cancelQuery } from './query-tracker'
+import {
+  fetchFromCursor,
+  closeCursor,
+  closeConnectionCursors,
+  closeAllCursors
+} from './cursor-manager'
+import {
+  closeSession,
+  closeConnectionSessions,
+  closeAllSessions,
+  countOpenTransactions,
+  getSessionTransaction
+} from './session-manager'
+import { runSessionQuery, endSessionTransaction } from './manual-commit'
+import { assertQueryAllowed, getReadOnlyError } from './safe-mode'
+import { compareSchemas } from './schema-diff'
+import { initCertificateStore, saveCertificates, deleteCertificates } from './certificate-store'
+import { fetchTablePage } from './table-page'
+import { readImportFile } from './import-parser'
+import { importRows } from './data-import'
+import { EXPORT_FILE_FILTERS, writeExport } from './export-writer'
+import {
+  initQueryHistory,
+  closeQueryHistory,
+  addHistoryEntry,
+  searchHistory,
+  deleteHistoryEntry,
+  clearHistory,
+  getHistoryRetention,
+  setHistoryRetention
+} from './query-history'
 import {
   initLicenseStore,
   checkLicense,
@@ -42,6 +84,8 @@ import {
   clearAIConfig,
   validateAPIKey,
   generateChatResponse,
+  generateQueryFix,
+  generateQueryAssist,
   getChatHistory,
   saveChatHistory,
   clearChatHistory,
@@ -65,7 +109,20 @@ import {
   type AIProviderConfig
 } from './ai-service'
 import { initAutoUpdater, stopPeriodicChecks } from './updater'
-import type { LicenseActivationRequest, SchemaInfo } from '@shared/index'
+import type {
+  AIChatOptions,
+  AIQueryAssistMode,
+  AIQueryAttempt,
+  CustomTypeInfo,
+  ExecutionPlan,
+  IndexInfo,
+  LicenseActivationRequest,
+  SchemaInfo,
+  SchemaObjectRef,
+  SequenceInfo,
+  TriggerInfo
+} from '@shared/index'
+import { classifyQuery } from '@shared/index'
 
 import { DpStorage } from './storage'
 
@@ -73,12 +130,20 @@ let store: DpStorage<{ connections: ConnectionConfig[] }>
 let savedQueriesStore: DpStorage<{ savedQueries: SavedQuery[] }>
 
 // Schema cache types
-interface CachedSchema {
+interface CachedSchema extends SchemaObjects {
   schemas: SchemaInfo[]
-  customTypes: { name: string; schema: string; type: string; values?: string[] }[]
   timestamp: number
 }
 
+// Objects listed in the schema explorer besides tables, views and routines
+interface SchemaObjects {
+  customTypes: CustomTypeInfo[]
+  /** Missing from entries cached by older versions */
+  sequences?: SequenceInfo[]
+  indexes?: IndexInfo[]
+  triggers?: TriggerInfo[]
+}
+
 interface SchemaCacheStore {
   cache: Record<string, CachedSchema>
 }
@@ -91,6 +156,27 @@ const SCHEMA_CACHE_TTL = 24 * 60 * 60 * 1000
 // In-memory cache for faster access during session
 const schemaMemoryCache = new Map<string, CachedSchema>()
 
+// Latest queries whose tables are offered to the AI alongside the question's matches
+const AI_RECENT_QUERY_COUNT = 20
+
+// Chat requests still streaming, by request ID, so they can be stopped
+const aiChatRequests = new Map<string, AbortController>()
+
+/**
+ * Fetch the schema explorer's extra objects; each kind is optional, so a failure
+ * (e.g. missing catalog permissions) leaves that list empty
+ */
+async function fetchSchemaObjects(config: ConnectionConfig): Promise<SchemaObjects> {
+  const adapter = getAdapter(config)
+  const [customTypes, sequences, indexes, triggers] = await Promise.all([
+    adapter.getTypes(config).catch(() => []),
+    adapter.getSequences(config).catch(() => []),
+    adapter.getIndexes(config).catch(() => []),
+    adapter.getTriggers(config).catch(() => [])
+  ])
+  return { customTypes, sequences, indexes, triggers }
+}
+
 // Generate cache key from connection config
 function getSchemaCacheKey(config: ConnectionConfig): string {
   return `${config.dbType}:${config.host}:${config.port}:${config.database}:${config.user ?? 'default'}`
@@ -129,6 +215,37 @@ async function initStore(): Promise<void> {
 // Store main window reference for macOS hide-on-close behavior
 let mainWindow: BrowserWindow | null = null
 let forceQuit = false
+// Set once database pools are closed so the deferred quit can go through
+let poolsClosed = false
+// Set once the user agreed to quit with uncommitted transactions
+let transactionsDiscarded = false
+
+/**
+ * Ask before quitting while manual-commit tabs hold open transactions (closing their
+ * sessions rolls them back)
+ * @returns true if quitting can go ahead
+ */
+function confirmDiscardTransactions(): boolean {
+  const count = countOpenTransactions()
+  if (count === 0 || transactionsDiscarded) return true
+
+  const options: Electron.MessageBoxSyncOptions = {
+    type: 'warning',
+    buttons: ['Cancel', 'Roll Back and Quit'],
+    defaultId: 0,
+    cancelId: 0,
+    message:
+      count === 1
+        ? 'A query tab has an open transaction'
+        : `${count} query tabs have open transactions`,
+    detail: 'Uncommitted changes will be rolled back. Commit them from their tabs to keep them.'
+  }
+  const choice = mainWindow
+    ? dialog.showMessageBoxSync(mainWindow, options)
+    : dialog.showMessageBoxSync(options)
+  transactionsDiscarded = choice === 1
+  return transactionsDiscarded
+}
 
 async function createWindow(): Promise<void> {
   // Get saved window state
@@ -190,6 +307,8 @@ async function createWindow(): Promise<void> {
     if (process.platform === 'darwin' && !forceQuit) {
       e.preventDefault()
       mainWindow?.hide()
+    } else if (!confirmDiscardTransactions()) {
+      e.preventDefault()
     }
   })
 
@@ -222,9 +341,22 @@ app.whenReady().then(async () => {
   // Initialize license store
   await initLicenseStore()
 
+  // Initialize SSL certificate store
+  await initCertificateStore()
+
+  // Initialize trusted SSH host keys
+  await initKnownHosts()
+
   // Initialize AI store
   await initAIStore()
 
+  // Open the query history journal (history is unavailable if this fails)
+  try {
+    initQueryHistory()
+  } catch (error) {
+    console.error('[query-history] Failed to open history journal:', error)
+  }
+
   // Create native application menu
   createMenu()
 
@@ -239,30 +371,84 @@ app.whenReady().then(async () => {
   })
 
   // IPC Handlers
+  // Test a connection, reporting SSH tunnel and database failures separately
   ipcMain.handle('db:connect', async (_, config: ConnectionConfig) => {
+    const result: ConnectionTestResult = {}
+    // Connections tested before they're saved get a new ID on every test, so their
+    // tunnel would never be reused
+    const isSaved = store.get('connections', []).some((c) => c.id === config.id)
+
     try {
-      const adapter = getAdapter(config)
-      await adapter.connect(config)
-      return { success: true }
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      return { success: false, error: errorMessage }
+      if (config.ssh?.enabled && config.dbType !== 'sqlite') {
+        try {
+          await getTunnel(config)
+          result.tunnel = { success: true }
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          result.tunnel = { success: false, error: errorMessage }
+          return { success: false, error: `SSH tunnel failed: ${errorMessage}`, data: result }
+        }
+      }
+
+      try {
+        const adapter = getAdapter(config)
+        await adapter.connect(config)
+        result.database = { success: true }
+        return { success: true, data: result }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        result.database = { success: false, error: errorMessage }
+        return { success: false, error: errorMessage, data: result }
+      }
+    } finally {
+      if (!isSaved) {
+        closeTunnel(config.id)
+      }
     }
   })
 
   ipcMain.handle(
     'db:query',
-    async (_, { config, query }: { config: ConnectionConfig; query: string }) => {
+    async (
+      _,
+      {
+        config,
+        query,
+        executionId,
+        chunkSize,
+        parameters,
+        sessionId,
+        confirmed
+      }: {
+        config: ConnectionConfig
+        query: string
+        executionId?: string
+        chunkSize?: number
+        parameters?: Record<string, unknown>
+        sessionId?: string
+        /** The user confirmed the query's destructive statements (safe mode) */
+        confirmed?: boolean
+      }
+    ) => {
       console.log('[main:db:query] Received query request')
-      console.log('[main:db:query] Config:', { ...config, password: '***' })
+      console.log('[main:db:query] Connection:', {
+        id: config.id,
+        name: config.name,
+        dbType: config.dbType
+      })
       console.log('[main:db:query] Query:', query)
 
       try {
+        assertQueryAllowed(config, query, confirmed)
+
         const adapter = getAdapter(config)
         console.log('[main:db:query] Connecting...')
 
-        // Use queryMultiple to support multiple statements
-        const multiResult = await adapter.queryMultiple(config, query)
+        // Use queryMultiple to support multiple statements (manual-commit tabs run theirs
+        // in the tab's own session)
+        const multiResult = sessionId
+          ? await runSessionQuery(config, query, { executionId, parameters, sessionId })
+          : await adapter.queryMultiple(config, query, { executionId, chunkSize, parameters })
 
         console.log('[main:db:query] Query completed in', multiResult.totalDurationMs, 'ms')
         console.log('[main:db:query] Statement count:', multiResult.results.length)
@@ -274,6 +460,7 @@ app.whenReady().then(async () => {
             results: multiResult.results,
             totalDurationMs: multiResult.totalDurationMs,
             statementCount: multiResult.results.length,
+            transaction: sessionId ? getSessionTransaction(sessionId) : undefined,
             // Also include legacy single-result format for backward compatibility
             // (uses first data-returning result or first result if none)
             rows:
@@ -292,8 +479,97 @@ app.whenReady().then(async () => {
           }
         }
       } catch (error: unknown) {
+        // A failed statement doesn't end the session's transaction
+        const data = sessionId ? { transaction: getSessionTransaction(sessionId) } : undefined
         console.error('[main:db:query] Error:', error)
         const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage, data }
+      }
+    }
+  )
+
+  // Commit or roll back the open transaction of a manual-commit tab's session
+  ipcMain.handle(
+    'db:commit',
+    async (_, { config, sessionId }: { config: ConnectionConfig; sessionId: string }) => {
+      try {
+        const transaction = await endSessionTransaction(config, sessionId, 'commit')
+        return { success: true, data: transaction }
+      } catch (error: unknown) {
+        console.error('[main:db:commit] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage, data: getSessionTransaction(sessionId) }
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'db:rollback',
+    async (_, { config, sessionId }: { config: ConnectionConfig; sessionId: string }) => {
+      try {
+        const transaction = await endSessionTransaction(config, sessionId, 'rollback')
+        return { success: true, data: transaction }
+      } catch (error: unknown) {
+        console.error('[main:db:rollback] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage, data: getSessionTransaction(sessionId) }
+      }
+    }
+  )
+
+  // Close a tab's session (rolling back anything uncommitted)
+  ipcMain.handle('db:close-session', async (_, sessionId: string) => {
+    await closeSession(sessionId)
+    return { success: true }
+  })
+
+  // Cancel a running query
+  ipcMain.handle('db:cancel', async (_, executionId: string) => {
+    console.log('[main:db:cancel] Cancelling query:', executionId)
+
+    try {
+      const cancelled = await cancelQuery(executionId)
+      if (!cancelled) {
+        return { success: false, error: 'Query is no longer running' }
+      }
+      return { success: true }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Fetch the next chunk of rows from a streamed result
+  ipcMain.handle(
+    'db:fetch-more',
+    async (_, { executionId, count }: { executionId: string; count: number }) => {
+      try {
+        const chunk = await fetchFromCursor(executionId, count)
+        return { success: true, data: chunk }
+      } catch (error: unknown) {
+        console.error('[main:db:fetch-more] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
+  // Close a streamed result's cursor (the renderer is done with it)
+  ipcMain.handle('db:close-cursor', async (_, executionId: string) => {
+    await closeCursor(executionId)
+    return { success: true }
+  })
+
+  // Fetch one page of a table preview (filtered, sorted and paged by the database)
+  ipcMain.handle(
+    'db:table-page',
+    async (_, { config, request }: { config: ConnectionConfig; request: TablePageRequest }) => {
+      try {
+        const result = await fetchTablePage(config, request)
+        return { success: true, data: result }
+      } catch (error: unknown) {
+        console.error('[main:db:table-page] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
         return { success: false, error: errorMessage }
       }
     }
@@ -320,6 +596,9 @@ app.whenReady().then(async () => {
               data: {
                 schemas: cached.schemas,
                 customTypes: cached.customTypes,
+                sequences: cached.sequences,
+                indexes: cached.indexes,
+                triggers: cached.triggers,
                 fetchedAt: cached.timestamp,
                 fromCache: true
               }
@@ -336,18 +615,13 @@ app.whenReady().then(async () => {
         const adapter = getAdapter(config)
         const schemas = await adapter.getSchemas(config)
 
-        // Also fetch custom types
-        let customTypes: CachedSchema['customTypes'] = []
-        try {
-          customTypes = await adapter.getTypes(config)
-        } catch {
-          // Types are optional, ignore errors
-        }
+        // Also fetch custom types, sequences, indexes and triggers
+        const objects = await fetchSchemaObjects(config)
 
         const timestamp = Date.now()
 
         // Update both memory and disk cache
-        const cacheEntry: CachedSchema = { schemas, customTypes, timestamp }
+        const cacheEntry: CachedSchema = { schemas, ...objects, timestamp }
         schemaMemoryCache.set(cacheKey, cacheEntry)
 
         // Persist to disk asynchronously
@@ -361,7 +635,7 @@ app.whenReady().then(async () => {
           success: true,
           data: {
             schemas,
-            customTypes,
+            ...objects,
             fetchedAt: timestamp,
             fromCache: false
           }
@@ -378,6 +652,9 @@ app.whenReady().then(async () => {
             data: {
               schemas: staleCache.schemas,
               customTypes: staleCache.customTypes,
+              sequences: staleCache.sequences,
+              indexes: staleCache.indexes,
+              triggers: staleCache.triggers,
               fetchedAt: staleCache.timestamp,
               fromCache: true,
               stale: true,
@@ -415,39 +692,51 @@ app.whenReady().then(async () => {
     }
   })
 
-  ipcMain.handle('connections:add', (_, connection: ConnectionConfig) => {
+  ipcMain.handle('connections:add', async (_, connection: ConnectionConfig) => {
     try {
+      const saved = await saveCertificates(connection)
       const connections = store.get('connections', [])
-      connections.push(connection)
+      connections.push(saved)
       store.set('connections', connections)
-      return { success: true, data: connection }
+      return { success: true, data: saved }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       return { success: false, error: errorMessage }
     }
   })
 
-  ipcMain.handle('connections:update', (_, connection: ConnectionConfig) => {
+  ipcMain.handle('connections:update', async (_, connection: ConnectionConfig) => {
     try {
       const connections = store.get('connections', [])
       const index = connections.findIndex((c) => c.id === connection.id)
       if (index === -1) {
         return { success: false, error: 'Connection not found' }
       }
-      connections[index] = connection
+      const saved = await saveCertificates(connection)
+      connections[index] = saved
       store.set('connections', connections)
-      return { success: true, data: connection }
+      // Drop the pool and tunnel so the next query reconnects with the new settings
+      await closeConnectionCursors(connection.id)
+      await closeConnectionSessions(connection.id)
+      await closePool(connection.id)
+      closeTunnel(connection.id)
+      return { success: true, data: saved }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       return { success: false, error: errorMessage }
     }
   })
 
-  ipcMain.handle('connections:delete', (_, id: string) => {
+  ipcMain.handle('connections:delete', async (_, id: string) => {
     try {
       const connections = store.get('connections', [])
       const filtered = connections.filter((c) => c.id !== id)
       store.set('connections', filtered)
+      await closeConnectionCursors(id)
+      await closeConnectionSessions(id)
+      await closePool(id)
+      closeTunnel(id)
+      deleteCertificates(id)
       return { success: true }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -463,6 +752,11 @@ app.whenReady().then(async () => {
       console.log('[main:db:execute] Context:', batch.context)
       console.log('[main:db:execute] Operations count:', batch.operations.length)
 
+      const readOnlyError = getReadOnlyError(config)
+      if (readOnlyError) {
+        return { success: false, error: readOnlyError }
+      }
+
       const adapter = getAdapter(config)
       const dbType = config.dbType || 'postgresql'
       const result: EditResult = {
@@ -559,6 +853,11 @@ app.whenReady().then(async () => {
       console.log('[main:db:explain] Analyze:', analyze)
 
       try {
+        // EXPLAIN ANALYZE runs the statement
+        if (analyze) {
+          assertQueryAllowed(config, query)
+        }
+
         const adapter = getAdapter(config)
         const result = await adapter.explain(config, query, analyze)
 
@@ -587,6 +886,11 @@ app.whenReady().then(async () => {
     ) => {
       console.log('[main:db:create-table] Creating table:', definition.schema, definition.name)
 
+      const readOnlyError = getReadOnlyError(config)
+      if (readOnlyError) {
+        return { success: false, error: readOnlyError }
+      }
+
       // Validate table definition
       const validation = validateTableDefinition(definition)
       if (!validation.valid) {
@@ -637,6 +941,11 @@ app.whenReady().then(async () => {
     async (_, { config, batch }: { config: ConnectionConfig; batch: AlterTableBatch }) => {
       console.log('[main:db:alter-table] Altering table:', batch.schema, batch.table)
 
+      const readOnlyError = getReadOnlyError(config)
+      if (readOnlyError) {
+        return { success: false, error: readOnlyError }
+      }
+
       const adapter = getAdapter(config)
       const dbType = config.dbType || 'postgresql'
       const result: DDLResult = {
@@ -680,6 +989,11 @@ app.whenReady().then(async () => {
     ) => {
       console.log('[main:db:drop-table] Dropping table:', schema, table)
 
+      const readOnlyError = getReadOnlyError(config)
+      if (readOnlyError) {
+        return { success: false, error: readOnlyError }
+      }
+
       const adapter = getAdapter(config)
       const dbType = config.dbType || 'postgresql'
 
@@ -752,6 +1066,24 @@ app.whenReady().then(async () => {
     }
   })
 
+  // Get the SQL that creates a view, index, trigger, sequence or type
+  ipcMain.handle(
+    'db:get-definition',
+    async (_, { config, object }: { config: ConnectionConfig; object: SchemaObjectRef }) => {
+      console.log('[main:db:get-definition] Fetching definition:', object.kind, object.name)
+
+      try {
+        const adapter = getAdapter(config)
+        const definition = await adapter.getObjectDefinition(config, object)
+        return { success: true, data: definition }
+      } catch (error: unknown) {
+        console.error('[main:db:get-definition] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
   // Preview DDL without executing
   ipcMain.handle(
     'db:preview-ddl',
@@ -767,6 +1099,180 @@ app.whenReady().then(async () => {
     }
   )
 
+  // Compare two schemas and build the migration from the target to the source
+  ipcMain.handle(
+    'db:compare-schemas',
+    async (_, { source, target }: { source: SchemaCompareSide; target: SchemaCompareSide }) => {
+      console.log('[main:db:compare-schemas] Comparing:', source.schema, 'with', target.schema)
+
+      try {
+        const result = await compareSchemas(source, target)
+        return { success: true, data: result }
+      } catch (error: unknown) {
+        console.error('[main:db:compare-schemas] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
+  // Run a migration script in one transaction
+  ipcMain.handle(
+    'db:apply-migration',
+    async (
+      _,
+      {
+        config,
+        statements,
+        confirmed
+      }: { config: ConnectionConfig; statements: string[]; confirmed?: boolean }
+    ) => {
+      console.log('[main:db:apply-migration] Applying', statements.length, 'statements')
+
+      const readOnlyError = getReadOnlyError(config)
+      if (readOnlyError) {
+        return { success: false, error: readOnlyError }
+      }
+
+      const adapter = getAdapter(config)
+      const result: DDLResult = {
+        success: true,
+        executedSql: statements,
+        errors: []
+      }
+
+      try {
+        // Migration statements needn't end in a semicolon, so each is classified on its own
+        statements.forEach((statement) => assertQueryAllowed(config, statement, confirmed))
+        await adapter.executeTransaction(
+          config,
+          statements.map((sql) => ({ sql, params: [] }))
+        )
+
+        return { success: true, data: result }
+      } catch (error: unknown) {
+        console.error('[main:db:apply-migration] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
+  // ============================================
+  // File Dialog Handlers
+  // ============================================
+
+  // Show a native open-file dialog and return the selected path (null if cancelled)
+  ipcMain.handle(
+    'files:open',
+    async (
+      event,
+      options?: { title?: string; filters?: Array<{ name: string; extensions: string[] }> }
+    ) => {
+      try {
+        const window = BrowserWindow.fromWebContents(event.sender)
+        const dialogOptions: Electron.OpenDialogOptions = {
+          title: options?.title,
+          filters: options?.filters,
+          properties: ['openFile']
+        }
+        const result = window
+          ? await dialog.showOpenDialog(window, dialogOptions)
+          : await dialog.showOpenDialog(dialogOptions)
+
+        const filePath = result.canceled ? null : (result.filePaths[0] ?? null)
+        return { success: true, data: filePath }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
+  // ============================================
+  // Data Import Handlers
+  // ============================================
+
+  // Parse a CSV, JSON or Excel file for the import wizard
+  ipcMain.handle('import:read-file', async (_, filePath: string) => {
+    try {
+      const data = await readImportFile(filePath)
+      return { success: true, data }
+    } catch (error: unknown) {
+      console.error('[main:import:read-file] Error:', error)
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Insert (or dry-run) mapped rows into a table
+  ipcMain.handle(
+    'import:run',
+    async (_, { config, request }: { config: ConnectionConfig; request: ImportRequest }) => {
+      console.log(
+        '[main:import:run] Importing',
+        request.rows.length,
+        'rows into',
+        request.schema,
+        request.table,
+        request.dryRun ? '(dry run)' : ''
+      )
+
+      const readOnlyError = getReadOnlyError(config)
+      if (readOnlyError) {
+        return { success: false, error: readOnlyError }
+      }
+
+      try {
+        const result = await importRows(config, request)
+        return { success: true, data: result }
+      } catch (error: unknown) {
+        console.error('[main:import:run] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
+  // ============================================
+  // Export Handlers
+  // ============================================
+
+  // Ask where to save, then write the rows there (data is null if cancelled)
+  ipcMain.handle('export:save', async (event, request: ExportRequest) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const filter = EXPORT_FILE_FILTERS[request.format]
+      const dialogOptions: Electron.SaveDialogOptions = {
+        title: 'Export Results',
+        defaultPath: `${request.defaultFileName}.${filter.extensions[0]}`,
+        filters: [filter]
+      }
+      const target = window
+        ? await dialog.showSaveDialog(window, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions)
+
+      if (target.canceled || !target.filePath) {
+        return { success: true, data: null }
+      }
+
+      console.log(
+        '[main:export:save] Writing',
+        request.rows.length,
+        'rows as',
+        request.format,
+        'to',
+        target.filePath
+      )
+      const result = await writeExport(target.filePath, request)
+      return { success: true, data: result }
+    } catch (error: unknown) {
+      console.error('[main:export:save] Error:', error)
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
   // ============================================
   // License Handlers
   // ============================================
@@ -942,6 +1448,75 @@ app.whenReady().then(async () => {
     }
   })
 
+  // ============================================
+  // Query History Handlers
+  // ============================================
+
+  // Append an executed query to the history journal
+  ipcMain.handle('history:add', (_, entry: Omit<QueryHistoryEntry, 'id'>) => {
+    try {
+      const saved = addHistoryEntry(entry)
+      return { success: true, data: saved }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Search history (full-text, connection, status and date filters), newest first
+  ipcMain.handle('history:search', (_, filter?: QueryHistoryFilter) => {
+    try {
+      const page = searchHistory(filter)
+      return { success: true, data: page }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Delete a history entry
+  ipcMain.handle('history:delete', (_, id: string) => {
+    try {
+      deleteHistoryEntry(id)
+      return { success: true }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Clear all history, or one connection's history
+  ipcMain.handle('history:clear', (_, connectionId?: string) => {
+    try {
+      clearHistory(connectionId)
+      return { success: true }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Get how much history is kept
+  ipcMain.handle('history:get-retention', () => {
+    try {
+      return { success: true, data: getHistoryRetention() }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  // Change how much history is kept (older entries are pruned right away)
+  ipcMain.handle('history:set-retention', (_, retention: QueryHistoryRetention) => {
+    try {
+      const saved = setHistoryRetention(retention)
+      return { success: true, data: saved }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return { success: false, error: errorMessage }
+    }
+  })
+
   // ============================================
   // AI Handlers
   // ============================================
@@ -1077,31 +1652,64 @@ app.whenReady().then(async () => {
     }
   })
 
-  // Chat with AI - returns structured JSON response
+  // Chat with AI - returns structured JSON response, sending ai:chat-progress events
+  // as it streams in when the request has an ID
   ipcMain.handle(
     'ai:chat',
     async (
-      _,
+      event,
       {
         messages,
         schemas,
-        dbType
+        dbType,
+        options
       }: {
         messages: AIMessage[]
         schemas: SchemaInfo[]
         dbType: string
+        options?: AIChatOptions
       }
     ) => {
       console.log('[main:ai:chat] Received chat request')
       console.log('[main:ai:chat] Messages count:', messages.length)
 
+      const requestId = options?.requestId
+      const controller = new AbortController()
+      if (requestId) aiChatRequests.set(requestId, controller)
+
       try {
         const config = getAIConfig()
         if (!config) {
           return { success: false, error: 'AI not configured. Please set up your API key.' }
         }
 
-        const result = await generateChatResponse(config, messages, schemas, dbType)
+        // The tables of the connection's latest queries are candidates for the prompt
+        const recentQueries = options?.connectionId
+          ? searchHistory({
+              connectionId: options.connectionId,
+              status: 'success',
+              limit: AI_RECENT_QUERY_COUNT
+            }).entries.map((entry) => entry.query)
+          : []
+
+        // With a saved connection the model can inspect the database with read-only tools
+        const connection = options?.connectionId
+          ? store.get('connections', []).find((c) => c.id === options.connectionId)
+          : undefined
+
+        const result = await generateChatResponse(config, messages, schemas, dbType, {
+          pinnedTables: options?.pinnedTables,
+          recentQueries,
+          connection,
+          abortSignal: controller.signal,
+          onProgress: requestId
+            ? (progress) => {
+                if (!event.sender.isDestroyed()) {
+                  event.sender.send('ai:chat-progress', { requestId, ...progress })
+                }
+              }
+            : undefined
+        })
 
         if (result.success && result.data) {
           return {
@@ -1115,6 +1723,87 @@ app.whenReady().then(async () => {
         console.error('[main:ai:chat] Error:', error)
         const errorMessage = error instanceof Error ? error.message : String(error)
         return { success: false, error: errorMessage }
+      } finally {
+        if (requestId) aiChatRequests.delete(requestId)
+      }
+    }
+  )
+
+  // Stop a streaming chat response
+  ipcMain.handle('ai:cancel', (_, requestId: string) => {
+    const controller = aiChatRequests.get(requestId)
+    if (!controller) {
+      return { success: false, error: 'Response is no longer streaming' }
+    }
+    controller.abort()
+    return { success: true }
+  })
+
+  // Explain a query from the editor or rewrite it to run faster, with its estimated
+  // execution plan as context when the database can produce one
+  ipcMain.handle(
+    'ai:assist-query',
+    async (
+      _,
+      {
+        config,
+        mode,
+        sql,
+        schemas
+      }: { config: ConnectionConfig; mode: AIQueryAssistMode; sql: string; schemas: SchemaInfo[] }
+    ) => {
+      console.log('[main:ai:assist-query] Mode:', mode)
+
+      try {
+        const aiConfig = getAIConfig()
+        if (!aiConfig) {
+          return { success: false, error: 'AI not configured. Please set up your API key.' }
+        }
+
+        // Only a single read is explained: the whole editor may be sent, and a database
+        // can run the statements after the one being explained
+        let plan: ExecutionPlan | null = null
+        const statements = classifyQuery(sql)
+        if (statements.length === 1 && statements[0].risk === 'read') {
+          try {
+            plan = (await getAdapter(config).explain(config, sql, false)).plan
+          } catch (error: unknown) {
+            console.log('[main:ai:assist-query] No execution plan:', error)
+          }
+        }
+
+        const dbType = config.dbType || 'postgresql'
+        return await generateQueryAssist(aiConfig, mode, sql, schemas, dbType, plan)
+      } catch (error: unknown) {
+        console.error('[main:ai:assist-query] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+
+  // Ask the AI to fix generated SQL that failed, given its failed runs so far
+  ipcMain.handle(
+    'ai:fix-query',
+    async (
+      _,
+      {
+        attempts,
+        schemas,
+        dbType
+      }: { attempts: AIQueryAttempt[]; schemas: SchemaInfo[]; dbType: string }
+    ) => {
+      try {
+        const config = getAIConfig()
+        if (!config) {
+          return { success: false, error: 'AI not configured. Please set up your API key.' }
+        }
+
+        return await generateQueryFix(config, attempts, schemas, dbType)
+      } catch (error: unknown) {
+        console.error('[main:ai:fix-query] Error:', error)
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return { success: false, error: errorMessage }
       }
     }
   )
@@ -1252,10 +1941,29 @@ app.whenReady().then(async () => {
 })
 
 // macOS: set forceQuit flag before quitting
-app.on('before-quit', () => {
+app.on('before-quit', (event) => {
+  if (!poolsClosed && !confirmDiscardTransactions()) {
+    event.preventDefault()
+    return
+  }
   forceQuit = true
   // Stop periodic update checks
   stopPeriodicChecks()
+
+  // Close open cursors, pinned sessions and database pools (then the SSH tunnels they
+  // run over) before exiting so server sessions end cleanly
+  if (!poolsClosed) {
+    event.preventDefault()
+    closeAllCursors()
+      .then(() => closeAllSessions())
+      .then(() => closeAllPools())
+      .finally(() => {
+        closeAllTunnels()
+        closeQueryHistory()
+        poolsClosed = true
+        app.quit()
+      })
+  }
 })
 
 // Quit when all windows are closed, except on macOS. There, it's common
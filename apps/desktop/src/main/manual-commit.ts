@@ -0,0 +1,116 @@
+import type { ConnectionConfig, DatabaseType, SessionTransaction } from '@shared/index'
+import { getAdapter, type AdapterMultiQueryResult, type QueryOptions } from './db-adapter'
+import { getSessionTransaction, hasSession, setSessionTransaction } from './session-manager'
+
+/**
+ * Manual-commit mode
+ *
+ * Queries from a tab in manual-commit mode run on the tab's pinned session (see
+ * session-manager). A transaction is opened before the first query and stays open until
+ * the user commits or rolls it back. BEGIN, COMMIT and ROLLBACK typed in the editor are
+ * recognized as well, so the tab's transaction indicator follows them.
+ */
+
+const TRANSACTION_SQL: Record<DatabaseType, { begin: string; commit: string; rollback: string }> = {
+  postgresql: { begin: 'BEGIN', commit: 'COMMIT', rollback: 'ROLLBACK' },
+  mysql: { begin: 'START TRANSACTION', commit: 'COMMIT', rollback: 'ROLLBACK' },
+  // Nested BEGIN TRANSACTIONs each need a COMMIT, while one ROLLBACK undoes them all
+  mssql: {
+    begin: 'BEGIN TRANSACTION',
+    commit: 'WHILE @@TRANCOUNT > 0 COMMIT TRANSACTION',
+    rollback: 'IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION'
+  },
+  sqlite: { begin: 'BEGIN', commit: 'COMMIT', rollback: 'ROLLBACK' }
+}
+
+const LEADING_COMMENTS = /^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)*/
+
+/**
+ * Whether a statement starts or ends a transaction
+ */
+function getTransactionEffect(statement: string, dbType: DatabaseType): 'begin' | 'end' | null {
+  const words = statement
+    .replace(LEADING_COMMENTS, '')
+    .toUpperCase()
+    .split(/[\s;]+/)
+  const [first, second] = words
+
+  switch (first) {
+    case 'START':
+      return second === 'TRANSACTION' ? 'begin' : null
+    case 'BEGIN':
+      // In T-SQL a bare BEGIN opens a statement block (BEGIN ... END, BEGIN TRY)
+      if (dbType !== 'mssql') return 'begin'
+      return ['TRAN', 'TRANSACTION', 'DISTRIBUTED'].includes(second) ? 'begin' : null
+    case 'COMMIT':
+    case 'ABORT':
+      return 'end'
+    case 'END':
+      return dbType === 'mssql' ? null : 'end'
+    case 'ROLLBACK':
+      // ROLLBACK TO SAVEPOINT keeps the transaction open
+      return words.slice(1, 3).includes('TO') ? null : 'end'
+    default:
+      return null
+  }
+}
+
+/**
+ * Run a query on a session, opening a transaction first if none is open
+ */
+export async function runSessionQuery(
+  config: ConnectionConfig,
+  sql: string,
+  options: QueryOptions & { sessionId: string }
+): Promise<AdapterMultiQueryResult> {
+  const adapter = getAdapter(config)
+  const dbType = config.dbType || 'postgresql'
+  const { sessionId } = options
+
+  if (!getSessionTransaction(sessionId).open && getTransactionEffect(sql, dbType) !== 'begin') {
+    const begin =
+      config.readOnly && dbType === 'mysql'
+        ? 'START TRANSACTION READ ONLY'
+        : TRANSACTION_SQL[dbType].begin
+    await adapter.queryMultiple(config, begin, { sessionId })
+    setSessionTransaction(sessionId, true)
+  }
+
+  // A streamed result keeps its connection busy until the cursor closes, which would
+  // block the session's next query, so session results are loaded in full
+  const result = await adapter.queryMultiple(config, sql, { ...options, chunkSize: undefined })
+
+  for (const statementResult of result.results) {
+    const effect = getTransactionEffect(statementResult.statement, dbType)
+    if (effect) {
+      setSessionTransaction(sessionId, effect === 'begin')
+    }
+  }
+  return result
+}
+
+/**
+ * Commit or roll back a session's open transaction
+ * @throws Error when the session's connection was closed (its changes are already gone)
+ */
+export async function endSessionTransaction(
+  config: ConnectionConfig,
+  sessionId: string,
+  action: 'commit' | 'rollback'
+): Promise<SessionTransaction> {
+  if (!hasSession(sessionId)) {
+    throw new Error('The connection holding this transaction was closed and its changes were lost')
+  }
+  if (!getSessionTransaction(sessionId).open) {
+    return { open: false }
+  }
+
+  const dbType = config.dbType || 'postgresql'
+  // SQL Server has no read-only transactions, so on read-only connections commit rolls back
+  const effectiveAction = config.readOnly && dbType === 'mssql' ? 'rollback' : action
+  await getAdapter(config).queryMultiple(config, TRANSACTION_SQL[dbType][effectiveAction], {
+    sessionId
+  })
+  setSessionTransaction(sessionId, false)
+  return getSessionTransaction(sessionId)
+}
@@ -0,0 +1,408 @@
+import { gzipSync } from 'zlib'
+import {
+  convertExportValue,
+  type ExportColumnKind,
+  type ResolvedExportColumn
+} from './export-columns'
+
+/**
+ * Parquet writer
+ *
+ * Writes one row group with one GZIP-compressed v1 data page per column. Every column
+ * is OPTIONAL (RLE definition levels) and PLAIN encoded, which every Parquet reader
+ * supports. The footer is Thrift compact-encoded FileMetaData.
+ */
+
+const MAGIC = Buffer.from('PAR1', 'ascii')
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const
+const ConvertedType = { UTF8: 0, DECIMAL: 5, DATE: 6, TIMESTAMP_MILLIS: 9, JSON: 19 } as const
+const REPETITION_OPTIONAL = 1
+const ENCODING_PLAIN = 0
+const ENCODING_RLE = 3
+const CODEC_GZIP = 2
+const PAGE_TYPE_DATA = 0
+
+// Thrift compact protocol type ids
+const CT_I32 = 5
+const CT_I64 = 6
+const CT_BINARY = 8
+const CT_LIST = 9
+const CT_STRUCT = 12
+
+interface ColumnLayout {
+  physicalType: number
+  convertedType?: number
+  /** DECIMAL only */
+  scale?: number
+  precision?: number
+}
+
+const LAYOUTS: Record<ResolvedExportColumn['kind'], ColumnLayout> = {
+  integer: { physicalType: PhysicalType.INT64 },
+  decimal: { physicalType: PhysicalType.DOUBLE },
+  boolean: { physicalType: PhysicalType.BOOLEAN },
+  date: { physicalType: PhysicalType.INT32, convertedType: ConvertedType.DATE },
+  timestamp: { physicalType: PhysicalType.INT64, convertedType: ConvertedType.TIMESTAMP_MILLIS },
+  json: { physicalType: PhysicalType.BYTE_ARRAY, convertedType: ConvertedType.JSON },
+  binary: { physicalType: PhysicalType.BYTE_ARRAY },
+  text: { physicalType: PhysicalType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 }
+}
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?$/
+
+// Widest DECIMAL most readers accept (128-bit unscaled values)
+const MAX_DECIMAL_PRECISION = 38
+
+/**
+ * How a column is stored: its kind's layout, except for exact decimals. Drivers return
+ * NUMERIC/DECIMAL values as strings, which are written as DECIMAL with the scale and
+ * precision the values need (or as text when they don't fit one) rather than DOUBLE,
+ * so they keep every digit. Numbers from the driver are floats already and stay DOUBLE.
+ */
+function resolveLayout(
+  kind: ExportColumnKind,
+  values: unknown[]
+): { kind: ExportColumnKind; layout: ColumnLayout } {
+  const present = values.filter((value) => value !== null && value !== undefined)
+  if (kind !== 'decimal' || !present.some((value) => typeof value === 'string')) {
+    return { kind, layout: LAYOUTS[kind] }
+  }
+
+  let scale = 0
+  let integerDigits = 0
+  for (const value of present) {
+    const match = DECIMAL_PATTERN.exec(String(value).trim())
+    if (!match || !(match[2] || match[3])) {
+      return { kind: 'text', layout: LAYOUTS.text }
+    }
+    integerDigits = Math.max(integerDigits, match[2].replace(/^0+/, '').length)
+    scale = Math.max(scale, match[3]?.length ?? 0)
+  }
+
+  const precision = Math.max(integerDigits + scale, 1)
+  if (precision > MAX_DECIMAL_PRECISION) {
+    return { kind: 'text', layout: LAYOUTS.text }
+  }
+  return {
+    kind,
+    layout: {
+      physicalType: PhysicalType.BYTE_ARRAY,
+      convertedType: ConvertedType.DECIMAL,
+      scale,
+      precision
+    }
+  }
+}
+
+/**
+ * A decimal's unscaled value as big-endian two's complement, as DECIMAL stores it
+ */
+function toDecimalBytes(value: unknown, scale: number): Buffer {
+  const [, sign, integer, fraction = ''] = DECIMAL_PATTERN.exec(String(value).trim())!
+  let n = BigInt((integer || '0') + fraction.padEnd(scale, '0'))
+  if (sign === '-') n = -n
+
+  const bytes: number[] = []
+  do {
+    bytes.unshift(Number(n & 0xffn))
+    n >>= 8n
+  } while (!(n === 0n && bytes[0] < 0x80) && !(n === -1n && bytes[0] >= 0x80))
+  return Buffer.from(bytes)
+}
+
+/**
+ * Minimal Thrift compact protocol encoder (only the types Parquet metadata uses)
+ */
+class CompactWriter {
+  private bytes: number[] = []
+  private lastFieldIds: number[] = [0]
+
+  private varint(value: bigint): void {
+    let n = value
+    while (n >= 0x80n) {
+      this.bytes.push(Number(n & 0x7fn) | 0x80)
+      n >>= 7n
+    }
+    this.bytes.push(Number(n))
+  }
+
+  private zigzag(value: number | bigint): void {
+    const n = BigInt(value)
+    this.varint(n >= 0n ? n << 1n : (-n << 1n) - 1n)
+  }
+
+  private fieldHeader(id: number, type: number): void {
+    const last = this.lastFieldIds[this.lastFieldIds.length - 1]
+    const delta = id - last
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type)
+    } else {
+      this.bytes.push(type)
+      this.zigzag(id)
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id
+  }
+
+  private listHeader(size: number, elementType: number): void {
+    if (size < 15) {
+      this.bytes.push((size << 4) | elementType)
+    } else {
+      this.bytes.push(0xf0 | elementType)
+      this.varint(BigInt(size))
+    }
+  }
+
+  private binary(value: string): void {
+    const data = Buffer.from(value, 'utf8')
+    this.varint(BigInt(data.length))
+    for (const byte of data) this.bytes.push(byte)
+  }
+
+  private structBody(write: (writer: CompactWriter) => void): void {
+    this.lastFieldIds.push(0)
+    write(this)
+    this.bytes.push(0) // STOP
+    this.lastFieldIds.pop()
+  }
+
+  i32(id: number, value: number): this {
+    this.fieldHeader(id, CT_I32)
+    this.zigzag(value)
+    return this
+  }
+
+  i64(id: number, value: number | bigint): this {
+    this.fieldHeader(id, CT_I64)
+    this.zigzag(value)
+    return this
+  }
+
+  string(id: number, value: string): this {
+    this.fieldHeader(id, CT_BINARY)
+    this.binary(value)
+    return this
+  }
+
+  struct(id: number, write: (writer: CompactWriter) => void): this {
+    this.fieldHeader(id, CT_STRUCT)
+    this.structBody(write)
+    return this
+  }
+
+  i32List(id: number, values: number[]): this {
+    this.fieldHeader(id, CT_LIST)
+    this.listHeader(values.length, CT_I32)
+    values.forEach((value) => this.zigzag(value))
+    return this
+  }
+
+  stringList(id: number, values: string[]): this {
+    this.fieldHeader(id, CT_LIST)
+    this.listHeader(values.length, CT_BINARY)
+    values.forEach((value) => this.binary(value))
+    return this
+  }
+
+  structList<T>(id: number, items: T[], write: (writer: CompactWriter, item: T) => void): this {
+    this.fieldHeader(id, CT_LIST)
+    this.listHeader(items.length, CT_STRUCT)
+    items.forEach((item) => this.structBody((writer) => write(writer, item)))
+    return this
+  }
+
+  /** Encode a top-level struct */
+  static encode(write: (writer: CompactWriter) => void): Buffer {
+    const writer = new CompactWriter()
+    write(writer)
+    writer.bytes.push(0) // STOP
+    return Buffer.from(writer.bytes)
+  }
+}
+
+function unsignedVarint(value: number): Buffer {
+  const bytes: number[] = []
+  let n = value
+  while (n >= 0x80) {
+    bytes.push((n & 0x7f) | 0x80)
+    n = Math.floor(n / 128)
+  }
+  bytes.push(n)
+  return Buffer.from(bytes)
+}
+
+/**
+ * Definition levels (1 = value present) as RLE runs, prefixed with their byte length
+ */
+function encodeDefinitionLevels(present: boolean[]): Buffer {
+  const runs: Buffer[] = []
+  let i = 0
+  while (i < present.length) {
+    let end = i + 1
+    while (end < present.length && present[end] === present[i]) end++
+    runs.push(unsignedVarint((end - i) * 2), Buffer.from([present[i] ? 1 : 0]))
+    i = end
+  }
+  const levels = Buffer.concat(runs)
+  const length = Buffer.alloc(4)
+  length.writeUInt32LE(levels.length)
+  return Buffer.concat([length, levels])
+}
+
+function encodePlainValues(physicalType: number, values: unknown[]): Buffer {
+  switch (physicalType) {
+    case PhysicalType.BOOLEAN: {
+      const buffer = Buffer.alloc(Math.ceil(values.length / 8))
+      values.forEach((value, i) => {
+        if (value) buffer[i >> 3] |= 1 << (i & 7)
+      })
+      return buffer
+    }
+    case PhysicalType.INT32: {
+      const buffer = Buffer.alloc(values.length * 4)
+      values.forEach((value, i) => buffer.writeInt32LE(value as number, i * 4))
+      return buffer
+    }
+    case PhysicalType.INT64: {
+      const buffer = Buffer.alloc(values.length * 8)
+      values.forEach((value, i) => buffer.writeBigInt64LE(BigInt(value as bigint | number), i * 8))
+      return buffer
+    }
+    case PhysicalType.DOUBLE: {
+      const buffer = Buffer.alloc(values.length * 8)
+      values.forEach((value, i) => buffer.writeDoubleLE(value as number, i * 8))
+      return buffer
+    }
+    default: {
+      const parts: Buffer[] = []
+      for (const value of values) {
+        const data = Buffer.isBuffer(value) ? value : Buffer.from(value as string, 'utf8')
+        const length = Buffer.alloc(4)
+        length.writeUInt32LE(data.length)
+        parts.push(length, data)
+      }
+      return Buffer.concat(parts)
+    }
+  }
+}
+
+interface ColumnChunk {
+  column: ResolvedExportColumn
+  layout: ColumnLayout
+  offset: number
+  uncompressedSize: number
+  compressedSize: number
+}
+
+/**
+ * Build a Parquet file holding the rows
+ * @throws Error when a value doesn't fit its column (the caller resolves kinds from the rows)
+ */
+export function buildParquet(
+  columns: ResolvedExportColumn[],
+  rows: Record<string, unknown>[]
+): Buffer {
+  if (columns.length === 0) {
+    throw new Error('There are no columns to export')
+  }
+
+  const parts: Buffer[] = [MAGIC]
+  let offset = MAGIC.length
+  const chunks: ColumnChunk[] = []
+
+  for (const column of columns) {
+    const { kind, layout } = resolveLayout(
+      column.kind,
+      rows.map((row) => row[column.name])
+    )
+    const present: boolean[] = []
+    const values: unknown[] = []
+    for (const row of rows) {
+      const value = convertExportValue(row[column.name], kind)
+      if (value === undefined) {
+        throw new Error(`Column "${column.name}" has a value that isn't ${kind}`)
+      }
+      present.push(value !== null)
+      if (value === null) continue
+      values.push(
+        layout.convertedType === ConvertedType.DECIMAL
+          ? toDecimalBytes(row[column.name], layout.scale!)
+          : value
+      )
+    }
+
+    const pageData = Buffer.concat([
+      encodeDefinitionLevels(present),
+      encodePlainValues(layout.physicalType, values)
+    ])
+    const compressed = gzipSync(pageData)
+    const header = CompactWriter.encode((w) =>
+      w
+        .i32(1, PAGE_TYPE_DATA)
+        .i32(2, pageData.length)
+        .i32(3, compressed.length)
+        .struct(5, (page) =>
+          page.i32(1, rows.length).i32(2, ENCODING_PLAIN).i32(3, ENCODING_RLE).i32(4, ENCODING_RLE)
+        )
+    )
+
+    chunks.push({
+      column,
+      layout,
+      offset,
+      uncompressedSize: header.length + pageData.length,
+      compressedSize: header.length + compressed.length
+    })
+    parts.push(header, compressed)
+    offset += header.length + compressed.length
+  }
+
+  const totalByteSize = chunks.reduce((sum, chunk) => sum + chunk.uncompressedSize, 0)
+  const footer = CompactWriter.encode((w) =>
+    w
+      .i32(1, 1)
+      .structList(2, [null, ...chunks], (element, chunk) => {
+        if (!chunk) {
+          element.string(4, 'schema').i32(5, columns.length)
+          return
+        }
+        const { column, layout } = chunk
+        element.i32(1, layout.physicalType).i32(3, REPETITION_OPTIONAL).string(4, column.name)
+        if (layout.convertedType !== undefined) element.i32(6, layout.convertedType)
+        if (layout.scale !== undefined) element.i32(7, layout.scale)
+        if (layout.precision !== undefined) element.i32(8, layout.precision)
+      })
+      .i64(3, rows.length)
+      .structList(4, [chunks], (rowGroup, groupChunks) =>
+        rowGroup
+          .structList(
+            1,
+            groupChunks,
+            (chunk, { column, layout, offset, uncompressedSize, compressedSize }) =>
+              chunk
+                .i64(2, offset)
+                .struct(3, (meta) =>
+                  meta
+                    .i32(1, layout.physicalType)
+                    .i32List(2, [ENCODING_PLAIN, ENCODING_RLE])
+                    .stringList(3, [column.name])
+                    .i32(4, CODEC_GZIP)
+                    .i64(5, rows.length)
+                    .i64(6, uncompressedSize)
+                    .i64(7, compressedSize)
+                    .i64(9, offset)
+                )
+          )
+          .i64(2, totalByteSize)
+          .i64(3, rows.length)
+      )
+      .string(6, 'data-peek')
+  )
+
+  const footerLength = Buffer.alloc(4)
+  footerLength.writeUInt32LE(footer.length)
+  parts.push(footer, footerLength, MAGIC)
+
+  return Buffer.concat(parts)
+}
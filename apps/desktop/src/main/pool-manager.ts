@@ -0,0 +1,115 @@
+import type { ConnectionConfig } from '@shared/index'
+
+/**
+ * Connection pool manager
+ *
+ * Keeps one driver pool per saved connection so repeated operations (browsing tables,
+ * refreshing the schema, paging) reuse open connections instead of paying a full
+ * handshake and auth round trip every time.
+ *
+ * The manager is driver-agnostic: each adapter supplies the functions that create and
+ * close its own pool type.
+ */
+
+/** Default maximum number of connections per pool */
+export const DEFAULT_POOL_MAX = 5
+
+/** Default time (ms) an idle connection is kept open before being closed */
+export const DEFAULT_POOL_IDLE_TIMEOUT_MS = 30_000
+
+interface PoolEntry {
+  /** Serialized connection settings the pool was created with */
+  fingerprint: string
+  pool: Promise<unknown>
+  close: () => Promise<void>
+}
+
+const pools = new Map<string, PoolEntry>()
+
+/**
+ * Serialize the settings that affect how a pool connects.
+ * The display name is ignored so renaming a connection keeps its pool.
+ */
+function getFingerprint(config: ConnectionConfig): string {
+  return JSON.stringify({ ...config, name: undefined })
+}
+
+/**
+ * Resolve pool size and idle timeout for a connection, falling back to defaults
+ */
+export function resolvePoolOptions(config: ConnectionConfig): {
+  max: number
+  idleTimeoutMillis: number
+} {
+  return {
+    max: config.pool?.max ?? config.mssqlOptions?.pool?.max ?? DEFAULT_POOL_MAX,
+    idleTimeoutMillis:
+      config.pool?.idleTimeoutMillis ??
+      config.mssqlOptions?.pool?.idleTimeoutMillis ??
+      DEFAULT_POOL_IDLE_TIMEOUT_MS
+  }
+}
+
+/**
+ * Get the pool for a connection, creating it on first use.
+ * If the connection settings changed since the pool was created, the stale pool is
+ * closed and replaced.
+ */
+export function getPool<T>(
+  config: ConnectionConfig,
+  create: () => Promise<T>,
+  close: (pool: T) => Promise<void>
+): Promise<T> {
+  const fingerprint = getFingerprint(config)
+  const existing = pools.get(config.id)
+
+  if (existing) {
+    if (existing.fingerprint === fingerprint) {
+      return existing.pool as Promise<T>
+    }
+    pools.delete(config.id)
+    existing.close().catch((error) => {
+      console.error('[pool-manager] Failed to close stale pool:', error)
+    })
+  }
+
+  const pool = create()
+  const entry: PoolEntry = {
+    fingerprint,
+    pool,
+    close: async () => close(await pool)
+  }
+  pools.set(config.id, entry)
+
+  // Don't keep a pool around that never managed to connect
+  pool.catch(() => {
+    if (pools.get(config.id) === entry) {
+      pools.delete(config.id)
+    }
+  })
+
+  return pool
+}
+
+/**
+ * Close and forget the pool for a connection (if any)
+ */
+export async function closePool(connectionId: string): Promise<void> {
+  const entry = pools.get(connectionId)
+  if (!entry) return
+
+  pools.delete(connectionId)
+  try {
+    await entry.close()
+    console.log('[pool-manager] Closed pool for connection:', connectionId)
+  } catch (error) {
+    console.error('[pool-manager] Failed to close pool:', error)
+  }
+}
+
+/**
+ * Close every open pool (used on app quit)
+ */
+export async function closeAllPools(): Promise<void> {
+  await Promise.all(Array.from(pools.keys()).map((id) => closePool(id)))
+}
@@ -0,0 +1,284 @@
+import Database from 'better-sqlite3'
+import { app } from 'electron'
+import { join } from 'path'
+import type {
+  QueryHistoryEntry,
+  QueryHistoryFilter,
+  QueryHistoryPage,
+  QueryHistoryRetention
+} from '@shared/index'
+
+/**
+ * Query history journal
+ *
+ * Every executed query is appended to a SQLite database in the user data folder,
+ * with an FTS5 index over the query text and error message for search. Retention
+ * limits (entry count and age) are stored alongside and applied on every insert.
+ */
+
+const DEFAULT_RETENTION: QueryHistoryRetention = { maxEntries: 10000, maxAgeDays: 90 }
+const DEFAULT_PAGE_SIZE = 100
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS history (
+    id TEXT PRIMARY KEY,
+    query TEXT NOT NULL,
+    executed_at INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    row_count INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    connection_id TEXT NOT NULL,
+    connection_name TEXT,
+    database_name TEXT,
+    error_message TEXT,
+    tab_id TEXT,
+    tab_title TEXT
+  );
+  CREATE INDEX IF NOT EXISTS history_executed_at ON history (executed_at);
+  CREATE INDEX IF NOT EXISTS history_connection ON history (connection_id, executed_at);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS history_fts USING fts5(
+    query, error_message, content='history', content_rowid='rowid'
+  );
+  CREATE TRIGGER IF NOT EXISTS history_fts_insert AFTER INSERT ON history BEGIN
+    INSERT INTO history_fts (rowid, query, error_message)
+    VALUES (new.rowid, new.query, new.error_message);
+  END;
+  CREATE TRIGGER IF NOT EXISTS history_fts_delete AFTER DELETE ON history BEGIN
+    INSERT INTO history_fts (history_fts, rowid, query, error_message)
+    VALUES ('delete', old.rowid, old.query, old.error_message);
+  END;
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`
+
+interface HistoryRow {
+  id: string
+  query: string
+  executed_at: number
+  duration_ms: number
+  row_count: number
+  status: QueryHistoryEntry['status']
+  connection_id: string
+  connection_name: string | null
+  database_name: string | null
+  error_message: string | null
+  tab_id: string | null
+  tab_title: string | null
+}
+
+let db: Database.Database | null = null
+
+function getDatabase(): Database.Database {
+  if (!db) {
+    throw new Error('Query history is not initialized')
+  }
+  return db
+}
+
+function toEntry(row: HistoryRow): QueryHistoryEntry {
+  return {
+    id: row.id,
+    query: row.query,
+    executedAt: row.executed_at,
+    durationMs: row.duration_ms,
+    rowCount: row.row_count,
+    status: row.status,
+    connectionId: row.connection_id,
+    connectionName: row.connection_name ?? undefined,
+    database: row.database_name ?? undefined,
+    errorMessage: row.error_message ?? undefined,
+    tabId: row.tab_id ?? undefined,
+    tabTitle: row.tab_title ?? undefined
+  }
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix
+ * @returns null when the text has no searchable words
+ */
+function toFullTextQuery(search: string): string | null {
+  const words = search.match(/[\p{L}\p{N}_]+/gu)
+  if (!words) return null
+  return words.map((word) => `"${word}"*`).join(' ')
+}
+
+function applyRetention(database: Database.Database, retention: QueryHistoryRetention): void {
+  if (retention.maxAgeDays > 0) {
+    database
+      .prepare('DELETE FROM history WHERE executed_at < ?')
+      .run(Date.now() - retention.maxAgeDays * MS_PER_DAY)
+  }
+  if (retention.maxEntries > 0) {
+    database
+      .prepare(
+        `DELETE FROM history WHERE rowid IN (
+          SELECT rowid FROM history ORDER BY executed_at DESC LIMIT -1 OFFSET ?
+        )`
+      )
+      .run(retention.maxEntries)
+  }
+}
+
+/**
+ * Open (or create) the history journal
+ */
+export function initQueryHistory(): void {
+  if (db) return
+
+  const database = new Database(join(app.getPath('userData'), 'query-history.db'))
+  database.pragma('journal_mode = WAL')
+  database.exec(SCHEMA)
+  db = database
+
+  applyRetention(database, getHistoryRetention())
+}
+
+/**
+ * Close the journal (on quit)
+ */
+export function closeQueryHistory(): void {
+  db?.close()
+  db = null
+}
+
+/**
+ * Append an executed query
+ */
+export function addHistoryEntry(entry: Omit<QueryHistoryEntry, 'id'>): QueryHistoryEntry {
+  const database = getDatabase()
+  const saved: QueryHistoryEntry = { ...entry, id: crypto.randomUUID() }
+
+  database
+    .prepare(
+      `INSERT INTO history (
+        id, query, executed_at, duration_ms, row_count, status, connection_id,
+        connection_name, database_name, error_message, tab_id, tab_title
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      saved.id,
+      saved.query,
+      saved.executedAt,
+      Math.round(saved.durationMs),
+      saved.rowCount,
+      saved.status,
+      saved.connectionId,
+      saved.connectionName ?? null,
+      saved.database ?? null,
+      saved.errorMessage ?? null,
+      saved.tabId ?? null,
+      saved.tabTitle ?? null
+    )
+
+  applyRetention(database, getHistoryRetention())
+  return saved
+}
+
+/**
+ * Search the journal, newest first
+ */
+export function searchHistory(filter: QueryHistoryFilter = {}): QueryHistoryPage {
+  const database = getDatabase()
+  const conditions: string[] = []
+  const params: unknown[] = []
+
+  const search = filter.search?.trim()
+  if (search) {
+    const fullText = toFullTextQuery(search)
+    if (fullText) {
+      conditions.push('rowid IN (SELECT rowid FROM history_fts WHERE history_fts MATCH ?)')
+      params.push(fullText)
+    } else {
+      // Only punctuation (e.g. "->>"): fall back to a substring match
+      conditions.push('instr(query, ?) > 0')
+      params.push(search)
+    }
+  }
+  if (filter.connectionId) {
+    conditions.push('connection_id = ?')
+    params.push(filter.connectionId)
+  }
+  if (filter.status) {
+    conditions.push('status = ?')
+    params.push(filter.status)
+  }
+  if (filter.statementTypes && filter.statementTypes.length > 0) {
+    const leadingKeyword = "upper(ltrim(query, ' ' || char(9, 10, 13))) LIKE ?"
+    conditions.push(`(${filter.statementTypes.map(() => leadingKeyword).join(' OR ')})`)
+    params.push(...filter.statementTypes.map((type) => `${type.toUpperCase()}%`))
+  }
+  if (filter.from !== undefined) {
+    conditions.push('executed_at >= ?')
+    params.push(filter.from)
+  }
+  if (filter.to !== undefined) {
+    conditions.push('executed_at < ?')
+    params.push(filter.to)
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  const { total } = database
+    .prepare(`SELECT COUNT(*) AS total FROM history ${where}`)
+    .get(...params) as { total: number }
+  const rows = database
+    .prepare(`SELECT * FROM history ${where} ORDER BY executed_at DESC LIMIT ? OFFSET ?`)
+    .all(...params, filter.limit ?? DEFAULT_PAGE_SIZE, filter.offset ?? 0) as HistoryRow[]
+
+  return { entries: rows.map(toEntry), total }
+}
+
+/**
+ * Delete one entry
+ */
+export function deleteHistoryEntry(id: string): void {
+  getDatabase().prepare('DELETE FROM history WHERE id = ?').run(id)
+}
+
+/**
+ * Delete every entry, or only a connection's entries
+ */
+export function clearHistory(connectionId?: string): void {
+  const database = getDatabase()
+  if (connectionId) {
+    database.prepare('DELETE FROM history WHERE connection_id = ?').run(connectionId)
+  } else {
+    database.exec('DELETE FROM history')
+  }
+}
+
+export function getHistoryRetention(): QueryHistoryRetention {
+  const row = getDatabase().prepare("SELECT value FROM settings WHERE key = 'retention'").get() as
+    | { value: string }
+    | undefined
+  if (!row) return DEFAULT_RETENTION
+
+  try {
+    return { ...DEFAULT_RETENTION, ...(JSON.parse(row.value) as Partial<QueryHistoryRetention>) }
+  } catch {
+    return DEFAULT_RETENTION
+  }
+}
+
+/**
+ * Save retention limits and prune entries beyond them
+ */
+export function setHistoryRetention(retention: QueryHistoryRetention): QueryHistoryRetention {
+  const database = getDatabase()
+  const saved: QueryHistoryRetention = {
+    maxEntries: Math.max(0, Math.floor(retention.maxEntries)),
+    maxAgeDays: Math.max(0, Math.floor(retention.maxAgeDays))
+  }
+
+  database
+    .prepare(
+      "INSERT INTO settings (key, value) VALUES ('retention', ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"
+    )
+    .run(JSON.stringify(saved))
+  applyRetention(database, saved)
+  return saved
+}
@@ -0,0 +1,50 @@
+/**
+ * Tracks queries that are currently running so they can be cancelled from the UI.
+ *
+ * The renderer tags each execution with an ID. While the statement runs, the adapter
+ * registers a cancel handler for that ID (pg_cancel_backend, KILL QUERY, request.cancel).
+ * SQLite queries run synchronously on the main process and can't be cancelled.
+ */
+
+type CancelHandler = () => Promise<void>
+
+const runningQueries = new Map<string, CancelHandler>()
+const cancelledQueries = new Set<string>()
+
+/**
+ * Register a cancel handler for a running query.
+ * Returns a function that unregisters it once the query finishes, along with its
+ * cancelled flag (a query can finish anyway after being cancelled).
+ */
+export function trackQuery(executionId: string | undefined, cancel: CancelHandler): () => void {
+  if (!executionId) return () => {}
+
+  runningQueries.set(executionId, cancel)
+  return () => {
+    if (runningQueries.get(executionId) === cancel) {
+      runningQueries.delete(executionId)
+      cancelledQueries.delete(executionId)
+    }
+  }
+}
+
+/**
+ * Cancel a running query.
+ * Returns false if no query with that ID is running.
+ */
+export async function cancelQuery(executionId: string): Promise<boolean> {
+  const cancel = runningQueries.get(executionId)
+  if (!cancel) return false
+
+  cancelledQueries.add(executionId)
+  await cancel()
+  return true
+}
+
+/**
+ * Check whether a running query was cancelled by the user (clears the flag)
+ */
+export function wasQueryCancelled(executionId: string | undefined): boolean {
+  if (!executionId) return false
+  return cancelledQueries.delete(executionId)
+}
@@ -0,0 +1,51 @@
+import { classifyQuery, getSafeMode, type ConnectionConfig } from '@shared/index'
+
+/**
+ * Safe mode
+ *
+ * Connections can guard the statements run against them: in `confirm` mode destructive
+ * statements (DELETE/UPDATE without WHERE, DROP, TRUNCATE, ALTER) only run once the user
+ * has confirmed them in the renderer, and in `read-only` mode (always on for connections
+ * flagged `readOnly`, which the adapters also enforce in the database) anything
+ * that writes is rejected. The renderer checks the same classification first to ask for
+ * confirmation; this is the check that can't be bypassed.
+ */
+
+/**
+ * Error for handlers that write (edits, DDL, imports) when the connection is read-only
+ */
+export function getReadOnlyError(config: ConnectionConfig): string | undefined {
+  return getSafeMode(config) === 'read-only'
+    ? `"${config.name}" is a read-only connection`
+    : undefined
+}
+
+/**
+ * Throw if safe mode doesn't allow a query to run
+ * @param confirmed - The user confirmed the query's destructive statements
+ */
+export function assertQueryAllowed(
+  config: ConnectionConfig,
+  query: string,
+  confirmed = false
+): void {
+  const safeMode = getSafeMode(config)
+  if (safeMode === 'off') return
+
+  const statements = classifyQuery(query)
+
+  if (safeMode === 'read-only') {
+    if (statements.some((statement) => statement.risk !== 'read')) {
+      throw new Error(`"${config.name}" is read-only: statements that modify data are not allowed`)
+    }
+    return
+  }
+
+  const destructive = statements.find((statement) => statement.risk === 'destructive')
+  if (destructive && !confirmed) {
+    throw new Error(
+      `Safe mode blocked a destructive statement (${destructive.reason}) on "${config.name}". ` +
+        'Run it from a query tab to confirm it.'
+    )
+  }
+}
@@ -0,0 +1,528 @@
+import type {
+  AlterColumnOperation,
+  AlterConstraintOperation,
+  AlterIndexOperation,
+  AlterTableBatch,
+  ColumnDefinition,
+  ConstraintDefinition,
+  DatabaseType,
+  IndexDefinition,
+  MigrationStep,
+  SchemaCompareResult,
+  SchemaCompareSide,
+  SchemaObjectDiff,
+  TableDefinition,
+  TableDiff
+} from '@shared/index'
+import { getAdapter } from './db-adapter'
+import { buildAlterTable, buildCreateTable, buildDataType, buildDropTable } from './ddl-builder'
+
+/**
+ * Schema compare
+ *
+ * Reverse-engineers the tables of two schemas (on the same or different connections),
+ * diffs their columns, constraints and indexes, and builds the migration that turns
+ * the target schema into the source schema. The steps are ordered so every statement
+ * runs against a valid state: foreign keys are dropped first and added last, columns
+ * exist before the constraints and indexes on them, and tables are dropped once no
+ * foreign key references them.
+ */
+
+/**
+ * Definitions of the tables in one side's schema (views are not compared)
+ */
+async function loadTables(side: SchemaCompareSide): Promise<TableDefinition[]> {
+  const adapter = getAdapter(side.config)
+  const schemas = await adapter.getSchemas(side.config)
+  const schema = schemas.find((s) => s.name === side.schema)
+  if (!schema) {
+    throw new Error(`Schema "${side.schema}" not found on "${side.config.name}"`)
+  }
+
+  const tables: TableDefinition[] = []
+  for (const table of schema.tables) {
+    if (table.type !== 'table') continue
+    tables.push(await adapter.getTableDDL(side.config, side.schema, table.name))
+  }
+  return tables
+}
+
+/**
+ * Match two lists of objects by key and classify them
+ * @param compare - Describes the differences of a matched pair
+ */
+function diffObjects<T>(
+  source: T[],
+  target: T[],
+  keyOf: (item: T) => string,
+  compare: (source: T, target: T) => string[]
+): SchemaObjectDiff<T>[] {
+  const targetByKey = new Map(target.map((item) => [keyOf(item), item]))
+  const diffs: SchemaObjectDiff<T>[] = []
+
+  for (const item of source) {
+    const name = keyOf(item)
+    const match = targetByKey.get(name)
+    if (!match) {
+      diffs.push({ name, status: 'added', source: item, changes: [] })
+      continue
+    }
+
+    targetByKey.delete(name)
+    const changes = compare(item, match)
+    diffs.push({
+      name,
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      source: item,
+      target: match,
+      changes
+    })
+  }
+
+  for (const [name, item] of targetByKey) {
+    diffs.push({ name, status: 'removed', target: item, changes: [] })
+  }
+
+  return diffs
+}
+
+function describeColumnType(column: ColumnDefinition): string {
+  const dataType = buildDataType(column)
+  // buildDataType only sizes varchar/char; keep the length of other sized types (bpchar, bit)
+  return dataType === column.dataType && column.length !== undefined
+    ? `${dataType}(${column.length})`
+    : dataType
+}
+
+function compareColumns(source: ColumnDefinition, target: ColumnDefinition): string[] {
+  const changes: string[] = []
+  const sourceType = describeColumnType(source)
+  const targetType = describeColumnType(target)
+
+  if (sourceType !== targetType) {
+    changes.push(`type ${targetType} → ${sourceType}`)
+  }
+  if (source.isNullable !== target.isNullable) {
+    changes.push(source.isNullable ? 'now nullable' : 'now NOT NULL')
+  }
+  if ((source.defaultValue ?? '') !== (target.defaultValue ?? '')) {
+    changes.push(`default ${target.defaultValue ?? 'none'} → ${source.defaultValue ?? 'none'}`)
+  }
+  if ((source.comment ?? '') !== (target.comment ?? '')) {
+    changes.push('comment')
+  }
+  return changes
+}
+
+/**
+ * Definition of a constraint without its name and schema, for comparing
+ */
+function describeConstraint(constraint: ConstraintDefinition): string {
+  const columns = constraint.columns.join(', ')
+  switch (constraint.type) {
+    case 'foreign_key':
+      return (
+        `FOREIGN KEY (${columns}) REFERENCES ${constraint.referencedTable} ` +
+        `(${(constraint.referencedColumns ?? []).join(', ')}) ` +
+        `ON UPDATE ${constraint.onUpdate ?? 'NO ACTION'} ON DELETE ${constraint.onDelete ?? 'NO ACTION'}`
+      )
+    case 'check':
+      return `CHECK (${constraint.checkExpression ?? ''})`
+    case 'exclude': {
+      const elements = (constraint.excludeElements ?? [])
+        .map((e) => `${e.column} WITH ${e.operator}`)
+        .join(', ')
+      return `EXCLUDE USING ${constraint.excludeUsing ?? 'gist'} (${elements})`
+    }
+    case 'unique':
+      return `UNIQUE (${columns})`
+    case 'primary_key':
+      return `PRIMARY KEY (${columns})`
+  }
+}
+
+/**
+ * Definition of an index without its name, for comparing
+ */
+function describeIndex(index: IndexDefinition): string {
+  const columns = index.columns
+    .map((c) => [c.name, c.order, c.nullsPosition && `NULLS ${c.nullsPosition}`].filter(Boolean))
+    .map((parts) => parts.join(' '))
+    .join(', ')
+
+  let description = `${index.isUnique ? 'UNIQUE ' : ''}${index.method ?? 'btree'} (${columns})`
+  if (index.include && index.include.length > 0) {
+    description += ` INCLUDE (${index.include.join(', ')})`
+  }
+  if (index.where) {
+    description += ` WHERE ${index.where}`
+  }
+  return description
+}
+
+function compareDescriptions<T>(describe: (item: T) => string) {
+  return (source: T, target: T): string[] => {
+    const sourceDescription = describe(source)
+    const targetDescription = describe(target)
+    return sourceDescription === targetDescription
+      ? []
+      : [`${targetDescription} → ${sourceDescription}`]
+  }
+}
+
+/**
+ * Indexes that aren't created by a constraint (unique constraints come with an index of
+ * the same name, which is created and dropped with the constraint)
+ */
+function getStandaloneIndexes(table: TableDefinition | undefined): IndexDefinition[] {
+  if (!table) return []
+  const constraintNames = new Set(table.constraints.map((c) => c.name))
+  return table.indexes.filter((index) => !constraintNames.has(index.name))
+}
+
+function getPrimaryKey(table: TableDefinition): string[] {
+  return table.columns.filter((c) => c.isPrimaryKey).map((c) => c.name)
+}
+
+function diffTable(source?: TableDefinition, target?: TableDefinition): TableDiff {
+  const columns = diffObjects(
+    source?.columns ?? [],
+    target?.columns ?? [],
+    (column) => column.name,
+    compareColumns
+  )
+  const constraints = diffObjects(
+    source?.constraints ?? [],
+    target?.constraints ?? [],
+    (constraint) => constraint.name ?? describeConstraint(constraint),
+    compareDescriptions(describeConstraint)
+  )
+  const indexes = diffObjects(
+    getStandaloneIndexes(source),
+    getStandaloneIndexes(target),
+    (index) => index.name ?? describeIndex(index),
+    compareDescriptions(describeIndex)
+  )
+
+  const changes: string[] = []
+  if (source && target) {
+    const sourcePrimaryKey = getPrimaryKey(source).join(', ')
+    const targetPrimaryKey = getPrimaryKey(target).join(', ')
+    if (sourcePrimaryKey !== targetPrimaryKey) {
+      changes.push(`primary key (${targetPrimaryKey}) → (${sourcePrimaryKey})`)
+    }
+    if ((source.comment ?? '') !== (target.comment ?? '')) {
+      changes.push('comment')
+    }
+  }
+
+  const hasChanges =
+    changes.length > 0 ||
+    [...columns, ...constraints, ...indexes].some((diff) => diff.status !== 'unchanged')
+
+  return {
+    name: source?.name ?? target?.name ?? '',
+    status: !target ? 'added' : !source ? 'removed' : hasChanges ? 'changed' : 'unchanged',
+    source,
+    target,
+    columns,
+    constraints,
+    indexes,
+    changes
+  }
+}
+
+/**
+ * Diff the tables of two schemas, matched by name
+ */
+export function diffTables(source: TableDefinition[], target: TableDefinition[]): TableDiff[] {
+  const targetByName = new Map(target.map((table) => [table.name, table]))
+  const sourceNames = new Set(source.map((table) => table.name))
+
+  return [
+    ...source.map((table) => diffTable(table, targetByName.get(table.name))),
+    ...target
+      .filter((table) => !sourceNames.has(table.name))
+      .map((table) => diffTable(undefined, table))
+  ].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Build the ordered migration that applies the differences to the target schema
+ */
+export function buildMigration(
+  tables: TableDiff[],
+  sourceSchema: string,
+  targetSchema: string,
+  dbType: DatabaseType
+): { migration: MigrationStep[]; warnings: string[] } {
+  const warnings: string[] = []
+
+  // Phases, in the order they run
+  const dropForeignKeys: MigrationStep[] = []
+  const dropConstraintsAndIndexes: MigrationStep[] = []
+  const createTables: MigrationStep[] = []
+  const alterColumns: MigrationStep[] = []
+  const dropColumns: MigrationStep[] = []
+  const addConstraintsAndIndexes: MigrationStep[] = []
+  const dropTables: MigrationStep[] = []
+  const addForeignKeys: MigrationStep[] = []
+
+  const alter = (
+    table: string,
+    operations: Partial<Omit<AlterTableBatch, 'schema' | 'table'>>
+  ): string =>
+    buildAlterTable(
+      {
+        schema: targetSchema,
+        table,
+        columnOperations: [],
+        constraintOperations: [],
+        indexOperations: [],
+        ...operations
+      },
+      dbType
+    )
+      .map((query) => query.sql)
+      .join('\n')
+
+  const columnStep = (table: string, description: string, op: AlterColumnOperation) => ({
+    table,
+    description,
+    sql: alter(table, { columnOperations: [op] }),
+    destructive: op.type === 'drop'
+  })
+  const constraintStep = (table: string, description: string, op: AlterConstraintOperation) => ({
+    table,
+    description,
+    sql: alter(table, { constraintOperations: [op] }),
+    destructive: op.type === 'drop_constraint'
+  })
+  const indexStep = (table: string, description: string, op: AlterIndexOperation) => ({
+    table,
+    description,
+    sql: alter(table, { indexOperations: [op] }),
+    destructive: op.type === 'drop_index'
+  })
+
+  // Constraints and new columns are added separately, so columns don't repeat them inline
+  const toNewColumn = (
+    table: string,
+    column: ColumnDefinition,
+    isPrimaryKey: boolean
+  ): ColumnDefinition => {
+    if (column.defaultValue?.includes('nextval(')) {
+      warnings.push(
+        `Column ${table}.${column.name} defaults to a sequence; make sure it exists in ${targetSchema}`
+      )
+    }
+    return { ...column, isPrimaryKey, isUnique: false, checkConstraint: undefined }
+  }
+
+  // Foreign keys within the compared schema point at the target schema
+  const toTargetConstraint = (constraint: ConstraintDefinition): ConstraintDefinition =>
+    constraint.referencedSchema === sourceSchema
+      ? { ...constraint, referencedSchema: targetSchema }
+      : constraint
+
+  for (const table of tables) {
+    const { name } = table
+    if (table.status === 'unchanged') continue
+
+    if (table.status === 'removed') {
+      // Drop the table's own foreign keys first, so tables dropped together don't block each other
+      for (const { name: constraintName, target } of table.constraints) {
+        if (target?.type !== 'foreign_key') continue
+        dropForeignKeys.push(
+          constraintStep(name, `Drop foreign key ${constraintName}`, {
+            type: 'drop_constraint',
+            name: constraintName
+          })
+        )
+      }
+      dropTables.push({
+        table: name,
+        description: `Drop table ${name}`,
+        sql: buildDropTable(targetSchema, name, false, dbType).sql,
+        destructive: true
+      })
+      continue
+    }
+
+    if (table.status === 'added' && table.source) {
+      const definition: TableDefinition = {
+        ...table.source,
+        schema: targetSchema,
+        columns: table.source.columns.map((column) =>
+          toNewColumn(name, column, column.isPrimaryKey)
+        ),
+        // Foreign keys and indexes are added in their own phases
+        constraints: table.source.constraints
+          .filter((c) => c.type !== 'foreign_key')
+          .map(toTargetConstraint),
+        indexes: []
+      }
+      const statements = buildCreateTable(definition, dbType)
+        .sql.split(/;\s*\n\n/)
+        .filter((sql) => sql.trim())
+      statements.forEach((sql, index) => {
+        createTables.push({
+          table: name,
+          description: index === 0 ? `Create table ${name}` : `Add comment on ${name}`,
+          sql: sql.trim().endsWith(';') ? sql.trim() : `${sql.trim()};`,
+          destructive: false
+        })
+      })
+    }
+
+    if (table.status === 'changed') {
+      if (table.source && table.target) {
+        const sourcePrimaryKey = getPrimaryKey(table.source)
+        const targetPrimaryKey = getPrimaryKey(table.target)
+        if (sourcePrimaryKey.join(', ') !== targetPrimaryKey.join(', ')) {
+          warnings.push(
+            `Primary key of ${name} changed from (${targetPrimaryKey.join(', ')}) to ` +
+              `(${sourcePrimaryKey.join(', ')}); it is not migrated`
+          )
+        }
+        if ((table.source.comment ?? '') !== (table.target.comment ?? '')) {
+          alterColumns.push({
+            table: name,
+            description: `Set comment on ${name}`,
+            sql: alter(name, { comment: table.source.comment ?? null }),
+            destructive: false
+          })
+        }
+      }
+
+      for (const { name: columnName, status, source, target } of table.columns) {
+        if (status === 'added' && source) {
+          alterColumns.push(
+            columnStep(name, `Add column ${columnName}`, {
+              type: 'add',
+              column: toNewColumn(name, source, false)
+            })
+          )
+        } else if (status === 'removed') {
+          dropColumns.push(
+            columnStep(name, `Drop column ${columnName}`, { type: 'drop', columnName })
+          )
+        } else if (status === 'changed' && source && target) {
+          const sourceType = describeColumnType(source)
+          if (sourceType !== describeColumnType(target)) {
+            alterColumns.push(
+              columnStep(name, `Change type of ${columnName} to ${sourceType}`, {
+                type: 'set_type',
+                columnName,
+                newType: sourceType
+              })
+            )
+          }
+          if (source.isNullable !== target.isNullable) {
+            alterColumns.push(
+              columnStep(
+                name,
+                `Make ${columnName} ${source.isNullable ? 'nullable' : 'NOT NULL'}`,
+                { type: 'set_nullable', columnName, nullable: source.isNullable }
+              )
+            )
+          }
+          if ((source.defaultValue ?? '') !== (target.defaultValue ?? '')) {
+            alterColumns.push(
+              columnStep(name, `Set default of ${columnName}`, {
+                type: 'set_default',
+                columnName,
+                defaultValue: source.defaultValue || null
+              })
+            )
+          }
+          if ((source.comment ?? '') !== (target.comment ?? '')) {
+            alterColumns.push(
+              columnStep(name, `Set comment on ${columnName}`, {
+                type: 'set_comment',
+                columnName,
+                comment: source.comment || null
+              })
+            )
+          }
+        }
+      }
+    }
+
+    // Changed constraints and indexes are dropped and recreated
+    for (const { name: constraintName, status, source, target } of table.constraints) {
+      if (target && (status === 'removed' || status === 'changed')) {
+        const phase = target.type === 'foreign_key' ? dropForeignKeys : dropConstraintsAndIndexes
+        phase.push(
+          constraintStep(name, `Drop constraint ${constraintName}`, {
+            type: 'drop_constraint',
+            name: constraintName
+          })
+        )
+      }
+      const isCreatedWithTable = table.status === 'added' && source?.type !== 'foreign_key'
+      if (source && (status === 'added' || status === 'changed') && !isCreatedWithTable) {
+        const phase = source.type === 'foreign_key' ? addForeignKeys : addConstraintsAndIndexes
+        phase.push(
+          constraintStep(name, `Add constraint ${constraintName}`, {
+            type: 'add_constraint',
+            constraint: toTargetConstraint(source)
+          })
+        )
+      }
+    }
+
+    for (const { name: indexName, status, source, target } of table.indexes) {
+      if (target && (status === 'removed' || status === 'changed')) {
+        dropConstraintsAndIndexes.push(
+          indexStep(name, `Drop index ${indexName}`, { type: 'drop_index', name: indexName })
+        )
+      }
+      if (source && (status === 'added' || status === 'changed')) {
+        addConstraintsAndIndexes.push(
+          indexStep(name, `Create index ${indexName}`, { type: 'create_index', index: source })
+        )
+      }
+    }
+  }
+
+  return {
+    migration: [
+      ...dropForeignKeys,
+      ...dropConstraintsAndIndexes,
+      ...createTables,
+      ...alterColumns,
+      ...dropColumns,
+      ...addConstraintsAndIndexes,
+      ...dropTables,
+      ...addForeignKeys
+    ],
+    warnings
+  }
+}
+
+/**
+ * Compare two schemas and build the migration from the target to the source
+ */
+export async function compareSchemas(
+  source: SchemaCompareSide,
+  target: SchemaCompareSide
+): Promise<SchemaCompareResult> {
+  const [sourceTables, targetTables] = await Promise.all([loadTables(source), loadTables(target)])
+  const tables = diffTables(sourceTables, targetTables)
+  const { migration, warnings } = buildMigration(
+    tables,
+    source.schema,
+    target.schema,
+    target.config.dbType
+  )
+
+  if (source.config.dbType !== target.config.dbType) {
+    warnings.unshift(
+      `The schemas are on different databases (${source.config.dbType} and ` +
+        `${target.config.dbType}); types and defaults may not carry over`
+    )
+  }
+
+  return { tables, migration, warnings }
+}
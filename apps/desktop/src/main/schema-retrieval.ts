@@ -0,0 +1,358 @@
+import type {
+  AIContextTable,
+  AIContextTableReason,
+  AIMessage,
+  AISchemaContext,
+  SchemaInfo,
+  TableInfo
+} from '@shared/index'
+
+/**
+ * Schema retrieval for AI prompts
+ *
+ * Sending every table of a large database with each message overflows the model's
+ * context window, so past a size the tables are ranked against the conversation and
+ * only the best matches are described in the prompt. The ranking is a local lexical
+ * index: BM25 over the words of each table's name, columns and referenced tables, with
+ * trigram similarity so near misses ("adress", "purchasing") still match. The matches
+ * are completed by their foreign key neighbors (needed to write the joins), the tables
+ * the user pinned and the tables of the connection's latest queries.
+ */
+
+// Databases up to this size are sent whole
+const FULL_SCHEMA_MAX_TABLES = 60
+
+const MAX_MATCHED_TABLES = 20
+const MAX_RELATED_TABLES = 10
+const MAX_RECENT_TABLES = 5
+
+// Matches scoring below this fraction of the best one are noise
+const MIN_RELATIVE_SCORE = 0.2
+
+// Earlier messages count less than the current question
+const CONVERSATION_WEIGHT = 0.5
+
+// The tables left out are listed by name up to this count
+const MAX_OMITTED_NAMES = 200
+
+// Weight of a word by where it appears in a table
+const TABLE_NAME_WEIGHT = 3
+const COLUMN_NAME_WEIGHT = 1
+const REFERENCE_WEIGHT = 1
+
+// BM25 term frequency saturation and length normalization
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Near matches: minimal word length and trigram similarity
+const MIN_FUZZY_LENGTH = 4
+const MIN_WORD_SIMILARITY = 0.5
+
+const STOP_WORDS = new Set(
+  `
+  a all an and any are as at be by can column columns count data database did do does
+  each every find for from get give has have how i id in is it its last list many me
+  much my of on or our per please query row rows select show table tables that the
+  their them there these this to top total was we were what when where which who with
+  without write you
+  `
+    .trim()
+    .split(/\s+/)
+)
+
+// Table references in SQL: the name following FROM, JOIN, INTO, UPDATE or TABLE
+const TABLE_REFERENCE =
+  /\b(?:from|join|into|update|table)\s+((?:[`"[]?[\w$]+[`"\]]?\.)?[`"[]?[\w$]+)/gi
+
+export interface SchemaSelectionOptions {
+  /** Tables (as "schema.table") always sent */
+  pinnedTables?: string[]
+  /** The connection's latest queries, newest first */
+  recentQueries?: string[]
+}
+
+export interface SchemaSelection {
+  /** The schemas, reduced to the selected tables */
+  schemas: SchemaInfo[]
+  context: AISchemaContext
+  /** Names ("schema.table") of the tables left out, when few enough to list */
+  omittedTables: string[]
+}
+
+interface IndexedTable {
+  key: string
+  schema: string
+  table: TableInfo
+  /** Sum of the weighted word frequencies */
+  length: number
+}
+
+interface SchemaIndex {
+  tables: IndexedTable[]
+  byKey: Map<string, IndexedTable>
+  /** Tables containing each word, with the word's weighted frequency */
+  postings: Map<string, Array<{ table: IndexedTable; frequency: number }>>
+  /** Trigrams of each word long enough for near matches */
+  trigrams: Map<string, Set<string>>
+  averageLength: number
+  /** Tables linked by a foreign key, in either direction */
+  neighbors: Map<string, string[]>
+}
+
+function getTableKey(schema: string, table: string): string {
+  return `${schema}.${table}`
+}
+
+/**
+ * Reduce a plural to its singular so "orders" matches "order" (both sides are
+ * stemmed alike, so the result only needs to be consistent)
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 4 && /(?:ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Words of a name or of free text: snake_case and camelCase are split apart
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function getTrigrams(word: string): Set<string> {
+  const padded = ` ${word} `
+  const trigrams = new Set<string>()
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.slice(i, i + 3))
+  }
+  return trigrams
+}
+
+// Dice coefficient of two trigram sets
+function getSimilarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const trigram of a) {
+    if (b.has(trigram)) shared++
+  }
+  return (2 * shared) / (a.size + b.size)
+}
+
+function buildIndex(schemas: SchemaInfo[]): SchemaIndex {
+  const tables: IndexedTable[] = []
+  const byKey = new Map<string, IndexedTable>()
+  const postings: SchemaIndex['postings'] = new Map()
+  const neighbors = new Map<string, string[]>()
+
+  const link = (from: string, to: string): void => {
+    const linked = neighbors.get(from) ?? []
+    if (!linked.includes(to)) linked.push(to)
+    neighbors.set(from, linked)
+  }
+
+  for (const schema of schemas) {
+    for (const table of schema.tables) {
+      const key = getTableKey(schema.name, table.name)
+      const terms = new Map<string, number>()
+      const addWords = (text: string, weight: number): void => {
+        for (const term of tokenize(text)) {
+          terms.set(term, (terms.get(term) ?? 0) + weight)
+        }
+      }
+
+      addWords(table.name, TABLE_NAME_WEIGHT)
+      for (const column of table.columns) {
+        addWords(column.name, COLUMN_NAME_WEIGHT)
+        if (column.foreignKey) {
+          const { referencedSchema, referencedTable } = column.foreignKey
+          addWords(referencedTable, REFERENCE_WEIGHT)
+          const referencedKey = getTableKey(referencedSchema || schema.name, referencedTable)
+          if (referencedKey !== key) {
+            link(key, referencedKey)
+            link(referencedKey, key)
+          }
+        }
+      }
+
+      let length = 0
+      for (const frequency of terms.values()) length += frequency
+      const indexed: IndexedTable = { key, schema: schema.name, table, length }
+      tables.push(indexed)
+      byKey.set(key, indexed)
+
+      for (const [term, frequency] of terms) {
+        const entries = postings.get(term) ?? []
+        entries.push({ table: indexed, frequency })
+        postings.set(term, entries)
+      }
+    }
+  }
+
+  const trigrams = new Map<string, Set<string>>()
+  for (const term of postings.keys()) {
+    if (term.length >= MIN_FUZZY_LENGTH) trigrams.set(term, getTrigrams(term))
+  }
+
+  const averageLength =
+    tables.length > 0 ? tables.reduce((sum, table) => sum + table.length, 0) / tables.length : 0
+
+  return { tables, byKey, postings, trigrams, averageLength, neighbors }
+}
+
+/**
+ * Words of the index a word of the question stands for, with how closely each matches
+ */
+function expandTerm(index: SchemaIndex, term: string): Array<[string, number]> {
+  const expanded: Array<[string, number]> = []
+  if (index.postings.has(term)) expanded.push([term, 1])
+  if (term.length < MIN_FUZZY_LENGTH) return expanded
+
+  const termTrigrams = getTrigrams(term)
+  for (const [word, wordTrigrams] of index.trigrams) {
+    if (word === term) continue
+    const similarity = getSimilarity(termTrigrams, wordTrigrams)
+    if (similarity >= MIN_WORD_SIMILARITY) expanded.push([word, similarity])
+  }
+  return expanded
+}
+
+/**
+ * BM25 score of every table matching the text, added to `scores` with a weight
+ */
+function scoreText(
+  index: SchemaIndex,
+  text: string,
+  weight: number,
+  scores: Map<IndexedTable, number>
+): void {
+  const tableCount = index.tables.length
+  for (const term of new Set(tokenize(text))) {
+    for (const [word, similarity] of expandTerm(index, term)) {
+      const entries = index.postings.get(word) ?? []
+      const idf = Math.log(1 + (tableCount - entries.length + 0.5) / (entries.length + 0.5))
+      for (const { table, frequency } of entries) {
+        const norm = 1 - BM25_B + (BM25_B * table.length) / (index.averageLength || 1)
+        const score = (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm)
+        scores.set(table, (scores.get(table) ?? 0) + weight * similarity * score)
+      }
+    }
+  }
+}
+
+/**
+ * Tables named in the queries, in order of first appearance
+ */
+function findReferencedTables(index: SchemaIndex, queries: string[]): IndexedTable[] {
+  const byName = new Map<string, IndexedTable[]>()
+  for (const table of index.tables) {
+    const name = table.table.name.toLowerCase()
+    byName.set(name, [...(byName.get(name) ?? []), table])
+  }
+
+  const referenced: IndexedTable[] = []
+  for (const query of queries) {
+    for (const match of query.matchAll(TABLE_REFERENCE)) {
+      const parts = match[1]
+        .replace(/[`"[\]]/g, '')
+        .toLowerCase()
+        .split('.')
+      const name = parts[parts.length - 1]
+      const schema = parts.length > 1 ? parts[0] : null
+      const candidates = byName.get(name) ?? []
+      const table =
+        candidates.find((candidate) => candidate.schema.toLowerCase() === schema) ?? candidates[0]
+      if (table && !referenced.includes(table)) referenced.push(table)
+    }
+  }
+  return referenced
+}
+
+/**
+ * Pick the tables to describe to the AI for a conversation: the whole schema when it
+ * is small, else the pinned tables, the best matches of the conversation, their
+ * foreign key neighbors and the recently queried tables
+ */
+export function selectSchemaContext(
+  schemas: SchemaInfo[],
+  messages: AIMessage[],
+  options: SchemaSelectionOptions = {}
+): SchemaSelection {
+  const pinned = new Set(options.pinnedTables ?? [])
+  const totalTables = schemas.reduce((sum, schema) => sum + schema.tables.length, 0)
+
+  if (totalTables <= FULL_SCHEMA_MAX_TABLES) {
+    const tables: AIContextTable[] = schemas.flatMap((schema) =>
+      schema.tables.map((table) => ({
+        schema: schema.name,
+        name: table.name,
+        reason: pinned.has(getTableKey(schema.name, table.name)) ? 'pinned' : 'all'
+      }))
+    )
+    return { schemas, context: { tables, totalTables, ranked: false }, omittedTables: [] }
+  }
+
+  const index = buildIndex(schemas)
+  const selected = new Map<string, AIContextTableReason>()
+
+  for (const key of pinned) {
+    if (index.byKey.has(key)) selected.set(key, 'pinned')
+  }
+
+  // The current question, then the earlier messages at a lower weight
+  const scores = new Map<IndexedTable, number>()
+  const question = messages[messages.length - 1]?.content ?? ''
+  scoreText(index, question, 1, scores)
+  const earlier = messages.slice(0, -1).map((message) => message.content)
+  if (earlier.length > 0) scoreText(index, earlier.join('\n'), CONVERSATION_WEIGHT, scores)
+
+  const ranked = [...scores].sort((a, b) => b[1] - a[1])
+  const bestScore = ranked[0]?.[1] ?? 0
+  const matched = ranked
+    .filter(([, score]) => score > 0 && score >= bestScore * MIN_RELATIVE_SCORE)
+    .slice(0, MAX_MATCHED_TABLES)
+  for (const [table] of matched) {
+    if (!selected.has(table.key)) selected.set(table.key, 'matched')
+  }
+
+  // Foreign key neighbors, so the joins between the selected tables can be written
+  let related = 0
+  for (const key of [...selected.keys()]) {
+    for (const neighbor of index.neighbors.get(key) ?? []) {
+      if (related >= MAX_RELATED_TABLES) break
+      if (!index.byKey.has(neighbor) || selected.has(neighbor)) continue
+      selected.set(neighbor, 'related')
+      related++
+    }
+  }
+
+  const recent = findReferencedTables(index, options.recentQueries ?? [])
+    .filter((table) => !selected.has(table.key))
+    .slice(0, MAX_RECENT_TABLES)
+  for (const table of recent) selected.set(table.key, 'recent')
+
+  const reduced = schemas
+    .map((schema) => ({
+      ...schema,
+      tables: schema.tables.filter((table) => selected.has(getTableKey(schema.name, table.name)))
+    }))
+    .filter((schema) => schema.tables.length > 0)
+
+  const tables: AIContextTable[] = [...selected].map(([key, reason]) => {
+    const { schema, table } = index.byKey.get(key) as IndexedTable
+    return { schema, name: table.name, reason }
+  })
+
+  const omitted = index.tables.filter((table) => !selected.has(table.key))
+
+  return {
+    schemas: reduced,
+    context: { tables, totalTables, ranked: true },
+    omittedTables: omitted.length <= MAX_OMITTED_NAMES ? omitted.map((table) => table.key) : []
+  }
+}
@@ -0,0 +1,139 @@
+import type { ConnectionConfig, SessionTransaction } from '@shared/index'
+
+/**
+ * Pinned session manager
+ *
+ * Query tabs in manual-commit mode run every query on one dedicated connection instead
+ * of a pooled one, so a transaction opened by one run is still open for the next. The
+ * session is keyed by the tab's ID and lives until the tab closes, its connection
+ * settings change or the app quits.
+ *
+ * Like the pool manager this is driver-agnostic: adapters supply the functions that
+ * open and close their own connection type. Closing a session's connection rolls back
+ * whatever transaction is still open on it.
+ */
+
+interface SessionEntry {
+  /** Saved connection the session belongs to */
+  connectionId: string
+  /** Serialized connection settings the session was opened with */
+  fingerprint: string
+  connection: Promise<unknown>
+  close: () => Promise<void>
+  /** When the open transaction started (null when none is open) */
+  transactionStartedAt: number | null
+}
+
+const sessions = new Map<string, SessionEntry>()
+
+function getFingerprint(config: ConnectionConfig): string {
+  return JSON.stringify({ ...config, name: undefined })
+}
+
+/**
+ * Get the connection pinned to a session, opening it on first use
+ * @throws Error when the session holds an open transaction on other connection settings
+ */
+export async function getSessionConnection<T>(
+  sessionId: string,
+  config: ConnectionConfig,
+  open: () => Promise<T>,
+  close: (connection: T) => Promise<void>
+): Promise<T> {
+  const fingerprint = getFingerprint(config)
+  const existing = sessions.get(sessionId)
+
+  if (existing) {
+    if (existing.connectionId === config.id && existing.fingerprint === fingerprint) {
+      return existing.connection as Promise<T>
+    }
+    if (existing.transactionStartedAt !== null) {
+      throw new Error(
+        'This tab has an open transaction on another connection. Commit or roll it back first.'
+      )
+    }
+    await closeSession(sessionId)
+  }
+
+  const connection = open()
+  const entry: SessionEntry = {
+    connectionId: config.id,
+    fingerprint,
+    connection,
+    close: async () => close(await connection),
+    transactionStartedAt: null
+  }
+  sessions.set(sessionId, entry)
+
+  // Forget sessions that failed to connect so the next run can retry
+  connection.catch(() => {
+    if (sessions.get(sessionId) === entry) {
+      sessions.delete(sessionId)
+    }
+  })
+
+  return connection
+}
+
+/**
+ * Whether a session's connection is open (or opening)
+ */
+export function hasSession(sessionId: string): boolean {
+  return sessions.has(sessionId)
+}
+
+/**
+ * Transaction state of a session (closed when the session doesn't exist)
+ */
+export function getSessionTransaction(sessionId: string): SessionTransaction {
+  const startedAt = sessions.get(sessionId)?.transactionStartedAt ?? null
+  return startedAt === null ? { open: false } : { open: true, startedAt }
+}
+
+/**
+ * Record that a session's transaction was opened (keeping an earlier start) or ended
+ */
+export function setSessionTransaction(sessionId: string, open: boolean): void {
+  const entry = sessions.get(sessionId)
+  if (!entry) return
+  entry.transactionStartedAt = open ? (entry.transactionStartedAt ?? Date.now()) : null
+}
+
+/**
+ * Number of sessions holding an uncommitted transaction
+ */
+export function countOpenTransactions(): number {
+  return Array.from(sessions.values()).filter((entry) => entry.transactionStartedAt !== null).length
+}
+
+/**
+ * Close a session, rolling back its open transaction (if any)
+ */
+export async function closeSession(sessionId: string): Promise<void> {
+  const entry = sessions.get(sessionId)
+  if (!entry) return
+
+  sessions.delete(sessionId)
+  try {
+    await entry.close()
+  } catch (error) {
+    console.error('[session-manager] Failed to close session:', error)
+  }
+}
+
+/**
+ * Close every session on a connection (before its pool is closed)
+ */
+export async function closeConnectionSessions(connectionId: string): Promise<void> {
+  const ids = Array.from(sessions.entries())
+    .filter(([, entry]) => entry.connectionId === connectionId)
+    .map(([id]) => id)
+  await Promise.all(ids.map((id) => closeSession(id)))
+}
+
+/**
+ * Close every session (used on app quit)
+ */
+export async function closeAllSessions(): Promise<void> {
+  await Promise.all(Array.from(sessions.keys()).map((id) => closeSession(id)))
+}
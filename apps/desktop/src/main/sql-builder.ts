@@ -10,8 +10,12 @@ import type {
   RowDelete,
   EditContext,
   ParameterizedQuery,
-  DatabaseType
+  DatabaseType,
+  TableFilter,
+  TablePageRequest,
+  TableSort
 } from '@data-peek/shared'
+import { findQueryParameters } from '@data-peek/shared'
 import { quoteIdentifier as quoteIdentifierUtil } from './sql-utils'
 
 /**
@@ -24,28 +28,35 @@ interface SqlDialect {
   identifierQuote: string
   /** Whether to use RETURNING clause */
   supportsReturning: boolean
+  /** Case-insensitive pattern match on any column type */
+  likeExpression: (column: string, placeholder: string, negate: boolean) => string
 }
 
 const DIALECTS: Record<DatabaseType, SqlDialect> = {
   postgresql: {
     parameterPlaceholder: (i) => `$${i}`,
     identifierQuote: '"',
-    supportsReturning: true
+    supportsReturning: true,
+    likeExpression: (col, p, negate) => `${col}::text ${negate ? 'NOT ILIKE' : 'ILIKE'} ${p}`
   },
   mysql: {
     parameterPlaceholder: () => '?',
     identifierQuote: '`',
-    supportsReturning: false
+    supportsReturning: false,
+    likeExpression: (col, p, negate) => `${col} ${negate ? 'NOT LIKE' : 'LIKE'} ${p}`
   },
   sqlite: {
     parameterPlaceholder: () => '?',
     identifierQuote: '"',
-    supportsReturning: true // SQLite 3.35+
+    supportsReturning: true, // SQLite 3.35+
+    likeExpression: (col, p, negate) => `${col} ${negate ? 'NOT LIKE' : 'LIKE'} ${p}`
   },
   mssql: {
     parameterPlaceholder: (i) => `@p${i}`,
     identifierQuote: '[',
-    supportsReturning: false // MSSQL uses OUTPUT clause instead
+    supportsReturning: false, // MSSQL uses OUTPUT clause instead
+    likeExpression: (col, p, negate) =>
+      `CAST(${col} AS NVARCHAR(MAX)) ${negate ? 'NOT LIKE' : 'LIKE'} ${p}`
   }
 }
 
@@ -59,7 +70,10 @@ function quoteIdentifier(name: string, dialect: SqlDialect): string {
 /**
  * Build fully qualified table name with schema
  */
-function buildTableRef(context: EditContext, dialect: SqlDialect): string {
+function buildTableRef(
+  context: Pick<EditContext, 'schema' | 'table'>,
+  dialect: SqlDialect
+): string {
   const table = quoteIdentifier(context.table, dialect)
   // PostgreSQL uses schema.table, MySQL uses database.table, MSSQL uses schema.table (default 'dbo')
   if (
@@ -234,6 +248,43 @@ export function buildBatchQueries(
   return operations.map((op) => buildQuery(op, context, dbType))
 }
 
+/**
+ * Build a plain INSERT for one row (no RETURNING), used by data import
+ */
+export function buildInsertRow(
+  context: Pick<EditContext, 'schema' | 'table'>,
+  values: Record<string, unknown>,
+  dbType: DatabaseType = 'postgresql'
+): ParameterizedQuery {
+  const dialect = DIALECTS[dbType]
+  const entries = Object.entries(values)
+
+  const columns = entries.map(([col]) => quoteIdentifier(col, dialect))
+  const placeholders = entries.map((_, i) => dialect.parameterPlaceholder(i + 1))
+
+  return {
+    sql: `INSERT INTO ${buildTableRef(context, dialect)} (${columns.join(', ')}) VALUES (${placeholders.join(', ')})`,
+    params: entries.map(([, value]) => value)
+  }
+}
+
+/**
+ * Build a plain INSERT for one row with its values written as literals, used by SQL exports
+ */
+export function buildInsertRowLiteral(
+  context: Pick<EditContext, 'schema' | 'table'>,
+  values: Record<string, unknown>,
+  dbType: DatabaseType = 'postgresql'
+): string {
+  const dialect = DIALECTS[dbType]
+  const entries = Object.entries(values)
+
+  const columns = entries.map(([col]) => quoteIdentifier(col, dialect))
+  const literals = entries.map(([, value]) => formatSqlLiteral(value, dbType))
+
+  return `INSERT INTO ${buildTableRef(context, dialect)} (${columns.join(', ')}) VALUES (${literals.join(', ')})`
+}
+
 /**
  * Generate human-readable SQL for preview (NOT for execution)
  * This shows the actual values for user review
@@ -243,38 +294,270 @@ export function buildPreviewSql(
   context: EditContext,
   dbType: DatabaseType = 'postgresql'
 ): string {
-  const { sql, params } = buildQuery(operation, context, dbType)
-
-  // Replace placeholders with actual values (for preview only)
-  let preview = sql
-  params.forEach((param, index) => {
-    let placeholder: string
-    if (dbType === 'postgresql') {
-      placeholder = `$${index + 1}`
-    } else if (dbType === 'mssql') {
-      placeholder = `@p${index + 1}`
-    } else {
-      placeholder = '?'
+  return inlineParams(buildQuery(operation, context, dbType), dbType)
+}
+
+/**
+ * Local wall-clock time (how drivers parse zone-less values), optionally with its UTC offset
+ */
+function formatLocalTimestamp(date: Date, withOffset: boolean): string {
+  const pad = (n: number, width = 2): string => String(n).padStart(width, '0')
+  const text =
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `.${pad(date.getMilliseconds(), 3)}`
+  if (!withOffset) return text
+
+  const offset = -date.getTimezoneOffset()
+  const sign = offset < 0 ? '-' : '+'
+  return `${text}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+}
+
+/**
+ * Format a value as a SQL literal in the given dialect
+ * Used for display and for SQL INSERT exports; queries that run bind their values instead.
+ */
+export function formatSqlLiteral(value: unknown, dbType: DatabaseType = 'postgresql'): string {
+  if (value === null || value === undefined) {
+    return 'NULL'
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'NULL'
+  }
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (typeof value === 'boolean') {
+    // SQL Server has no boolean literals; bit columns take 1/0
+    if (dbType === 'mssql') return value ? '1' : '0'
+    return value ? 'TRUE' : 'FALSE'
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return 'NULL'
+    return formatSqlLiteral(formatLocalTimestamp(value, dbType === 'postgresql'), dbType)
+  }
+  if (value instanceof Uint8Array) {
+    const hex = Buffer.from(value).toString('hex')
+    if (dbType === 'postgresql') return `'\\x${hex}'`
+    if (dbType === 'mssql') return `0x${hex}`
+    return `X'${hex}'`
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (dbType === 'mysql') {
+    // MySQL treats backslashes in string literals as escapes by default
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`
+  }
+  if (dbType === 'mssql') {
+    return `N'${text.replace(/'/g, "''")}'`
+  }
+  return `'${text.replace(/'/g, "''")}'`
+}
+
+/**
+ * Replace a query's placeholders with literal values (for display only)
+ */
+export function inlineParams(
+  { sql, params }: ParameterizedQuery,
+  dbType: DatabaseType = 'postgresql'
+): string {
+  const formatValue = (param: unknown): string => formatSqlLiteral(param, dbType)
+
+  // Replace all placeholders in one pass so values containing placeholder text are left alone
+  if (dbType === 'postgresql') {
+    return sql.replace(/\$(\d+)/g, (_, n: string) => formatValue(params[Number(n) - 1]))
+  }
+  if (dbType === 'mssql') {
+    return sql.replace(/@p(\d+)/g, (_, n: string) => formatValue(params[Number(n) - 1]))
+  }
+  let index = 0
+  return sql.replace(/\?/g, () => formatValue(params[index++]))
+}
+
+/**
+ * Rewrite a statement's :name / $1 / @name placeholders to the driver's own
+ * placeholders so the values are bound by the driver, never spliced into the SQL.
+ * Returns the statement unchanged when no values are given.
+ */
+export function bindQueryParameters(
+  sql: string,
+  values: Record<string, unknown> | undefined,
+  dbType: DatabaseType = 'postgresql'
+): ParameterizedQuery {
+  if (!values) return { sql, params: [] }
+
+  const dialect = DIALECTS[dbType]
+  // Numbered placeholders can be repeated; `?` needs the value once per occurrence
+  const reusesPlaceholders = dbType === 'postgresql' || dbType === 'mssql'
+  const params: unknown[] = []
+  const indexes = new Map<string, number>()
+
+  let bound = ''
+  let last = 0
+  for (const token of findQueryParameters(sql)) {
+    if (!(token.name in values)) {
+      throw new Error(`No value given for parameter ${token.placeholder}`)
     }
 
-    let displayValue: string
-    if (param === null) {
-      displayValue = 'NULL'
-    } else if (typeof param === 'string') {
-      // Escape single quotes and wrap in quotes
-      displayValue = `'${param.replace(/'/g, "''")}'`
-    } else if (typeof param === 'boolean') {
-      displayValue = param ? 'TRUE' : 'FALSE'
-    } else if (typeof param === 'object') {
-      displayValue = `'${JSON.stringify(param).replace(/'/g, "''")}'`
-    } else {
-      displayValue = String(param)
+    let index = reusesPlaceholders ? indexes.get(token.name) : undefined
+    if (index === undefined) {
+      params.push(values[token.name])
+      index = params.length
+      indexes.set(token.name, index)
     }
 
-    preview = preview.replace(placeholder, displayValue)
+    bound += sql.slice(last, token.start) + dialect.parameterPlaceholder(index)
+    last = token.end
+  }
+
+  return { sql: bound + sql.slice(last), params }
+}
+
+/**
+ * Build the WHERE clause for table preview filters, pushing the operands onto `params`
+ */
+function buildFilterClause(filters: TableFilter[], dialect: SqlDialect, params: unknown[]): string {
+  const placeholder = (value: unknown): string => {
+    params.push(value)
+    return dialect.parameterPlaceholder(params.length)
+  }
+
+  const requireValue = (filter: TableFilter, value: string | undefined): string => {
+    if (value === undefined || value === '') {
+      throw new Error(`Filter on "${filter.column}" needs a value`)
+    }
+    return value
+  }
+
+  const conditions = filters.map((filter) => {
+    const col = quoteIdentifier(filter.column, dialect)
+
+    switch (filter.operator) {
+      case '=':
+      case '!=':
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        const op = filter.operator === '!=' ? '<>' : filter.operator
+        return `${col} ${op} ${placeholder(requireValue(filter, filter.value))}`
+      }
+      case 'like':
+      case 'not-like':
+        return dialect.likeExpression(
+          col,
+          placeholder(requireValue(filter, filter.value)),
+          filter.operator === 'not-like'
+        )
+      case 'in': {
+        const values = filter.values ?? []
+        if (values.length === 0) {
+          throw new Error(`Filter on "${filter.column}" needs at least one value`)
+        }
+        return `${col} IN (${values.map((v) => placeholder(v)).join(', ')})`
+      }
+      case 'is-null':
+        return `${col} IS NULL`
+      case 'is-not-null':
+        return `${col} IS NOT NULL`
+      case 'between': {
+        const from = placeholder(requireValue(filter, filter.value))
+        const to = placeholder(requireValue(filter, filter.valueTo))
+        return `${col} BETWEEN ${from} AND ${to}`
+      }
+      default:
+        throw new Error(`Unknown filter operator: ${(filter as TableFilter).operator}`)
+    }
   })
 
-  return preview
+  return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+}
+
+/**
+ * Build the paged SELECT for a table preview.
+ * Paging uses LIMIT/OFFSET, or OFFSET ... FETCH on SQL Server (which needs an ORDER BY).
+ * Without a chosen sort the rows are ordered by the key columns, so pages don't overlap.
+ */
+export function buildTablePageQuery(
+  request: TablePageRequest,
+  dbType: DatabaseType = 'postgresql'
+): ParameterizedQuery {
+  const dialect = DIALECTS[dbType]
+  const params: unknown[] = []
+
+  const tableRef = buildTableRef(request, dialect)
+  const where = buildFilterClause(request.filters, dialect, params)
+
+  const sort: TableSort[] =
+    request.sort.length > 0
+      ? request.sort
+      : (request.keyColumns ?? []).map((column) => ({ column, direction: 'asc' }))
+  const orderBy = sort
+    .map((s) => `${quoteIdentifier(s.column, dialect)} ${s.direction === 'desc' ? 'DESC' : 'ASC'}`)
+    .join(', ')
+
+  // Page numbers are interpolated, so make sure they are plain integers
+  const limit = Math.max(1, Math.floor(request.pageSize))
+  const offset = Math.max(0, Math.floor(request.page)) * limit
+
+  let sql = `SELECT * FROM ${tableRef}${where}`
+  if (dbType === 'mssql') {
+    sql += ` ORDER BY ${orderBy || '(SELECT NULL)'} OFFSET ${offset} ROWS FETCH NEXT ${limit} ROWS ONLY`
+  } else {
+    if (orderBy) sql += ` ORDER BY ${orderBy}`
+    sql += ` LIMIT ${limit} OFFSET ${offset}`
+  }
+
+  return { sql, params }
+}
+
+/**
+ * Build the COUNT(*) for a table preview's filters
+ */
+export function buildTableCountQuery(
+  request: TablePageRequest,
+  dbType: DatabaseType = 'postgresql'
+): ParameterizedQuery {
+  const dialect = DIALECTS[dbType]
+  const params: unknown[] = []
+
+  const tableRef = buildTableRef(request, dialect)
+  const where = buildFilterClause(request.filters, dialect, params)
+
+  return { sql: `SELECT COUNT(*) AS total FROM ${tableRef}${where}`, params }
+}
+
+/**
+ * Build the most frequent values of a column with how often each occurs
+ */
+export function buildColumnValuesQuery(
+  context: Pick<EditContext, 'schema' | 'table'>,
+  column: string,
+  limit: number,
+  dbType: DatabaseType = 'postgresql'
+): string {
+  const dialect = DIALECTS[dbType]
+  const tableRef = buildTableRef(context, dialect)
+  const col = quoteIdentifier(column, dialect)
+  const top = Math.max(1, Math.floor(limit))
+
+  if (dbType === 'mssql') {
+    return `SELECT TOP ${top} ${col} AS value, COUNT(*) AS frequency FROM ${tableRef} GROUP BY ${col} ORDER BY COUNT(*) DESC`
+  }
+  return `SELECT ${col} AS value, COUNT(*) AS frequency FROM ${tableRef} GROUP BY ${col} ORDER BY COUNT(*) DESC LIMIT ${top}`
+}
+
+/**
+ * Build the row, non-null and distinct value counts of a column
+ */
+export function buildColumnStatsQuery(
+  context: Pick<EditContext, 'schema' | 'table'>,
+  column: string,
+  dbType: DatabaseType = 'postgresql'
+): string {
+  const dialect = DIALECTS[dbType]
+  const col = quoteIdentifier(column, dialect)
+  return `SELECT COUNT(*) AS total_rows, COUNT(${col}) AS non_null, COUNT(DISTINCT ${col}) AS distinct_values FROM ${buildTableRef(context, dialect)}`
 }
 
 /**
@@ -0,0 +1,265 @@
+import { createServer, type AddressInfo, type Server } from 'net'
+import { createHash } from 'crypto'
+import { readFile } from 'fs/promises'
+import { Client as SSHClient, type ConnectConfig } from 'ssh2'
+import type { ConnectionConfig, SSHTunnelConfig } from '@shared/index'
+import { DpStorage } from './storage'
+
+/**
+ * SSH tunnel manager
+ *
+ * Opens one tunnel per saved connection through its jump host and forwards a local
+ * port to the database host. Adapters connect to the local endpoint, so the tunnel is
+ * transparent to the drivers. Tunnels are reused until they drop or the connection
+ * settings change.
+ *
+ * Jump host keys are trusted on first use: the first key seen for a host is remembered,
+ * like ssh's known_hosts, and a different key later fails the tunnel.
+ */
+
+interface TunnelEndpoint {
+  host: string
+  port: number
+}
+
+interface TunnelEntry {
+  /** Serialized settings the tunnel was opened with */
+  fingerprint: string
+  endpoint: Promise<TunnelEndpoint>
+  close: () => void
+}
+
+const tunnels = new Map<string, TunnelEntry>()
+
+/** Trusted host key fingerprints by "host:port" */
+let knownHosts: DpStorage<{ hosts: Record<string, string> }> | null = null
+
+/** Time (ms) to wait for the SSH handshake before giving up */
+const SSH_READY_TIMEOUT_MS = 20_000
+
+/** Interval (ms) between keepalive packets so idle tunnels aren't dropped */
+const SSH_KEEPALIVE_INTERVAL_MS = 10_000
+
+function getFingerprint(config: ConnectionConfig): string {
+  return JSON.stringify({ ssh: config.ssh, host: config.host, port: config.port })
+}
+
+/**
+ * Initialize the store of trusted jump host keys
+ */
+export async function initKnownHosts(): Promise<void> {
+  if (knownHosts) return
+
+  knownHosts = await DpStorage.create<{ hosts: Record<string, string> }>({
+    name: 'data-peek-known-hosts',
+    defaults: {
+      hosts: {}
+    }
+  })
+}
+
+/**
+ * Check a jump host's key against the one trusted for that host, trusting it if the
+ * host is new. Returns the reason to refuse the key, if any.
+ */
+function verifyHostKey(ssh: SSHTunnelConfig, key: Buffer): Error | null {
+  if (!knownHosts) {
+    return new Error('Cannot verify the SSH host key: known hosts are not loaded')
+  }
+
+  const host = `${ssh.host}:${ssh.port || 22}`
+  const fingerprint = `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`
+  const hosts = knownHosts.get('hosts', {})
+  const trusted = hosts[host]
+
+  if (!trusted) {
+    knownHosts.set('hosts', { ...hosts, [host]: fingerprint })
+    console.log(`[ssh-tunnel] Trusting host key of ${host}: ${fingerprint}`)
+    return null
+  }
+  if (trusted === fingerprint) {
+    return null
+  }
+  return new Error(
+    `The SSH host key of ${host} has changed (expected ${trusted}, got ${fingerprint}). ` +
+      'Someone may be intercepting the connection. If the key was replaced on purpose, ' +
+      'remove the host from data-peek-known-hosts.json in the app data folder.'
+  )
+}
+
+/**
+ * Build ssh2 connect options for the configured auth method
+ */
+async function toSSHConnectConfig(ssh: SSHTunnelConfig): Promise<ConnectConfig> {
+  const base: ConnectConfig = {
+    host: ssh.host,
+    port: ssh.port || 22,
+    username: ssh.username,
+    readyTimeout: SSH_READY_TIMEOUT_MS,
+    keepaliveInterval: SSH_KEEPALIVE_INTERVAL_MS
+  }
+
+  switch (ssh.authMethod) {
+    case 'privateKey': {
+      if (!ssh.privateKeyPath) {
+        throw new Error('No private key file specified')
+      }
+      return {
+        ...base,
+        privateKey: await readFile(ssh.privateKeyPath),
+        passphrase: ssh.passphrase || undefined
+      }
+    }
+    case 'agent': {
+      const agent =
+        ssh.agentSocket ||
+        process.env.SSH_AUTH_SOCK ||
+        (process.platform === 'win32' ? 'pageant' : undefined)
+      if (!agent) {
+        throw new Error('No SSH agent found (SSH_AUTH_SOCK is not set)')
+      }
+      return { ...base, agent }
+    }
+    case 'password':
+    default:
+      return { ...base, password: ssh.password }
+  }
+}
+
+/**
+ * Open a tunnel: connect to the jump host, then listen on a random local port and
+ * forward every accepted socket to the database host
+ */
+function openTunnel(config: ConnectionConfig, onClosed: () => void): TunnelEntry {
+  const ssh = config.ssh as SSHTunnelConfig
+  const client = new SSHClient()
+  let server: Server | null = null
+  // Set when the jump host's key is refused, to report that rather than ssh2's error
+  let hostKeyError: Error | null = null
+
+  const close = (): void => {
+    server?.close()
+    client.end()
+  }
+
+  const endpoint = new Promise<TunnelEndpoint>((resolve, reject) => {
+    client.on('ready', () => {
+      server = createServer((socket) => {
+        client.forwardOut(
+          socket.remoteAddress ?? '127.0.0.1',
+          socket.remotePort ?? 0,
+          config.host,
+          config.port,
+          (error, stream) => {
+            if (error) {
+              console.error('[ssh-tunnel] Forwarding failed:', error.message)
+              socket.destroy()
+              return
+            }
+            socket.pipe(stream).pipe(socket)
+            stream.on('error', () => socket.destroy())
+            socket.on('error', () => stream.destroy())
+          }
+        )
+      })
+
+      server.on('error', (error) => {
+        reject(error)
+        close()
+      })
+
+      server.listen(0, '127.0.0.1', () => {
+        const address = server!.address() as AddressInfo
+        console.log(
+          `[ssh-tunnel] Tunnel open: 127.0.0.1:${address.port} -> ${ssh.host} -> ${config.host}:${config.port}`
+        )
+        resolve({ host: '127.0.0.1', port: address.port })
+      })
+    })
+
+    client.on('error', (error) => {
+      console.error('[ssh-tunnel] SSH error:', (hostKeyError ?? error).message)
+      reject(hostKeyError ?? error)
+      onClosed()
+    })
+
+    client.on('close', () => {
+      server?.close()
+      onClosed()
+    })
+
+    toSSHConnectConfig(ssh)
+      .then((connectConfig) =>
+        client.connect({
+          ...connectConfig,
+          hostVerifier: (key: Buffer): boolean => {
+            hostKeyError = verifyHostKey(ssh, key)
+            return !hostKeyError
+          }
+        })
+      )
+      .catch((error) => {
+        reject(error)
+        onClosed()
+      })
+  })
+
+  return { fingerprint: getFingerprint(config), endpoint, close }
+}
+
+/**
+ * Get the local endpoint for a connection's tunnel, opening the tunnel if needed
+ */
+export function getTunnel(config: ConnectionConfig): Promise<TunnelEndpoint> {
+  const fingerprint = getFingerprint(config)
+  const existing = tunnels.get(config.id)
+
+  if (existing) {
+    if (existing.fingerprint === fingerprint) {
+      return existing.endpoint
+    }
+    tunnels.delete(config.id)
+    existing.close()
+  }
+
+  const entry = openTunnel(config, () => {
+    if (tunnels.get(config.id) === entry) {
+      tunnels.delete(config.id)
+    }
+  })
+  tunnels.set(config.id, entry)
+  return entry.endpoint
+}
+
+/**
+ * Rewrite a connection config to go through its SSH tunnel (if one is configured)
+ */
+export async function resolveTunnelConfig(config: ConnectionConfig): Promise<ConnectionConfig> {
+  if (!config.ssh?.enabled) {
+    return config
+  }
+
+  const endpoint = await getTunnel(config)
+  return { ...config, host: endpoint.host, port: endpoint.port }
+}
+
+/**
+ * Close the tunnel for a connection (if any)
+ */
+export function closeTunnel(connectionId: string): void {
+  const entry = tunnels.get(connectionId)
+  if (!entry) return
+
+  tunnels.delete(connectionId)
+  entry.close()
+  console.log('[ssh-tunnel] Closed tunnel for connection:', connectionId)
+}
+
+/**
+ * Close every open tunnel (used on app quit)
+ */
+export function closeAllTunnels(): void {
+  for (const id of Array.from(tunnels.keys())) {
+    closeTunnel(id)
+  }
+}
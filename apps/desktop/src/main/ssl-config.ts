@@ -0,0 +1,41 @@
+import type { ConnectionOptions } from 'tls'
+import type { ConnectionConfig, SSLConfig } from '@shared/index'
+
+/**
+ * Normalize a connection's `ssl` setting into a structured config.
+ * Returns null when SSL is off.
+ *
+ * The legacy `ssl: true` flag verified the server certificate with the drivers'
+ * defaults, which matches verify-full.
+ */
+export function getSSLConfig(config: ConnectionConfig): SSLConfig | null {
+  if (!config.ssl) return null
+  if (config.ssl === true) return { mode: 'verify-full' }
+  return config.ssl.mode === 'disable' ? null : config.ssl
+}
+
+/**
+ * Build Node TLS options for a connection (used by pg and mysql2).
+ * Returns null when SSL is off.
+ */
+export function toTLSOptions(config: ConnectionConfig): ConnectionOptions | null {
+  const ssl = getSSLConfig(config)
+  if (!ssl) return null
+
+  const options: ConnectionOptions = {
+    rejectUnauthorized: ssl.mode !== 'require'
+  }
+
+  if (ssl.ca) options.ca = ssl.ca
+  if (ssl.cert) options.cert = ssl.cert
+  if (ssl.key) options.key = ssl.key
+  if (ssl.keyPassphrase) options.passphrase = ssl.keyPassphrase
+  if (ssl.servername) options.servername = ssl.servername
+
+  // verify-ca checks the chain only, not the hostname
+  if (ssl.mode === 'verify-ca') {
+    options.checkServerIdentity = () => undefined
+  }
+
+  return options
+}
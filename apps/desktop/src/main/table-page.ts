@@ -0,0 +1,62 @@
+import type { ConnectionConfig, TablePageRequest, TablePageResult } from '@shared/index'
+import { getAdapter } from './db-adapter'
+import { buildTableCountQuery, buildTablePageQuery, inlineParams } from './sql-builder'
+
+/**
+ * Table preview paging
+ *
+ * Table previews page, filter and sort in the database rather than in the renderer.
+ * The total row count is exact when it is cheap to get. For large unfiltered tables
+ * the planner's estimate is used unless the caller asks for an exact count.
+ */
+
+/** Below this many (estimated) rows, COUNT(*) is cheap enough to always run */
+const EXACT_COUNT_THRESHOLD = 100_000
+
+export async function fetchTablePage(
+  config: ConnectionConfig,
+  request: TablePageRequest
+): Promise<TablePageResult> {
+  const adapter = getAdapter(config)
+  const dbType = adapter.dbType
+  const start = Date.now()
+
+  const pageQuery = buildTablePageQuery(request, dbType)
+  const page = await adapter.query(config, pageQuery.sql, pageQuery.params)
+
+  let totalCount: number | null = null
+  let totalCountIsEstimate = false
+
+  if (page.rows.length > 0 && page.rows.length < request.pageSize) {
+    // A partial page is the last one, so the total is known without counting
+    totalCount = request.page * request.pageSize + page.rows.length
+  } else if (page.rows.length === 0 && request.page === 0) {
+    totalCount = 0
+  } else {
+    if (!request.exactCount && request.filters.length === 0) {
+      const estimate = await adapter
+        .estimateRowCount(config, request.schema, request.table)
+        .catch(() => null)
+      if (estimate !== null && estimate >= EXACT_COUNT_THRESHOLD) {
+        totalCount = estimate
+        totalCountIsEstimate = true
+      }
+    }
+
+    if (totalCount === null) {
+      const countQuery = buildTableCountQuery(request, dbType)
+      const count = await adapter.query(config, countQuery.sql, countQuery.params)
+      const total = count.rows[0]?.total
+      totalCount = total === null || total === undefined ? null : Number(total)
+    }
+  }
+
+  return {
+    rows: page.rows,
+    fields: page.fields,
+    totalCount,
+    totalCountIsEstimate,
+    previewSql: inlineParams(pageQuery, dbType),
+    durationMs: Date.now() - start
+  }
+}
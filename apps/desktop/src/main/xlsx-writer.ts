@@ -0,0 +1,189 @@
+import { convertExportValue, formatExportText, type ResolvedExportColumn } from './export-columns'
+import { writeZip } from './zip'
+
+/**
+ * XLSX writer
+ *
+ * Writes a single-sheet workbook with typed cells: numbers, booleans and dates are
+ * real Excel values, everything else is an inline string. The header row is bold,
+ * shaded, frozen and filterable. Excel has no time zones, so timestamps are written
+ * in local time, the way drivers parse zone-less values.
+ */
+
+/** Excel's sheet limit, header row included */
+const MAX_ROWS = 1_048_576
+/** Excel's limit on characters in one cell */
+const MAX_CELL_LENGTH = 32_767
+
+// Excel serial day 0 is 1899-12-30, 25569 days before the Unix epoch
+const UNIX_EPOCH_SERIAL = 25569
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const MS_PER_MINUTE = 60 * 1000
+
+// Indexes into cellXfs in styles.xml
+const STYLE_HEADER = 1
+const STYLE_DATE = 2
+const STYLE_TIMESTAMP = 3
+
+/** Rows sampled to size columns */
+const WIDTH_SAMPLE_SIZE = 1000
+
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE7E6E6"/><bgColor indexed="64"/></patternFill></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/><xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Sheet names are at most 31 characters and can't contain : \ / ? * [ ]
+function toSheetName(name: string): string {
+  const cleaned = name
+    .replace(/[:\\/?*[\]]/g, '_')
+    .slice(0, 31)
+    .trim()
+  return cleaned || 'Sheet1'
+}
+
+function stringCell(ref: string, text: string, style?: number): string {
+  const value = escapeXml(text.slice(0, MAX_CELL_LENGTH))
+  const styleAttr = style ? ` s="${style}"` : ''
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${value}</t></is></c>`
+}
+
+function valueCell(ref: string, kind: ResolvedExportColumn['kind'], value: unknown): string {
+  const converted = convertExportValue(value, kind)
+  if (converted === null) return ''
+  if (converted === undefined) return stringCell(ref, formatExportText(value))
+
+  switch (kind) {
+    case 'integer': {
+      // Excel numbers are doubles; keep larger integers exact as text
+      const integer = converted as bigint
+      const safe = integer <= BigInt(Number.MAX_SAFE_INTEGER)
+      return safe && integer >= BigInt(Number.MIN_SAFE_INTEGER)
+        ? `<c r="${ref}"><v>${integer}</v></c>`
+        : stringCell(ref, integer.toString())
+    }
+    case 'decimal':
+      return `<c r="${ref}"><v>${converted}</v></c>`
+    case 'boolean':
+      return `<c r="${ref}" t="b"><v>${converted ? 1 : 0}</v></c>`
+    case 'date':
+      return `<c r="${ref}" s="${STYLE_DATE}"><v>${(converted as number) + UNIX_EPOCH_SERIAL}</v></c>`
+    case 'timestamp': {
+      const time = converted as number
+      const local = time - new Date(time).getTimezoneOffset() * MS_PER_MINUTE
+      const serial = local / MS_PER_DAY + UNIX_EPOCH_SERIAL
+      return `<c r="${ref}" s="${STYLE_TIMESTAMP}"><v>${serial}</v></c>`
+    }
+    case 'binary':
+      return stringCell(ref, formatExportText(converted))
+    case 'json':
+    case 'text':
+      return stringCell(ref, converted as string)
+  }
+}
+
+function columnWidth(column: ResolvedExportColumn, rows: Record<string, unknown>[]): number {
+  if (column.kind === 'date') return Math.max(column.name.length + 2, 12)
+  if (column.kind === 'timestamp') return Math.max(column.name.length + 2, 20)
+
+  let longest = column.name.length
+  for (const row of rows.slice(0, WIDTH_SAMPLE_SIZE)) {
+    const text = formatExportText(row[column.name])
+    longest = Math.max(longest, text.length)
+  }
+  return Math.min(Math.max(longest + 2, 8), 60)
+}
+
+/**
+ * Build an XLSX workbook holding the rows on one sheet
+ * @throws Error when the rows don't fit on an Excel sheet
+ */
+export function buildXlsx(
+  columns: ResolvedExportColumn[],
+  rows: Record<string, unknown>[],
+  sheetName: string
+): Buffer {
+  if (rows.length + 1 > MAX_ROWS) {
+    throw new Error(
+      `Excel sheets hold at most ${(MAX_ROWS - 1).toLocaleString()} rows; export as CSV or Parquet instead`
+    )
+  }
+  if (columns.length === 0) {
+    throw new Error('There are no columns to export')
+  }
+
+  const name = toSheetName(sheetName)
+  const lastColumn = columnName(columns.length - 1)
+  const range = `A1:${lastColumn}${rows.length + 1}`
+
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<dimension ref="${range}"/>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    '<sheetFormatPr defaultRowHeight="15"/>',
+    '<cols>',
+    ...columns.map(
+      (column, i) =>
+        `<col min="${i + 1}" max="${i + 1}" width="${columnWidth(column, rows)}" customWidth="1"/>`
+    ),
+    '</cols><sheetData>',
+    '<row r="1">',
+    ...columns.map((column, i) => stringCell(`${columnName(i)}1`, column.name, STYLE_HEADER)),
+    '</row>'
+  ]
+
+  const refs = columns.map((_, i) => columnName(i))
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2
+    parts.push(`<row r="${rowNumber}">`)
+    columns.forEach((column, i) => {
+      parts.push(valueCell(`${refs[i]}${rowNumber}`, column.kind, row[column.name]))
+    })
+    parts.push('</row>')
+  })
+
+  parts.push(`</sheetData><autoFilter ref="${range}"/></worksheet>`)
+
+  const filterRange = `'${escapeXml(name.replace(/'/g, "''"))}'!$A$1:$${lastColumn}$${rows.length + 1}`
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets><definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">${filterRange}</definedName></definedNames></workbook>`
+
+  return writeZip(
+    new Map<string, Buffer | string>([
+      ['[Content_Types].xml', CONTENT_TYPES_XML],
+      ['_rels/.rels', ROOT_RELS_XML],
+      ['xl/workbook.xml', workbookXml],
+      ['xl/_rels/workbook.xml.rels', WORKBOOK_RELS_XML],
+      ['xl/styles.xml', STYLES_XML],
+      ['xl/worksheets/sheet1.xml', parts.join('')]
+    ])
+  )
+}
@@ -0,0 +1,150 @@
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+/**
+ * Minimal ZIP support for Office Open XML files (.xlsx)
+ *
+ * Only what spreadsheets need: stored and deflated entries, no ZIP64,
+ * no encryption and no multi-disk archives. Archives are read and written in memory.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+/**
+ * Read every file in a ZIP archive
+ * @returns File contents keyed by path inside the archive
+ */
+export function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>()
+
+  // The end record sits at the end, followed by a comment of up to 64 KB
+  let eocd = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid ZIP archive')
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`)
+    }
+    // The local header's name and extra field can differ from the central directory's
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28)
+    const data = buffer.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORED) {
+      entries.set(name, data)
+    } else if (method === METHOD_DEFLATE) {
+      entries.set(name, inflateRawSync(data))
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`)
+    }
+  }
+
+  return entries
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Build a ZIP archive with every entry deflated
+ * @param files - File contents keyed by path inside the archive (in archive order)
+ */
+export function writeZip(files: Map<string, Buffer | string>): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of files) {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content
+    const compressed = deflateRawSync(data)
+    const nameBuffer = Buffer.from(name, 'utf8')
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(METHOD_DEFLATE, 8)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(nameBuffer.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6) // version needed
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(METHOD_DEFLATE, 10)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(nameBuffer.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, nameBuffer, compressed)
+    centralParts.push(central, nameBuffer)
+    offset += local.length + nameBuffer.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+  end.writeUInt16LE(files.size, 8)
+  end.writeUInt16LE(files.size, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
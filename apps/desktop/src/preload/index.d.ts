@@ -1,6 +1,15 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
 import type {
+  AIChatOptions,
+  AIChatProgress,
+  AIQueryAttempt,
+  AIQueryFix,
+  AIQueryAssistMode,
+  AIQueryAssistResult,
+  AISchemaContext,
+  AIToolCallTrace,
   ConnectionConfig,
+  ConnectionTestResult,
   IpcResponse,
   DatabaseSchemaResponse,
   EditBatch,
@@ -10,11 +19,28 @@ import type {
   DDLResult,
   SequenceInfo,
   CustomTypeInfo,
+  SchemaObjectRef,
+  SchemaCompareSide,
+  SchemaCompareResult,
+  ExecutionPlan,
   LicenseStatus,
   LicenseActivationRequest,
   LicenseType,
   SavedQuery,
-  SchemaInfo
+  SchemaInfo,
+  ResultChunk,
+  SessionTransaction,
+  TablePageRequest,
+  TablePageResult,
+  ImportFileData,
+  ImportRequest,
+  ImportResult,
+  ExportRequest,
+  ExportResult,
+  QueryHistoryEntry,
+  QueryHistoryFilter,
+  QueryHistoryPage,
+  QueryHistoryRetention
 } from '@shared/index'
 
 // AI Types
@@ -69,6 +95,10 @@ interface AIChatResponse {
   format: 'number' | 'currency' | 'percent' | 'duration' | null
   // Schema fields (null when type is not schema)
   tables: string[] | null
+  // Tables sent to the AI with the request
+  schemaContext?: AISchemaContext
+  // Tools the AI called to inspect the database before answering
+  toolCalls?: AIToolCallTrace[]
 }
 
 // Stored response data types (without message field since it's in content)
@@ -114,6 +144,8 @@ interface StoredChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
   responseData?: StoredResponseData
+  schemaContext?: AISchemaContext
+  toolCalls?: AIToolCallTrace[]
   createdAt: string // ISO string for storage
 }
 
@@ -126,6 +158,12 @@ interface ChatSession {
   updatedAt: string // ISO string
 }
 
+// Native open-file dialog options
+interface OpenFileOptions {
+  title?: string
+  filters?: Array<{ name: string; extensions: string[] }>
+}
+
 interface DataPeekApi {
   connections: {
     list: () => Promise<IpcResponse<ConnectionConfig[]>>
@@ -134,8 +172,32 @@ interface DataPeekApi {
     delete: (id: string) => Promise<IpcResponse<void>>
   }
   db: {
-    connect: (config: ConnectionConfig) => Promise<IpcResponse<void>>
-    query: (config: ConnectionConfig, query: string) => Promise<IpcResponse<unknown>>
+    connect: (config: ConnectionConfig) => Promise<IpcResponse<ConnectionTestResult>>
+    query: (
+      config: ConnectionConfig,
+      query: string,
+      executionId?: string,
+      chunkSize?: number,
+      parameters?: Record<string, unknown>,
+      sessionId?: string,
+      confirmed?: boolean
+    ) => Promise<IpcResponse<unknown>>
+    cancel: (executionId: string) => Promise<IpcResponse<void>>
+    fetchMore: (executionId: string, count: number) => Promise<IpcResponse<ResultChunk>>
+    closeCursor: (executionId: string) => Promise<IpcResponse<void>>
+    commit: (
+      config: ConnectionConfig,
+      sessionId: string
+    ) => Promise<IpcResponse<SessionTransaction>>
+    rollback: (
+      config: ConnectionConfig,
+      sessionId: string
+    ) => Promise<IpcResponse<SessionTransaction>>
+    closeSession: (sessionId: string) => Promise<IpcResponse<void>>
+    tablePage: (
+      config: ConnectionConfig,
+      request: TablePageRequest
+    ) => Promise<IpcResponse<TablePageResult>>
     schemas: (
       config: ConnectionConfig,
       forceRefresh?: boolean
@@ -149,7 +211,7 @@ interface DataPeekApi {
       config: ConnectionConfig,
       query: string,
       analyze: boolean
-    ) => Promise<IpcResponse<{ plan: unknown; durationMs: number }>>
+    ) => Promise<IpcResponse<{ plan: ExecutionPlan; durationMs: number }>>
   }
   ddl: {
     createTable: (
@@ -173,7 +235,30 @@ interface DataPeekApi {
     ) => Promise<IpcResponse<TableDefinition>>
     getSequences: (config: ConnectionConfig) => Promise<IpcResponse<SequenceInfo[]>>
     getTypes: (config: ConnectionConfig) => Promise<IpcResponse<CustomTypeInfo[]>>
+    getDefinition: (
+      config: ConnectionConfig,
+      object: SchemaObjectRef
+    ) => Promise<IpcResponse<string>>
     previewDDL: (definition: TableDefinition) => Promise<IpcResponse<string>>
+    compareSchemas: (
+      source: SchemaCompareSide,
+      target: SchemaCompareSide
+    ) => Promise<IpcResponse<SchemaCompareResult>>
+    applyMigration: (
+      config: ConnectionConfig,
+      statements: string[],
+      confirmed?: boolean
+    ) => Promise<IpcResponse<DDLResult>>
+  }
+  files: {
+    openFile: (options?: OpenFileOptions) => Promise<IpcResponse<string | null>>
+  }
+  dataImport: {
+    readFile: (filePath: string) => Promise<IpcResponse<ImportFileData>>
+    run: (config: ConnectionConfig, request: ImportRequest) => Promise<IpcResponse<ImportResult>>
+  }
+  export: {
+    save: (request: ExportRequest) => Promise<IpcResponse<ExportResult | null>>
   }
   menu: {
     onNewTab: (callback: () => void) => () => void
@@ -203,6 +288,14 @@ interface DataPeekApi {
     incrementUsage: (id: string) => Promise<IpcResponse<SavedQuery>>
     onOpenDialog: (callback: () => void) => () => void
   }
+  history: {
+    add: (entry: Omit<QueryHistoryEntry, 'id'>) => Promise<IpcResponse<QueryHistoryEntry>>
+    search: (filter?: QueryHistoryFilter) => Promise<IpcResponse<QueryHistoryPage>>
+    delete: (id: string) => Promise<IpcResponse<void>>
+    clear: (connectionId?: string) => Promise<IpcResponse<void>>
+    getRetention: () => Promise<IpcResponse<QueryHistoryRetention>>
+    setRetention: (retention: QueryHistoryRetention) => Promise<IpcResponse<QueryHistoryRetention>>
+  }
   updater: {
     onUpdateAvailable: (callback: (version: string) => void) => () => void
     onUpdateDownloaded: (callback: (version: string) => void) => () => void
@@ -218,8 +311,22 @@ interface DataPeekApi {
     chat: (
       messages: AIMessage[],
       schemas: SchemaInfo[],
-      dbType: string
+      dbType: string,
+      options?: AIChatOptions
     ) => Promise<IpcResponse<AIChatResponse>>
+    onChatProgress: (callback: (progress: AIChatProgress) => void) => () => void
+    cancelChat: (requestId: string) => Promise<IpcResponse<void>>
+    fixQuery: (
+      attempts: AIQueryAttempt[],
+      schemas: SchemaInfo[],
+      dbType: string
+    ) => Promise<IpcResponse<AIQueryFix>>
+    assistQuery: (
+      config: ConnectionConfig,
+      mode: AIQueryAssistMode,
+      sql: string,
+      schemas: SchemaInfo[]
+    ) => Promise<IpcResponse<AIQueryAssistResult>>
     // Chat history persistence (legacy API)
     getChatHistory: (connectionId: string) => Promise<IpcResponse<StoredChatMessage[]>>
     saveChatHistory: (
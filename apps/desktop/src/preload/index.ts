@@ -2,6 +2,7 @@ import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 import type {
   ConnectionConfig,
+  ConnectionTestResult,
   IpcResponse,
   DatabaseSchemaResponse,
   EditBatch,
@@ -11,27 +12,60 @@ import type {
   DDLResult,
   SequenceInfo,
   CustomTypeInfo,
+  SchemaObjectRef,
+  SchemaCompareSide,
+  SchemaCompareResult,
+  ExecutionPlan,
   LicenseStatus,
   LicenseActivationRequest,
   LicenseType,
   SavedQuery,
   SchemaInfo,
+  ResultChunk,
+  SessionTransaction,
+  TablePageRequest,
+  TablePageResult,
+  ImportFileData,
+  ImportRequest,
+  ImportResult,
+  ExportRequest,
+  ExportResult,
+  QueryHistoryEntry,
+  QueryHistoryFilter,
+  QueryHistoryPage,
+  QueryHistoryRetention,
   AIProvider,
   AIConfig,
   AIMessage,
+  AIChatOptions,
   AIChatResponse,
+  AIChatProgress,
+  AIQueryAttempt,
+  AIQueryFix,
+  AIQueryAssistMode,
+  AIQueryAssistResult,
   StoredChatMessage,
   ChatSession,
   AIMultiProviderConfig,
   AIProviderConfig
 } from '@shared/index'
 
+/**
+ * Options for the native open-file dialog
+ */
+export interface OpenFileOptions {
+  title?: string
+  filters?: Array<{ name: string; extensions: string[] }>
+}
+
 // Re-export AI types for renderer consumers
 export type {
   AIProvider,
   AIConfig,
   AIMessage,
+  AIChatOptions,
   AIChatResponse,
+  AIChatProgress,
   StoredChatMessage,
   ChatSession,
   AIMultiProviderConfig,
@@ -51,10 +85,49 @@ const api = {
   },
   // Database operations
   db: {
-    connect: (config: ConnectionConfig): Promise<IpcResponse<void>> =>
+    connect: (config: ConnectionConfig): Promise<IpcResponse<ConnectionTestResult>> =>
       ipcRenderer.invoke('db:connect', config),
-    query: (config: ConnectionConfig, query: string): Promise<IpcResponse<unknown>> =>
-      ipcRenderer.invoke('db:query', { config, query }),
+    query: (
+      config: ConnectionConfig,
+      query: string,
+      executionId?: string,
+      chunkSize?: number,
+      parameters?: Record<string, unknown>,
+      sessionId?: string,
+      confirmed?: boolean
+    ): Promise<IpcResponse<unknown>> =>
+      ipcRenderer.invoke('db:query', {
+        config,
+        query,
+        executionId,
+        chunkSize,
+        parameters,
+        sessionId,
+        confirmed
+      }),
+    cancel: (executionId: string): Promise<IpcResponse<void>> =>
+      ipcRenderer.invoke('db:cancel', executionId),
+    fetchMore: (executionId: string, count: number): Promise<IpcResponse<ResultChunk>> =>
+      ipcRenderer.invoke('db:fetch-more', { executionId, count }),
+    closeCursor: (executionId: string): Promise<IpcResponse<void>> =>
+      ipcRenderer.invoke('db:close-cursor', executionId),
+    commit: (
+      config: ConnectionConfig,
+      sessionId: string
+    ): Promise<IpcResponse<SessionTransaction>> =>
+      ipcRenderer.invoke('db:commit', { config, sessionId }),
+    rollback: (
+      config: ConnectionConfig,
+      sessionId: string
+    ): Promise<IpcResponse<SessionTransaction>> =>
+      ipcRenderer.invoke('db:rollback', { config, sessionId }),
+    closeSession: (sessionId: string): Promise<IpcResponse<void>> =>
+      ipcRenderer.invoke('db:close-session', sessionId),
+    tablePage: (
+      config: ConnectionConfig,
+      request: TablePageRequest
+    ): Promise<IpcResponse<TablePageResult>> =>
+      ipcRenderer.invoke('db:table-page', { config, request }),
     schemas: (
       config: ConnectionConfig,
       forceRefresh?: boolean
@@ -72,7 +145,7 @@ const api = {
       config: ConnectionConfig,
       query: string,
       analyze: boolean
-    ): Promise<IpcResponse<{ plan: unknown; durationMs: number }>> =>
+    ): Promise<IpcResponse<{ plan: ExecutionPlan; durationMs: number }>> =>
       ipcRenderer.invoke('db:explain', { config, query, analyze })
   },
   // DDL operations (Table Designer)
@@ -103,8 +176,40 @@ const api = {
       ipcRenderer.invoke('db:get-sequences', config),
     getTypes: (config: ConnectionConfig): Promise<IpcResponse<CustomTypeInfo[]>> =>
       ipcRenderer.invoke('db:get-types', config),
+    getDefinition: (
+      config: ConnectionConfig,
+      object: SchemaObjectRef
+    ): Promise<IpcResponse<string>> => ipcRenderer.invoke('db:get-definition', { config, object }),
     previewDDL: (definition: TableDefinition): Promise<IpcResponse<string>> =>
-      ipcRenderer.invoke('db:preview-ddl', { definition })
+      ipcRenderer.invoke('db:preview-ddl', { definition }),
+    compareSchemas: (
+      source: SchemaCompareSide,
+      target: SchemaCompareSide
+    ): Promise<IpcResponse<SchemaCompareResult>> =>
+      ipcRenderer.invoke('db:compare-schemas', { source, target }),
+    applyMigration: (
+      config: ConnectionConfig,
+      statements: string[],
+      confirmed?: boolean
+    ): Promise<IpcResponse<DDLResult>> =>
+      ipcRenderer.invoke('db:apply-migration', { config, statements, confirmed })
+  },
+  // Native file dialogs
+  files: {
+    openFile: (options?: OpenFileOptions): Promise<IpcResponse<string | null>> =>
+      ipcRenderer.invoke('files:open', options)
+  },
+  // Data import (CSV, JSON, Excel)
+  dataImport: {
+    readFile: (filePath: string): Promise<IpcResponse<ImportFileData>> =>
+      ipcRenderer.invoke('import:read-file', filePath),
+    run: (config: ConnectionConfig, request: ImportRequest): Promise<IpcResponse<ImportResult>> =>
+      ipcRenderer.invoke('import:run', { config, request })
+  },
+  // Result exports, written by the main process to a path the user picks
+  export: {
+    save: (request: ExportRequest): Promise<IpcResponse<ExportResult | null>> =>
+      ipcRenderer.invoke('export:save', request)
   },
   // Menu event listeners
   menu: {
@@ -172,6 +277,20 @@ const api = {
       return () => ipcRenderer.removeListener('open-saved-queries', handler)
     }
   },
+  // Query history journal
+  history: {
+    add: (entry: Omit<QueryHistoryEntry, 'id'>): Promise<IpcResponse<QueryHistoryEntry>> =>
+      ipcRenderer.invoke('history:add', entry),
+    search: (filter?: QueryHistoryFilter): Promise<IpcResponse<QueryHistoryPage>> =>
+      ipcRenderer.invoke('history:search', filter),
+    delete: (id: string): Promise<IpcResponse<void>> => ipcRenderer.invoke('history:delete', id),
+    clear: (connectionId?: string): Promise<IpcResponse<void>> =>
+      ipcRenderer.invoke('history:clear', connectionId),
+    getRetention: (): Promise<IpcResponse<QueryHistoryRetention>> =>
+      ipcRenderer.invoke('history:get-retention'),
+    setRetention: (retention: QueryHistoryRetention): Promise<IpcResponse<QueryHistoryRetention>> =>
+      ipcRenderer.invoke('history:set-retention', retention)
+  },
   // AI Assistant
   // Auto-updater event listeners
   updater: {
@@ -209,9 +328,31 @@ const api = {
     chat: (
       messages: AIMessage[],
       schemas: SchemaInfo[],
-      dbType: string
+      dbType: string,
+      options?: AIChatOptions
     ): Promise<IpcResponse<AIChatResponse>> =>
-      ipcRenderer.invoke('ai:chat', { messages, schemas, dbType }),
+      ipcRenderer.invoke('ai:chat', { messages, schemas, dbType, options }),
+    // Streamed response of a chat request with a requestId, and stopping it
+    onChatProgress: (callback: (progress: AIChatProgress) => void): (() => void) => {
+      const handler = (_: unknown, progress: AIChatProgress): void => callback(progress)
+      ipcRenderer.on('ai:chat-progress', handler)
+      return () => ipcRenderer.removeListener('ai:chat-progress', handler)
+    },
+    cancelChat: (requestId: string): Promise<IpcResponse<void>> =>
+      ipcRenderer.invoke('ai:cancel', requestId),
+    fixQuery: (
+      attempts: AIQueryAttempt[],
+      schemas: SchemaInfo[],
+      dbType: string
+    ): Promise<IpcResponse<AIQueryFix>> =>
+      ipcRenderer.invoke('ai:fix-query', { attempts, schemas, dbType }),
+    assistQuery: (
+      config: ConnectionConfig,
+      mode: AIQueryAssistMode,
+      sql: string,
+      schemas: SchemaInfo[]
+    ): Promise<IpcResponse<AIQueryAssistResult>> =>
+      ipcRenderer.invoke('ai:assist-query', { config, mode, sql, schemas }),
     // Chat history persistence (legacy API)
     getChatHistory: (connectionId: string): Promise<IpcResponse<StoredChatMessage[]>> =>
       ipcRenderer.invoke('ai:get-chat-history', connectionId),
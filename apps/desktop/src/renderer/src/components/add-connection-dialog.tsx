@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Loader2, Database, CheckCircle2, XCircle, Link, Settings2 } from 'lucide-react'
+import { Loader2, Database, CheckCircle2, XCircle, Link, Settings2, FolderOpen } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -13,8 +13,17 @@ import {
   SheetTitle
 } from '@/components/ui/sheet'
 import { useConnectionStore, type Connection } from '@/stores'
-import { PostgreSQLIcon, MySQLIcon, MSSQLIcon } from './database-icons'
-import type { DatabaseType } from '@shared/index'
+import { PostgreSQLIcon, MySQLIcon, MSSQLIcon, SQLiteIcon } from './database-icons'
+import { SSHTunnelSettings, DEFAULT_SSH_CONFIG } from './ssh-tunnel-settings'
+import { SSLSettings, DEFAULT_SSL_CONFIG, toSSLConfig } from './ssl-settings'
+import { ConnectionSafetySettings, type ConnectionSafetyConfig } from './connection-safety-settings'
+import type {
+  ConnectionTestResult,
+  DatabaseType,
+  SSHTunnelConfig,
+  SSLConfig,
+  SSLMode
+} from '@shared/index'
 
 interface AddConnectionDialogProps {
   open: boolean
@@ -31,6 +40,9 @@ const DB_DEFAULTS: Record<DatabaseType, { port: string; user: string; database:
   mssql: { port: '1433', user: 'sa', database: '' }
 }
 
+/** libpq sslmode values that map directly onto our SSL modes */
+const SSL_MODE_PARAMS: SSLMode[] = ['disable', 'require', 'verify-ca', 'verify-full']
+
 const DB_PROTOCOLS: Record<DatabaseType, string[]> = {
   postgresql: ['postgres', 'postgresql'],
   mysql: ['mysql'],
@@ -209,6 +221,7 @@ function parseConnectionString(
   user: string
   password: string
   ssl: boolean
+  sslMode?: SSLMode
   mssqlOptions?: import('@shared/index').MSSQLConnectionOptions
 } | null {
   // MSSQL has special connection string format with semicolons
@@ -242,13 +255,49 @@ function parseConnectionString(
     // Check for SSL in query params
     const sslParam = url.searchParams.get('sslmode') || url.searchParams.get('ssl')
     const ssl = sslParam ? !['disable', 'false', '0'].includes(sslParam.toLowerCase()) : false
+    const sslMode = SSL_MODE_PARAMS.find((mode) => mode === sslParam?.toLowerCase())
 
-    return { host, port, database, user, password, ssl }
+    return { host, port, database, user, password, ssl, sslMode }
   } catch {
     return null
   }
 }
 
+/**
+ * One line of a staged connection test (SSH tunnel, then database)
+ */
+function TestStageStatus({
+  label,
+  stage
+}: {
+  label: string
+  stage: ConnectionTestResult['database']
+}) {
+  if (!stage) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <XCircle className="size-4 shrink-0" />
+        {label}: not attempted
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={`flex items-center gap-2 ${stage.success ? 'text-green-500' : 'text-destructive'}`}
+    >
+      {stage.success ? (
+        <CheckCircle2 className="size-4 shrink-0" />
+      ) : (
+        <XCircle className="size-4 shrink-0" />
+      )}
+      <span>
+        {label}: {stage.success ? 'OK' : stage.error}
+      </span>
+    </div>
+  )
+}
+
 export function AddConnectionDialog({
   open,
   onOpenChange,
@@ -269,7 +318,12 @@ export function AddConnectionDialog({
   const [database, setDatabase] = useState('')
   const [user, setUser] = useState('postgres')
   const [password, setPassword] = useState('')
-  const [ssl, setSsl] = useState(false)
+  const [sslConfig, setSslConfig] = useState<SSLConfig>(DEFAULT_SSL_CONFIG)
+  const [poolMax, setPoolMax] = useState('')
+  const [poolIdleTimeout, setPoolIdleTimeout] = useState('')
+  const [statementTimeout, setStatementTimeout] = useState('')
+  const [sshConfig, setSshConfig] = useState<SSHTunnelConfig>(DEFAULT_SSH_CONFIG)
+  const [safetyConfig, setSafetyConfig] = useState<ConnectionSafetyConfig>({})
   const [mssqlOptions, setMssqlOptions] = useState<
     import('@shared/index').MSSQLConnectionOptions | undefined
   >(undefined)
@@ -278,6 +332,7 @@ export function AddConnectionDialog({
   const [isSaving, setIsSaving] = useState(false)
   const [testResult, setTestResult] = useState<'success' | 'error' | null>(null)
   const [testError, setTestError] = useState<string | null>(null)
+  const [testStages, setTestStages] = useState<ConnectionTestResult | null>(null)
 
   // Populate form when editing
   useEffect(() => {
@@ -289,8 +344,24 @@ export function AddConnectionDialog({
       setDatabase(editConnection.database)
       setUser(editConnection.user || '')
       setPassword(editConnection.password || '')
-      setSsl(editConnection.ssl || false)
+      setSslConfig(toSSLConfig(editConnection.ssl))
+      setPoolMax(editConnection.pool?.max ? String(editConnection.pool.max) : '')
+      setPoolIdleTimeout(
+        editConnection.pool?.idleTimeoutMillis
+          ? String(editConnection.pool.idleTimeoutMillis / 1000)
+          : ''
+      )
+      setStatementTimeout(
+        editConnection.statementTimeout ? String(editConnection.statementTimeout / 1000) : ''
+      )
       setMssqlOptions(editConnection.mssqlOptions)
+      setSshConfig(editConnection.ssh ?? DEFAULT_SSH_CONFIG)
+      setSafetyConfig({
+        environment: editConnection.environment,
+        color: editConnection.color,
+        safeMode: editConnection.safeMode,
+        readOnly: editConnection.readOnly
+      })
       setInputMode('manual')
       setConnectionString('')
       setParseError(null)
@@ -312,6 +383,15 @@ export function AddConnectionDialog({
     if (defaults.database) {
       setDatabase(defaults.database)
     }
+    // SQLite connects to a local file - no host or connection string
+    if (newType === 'sqlite') {
+      setHost('')
+      setDatabase('')
+      setInputMode('manual')
+    } else if (dbType === 'sqlite') {
+      setHost('localhost')
+      setDatabase(defaults.database)
+    }
     // Clear MSSQL options when switching away from MSSQL
     if (newType !== 'mssql') {
       setMssqlOptions(undefined)
@@ -338,7 +418,10 @@ export function AddConnectionDialog({
       setDatabase(parsed.database)
       setUser(parsed.user)
       setPassword(parsed.password)
-      setSsl(parsed.ssl)
+      setSslConfig({
+        ...sslConfig,
+        mode: parsed.sslMode ?? (parsed.ssl ? 'verify-full' : 'disable')
+      })
       if (parsed.mssqlOptions) {
         setMssqlOptions(parsed.mssqlOptions)
       } else {
@@ -369,7 +452,12 @@ export function AddConnectionDialog({
     setDatabase('')
     setUser('postgres')
     setPassword('')
-    setSsl(false)
+    setSslConfig(DEFAULT_SSL_CONFIG)
+    setPoolMax('')
+    setPoolIdleTimeout('')
+    setStatementTimeout('')
+    setSshConfig(DEFAULT_SSH_CONFIG)
+    setSafetyConfig({})
     setMssqlOptions(undefined)
     setTestResult(null)
     setTestError(null)
@@ -380,11 +468,50 @@ export function AddConnectionDialog({
     onOpenChange(false)
   }
 
+  const handleBrowseDatabaseFile = async () => {
+    const result = await window.api.files.openFile({
+      title: 'Select SQLite Database',
+      filters: [
+        { name: 'SQLite Databases', extensions: ['db', 'sqlite', 'sqlite3', 'db3'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    })
+    if (result.success && result.data) {
+      setDatabase(result.data)
+      setTestResult(null)
+      setTestError(null)
+    }
+  }
+
   const getConnectionConfig = () => {
+    // SQLite only needs the database file path
+    if (dbType === 'sqlite') {
+      return {
+        id: editConnection?.id || crypto.randomUUID(),
+        name: name || database.split(/[\\/]/).pop() || database,
+        host: '',
+        port: 0,
+        database,
+        ssl: false,
+        dbType,
+        ...safetyConfig
+      }
+    }
+
     // For ActiveDirectoryIntegrated, user/password are not needed
     const isActiveDirectoryIntegrated =
       dbType === 'mssql' && mssqlOptions?.authentication === 'ActiveDirectoryIntegrated'
 
+    // Empty pool fields fall back to the defaults in the main process
+    const max = parseInt(poolMax, 10)
+    const idleTimeoutSeconds = parseFloat(poolIdleTimeout)
+    const pool = {
+      ...(max > 0 && { max }),
+      ...(idleTimeoutSeconds > 0 && { idleTimeoutMillis: Math.round(idleTimeoutSeconds * 1000) })
+    }
+
+    const statementTimeoutSeconds = parseFloat(statementTimeout)
+
     return {
       id: editConnection?.id || crypto.randomUUID(),
       name: name || `${host}/${database}`,
@@ -393,9 +520,15 @@ export function AddConnectionDialog({
       database,
       user: isActiveDirectoryIntegrated ? undefined : user,
       password: isActiveDirectoryIntegrated ? undefined : password || undefined,
-      ssl,
+      ssl: sslConfig.mode === 'disable' ? false : sslConfig,
       dbType,
-      ...(dbType === 'mssql' && mssqlOptions && { mssqlOptions })
+      ...(dbType === 'mssql' && mssqlOptions && { mssqlOptions }),
+      ...(Object.keys(pool).length > 0 && { pool }),
+      ...(statementTimeoutSeconds > 0 && {
+        statementTimeout: Math.round(statementTimeoutSeconds * 1000)
+      }),
+      ...(sshConfig.enabled && { ssh: sshConfig }),
+      ...safetyConfig
     }
   }
 
@@ -403,10 +536,12 @@ export function AddConnectionDialog({
     setIsTesting(true)
     setTestResult(null)
     setTestError(null)
+    setTestStages(null)
 
     try {
       const config = getConnectionConfig()
       const result = await window.api.db.connect(config)
+      setTestStages(result.data ?? null)
 
       if (result.success) {
         setTestResult('success')
@@ -424,6 +559,7 @@ export function AddConnectionDialog({
 
   const handleSave = async () => {
     setIsSaving(true)
+    setTestStages(null)
 
     try {
       const config = getConnectionConfig()
@@ -457,15 +593,21 @@ export function AddConnectionDialog({
   const isUserRequired =
     dbType !== 'mssql' || mssqlOptions?.authentication !== 'ActiveDirectoryIntegrated'
 
-  const isValid =
-    inputMode === 'connection-string'
-      ? connectionString &&
-        !parseError &&
-        host &&
-        port &&
-        database &&
-        (isUserRequired ? user : true)
-      : host && port && database && (isUserRequired ? user : true)
+  const isSQLite = dbType === 'sqlite'
+
+  const isSSHValid = !sshConfig.enabled || (sshConfig.host && sshConfig.username)
+
+  const isValid = isSQLite
+    ? !!database
+    : isSSHValid &&
+      (inputMode === 'connection-string'
+        ? connectionString &&
+          !parseError &&
+          host &&
+          port &&
+          database &&
+          (isUserRequired ? user : true)
+        : host && port && database && (isUserRequired ? user : true))
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -523,36 +665,50 @@ export function AddConnectionDialog({
                 <MSSQLIcon className="size-4" />
                 SQL Server
               </button>
+              <button
+                type="button"
+                onClick={() => handleDbTypeChange('sqlite')}
+                className={`flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                  dbType === 'sqlite'
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <SQLiteIcon className="size-4" />
+                SQLite
+              </button>
             </div>
           </div>
 
           {/* Input Mode Toggle */}
-          <div className="flex rounded-lg border bg-muted p-1">
-            <button
-              type="button"
-              onClick={() => setInputMode('manual')}
-              className={`flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
-                inputMode === 'manual'
-                  ? 'bg-background text-foreground shadow-sm'
-                  : 'text-muted-foreground hover:text-foreground'
-              }`}
-            >
-              <Settings2 className="size-4" />
-              Manual
-            </button>
-            <button
-              type="button"
-              onClick={() => setInputMode('connection-string')}
-              className={`flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
-                inputMode === 'connection-string'
-                  ? 'bg-background text-foreground shadow-sm'
-                  : 'text-muted-foreground hover:text-foreground'
-              }`}
-            >
-              <Link className="size-4" />
-              Connection String
-            </button>
-          </div>
+          {!isSQLite && (
+            <div className="flex rounded-lg border bg-muted p-1">
+              <button
+                type="button"
+                onClick={() => setInputMode('manual')}
+                className={`flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                  inputMode === 'manual'
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <Settings2 className="size-4" />
+                Manual
+              </button>
+              <button
+                type="button"
+                onClick={() => setInputMode('connection-string')}
+                className={`flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                  inputMode === 'connection-string'
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <Link className="size-4" />
+                Connection String
+              </button>
+            </div>
+          )}
 
           <div className="flex flex-col gap-2">
             <label htmlFor="name" className="text-sm font-medium">
@@ -565,11 +721,35 @@ export function AddConnectionDialog({
               onChange={(e) => setName(e.target.value)}
             />
             <p className="text-xs text-muted-foreground">
-              Optional. Defaults to host/database if empty.
+              {isSQLite
+                ? 'Optional. Defaults to the file name if empty.'
+                : 'Optional. Defaults to host/database if empty.'}
             </p>
           </div>
 
-          {inputMode === 'connection-string' ? (
+          {isSQLite ? (
+            <div className="flex flex-col gap-2">
+              <label htmlFor="database-file" className="text-sm font-medium">
+                Database File
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="database-file"
+                  placeholder="/path/to/database.db"
+                  value={database}
+                  onChange={(e) => setDatabase(e.target.value)}
+                  className="font-mono text-sm"
+                />
+                <Button type="button" variant="outline" onClick={handleBrowseDatabaseFile}>
+                  <FolderOpen className="size-4" />
+                  Browse
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The file must already exist. It is opened directly from disk.
+              </p>
+            </div>
+          ) : inputMode === 'connection-string' ? (
             <div className="flex flex-col gap-2">
               <label htmlFor="connection-string" className="text-sm font-medium">
                 Connection String
@@ -611,7 +791,7 @@ export function AddConnectionDialog({
                     <span>Password:</span>
                     <span className="font-mono">{password ? '••••••••' : '(none)'}</span>
                     <span>SSL:</span>
-                    <span className="font-mono">{ssl ? 'Yes' : 'No'}</span>
+                    <span className="font-mono">{sslConfig.mode}</span>
                   </div>
                 </div>
               )}
@@ -692,42 +872,93 @@ export function AddConnectionDialog({
                   onChange={(e) => setPassword(e.target.value)}
                 />
               </div>
+            </>
+          )}
 
-              <div className="flex items-center gap-2">
-                <input
-                  id="ssl"
-                  type="checkbox"
-                  checked={ssl}
-                  onChange={(e) => setSsl(e.target.checked)}
-                  className="size-4 rounded border-input"
+          {!isSQLite && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="flex flex-col gap-2">
+                <label htmlFor="pool-max" className="text-sm font-medium">
+                  Max Connections
+                </label>
+                <Input
+                  id="pool-max"
+                  type="number"
+                  min={1}
+                  placeholder="5"
+                  value={poolMax}
+                  onChange={(e) => setPoolMax(e.target.value)}
                 />
-                <label htmlFor="ssl" className="text-sm font-medium">
-                  Use SSL
+              </div>
+              <div className="flex flex-col gap-2">
+                <label htmlFor="pool-idle-timeout" className="text-sm font-medium">
+                  Idle Timeout (s)
                 </label>
+                <Input
+                  id="pool-idle-timeout"
+                  type="number"
+                  min={1}
+                  placeholder="30"
+                  value={poolIdleTimeout}
+                  onChange={(e) => setPoolIdleTimeout(e.target.value)}
+                />
               </div>
-            </>
+            </div>
           )}
 
-          {testResult && (
-            <div
-              className={`flex items-center gap-2 rounded-md p-3 text-sm ${
-                testResult === 'success'
-                  ? 'bg-green-500/10 text-green-500'
-                  : 'bg-destructive/10 text-destructive'
-              }`}
-            >
-              {testResult === 'success' ? (
-                <>
-                  <CheckCircle2 className="size-4" />
-                  Connection successful!
-                </>
-              ) : (
-                <>
-                  <XCircle className="size-4" />
-                  {testError}
-                </>
-              )}
+          {!isSQLite && (
+            <div className="flex flex-col gap-2">
+              <label htmlFor="statement-timeout" className="text-sm font-medium">
+                Statement Timeout (s)
+              </label>
+              <Input
+                id="statement-timeout"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={statementTimeout}
+                onChange={(e) => setStatementTimeout(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Optional. Queries running longer are cancelled by the server.
+                {dbType === 'mysql' && ' MySQL only applies this to SELECT statements.'}
+              </p>
+            </div>
+          )}
+
+          <ConnectionSafetySettings value={safetyConfig} onChange={setSafetyConfig} />
+
+          {!isSQLite && <SSLSettings value={sslConfig} onChange={setSslConfig} />}
+
+          {!isSQLite && <SSHTunnelSettings value={sshConfig} onChange={setSshConfig} />}
+
+          {testResult && testStages?.tunnel ? (
+            <div className="flex flex-col gap-1 rounded-md bg-muted p-3 text-sm">
+              <TestStageStatus label="SSH tunnel" stage={testStages.tunnel} />
+              <TestStageStatus label="Database" stage={testStages.database} />
             </div>
+          ) : (
+            testResult && (
+              <div
+                className={`flex items-center gap-2 rounded-md p-3 text-sm ${
+                  testResult === 'success'
+                    ? 'bg-green-500/10 text-green-500'
+                    : 'bg-destructive/10 text-destructive'
+                }`}
+              >
+                {testResult === 'success' ? (
+                  <>
+                    <CheckCircle2 className="size-4" />
+                    Connection successful!
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="size-4" />
+                    {testError}
+                  </>
+                )}
+              </div>
+            )
           )}
         </div>
 
@@ -6,7 +6,6 @@ import {
   Settings,
   Sparkles,
   Send,
-  Loader2,
   Database,
   DatabaseZap,
   Trash2,
@@ -18,7 +17,8 @@ import {
   ChevronLeft,
   MoreHorizontal,
   Pencil,
-  Check
+  Check,
+  Square
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -33,7 +33,15 @@ import {
 import { cn } from '@/lib/utils'
 import { AIMessage } from './ai-message'
 import { AISuggestions } from './ai-suggestions'
-import type { ConnectionConfig, SchemaInfo } from '@data-peek/shared'
+import { AIContextTables } from './ai-context-tables'
+import { useAIStore, usePinnedTables } from '@/stores/ai-store'
+import type {
+  AIChatProgress,
+  AISchemaContext,
+  AIToolCallTrace,
+  ConnectionConfig,
+  SchemaInfo
+} from '@data-peek/shared'
 
 // Chat session type (matching preload)
 interface ChatSession {
@@ -50,6 +58,8 @@ interface StoredChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
   responseData?: AIResponseData
+  schemaContext?: AISchemaContext
+  toolCalls?: AIToolCallTrace[]
   createdAt: string
 }
 
@@ -94,9 +104,26 @@ export interface AIChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
   responseData?: AIResponseData
+  /** Tables sent to the AI for this response */
+  schemaContext?: AISchemaContext
+  /** Tools the AI called to inspect the database for this response */
+  toolCalls?: AIToolCallTrace[]
   createdAt: Date
 }
 
+// The message shown while a response streams in. Its SQL shows as a query until the
+// complete response says what it is for.
+function toStreamingMessage(progress: AIChatProgress): AIChatMessage {
+  return {
+    id: progress.requestId,
+    role: 'assistant',
+    content: progress.message,
+    responseData: progress.sql ? { type: 'query', sql: progress.sql, explanation: '' } : null,
+    toolCalls: progress.toolCalls,
+    createdAt: new Date()
+  }
+}
+
 interface AIChatPanelProps {
   isOpen: boolean
   onClose: () => void
@@ -119,6 +146,7 @@ export function AIChatPanel({
   const [messages, setMessages] = React.useState<AIChatMessage[]>([])
   const [input, setInput] = React.useState('')
   const [isLoading, setIsLoading] = React.useState(false)
+  const [streamingMessage, setStreamingMessage] = React.useState<AIChatMessage | null>(null)
   const [isExpanded, setIsExpanded] = React.useState(false)
   const [showSessionsList, setShowSessionsList] = React.useState(false)
   const [sessions, setSessions] = React.useState<ChatSession[]>([])
@@ -129,6 +157,11 @@ export function AIChatPanel({
   const inputRef = React.useRef<HTMLTextAreaElement>(null)
   const previousConnectionId = React.useRef<string | null>(null)
   const isInitialLoad = React.useRef(true)
+  // Request whose response is streaming in, cleared when it is stopped
+  const activeRequestId = React.useRef<string | null>(null)
+  const pinnedTables = usePinnedTables(connection?.id)
+  const pinTable = useAIStore((s) => s.pinTable)
+  const unpinTable = useAIStore((s) => s.unpinTable)
 
   // Load sessions when connection changes
   React.useEffect(() => {
@@ -163,6 +196,8 @@ export function AIChatPanel({
               role: m.role,
               content: m.content,
               responseData: m.responseData as AIResponseData,
+              schemaContext: m.schemaContext,
+              toolCalls: m.toolCalls,
               createdAt: new Date(m.createdAt)
             }))
             setMessages(loadedMessages)
@@ -203,6 +238,8 @@ export function AIChatPanel({
           role: m.role,
           content: m.content,
           responseData: m.responseData || null,
+          schemaContext: m.schemaContext,
+          toolCalls: m.toolCalls,
           createdAt: m.createdAt.toISOString()
         }))
         const response = await window.api.ai.updateSession(connectionId, currentSessionId, {
@@ -227,7 +264,16 @@ export function AIChatPanel({
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight
     }
-  }, [messages])
+  }, [messages, streamingMessage])
+
+  // Render the response as it streams in
+  React.useEffect(() => {
+    return window.api.ai.onChatProgress((progress) => {
+      if (progress.requestId === activeRequestId.current) {
+        setStreamingMessage(toStreamingMessage(progress))
+      }
+    })
+  }, [])
 
   // Focus input when panel opens
   React.useEffect(() => {
@@ -246,6 +292,9 @@ export function AIChatPanel({
       createdAt: new Date()
     }
 
+    const requestId = crypto.randomUUID()
+    activeRequestId.current = requestId
+
     setMessages((prev) => [...prev, userMessage])
     setInput('')
     setIsLoading(true)
@@ -260,8 +309,15 @@ export function AIChatPanel({
       // Determine database type from connection
       const dbType = connection.dbType || 'postgresql'
 
-      // Call actual AI service via IPC
-      const response = await window.api.ai.chat(aiMessages, schemas, dbType)
+      // Call actual AI service via IPC; the main process picks the tables to send
+      const response = await window.api.ai.chat(aiMessages, schemas, dbType, {
+        connectionId: connection.id,
+        pinnedTables,
+        requestId
+      })
+
+      // Stopped: what streamed in was already kept by handleStopResponse
+      if (activeRequestId.current !== requestId) return
 
       if (response.success && response.data) {
         const data = response.data
@@ -313,6 +369,8 @@ export function AIChatPanel({
           role: 'assistant',
           content: data.message,
           responseData,
+          schemaContext: data.schemaContext,
+          toolCalls: data.toolCalls,
           createdAt: new Date()
         }
 
@@ -328,6 +386,7 @@ export function AIChatPanel({
         setMessages((prev) => [...prev, errorMessage])
       }
     } catch (error) {
+      if (activeRequestId.current !== requestId) return
       console.error('AI chat error:', error)
       const errorMessage: AIChatMessage = {
         id: crypto.randomUUID(),
@@ -337,10 +396,29 @@ export function AIChatPanel({
       }
       setMessages((prev) => [...prev, errorMessage])
     } finally {
-      setIsLoading(false)
+      if (activeRequestId.current === requestId) {
+        activeRequestId.current = null
+        setStreamingMessage(null)
+        setIsLoading(false)
+      }
     }
   }
 
+  // Stop the streaming response, keeping what came in so far
+  const handleStopResponse = () => {
+    const requestId = activeRequestId.current
+    if (!requestId) return
+
+    activeRequestId.current = null
+    window.api.ai.cancelChat(requestId)
+
+    if (streamingMessage && (streamingMessage.content || streamingMessage.responseData)) {
+      setMessages((prev) => [...prev, { ...streamingMessage, id: crypto.randomUUID() }])
+    }
+    setStreamingMessage(null)
+    setIsLoading(false)
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -381,6 +459,8 @@ export function AIChatPanel({
         role: m.role,
         content: m.content,
         responseData: m.responseData as AIResponseData,
+        schemaContext: m.schemaContext,
+        toolCalls: m.toolCalls,
         createdAt: new Date(m.createdAt)
       }))
       setMessages(loadedMessages)
@@ -450,7 +530,8 @@ export function AIChatPanel({
   // Get current session
   const currentSession = sessions.find((s) => s.id === currentSessionId)
   const panelWidth = isExpanded ? 560 : 420
-  const tableCount = schemas.reduce((acc, s) => acc + s.tables.length, 0)
+  const latestSchemaContext =
+    [...messages].reverse().find((m) => m.schemaContext)?.schemaContext ?? null
 
   if (!isOpen) return null
 
@@ -596,9 +677,13 @@ export function AIChatPanel({
             <Badge variant="secondary" className="text-[10px] px-1.5 py-0 font-mono">
               {connection.name || connection.database}
             </Badge>
-            <span className="text-[10px] text-muted-foreground">
-              {tableCount} table{tableCount !== 1 ? 's' : ''} available
-            </span>
+            <AIContextTables
+              schemas={schemas}
+              context={latestSchemaContext}
+              pinnedTables={pinnedTables}
+              onPin={(tableKey) => pinTable(connection.id, tableKey)}
+              onUnpin={(tableKey) => unpinTable(connection.id, tableKey)}
+            />
           </div>
         )}
 
@@ -796,8 +881,21 @@ export function AIChatPanel({
                   ))
                 )}
 
-                {/* Loading indicator */}
-                {isLoading && (
+                {/* Response streaming in */}
+                {streamingMessage &&
+                  (streamingMessage.content ||
+                    streamingMessage.responseData ||
+                    streamingMessage.toolCalls) && (
+                    <AIMessage
+                      message={streamingMessage}
+                      onOpenInTab={onOpenInTab}
+                      connection={connection}
+                      schemas={schemas}
+                    />
+                  )}
+
+                {/* Loading indicator, until the response starts streaming in */}
+                {isLoading && !streamingMessage?.content && (
                   <div className="flex items-start gap-3 animate-in fade-in-0 slide-in-from-bottom-2 duration-200">
                     <div className="flex items-center justify-center size-7 rounded-full bg-gradient-to-br from-blue-500/10 to-purple-500/10 border border-blue-500/20 shrink-0">
                       <Sparkles className="size-3.5 text-blue-400" />
@@ -862,18 +960,15 @@ export function AIChatPanel({
                   size="icon"
                   className={cn(
                     'size-8 rounded-lg shrink-0 transition-all duration-200',
-                    input.trim()
+                    input.trim() || isLoading
                       ? 'bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 shadow-lg shadow-blue-500/20'
                       : 'bg-muted text-muted-foreground'
                   )}
-                  onClick={handleSendMessage}
-                  disabled={!input.trim() || isLoading}
+                  onClick={isLoading ? handleStopResponse : handleSendMessage}
+                  disabled={!input.trim() && !isLoading}
+                  title={isLoading ? 'Stop response' : undefined}
                 >
-                  {isLoading ? (
-                    <Loader2 className="size-4 animate-spin" />
-                  ) : (
-                    <Send className="size-4" />
-                  )}
+                  {isLoading ? <Square className="size-3.5" /> : <Send className="size-4" />}
                 </Button>
               </div>
               <p className="text-[10px] text-muted-foreground/50 mt-2 text-center">
@@ -0,0 +1,209 @@
+'use client'
+
+import * as React from 'react'
+import { Pin, PinOff, Search, Table2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+import type { AIContextTableReason, AISchemaContext, SchemaInfo } from '@data-peek/shared'
+
+interface AIContextTablesProps {
+  schemas: SchemaInfo[]
+  /** Tables sent with the latest response, if any */
+  context: AISchemaContext | null
+  pinnedTables: string[]
+  onPin: (tableKey: string) => void
+  onUnpin: (tableKey: string) => void
+}
+
+const REASON_LABELS: Record<AIContextTableReason, string> = {
+  all: 'Schema',
+  pinned: 'Pinned',
+  matched: 'Matched',
+  related: 'Related',
+  recent: 'Recent'
+}
+
+const REASON_COLORS: Record<AIContextTableReason, string> = {
+  all: 'text-muted-foreground',
+  pinned: 'text-blue-400 border-blue-500/30',
+  matched: 'text-green-500 border-green-500/30',
+  related: 'text-purple-400 border-purple-500/30',
+  recent: 'text-amber-500 border-amber-500/30'
+}
+
+// Search results shown when pinning a table
+const MAX_SEARCH_RESULTS = 30
+
+// Key a table is pinned by, as the main process expects it
+function getContextTableKey(schema: string, table: string): string {
+  return `${schema}.${table}`
+}
+
+function ContextTableRow({
+  tableKey,
+  reason,
+  isPinned,
+  onTogglePin
+}: {
+  tableKey: string
+  reason?: AIContextTableReason
+  isPinned: boolean
+  onTogglePin: () => void
+}) {
+  return (
+    <div className="group flex items-center gap-2 px-2 py-1 rounded hover:bg-muted/50">
+      <Table2 className="size-3 text-muted-foreground shrink-0" />
+      <span className="flex-1 min-w-0 truncate font-mono text-[11px]">{tableKey}</span>
+      {reason && (
+        <Badge variant="outline" className={cn('text-[9px] px-1 py-0', REASON_COLORS[reason])}>
+          {REASON_LABELS[reason]}
+        </Badge>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          'size-5 shrink-0',
+          !isPinned && 'opacity-0 group-hover:opacity-100 transition-opacity'
+        )}
+        onClick={onTogglePin}
+        title={isPinned ? 'Unpin table' : 'Pin table'}
+      >
+        {isPinned ? (
+          <PinOff className="size-3 text-blue-400" />
+        ) : (
+          <Pin className="size-3 text-muted-foreground" />
+        )}
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Which tables were described to the AI with the latest message, and the tables
+ * pinned to be sent with every message
+ */
+export function AIContextTables({
+  schemas,
+  context,
+  pinnedTables,
+  onPin,
+  onUnpin
+}: AIContextTablesProps) {
+  const [search, setSearch] = React.useState('')
+
+  const tableKeys = React.useMemo(
+    () =>
+      schemas.flatMap((schema) =>
+        schema.tables.map((table) => getContextTableKey(schema.name, table.name))
+      ),
+    [schemas]
+  )
+
+  const searchResults = React.useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return tableKeys.filter((key) => key.toLowerCase().includes(term)).slice(0, MAX_SEARCH_RESULTS)
+  }, [search, tableKeys])
+
+  const sentKeys = new Set(
+    context?.tables.map((table) => getContextTableKey(table.schema, table.name)) ?? []
+  )
+  // Pinned since the latest message, so not in its context yet
+  const pendingPins = pinnedTables.filter((key) => !sentKeys.has(key))
+
+  const togglePin = (key: string) => (pinnedTables.includes(key) ? onUnpin(key) : onPin(key))
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="text-[10px] text-muted-foreground hover:text-blue-400 transition-colors flex items-center gap-1">
+          {context?.ranked
+            ? `${context.tables.length} of ${context.totalTables} tables sent`
+            : `${tableKeys.length} table${tableKeys.length !== 1 ? 's' : ''} available`}
+          {pinnedTables.length > 0 && (
+            <span className="flex items-center gap-0.5 text-blue-400">
+              <Pin className="size-2.5" />
+              {pinnedTables.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="px-3 py-2 border-b border-border/50">
+          <p className="text-xs font-medium">Tables sent to the AI</p>
+          <p className="text-[10px] text-muted-foreground">
+            {context?.ranked
+              ? 'Picked by relevance to the conversation. Pinned tables are always sent.'
+              : 'The whole schema is sent while the database is small. Pinned tables are always sent.'}
+          </p>
+        </div>
+
+        <div className="p-2 border-b border-border/50">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 size-3 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Find a table to pin..."
+              className="h-7 pl-7 text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto">
+          <div className="p-1">
+            {search.trim() ? (
+              searchResults.length > 0 ? (
+                searchResults.map((key) => (
+                  <ContextTableRow
+                    key={key}
+                    tableKey={key}
+                    isPinned={pinnedTables.includes(key)}
+                    onTogglePin={() => togglePin(key)}
+                  />
+                ))
+              ) : (
+                <p className="px-2 py-4 text-center text-[11px] text-muted-foreground">
+                  No matching tables
+                </p>
+              )
+            ) : (
+              <>
+                {pendingPins.map((key) => (
+                  <ContextTableRow
+                    key={key}
+                    tableKey={key}
+                    reason="pinned"
+                    isPinned
+                    onTogglePin={() => onUnpin(key)}
+                  />
+                ))}
+                {context?.tables.map((table) => {
+                  const key = getContextTableKey(table.schema, table.name)
+                  return (
+                    <ContextTableRow
+                      key={key}
+                      tableKey={key}
+                      reason={table.reason}
+                      isPinned={pinnedTables.includes(key)}
+                      onTogglePin={() => togglePin(key)}
+                    />
+                  )
+                })}
+                {!context && pendingPins.length === 0 && (
+                  <p className="px-2 py-4 text-center text-[11px] text-muted-foreground">
+                    The tables sent appear here after your first message
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
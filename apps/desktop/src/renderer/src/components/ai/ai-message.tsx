@@ -1,13 +1,25 @@
 'use client'
 
 import * as React from 'react'
-import { User, Sparkles, Copy, Check, AlertTriangle, Loader2 } from 'lucide-react'
+import {
+  User,
+  Sparkles,
+  Copy,
+  Check,
+  AlertTriangle,
+  Loader2,
+  ChevronRight,
+  Wrench
+} from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { AISQLPreview } from './ai-sql-preview'
 import { AIChart, type ChartData } from './ai-chart'
 import { AIMetricCard, type MetricData } from './ai-metric-card'
 import { AISchemaCard } from './ai-schema-card'
 import { AIQueryResult } from './ai-query-result'
+import { AIQueryRepair, type QueryRepairAttempt } from './ai-query-repair'
+import { isReadOnlyQuery } from '@/lib/safe-mode'
+import { useAIStore } from '@/stores/ai-store'
 import type {
   AIChatMessage,
   AIResponseData,
@@ -16,7 +28,13 @@ import type {
   AIMetricData,
   AISchemaData
 } from './ai-chat-panel'
-import type { ConnectionConfig, SchemaInfo } from '@data-peek/shared'
+import type {
+  AIQueryAttempt,
+  AIToolCallTrace,
+  ConnectionConfig,
+  IpcResponse,
+  SchemaInfo
+} from '@data-peek/shared'
 
 interface AIMessageProps {
   message: AIChatMessage
@@ -33,6 +51,55 @@ interface QueryResultState {
   duration: number
 }
 
+// Tool input in one line, e.g. `table: orders, limit: 5`
+function formatToolInput(input: Record<string, unknown>): string {
+  return Object.entries(input)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ')
+}
+
+// The tool calls the AI made before answering, collapsed by default
+function AIToolTrace({ toolCalls }: { toolCalls: AIToolCallTrace[] }) {
+  const [isOpen, setIsOpen] = React.useState(false)
+
+  return (
+    <div className="rounded-md border border-border/50 bg-muted/20 text-[11px]">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center gap-1.5 px-2 py-1 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ChevronRight className={cn('size-3 transition-transform', isOpen && 'rotate-90')} />
+        <Wrench className="size-3" />
+        Inspected the database · {toolCalls.length} step{toolCalls.length !== 1 ? 's' : ''}
+      </button>
+      {isOpen && (
+        <ol className="border-t border-border/50 px-2 py-1 space-y-1">
+          {toolCalls.map((call, i) => (
+            <li key={i} className="flex items-baseline gap-2 min-w-0">
+              <span className="font-mono text-blue-400 shrink-0">{call.tool}</span>
+              <span
+                className="flex-1 min-w-0 truncate font-mono text-muted-foreground"
+                title={formatToolInput(call.input)}
+              >
+                {formatToolInput(call.input)}
+              </span>
+              {call.error ? (
+                <span className="text-red-400 truncate max-w-[50%]" title={call.error}>
+                  {call.error}
+                </span>
+              ) : (
+                <span className="text-muted-foreground shrink-0">{call.summary}</span>
+              )}
+              <span className="text-muted-foreground/50 shrink-0">{call.durationMs}ms</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
 export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AIMessageProps) {
   const [copiedContent, setCopiedContent] = React.useState(false)
   const [chartData, setChartData] = React.useState<Record<string, unknown>[] | null>(null)
@@ -44,9 +111,64 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
   const [queryResult, setQueryResult] = React.useState<QueryResultState | null>(null)
   const [queryExecuting, setQueryExecuting] = React.useState(false)
   const [queryError, setQueryError] = React.useState<string | null>(null)
+  const [repairAttempts, setRepairAttempts] = React.useState<QueryRepairAttempt[]>([])
+  const [isRepairing, setIsRepairing] = React.useState(false)
+  const queryFixAttempts = useAIStore((s) => s.queryFixAttempts)
 
   const isUser = message.role === 'user'
 
+  // The fixed query, once one ran successfully
+  const lastAttempt = repairAttempts[repairAttempts.length - 1]
+  const fixedSql = repairAttempts.length > 1 && !lastAttempt.error ? lastAttempt.sql : null
+
+  // Run generated SQL. When a read-only query fails, the error goes back to the AI for a
+  // fixed query, run in its place, up to the configured number of attempts.
+  const runGeneratedQuery = React.useCallback(
+    async (config: ConnectionConfig, sql: string): Promise<IpcResponse<unknown>> => {
+      let response = await window.api.db.query(config, sql)
+      if (response.success || queryFixAttempts === 0 || !isReadOnlyQuery(sql)) return response
+
+      const failed: AIQueryAttempt[] = [{ sql, error: response.error || 'Query failed' }]
+      let attempts: QueryRepairAttempt[] = [...failed]
+      setRepairAttempts(attempts)
+      setIsRepairing(true)
+
+      try {
+        // One fix per failed run, the original included
+        while (failed.length <= queryFixAttempts) {
+          const fix = await window.api.ai.fixQuery(failed, schemas, config.dbType || 'postgresql')
+          if (!fix.success || !fix.data) {
+            console.error('AI query fix error:', fix.error)
+            break
+          }
+
+          const { sql: fixedQuery, explanation } = fix.data
+          if (!isReadOnlyQuery(fixedQuery)) {
+            attempts = [
+              ...attempts,
+              { sql: fixedQuery, explanation, error: 'The fix changes data, so it was not run' }
+            ]
+            setRepairAttempts(attempts)
+            break
+          }
+
+          response = await window.api.db.query(config, fixedQuery)
+          const error = response.success ? undefined : response.error || 'Query failed'
+          attempts = [...attempts, { sql: fixedQuery, explanation, error }]
+          setRepairAttempts(attempts)
+          if (!error) break
+
+          failed.push({ sql: fixedQuery, error })
+        }
+      } finally {
+        setIsRepairing(false)
+      }
+
+      return response
+    },
+    [queryFixAttempts, schemas]
+  )
+
   const handleCopyContent = () => {
     navigator.clipboard.writeText(message.content)
     setCopiedContent(true)
@@ -63,7 +185,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
     const startTime = performance.now()
 
     try {
-      const response = await window.api.db.query(connection, sql)
+      const response = await runGeneratedQuery(connection, sql)
       const duration = Math.round(performance.now() - startTime)
 
       if (response.success && response.data) {
@@ -113,7 +235,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
       const fetchChartData = async () => {
         setChartLoading(true)
         try {
-          const response = await window.api.db.query(
+          const response = await runGeneratedQuery(
             connection,
             (message.responseData as AIChartData).sql
           )
@@ -131,7 +253,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
       }
       fetchChartData()
     }
-  }, [message.responseData, connection, chartData, chartLoading, chartError])
+  }, [message.responseData, connection, chartData, chartLoading, chartError, runGeneratedQuery])
 
   // Fetch metric value when metric response is received
   React.useEffect(() => {
@@ -145,7 +267,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
       const fetchMetricData = async () => {
         setMetricLoading(true)
         try {
-          const response = await window.api.db.query(
+          const response = await runGeneratedQuery(
             connection,
             (message.responseData as AIMetricData).sql
           )
@@ -165,7 +287,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
       }
       fetchMetricData()
     }
-  }, [message.responseData, connection, metricValue, metricLoading, metricError])
+  }, [message.responseData, connection, metricValue, metricLoading, metricError, runGeneratedQuery])
 
   // Render response data based on type
   const renderResponseData = (data: AIResponseData) => {
@@ -174,6 +296,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
     switch (data.type) {
       case 'query': {
         const queryData = data as AIQueryData
+        const sql = fixedSql ?? queryData.sql
         return (
           <div className="space-y-2 mt-3">
             {queryData.warning && (
@@ -183,10 +306,10 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
               </div>
             )}
             <AISQLPreview
-              sql={queryData.sql}
+              sql={sql}
               explanation={queryData.explanation}
-              onExecute={() => handleExecuteInline(queryData.sql)}
-              onOpenInTab={() => onOpenInTab(queryData.sql)}
+              onExecute={() => handleExecuteInline(sql)}
+              onOpenInTab={() => onOpenInTab(sql)}
               isExecuting={queryExecuting}
               requiresConfirmation={queryData.requiresConfirmation}
             />
@@ -211,7 +334,7 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
                 rows={queryResult.rows}
                 totalRows={queryResult.totalRows}
                 duration={queryResult.duration}
-                onOpenInTab={() => onOpenInTab(queryData.sql)}
+                onOpenInTab={() => onOpenInTab(sql)}
               />
             )}
           </div>
@@ -370,6 +493,11 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
 
       {/* Content */}
       <div className="flex-1 min-w-0 space-y-1">
+        {/* Tools called before answering */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <AIToolTrace toolCalls={message.toolCalls} />
+        )}
+
         {/* Text content */}
         {message.content && (
           <div className="relative group/content">
@@ -421,9 +549,31 @@ export function AIMessage({ message, onOpenInTab, connection, schemas = [] }: AI
         {/* Response data (query, chart, metric, schema) */}
         {message.responseData && renderResponseData(message.responseData)}
 
-        {/* Timestamp */}
+        {/* Automatic fixes of the generated SQL after it failed */}
+        {repairAttempts.length > 0 && (
+          <div className="mt-2">
+            <AIQueryRepair
+              attempts={repairAttempts}
+              isRepairing={isRepairing}
+              maxAttempts={queryFixAttempts}
+            />
+          </div>
+        )}
+
+        {/* Timestamp, and the share of the schema the response was based on */}
         <p className="text-[10px] text-muted-foreground/50 mt-1">
           {message.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {message.schemaContext?.ranked && (
+            <span
+              title={message.schemaContext.tables
+                .map((table) => `${table.schema}.${table.name}`)
+                .join('\n')}
+            >
+              {' '}
+              • based on {message.schemaContext.tables.length} of{' '}
+              {message.schemaContext.totalTables} tables
+            </span>
+          )}
         </p>
       </div>
     </div>
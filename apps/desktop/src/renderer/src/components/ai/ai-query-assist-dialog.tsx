@@ -0,0 +1,152 @@
+'use client'
+
+import * as React from 'react'
+import { AlertTriangle, Check, Loader2, Sparkles, Zap } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { useAIStore } from '@/stores/ai-store'
+import { useConnectionStore } from '@/stores/connection-store'
+import { useTabStore } from '@/stores/tab-store'
+import { AISQLDiff } from './ai-sql-diff'
+import type { AIQueryAssistResult } from '@data-peek/shared'
+
+/**
+ * The AI's explanation of the query sent from the editor, or its optimized rewrite
+ * shown as a diff that can be applied to the tab
+ */
+export function AIQueryAssistDialog() {
+  const request = useAIStore((s) => s.queryAssist)
+  const closeQueryAssist = useAIStore((s) => s.closeQueryAssist)
+  const updateTabQuery = useTabStore((s) => s.updateTabQuery)
+
+  const [result, setResult] = React.useState<AIQueryAssistResult | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!request) return
+    setResult(null)
+    setError(null)
+
+    // Read once per request, so later changes to the connection don't send it again
+    const { connections, schemas } = useConnectionStore.getState()
+    const connectionId = useTabStore.getState().getTab(request.tabId)?.connectionId
+    const connection = connections.find((c) => c.id === connectionId)
+    if (!connection) {
+      setError('Select a connection first')
+      return
+    }
+
+    // A newer request, or closing the dialog, discards this one's answer
+    let isCurrent = true
+    window.api.ai
+      .assistQuery(connection, request.mode, request.sql, schemas)
+      .then((response) => {
+        if (!isCurrent) return
+        if (response.success && response.data) {
+          setResult(response.data)
+        } else {
+          setError(response.error || 'The AI request failed')
+        }
+      })
+      .catch((err) => {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Unknown error')
+      })
+    return () => {
+      isCurrent = false
+    }
+  }, [request])
+
+  // The tab's query changed since the request if the SQL is no longer where it was
+  const tab = useTabStore((s) => (request ? s.getTab(request.tabId) : undefined))
+  const tabQuery = tab?.type === 'query' || tab?.type === 'table-preview' ? tab.query : null
+  const canApply =
+    !!request && !!result?.sql && tabQuery?.slice(request.from, request.to) === request.sql
+
+  const handleApply = () => {
+    if (!request || !result?.sql || tabQuery === null) return
+    updateTabQuery(
+      request.tabId,
+      tabQuery.slice(0, request.from) + result.sql + tabQuery.slice(request.to)
+    )
+    closeQueryAssist()
+  }
+
+  const isOptimize = request?.mode === 'optimize'
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && closeQueryAssist()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isOptimize ? (
+              <Zap className="size-4 text-amber-400" />
+            ) : (
+              <Sparkles className="size-4 text-blue-400" />
+            )}
+            {isOptimize ? 'Optimize Query' : 'Explain Query'}
+          </DialogTitle>
+          <DialogDescription>
+            {isOptimize
+              ? 'A faster rewrite that returns the same result, and why it is faster.'
+              : 'What the query does, in plain language.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          {error ? (
+            <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 p-3 text-red-400">
+              <AlertTriangle className="size-4 shrink-0 mt-0.5" />
+              <p className="text-xs">{error}</p>
+            </div>
+          ) : !result ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+              <Loader2 className="size-4 animate-spin text-blue-400" />
+              {isOptimize ? 'Looking for a faster query...' : 'Reading the query...'}
+            </div>
+          ) : (
+            <>
+              {result.usedPlan && (
+                <Badge variant="outline" className="text-[10px] text-muted-foreground">
+                  Based on the execution plan
+                </Badge>
+              )}
+              <p className="text-sm leading-relaxed whitespace-pre-wrap">{result.explanation}</p>
+              {isOptimize &&
+                request &&
+                (result.sql ? (
+                  <AISQLDiff before={request.sql} after={result.sql} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">No rewrite to suggest.</p>
+                ))}
+              {result.sql && !canApply && (
+                <p className="text-xs text-amber-500">
+                  The query in the tab changed, so the rewrite can no longer be applied.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={closeQueryAssist}>
+            Close
+          </Button>
+          {isOptimize && (
+            <Button size="sm" onClick={handleApply} disabled={!canApply}>
+              <Check className="size-4 mr-1" />
+              Apply to Tab
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import * as React from 'react'
+import { ChevronRight, Loader2, Wand2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { AISQLDiff } from './ai-sql-diff'
+
+/**
+ * A run of a generated query while it is being fixed: the original first, then each fix
+ */
+export interface QueryRepairAttempt {
+  sql: string
+  /** Why the AI changed the query (absent for the original) */
+  explanation?: string
+  /** Error the run failed with, absent if it succeeded */
+  error?: string
+}
+
+interface AIQueryRepairProps {
+  attempts: QueryRepairAttempt[]
+  isRepairing: boolean
+  /** Fixes allowed before giving up */
+  maxAttempts: number
+}
+
+/**
+ * The automatic fixes of a generated query that failed, each shown as a diff against
+ * the attempt before it
+ */
+export function AIQueryRepair({ attempts, isRepairing, maxAttempts }: AIQueryRepairProps) {
+  const [isOpen, setIsOpen] = React.useState(true)
+
+  const fixes = attempts.length - 1
+  const isFixed = !isRepairing && fixes > 0 && !attempts[attempts.length - 1].error
+
+  const title = isRepairing
+    ? `Fixing the query (attempt ${fixes + 1} of ${maxAttempts})...`
+    : isFixed
+      ? `Fixed automatically after ${fixes} attempt${fixes !== 1 ? 's' : ''}`
+      : `Couldn't fix the query automatically`
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border text-[11px]',
+        isFixed ? 'border-green-500/30 bg-green-500/5' : 'border-border/50 bg-muted/20'
+      )}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center gap-1.5 px-2 py-1.5 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ChevronRight className={cn('size-3 transition-transform', isOpen && 'rotate-90')} />
+        {isRepairing ? (
+          <Loader2 className="size-3 animate-spin text-blue-400" />
+        ) : (
+          <Wand2 className={cn('size-3', isFixed && 'text-green-500')} />
+        )}
+        {title}
+      </button>
+
+      {isOpen && (
+        <ol className="border-t border-border/50 p-2 space-y-3">
+          {attempts.map((attempt, i) => (
+            <li key={i} className="space-y-1">
+              <p className="font-medium text-muted-foreground">
+                {i === 0 ? 'Generated query' : `Attempt ${i}`}
+                {attempt.explanation && (
+                  <span className="font-normal"> · {attempt.explanation}</span>
+                )}
+              </p>
+              {i > 0 && <AISQLDiff before={attempts[i - 1].sql} after={attempt.sql} />}
+              {attempt.error ? (
+                <p className="text-red-400 break-words">{attempt.error}</p>
+              ) : (
+                <p className="text-green-500">Ran successfully</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -37,6 +37,8 @@ import { AI_PROVIDERS } from '@shared/index'
 
 type ProviderId = AIProvider
 
+const QUERY_FIX_ATTEMPT_OPTIONS = [0, 1, 2, 3, 5]
+
 interface AISettingsModalProps {
   isOpen: boolean
   onClose: () => void
@@ -45,6 +47,8 @@ interface AISettingsModalProps {
   onRemoveProviderConfig: (provider: AIProvider) => Promise<void>
   onSetActiveProvider: (provider: AIProvider) => Promise<void>
   onSetActiveModel: (provider: AIProvider, model: string) => Promise<void>
+  queryFixAttempts: number
+  onQueryFixAttemptsChange: (attempts: number) => void
 }
 
 export function AISettingsModal({
@@ -54,7 +58,9 @@ export function AISettingsModal({
   onSaveProviderConfig,
   onRemoveProviderConfig,
   onSetActiveProvider,
-  onSetActiveModel
+  onSetActiveModel,
+  queryFixAttempts,
+  onQueryFixAttemptsChange
 }: AISettingsModalProps) {
   const [selectedProvider, setSelectedProvider] = React.useState<ProviderId>('openai')
   const [apiKey, setApiKey] = React.useState('')
@@ -398,6 +404,32 @@ export function AISettingsModal({
             )}
           </div>
 
+          {/* Automatic fixes of failed queries */}
+          <div className="space-y-2">
+            <Label className="text-xs">Fix failed queries</Label>
+            <Select
+              value={String(queryFixAttempts)}
+              onValueChange={(value) => onQueryFixAttemptsChange(Number(value))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUERY_FIX_ATTEMPT_OPTIONS.map((attempts) => (
+                  <SelectItem key={attempts} value={String(attempts)}>
+                    {attempts === 0
+                      ? 'Off'
+                      : `Up to ${attempts} attempt${attempts !== 1 ? 's' : ''}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-[10px] text-muted-foreground">
+              When a generated read-only query fails, the error goes back to the AI for a fixed
+              query, which is run in its place.
+            </p>
+          </div>
+
           {/* Info box */}
           <div className="p-3 rounded-lg bg-muted/30 border border-border/50">
             <p className="text-[11px] text-muted-foreground leading-relaxed">
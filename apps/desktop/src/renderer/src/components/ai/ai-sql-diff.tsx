@@ -0,0 +1,28 @@
+'use client'
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+import { diffSql, type SqlDiffLineType } from '@/lib/sql-diff'
+
+const LINE_STYLES: Record<SqlDiffLineType, { prefix: string; className: string }> = {
+  unchanged: { prefix: ' ', className: 'text-zinc-500' },
+  added: { prefix: '+', className: 'text-green-400 bg-green-500/10' },
+  removed: { prefix: '-', className: 'text-red-400 bg-red-500/10' }
+}
+
+/**
+ * Line diff between two versions of a query
+ */
+export function AISQLDiff({ before, after }: { before: string; after: string }) {
+  const lines = React.useMemo(() => diffSql(before, after), [before, after])
+
+  return (
+    <pre className="rounded-md bg-zinc-900/80 border border-zinc-800/80 py-1 overflow-x-auto font-mono text-[11px] leading-relaxed">
+      {lines.map((line, i) => (
+        <div key={i} className={cn('px-2 whitespace-pre', LINE_STYLES[line.type].className)}>
+          {LINE_STYLES[line.type].prefix} {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
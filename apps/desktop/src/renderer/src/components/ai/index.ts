@@ -6,6 +6,7 @@ export { AIQueryResult } from './ai-query-result'
 export { AISchemaCard } from './ai-schema-card'
 export { AISuggestions } from './ai-suggestions'
 export { AISettingsModal } from './ai-settings-modal'
+export { AIQueryAssistDialog } from './ai-query-assist-dialog'
 
 // Types
 export type {
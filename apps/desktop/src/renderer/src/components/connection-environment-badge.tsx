@@ -0,0 +1,38 @@
+'use client'
+
+import type { ConnectionEnvironment } from '@shared/index'
+import { cn } from '@/lib/utils'
+import { CONNECTION_ENVIRONMENTS } from '@/lib/safe-mode'
+
+interface ConnectionEnvironmentBadgeProps {
+  environment?: ConnectionEnvironment
+  /** Overrides the environment's own color */
+  color?: string
+  className?: string
+}
+
+/**
+ * Small DEV / STAGING / PROD tag in the connection's accent color
+ */
+export function ConnectionEnvironmentBadge({
+  environment,
+  color,
+  className
+}: ConnectionEnvironmentBadgeProps) {
+  const info = CONNECTION_ENVIRONMENTS.find((env) => env.value === environment)
+  if (!info) return null
+
+  const accent = color ?? info.color
+
+  return (
+    <span
+      className={cn(
+        'inline-flex shrink-0 items-center rounded px-1 py-px text-[10px] font-semibold leading-none tracking-wide',
+        className
+      )}
+      style={{ color: accent, backgroundColor: `${accent}26` }}
+    >
+      {info.short}
+    </span>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { Check, ShieldAlert } from 'lucide-react'
+import { getSafeMode } from '@shared/index'
+import type { ConnectionConfig, SafeMode } from '@shared/index'
+import { Switch } from '@/components/ui/switch'
+import { CONNECTION_ENVIRONMENTS } from '@/lib/safe-mode'
+
+export type ConnectionSafetyConfig = Pick<
+  ConnectionConfig,
+  'environment' | 'color' | 'safeMode' | 'readOnly'
+>
+
+const SAFE_MODES: Array<{ value: SafeMode; label: string; description: string }> = [
+  { value: 'off', label: 'Off', description: 'Every statement runs as written' },
+  {
+    value: 'confirm',
+    label: 'Confirm',
+    description: 'DELETE/UPDATE without WHERE, DROP, TRUNCATE and ALTER must be confirmed'
+  },
+  {
+    value: 'read-only',
+    label: 'Read-only',
+    description: 'Statements that modify data are rejected'
+  }
+]
+
+const CONNECTION_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#f59e0b',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899'
+]
+
+interface ConnectionSafetySettingsProps {
+  value: ConnectionSafetyConfig
+  onChange: (value: ConnectionSafetyConfig) => void
+}
+
+export function ConnectionSafetySettings({ value, onChange }: ConnectionSafetySettingsProps) {
+  const update = (changes: Partial<ConnectionSafetyConfig>) => onChange({ ...value, ...changes })
+  const safeMode = getSafeMode(value)
+  const selectedMode = SAFE_MODES.find((mode) => mode.value === safeMode)
+
+  const segmentClass = (selected: boolean) =>
+    `flex flex-1 items-center justify-center rounded-md px-2 py-1.5 text-sm font-medium transition-colors ${
+      selected
+        ? 'bg-background text-foreground shadow-sm'
+        : 'text-muted-foreground hover:text-foreground'
+    }`
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-3">
+      <span className="flex items-center gap-1.5 text-sm font-medium">
+        <ShieldAlert className="size-3.5" />
+        Environment & Safety
+      </span>
+
+      {/* Choosing an environment resets safe mode to that environment's default */}
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium">Environment</label>
+        <div className="flex rounded-lg border bg-muted p-1">
+          <button
+            type="button"
+            onClick={() => update({ environment: undefined, safeMode: undefined })}
+            className={segmentClass(!value.environment)}
+          >
+            None
+          </button>
+          {CONNECTION_ENVIRONMENTS.map((env) => (
+            <button
+              key={env.value}
+              type="button"
+              onClick={() => update({ environment: env.value, safeMode: undefined })}
+              className={segmentClass(value.environment === env.value)}
+            >
+              {env.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium">Color</label>
+        <div className="flex items-center gap-1.5">
+          <button
+            type="button"
+            onClick={() => update({ color: undefined })}
+            className={`h-6 rounded-md border px-2 text-xs ${
+              value.color ? 'text-muted-foreground hover:text-foreground' : 'bg-muted font-medium'
+            }`}
+          >
+            Auto
+          </button>
+          {CONNECTION_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              title={color}
+              onClick={() => update({ color })}
+              className="flex size-6 items-center justify-center rounded-full ring-offset-background transition-shadow hover:ring-2 hover:ring-ring hover:ring-offset-1"
+              style={{ backgroundColor: color }}
+            >
+              {value.color === color && <Check className="size-3.5 text-white" />}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Shown on the connection&apos;s tabs and in the connection switcher. Auto uses the
+          environment&apos;s color.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium">Safe Mode</label>
+        <div className="flex rounded-lg border bg-muted p-1">
+          {SAFE_MODES.map((mode) => (
+            <button
+              key={mode.value}
+              type="button"
+              disabled={value.readOnly}
+              onClick={() => update({ safeMode: mode.value })}
+              className={`${segmentClass(safeMode === mode.value)} disabled:cursor-not-allowed`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {selectedMode && (
+          <p className="text-xs text-muted-foreground">{selectedMode.description}</p>
+        )}
+      </div>
+
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="read-only-connection" className="text-sm font-medium">
+            Read-only Connection
+          </label>
+          <p className="text-xs text-muted-foreground">
+            The database session itself rejects writes, and editing, the table designer and imports
+            are turned off.
+          </p>
+        </div>
+        <Switch
+          id="read-only-connection"
+          checked={!!value.readOnly}
+          onCheckedChange={(checked) => update({ readOnly: checked || undefined })}
+        />
+      </div>
+    </div>
+  )
+}
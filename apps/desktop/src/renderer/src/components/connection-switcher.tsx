@@ -1,7 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { ChevronDown, Plus, Settings, Loader2, Pencil, Trash2 } from 'lucide-react'
+import { ChevronDown, Plus, Settings, Loader2, Lock, Pencil, Trash2 } from 'lucide-react'
 
 import {
   DropdownMenu,
@@ -27,6 +27,8 @@ import { useConnectionStore, type Connection } from '@/stores'
 import { useNavigate } from '@tanstack/react-router'
 import { AddConnectionDialog } from './add-connection-dialog'
 import { DatabaseIcon } from './database-icons'
+import { ConnectionEnvironmentBadge } from './connection-environment-badge'
+import { getConnectionColor, isReadOnlyConnection } from '@/lib/safe-mode'
 
 export function ConnectionSwitcher() {
   const navigate = useNavigate()
@@ -136,6 +138,12 @@ export function ConnectionSwitcher() {
               <span className="truncate font-medium">
                 {activeConnection?.name || 'Select connection'}
               </span>
+              {activeConnection && (
+                <ConnectionEnvironmentBadge
+                  environment={activeConnection.environment}
+                  color={activeConnection.color}
+                />
+              )}
               <ChevronDown className="opacity-50" />
             </SidebarMenuButton>
           </DropdownMenuTrigger>
@@ -155,7 +163,10 @@ export function ConnectionSwitcher() {
                 className="gap-2 p-2 group"
                 disabled={connection.isConnecting}
               >
-                <div className="relative flex size-6 shrink-0 items-center justify-center rounded-xs border">
+                <div
+                  className="relative flex size-6 shrink-0 items-center justify-center rounded-xs border"
+                  style={{ borderColor: getConnectionColor(connection) }}
+                >
                   {connection.isConnecting ? (
                     <Loader2 className="size-4 shrink-0 animate-spin" />
                   ) : (
@@ -168,6 +179,15 @@ export function ConnectionSwitcher() {
                 <div className="flex flex-1 min-w-0 flex-col gap-0.5">
                   <div className="flex items-center gap-1.5 min-w-0">
                     <span className="font-medium truncate">{connection.name}</span>
+                    <ConnectionEnvironmentBadge
+                      environment={connection.environment}
+                      color={connection.color}
+                    />
+                    {isReadOnlyConnection(connection) && (
+                      <span title="Read-only connection">
+                        <Lock className="size-3 shrink-0 text-muted-foreground" />
+                      </span>
+                    )}
                   </div>
                   <span className="text-xs text-muted-foreground truncate">
                     {connection.host}:{connection.port}/{connection.database}
@@ -23,7 +23,8 @@ import {
   Filter,
   X,
   Link2,
-  Copy
+  Copy,
+  Loader2
 } from 'lucide-react'
 import type { ForeignKeyInfo } from '@data-peek/shared'
 import { Input } from '@/components/ui/input'
@@ -62,8 +63,17 @@ interface DataTableProps<TData> {
   onForeignKeyClick?: (foreignKey: ForeignKeyInfo, value: unknown) => void
   /** Called when user Cmd+clicks a FK cell (opens new tab) */
   onForeignKeyOpenTab?: (foreignKey: ForeignKeyInfo, value: unknown) => void
+  /** More rows can be fetched from the server (streamed results) */
+  hasMore?: boolean
+  /** A fetch for more rows is in progress */
+  isLoadingMore?: boolean
+  /** Called to fetch the next chunk of rows (load more button, scrolling past the last page) */
+  onLoadMore?: () => void
 }
 
+/** Distance (px) from the bottom of the last page that triggers loading more rows */
+const LOAD_MORE_SCROLL_THRESHOLD = 200
+
 function getTypeColor(type: string): string {
   const lower = type.toLowerCase()
   if (lower.includes('uuid')) return 'text-purple-400'
@@ -163,7 +173,10 @@ export function DataTable<TData extends Record<string, unknown>>({
   onFiltersChange,
   onSortingChange,
   onForeignKeyClick,
-  onForeignKeyOpenTab
+  onForeignKeyOpenTab,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
 }: DataTableProps<TData>) {
   const [sorting, setSorting] = React.useState<SortingState>([])
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([])
@@ -316,9 +329,40 @@ export function DataTable<TData extends Record<string, unknown>>({
       pagination: {
         pageSize
       }
-    }
+    },
+    // Appending streamed rows shouldn't jump back to the first page
+    autoResetPageIndex: false
   })
 
+  // Go back to the first page when a new result replaces the data (appends keep the
+  // same leading rows)
+  const previousData = React.useRef(data)
+  React.useEffect(() => {
+    if (previousData.current[0] !== data[0]) {
+      table.setPageIndex(0)
+    }
+    previousData.current = data
+  }, [data, table])
+
+  const canLoadMore = hasMore && !!onLoadMore && !isLoadingMore
+  const isLastPage = !table.getCanNextPage()
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (!canLoadMore || !isLastPage) return
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget
+    if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_SCROLL_THRESHOLD) {
+      onLoadMore()
+    }
+  }
+
+  const handleNextPage = () => {
+    if (table.getCanNextPage()) {
+      table.nextPage()
+    } else if (canLoadMore) {
+      onLoadMore()
+    }
+  }
+
   const activeFilterCount = columnFilters.filter((f) => f.value !== '').length
 
   const clearAllFilters = () => {
@@ -357,13 +401,14 @@ export function DataTable<TData extends Record<string, unknown>>({
           )}
         </div>
         <div className="text-xs text-muted-foreground">
-          {table.getFilteredRowModel().rows.length} of {data.length} rows
+          {table.getFilteredRowModel().rows.length} of {data.length}
+          {hasMore ? '+' : ''} rows
         </div>
       </div>
 
       {/* Table with single scroll container */}
       <div className="flex-1 min-h-0 border rounded-lg border-border/50 relative">
-        <div className="absolute inset-0 overflow-auto">
+        <div className="absolute inset-0 overflow-auto" onScroll={handleScroll}>
           <table className="w-full min-w-max caption-bottom text-sm">
             <TableHeader className="sticky top-0 bg-muted/95 backdrop-blur-sm z-10">
               {table.getHeaderGroups().map((headerGroup) => (
@@ -431,12 +476,25 @@ export function DataTable<TData extends Record<string, unknown>>({
 
       {/* Pagination */}
       <div className="flex items-center justify-between py-2 shrink-0">
-        <div className="text-xs text-muted-foreground">
-          {table.getFilteredRowModel().rows.length} row(s) total
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {table.getFilteredRowModel().rows.length} row(s) {hasMore ? 'loaded' : 'total'}
+          {hasMore && onLoadMore && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              onClick={onLoadMore}
+              disabled={isLoadingMore}
+            >
+              {isLoadingMore && <Loader2 className="size-3 animate-spin" />}
+              Load more
+            </Button>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <div className="text-xs text-muted-foreground">
             Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
+            {hasMore ? '+' : ''}
           </div>
           <div className="flex items-center gap-1">
             <Button
@@ -461,8 +519,8 @@ export function DataTable<TData extends Record<string, unknown>>({
               variant="outline"
               size="icon"
               className="size-7"
-              onClick={() => table.nextPage()}
-              disabled={!table.getCanNextPage()}
+              onClick={handleNextPage}
+              disabled={!table.getCanNextPage() && !canLoadMore}
             >
               <ChevronRight className="size-3.5" />
             </Button>
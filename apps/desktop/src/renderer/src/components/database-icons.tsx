@@ -143,6 +143,19 @@ export function MSSQLIcon({ className }: { className?: string }) {
   )
 }
 
+export function SQLiteIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64" className={className}>
+      <rect x="4" y="6" width="44" height="52" rx="6" fill="#0F80CC" />
+      <path d="M14 20h24M14 30h24M14 40h16" stroke="#fff" strokeWidth="4" strokeLinecap="round" />
+      <path
+        d="M60 4c-9 2-18 9-24 19-4 7-6 15-7 23l-3 14 5-12c3-1 7-3 10-6 6-6 10-15 13-24 2-5 4-10 6-14z"
+        fill="#003B57"
+      />
+    </svg>
+  )
+}
+
 export function DatabaseIcon({
   dbType,
   className
@@ -155,6 +168,8 @@ export function DatabaseIcon({
       return <MySQLIcon className={className} />
     case 'mssql':
       return <MSSQLIcon className={className} />
+    case 'sqlite':
+      return <SQLiteIcon className={className} />
     case 'postgresql':
     default:
       return <PostgreSQLIcon className={className} />
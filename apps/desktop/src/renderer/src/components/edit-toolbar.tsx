@@ -20,6 +20,8 @@ import { cn } from '@/lib/utils'
 interface EditToolbarProps {
   isEditMode: boolean
   canEdit: boolean
+  /** The connection is read-only */
+  readOnly?: boolean
   noPrimaryKey?: boolean
   pendingChanges: {
     updates: number
@@ -37,6 +39,7 @@ interface EditToolbarProps {
 export function EditToolbar({
   isEditMode,
   canEdit,
+  readOnly = false,
   noPrimaryKey = false,
   pendingChanges,
   isCommitting = false,
@@ -107,7 +110,9 @@ export function EditToolbar({
             </Button>
           </TooltipTrigger>
           <TooltipContent side="bottom">
-            {noPrimaryKey ? (
+            {readOnly ? (
+              <p className="text-xs">Cannot edit: the connection is read-only</p>
+            ) : noPrimaryKey ? (
               <p className="text-xs text-red-400">Cannot edit: table has no primary key</p>
             ) : !canEdit ? (
               <p className="text-xs">Cannot edit views or query results</p>
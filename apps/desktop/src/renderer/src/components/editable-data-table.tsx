@@ -10,7 +10,8 @@ import {
   useReactTable,
   type ColumnDef,
   type ColumnFiltersState,
-  type SortingState
+  type SortingState,
+  type Updater
 } from '@tanstack/react-table'
 import {
   ArrowUpDown,
@@ -26,18 +27,27 @@ import {
   RotateCcw,
   Link2
 } from 'lucide-react'
-import type { ForeignKeyInfo, ColumnInfo, EditContext, ConnectionConfig } from '@data-peek/shared'
+import type {
+  ForeignKeyInfo,
+  ColumnInfo,
+  EditContext,
+  ConnectionConfig,
+  TableFilter,
+  TableSort
+} from '@data-peek/shared'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
+import { isReadOnlyConnection } from '@/lib/safe-mode'
 import { EditableCell } from '@/components/editable-cell'
 import { EditToolbar } from '@/components/edit-toolbar'
 import { SqlPreviewModal } from '@/components/sql-preview-modal'
 import { JsonCellValue } from '@/components/json-cell-value'
 import { FKCellValue } from '@/components/fk-cell-value'
+import { TableFilterCell } from '@/components/table-filter-cell'
 import { useEditStore } from '@/stores/edit-store'
 
 export interface DataTableColumn {
@@ -59,6 +69,27 @@ export interface DataTableSort {
   direction: 'asc' | 'desc'
 }
 
+/**
+ * Paging, filtering and sorting done by the database (table previews).
+ * The table then shows `data` as the current page and reports changes instead of
+ * applying them itself.
+ */
+export interface ServerPaging {
+  /** Zero-based page index */
+  page: number
+  /** Rows matching the filters (null when unknown) */
+  totalCount: number | null
+  totalCountIsEstimate: boolean
+  filters: TableFilter[]
+  sort: TableSort[]
+  isLoading: boolean
+  onPageChange: (page: number) => void
+  onFiltersChange: (filters: TableFilter[]) => void
+  onSortChange: (sort: TableSort[]) => void
+  /** Replace an estimated total with COUNT(*) */
+  onCountExactly: () => void
+}
+
 interface EditableDataTableProps<TData> {
   tabId: string
   columns: DataTableColumn[]
@@ -76,6 +107,8 @@ interface EditableDataTableProps<TData> {
   onForeignKeyOpenTab?: (foreignKey: ForeignKeyInfo, value: unknown) => void
   /** Called after changes are successfully committed */
   onChangesCommitted?: () => void
+  /** Page, filter and sort on the server; `data` is the current page */
+  serverPaging?: ServerPaging
 }
 
 function getTypeColor(type: string): string {
@@ -101,15 +134,19 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
   columns: columnDefs,
   data,
   pageSize = 50,
-  canEdit = false,
+  canEdit: canEditTable = false,
   editContext,
   connection,
   onFiltersChange,
   onSortingChange,
   onForeignKeyClick,
   onForeignKeyOpenTab,
-  onChangesCommitted
+  onChangesCommitted,
+  serverPaging
 }: EditableDataTableProps<TData>) {
+  // Read-only connections keep the toolbar but can't enter edit mode
+  const isReadOnly = !!connection && isReadOnlyConnection(connection)
+  const canEdit = canEditTable && !isReadOnly
   const [sorting, setSorting] = React.useState<SortingState>([])
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([])
   const [showFilters, setShowFilters] = React.useState(false)
@@ -506,6 +543,26 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
     onForeignKeyOpenTab
   ])
 
+  // Server-paged tables take their sorting from the last page request
+  const sortingState = React.useMemo<SortingState>(
+    () =>
+      serverPaging
+        ? serverPaging.sort.map((s) => ({ id: s.column, desc: s.direction === 'desc' }))
+        : sorting,
+    [serverPaging, sorting]
+  )
+
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    if (!serverPaging) {
+      setSorting(updater)
+      return
+    }
+    const next = typeof updater === 'function' ? updater(sortingState) : updater
+    serverPaging.onSortChange(
+      next.map((s) => ({ column: s.id, direction: s.desc ? 'desc' : 'asc' }))
+    )
+  }
+
   const table = useReactTable({
     data,
     columns,
@@ -513,10 +570,13 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
     getFilteredRowModel: getFilteredRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
-    onSortingChange: setSorting,
+    manualFiltering: !!serverPaging,
+    manualPagination: !!serverPaging,
+    manualSorting: !!serverPaging,
+    onSortingChange: handleSortingChange,
     onColumnFiltersChange: setColumnFilters,
     state: {
-      sorting,
+      sorting: sortingState,
       columnFilters
     },
     initialState: {
@@ -526,12 +586,43 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
     }
   })
 
-  const activeFilterCount = columnFilters.filter((f) => f.value !== '').length
+  const activeFilterCount = serverPaging
+    ? serverPaging.filters.length
+    : columnFilters.filter((f) => f.value !== '').length
 
   const clearAllFilters = () => {
-    setColumnFilters([])
+    if (serverPaging) {
+      serverPaging.onFiltersChange([])
+    } else {
+      setColumnFilters([])
+    }
   }
 
+  const handleServerFilterChange = (column: string, filter: TableFilter | null) => {
+    if (!serverPaging) return
+    const others = serverPaging.filters.filter((f) => f.column !== column)
+    serverPaging.onFiltersChange(filter ? [...others, filter] : others)
+  }
+
+  // Server paging: pending edits refer to rows on the current page, so stay on it
+  const hasPendingChanges =
+    pendingChanges.updates + pendingChanges.inserts + pendingChanges.deletes > 0
+  const serverNavigationLocked = !!serverPaging && (serverPaging.isLoading || hasPendingChanges)
+  const serverPageCount =
+    serverPaging && serverPaging.totalCount !== null
+      ? Math.max(1, Math.ceil(serverPaging.totalCount / pageSize))
+      : null
+  const serverCanPrevious = !!serverPaging && serverPaging.page > 0 && !serverNavigationLocked
+  const serverCanNext =
+    !!serverPaging &&
+    !serverNavigationLocked &&
+    (serverPageCount !== null ? serverPaging.page < serverPageCount - 1 : data.length === pageSize)
+  const serverTotalLabel = serverPaging
+    ? serverPaging.totalCount === null
+      ? 'unknown'
+      : `${serverPaging.totalCountIsEstimate ? '~' : ''}${serverPaging.totalCount.toLocaleString()}`
+    : ''
+
   return (
     <TooltipProvider>
       <div className="flex flex-col h-full min-h-0">
@@ -564,12 +655,13 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
               </Button>
             )}
 
-            {canEdit && (
+            {canEditTable && (
               <>
                 <div className="h-4 w-px bg-border mx-1" />
                 <EditToolbar
                   isEditMode={isEditMode}
                   canEdit={canEdit}
+                  readOnly={isReadOnly}
                   noPrimaryKey={!hasPrimaryKey}
                   pendingChanges={pendingChanges}
                   isCommitting={isCommitting}
@@ -583,7 +675,15 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
             )}
           </div>
           <div className="text-xs text-muted-foreground">
-            {table.getFilteredRowModel().rows.length} of {data.length} rows
+            {serverPaging ? (
+              <>
+                {data.length} of {serverTotalLabel} rows
+              </>
+            ) : (
+              <>
+                {table.getFilteredRowModel().rows.length} of {data.length} rows
+              </>
+            )}
             {newRows.length > 0 && (
               <span className="text-green-500 ml-2">+{newRows.length} new</span>
             )}
@@ -617,7 +717,16 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
                             key={`filter-${header.id}`}
                             className="h-9 py-1 px-2 bg-muted/80"
                           >
-                            {header.column.getCanFilter() && header.id !== '_select' ? (
+                            {serverPaging && header.id !== '_select' ? (
+                              <TableFilterCell
+                                column={header.id}
+                                dataType={
+                                  columnDefs.find((c) => c.name === header.id)?.dataType ?? ''
+                                }
+                                filter={serverPaging.filters.find((f) => f.column === header.id)}
+                                onChange={(filter) => handleServerFilterChange(header.id, filter)}
+                              />
+                            ) : header.column.getCanFilter() && header.id !== '_select' ? (
                               <Input
                                 placeholder="Filter..."
                                 value={(header.column.getFilterValue() as string) ?? ''}
@@ -707,54 +816,126 @@ export function EditableDataTable<TData extends Record<string, unknown>>({
         </div>
 
         {/* Pagination */}
-        <div className="flex items-center justify-between py-2 shrink-0">
-          <div className="text-xs text-muted-foreground">
-            {table.getFilteredRowModel().rows.length} row(s) total
+        {serverPaging ? (
+          <div className="flex items-center justify-between py-2 shrink-0">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>
+                {data.length > 0
+                  ? `Rows ${(serverPaging.page * pageSize + 1).toLocaleString()}–${(
+                      serverPaging.page * pageSize +
+                      data.length
+                    ).toLocaleString()} of ${serverTotalLabel}`
+                  : `0 of ${serverTotalLabel} rows`}
+              </span>
+              {serverPaging.totalCountIsEstimate && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  disabled={serverPaging.isLoading}
+                  onClick={serverPaging.onCountExactly}
+                >
+                  Count exactly
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="text-xs text-muted-foreground">
+                Page {serverPaging.page + 1}
+                {serverPageCount !== null && ` of ${serverPageCount.toLocaleString()}`}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => serverPaging.onPageChange(0)}
+                  disabled={!serverCanPrevious}
+                >
+                  <ChevronsLeft className="size-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => serverPaging.onPageChange(serverPaging.page - 1)}
+                  disabled={!serverCanPrevious}
+                >
+                  <ChevronLeft className="size-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => serverPaging.onPageChange(serverPaging.page + 1)}
+                  disabled={!serverCanNext}
+                >
+                  <ChevronRight className="size-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() =>
+                    serverPageCount !== null && serverPaging.onPageChange(serverPageCount - 1)
+                  }
+                  disabled={!serverCanNext || serverPageCount === null}
+                >
+                  <ChevronsRight className="size-3.5" />
+                </Button>
+              </div>
+            </div>
           </div>
-          <div className="flex items-center gap-2">
+        ) : (
+          <div className="flex items-center justify-between py-2 shrink-0">
             <div className="text-xs text-muted-foreground">
-              Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
+              {table.getFilteredRowModel().rows.length} row(s) total
             </div>
-            <div className="flex items-center gap-1">
-              <Button
-                variant="outline"
-                size="icon"
-                className="size-7"
-                onClick={() => table.setPageIndex(0)}
-                disabled={!table.getCanPreviousPage()}
-              >
-                <ChevronsLeft className="size-3.5" />
-              </Button>
-              <Button
-                variant="outline"
-                size="icon"
-                className="size-7"
-                onClick={() => table.previousPage()}
-                disabled={!table.getCanPreviousPage()}
-              >
-                <ChevronLeft className="size-3.5" />
-              </Button>
-              <Button
-                variant="outline"
-                size="icon"
-                className="size-7"
-                onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
-              >
-                <ChevronRight className="size-3.5" />
-              </Button>
-              <Button
-                variant="outline"
-                size="icon"
-                className="size-7"
-                onClick={() => table.setPageIndex(table.getPageCount() - 1)}
-                disabled={!table.getCanNextPage()}
-              >
-                <ChevronsRight className="size-3.5" />
-              </Button>
+            <div className="flex items-center gap-2">
+              <div className="text-xs text-muted-foreground">
+                Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => table.setPageIndex(0)}
+                  disabled={!table.getCanPreviousPage()}
+                >
+                  <ChevronsLeft className="size-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => table.previousPage()}
+                  disabled={!table.getCanPreviousPage()}
+                >
+                  <ChevronLeft className="size-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => table.nextPage()}
+                  disabled={!table.getCanNextPage()}
+                >
+                  <ChevronRight className="size-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => table.setPageIndex(table.getPageCount() - 1)}
+                  disabled={!table.getCanNextPage()}
+                >
+                  <ChevronsRight className="size-3.5" />
+                </Button>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* SQL Preview Modal */}
         <SqlPreviewModal
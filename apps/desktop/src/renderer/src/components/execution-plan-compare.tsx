@@ -0,0 +1,185 @@
+import { useMemo } from 'react'
+import { ArrowRight } from 'lucide-react'
+import type { PlanNode } from '@shared/index'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import {
+  alignPlanNodes,
+  compareMetric,
+  formatPlanMetric,
+  getPlanTotals,
+  PLAN_METRICS,
+  type MetricChange,
+  type PlanNodeDiff
+} from '@/lib/execution-plan'
+import type { SavedPlan } from '@/stores/plan-history-store'
+
+interface ExecutionPlanCompareProps {
+  /** The older plan */
+  left: SavedPlan
+  /** The newer plan */
+  right: SavedPlan
+}
+
+const CHANGE_COLORS: Record<MetricChange, string> = {
+  better: 'text-green-600 dark:text-green-400',
+  worse: 'text-red-600 dark:text-red-400',
+  changed: 'text-amber-600 dark:text-amber-400',
+  same: 'text-muted-foreground'
+}
+
+function formatPlanTime(saved: SavedPlan): string {
+  return new Date(saved.createdAt).toLocaleString()
+}
+
+// Relative change, e.g. "-82%"
+function formatChange(left: number, right: number): string {
+  if (left === 0) return right === 0 ? '0%' : 'new'
+  const percent = Math.round(((right - left) / Math.abs(left)) * 100)
+  return `${percent > 0 ? '+' : ''}${percent}%`
+}
+
+// One node of one side of the comparison, with its metrics colored by how they changed
+function PlanDiffCell({
+  node,
+  other,
+  side
+}: {
+  node?: PlanNode
+  other?: PlanNode
+  side: 'left' | 'right'
+}) {
+  if (!node) {
+    return (
+      <div className="rounded border border-dashed border-border/60 px-2 py-1.5 text-[11px] text-muted-foreground/70 italic">
+        Not in this plan
+      </div>
+    )
+  }
+
+  const operatorChanged = other !== undefined && other.nodeType !== node.nodeType
+
+  return (
+    <div className="rounded border border-border/40 px-2 py-1.5 space-y-1">
+      <div className="flex items-center gap-1.5 flex-wrap text-xs">
+        <Badge
+          variant="outline"
+          className={cn(
+            'font-mono text-[11px]',
+            operatorChanged && side === 'right' && 'text-amber-600 border-amber-500/40'
+          )}
+        >
+          {node.nodeType}
+        </Badge>
+        {node.relation && (
+          <span className="text-muted-foreground">
+            on <span className="font-medium text-foreground">{node.relation}</span>
+          </span>
+        )}
+        {node.index && (
+          <span className="text-muted-foreground">
+            using <span className="font-medium text-foreground">{node.index}</span>
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-3 flex-wrap text-[11px] text-muted-foreground">
+        {PLAN_METRICS.map((metric) => {
+          const value = metric.get(node)
+          if (value === undefined) return null
+          const otherValue = other ? metric.get(other) : undefined
+          const change = side === 'right' ? compareMetric(metric, otherValue, value) : undefined
+          return (
+            <span key={metric.key} className={cn(change && CHANGE_COLORS[change])}>
+              {metric.label.toLowerCase()}:{' '}
+              <span className="font-mono">{formatPlanMetric(metric.key, value)}</span>
+              {change && change !== 'same' && otherValue !== undefined && (
+                <span className="ml-0.5">({formatChange(otherValue, value)})</span>
+              )}
+            </span>
+          )
+        })}
+      </div>
+      {node.warnings.length > 0 && (
+        <div className="text-[10px] text-yellow-600 dark:text-yellow-500">
+          {node.warnings.length} warning{node.warnings.length === 1 ? '' : 's'}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PlanDiffRow({ diff, depth }: { diff: PlanNodeDiff; depth: number }) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2" style={{ paddingLeft: depth * 12 }}>
+        <PlanDiffCell node={diff.left} other={diff.right} side="left" />
+        <PlanDiffCell node={diff.right} other={diff.left} side="right" />
+      </div>
+      {diff.children.map((child, index) => (
+        <PlanDiffRow key={index} diff={child} depth={depth + 1} />
+      ))}
+    </>
+  )
+}
+
+/**
+ * Side-by-side comparison of two plans of a query, with matching nodes aligned and
+ * the newer plan's metrics colored by how they changed
+ */
+export function ExecutionPlanCompare({ left, right }: ExecutionPlanCompareProps) {
+  const diff = useMemo(
+    () =>
+      left.plan.root && right.plan.root ? alignPlanNodes(left.plan.root, right.plan.root) : null,
+    [left, right]
+  )
+  const leftTotals = getPlanTotals(left.plan, left.durationMs)
+  const rightTotals = getPlanTotals(right.plan, right.durationMs)
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Totals */}
+      <div className="px-4 py-2 border-b border-border/40 flex items-center gap-4 text-xs shrink-0 flex-wrap">
+        {PLAN_METRICS.map((metric) => {
+          const before = leftTotals[metric.key]
+          const after = rightTotals[metric.key]
+          if (before === undefined && after === undefined) return null
+          const change = compareMetric(metric, before, after)
+          return (
+            <div key={metric.key} className="flex items-center gap-1.5">
+              <span className="text-muted-foreground">{metric.label}:</span>
+              <span className="font-mono">
+                {before !== undefined ? formatPlanMetric(metric.key, before) : '-'}
+              </span>
+              <ArrowRight className="size-3 text-muted-foreground" />
+              <span className={cn('font-mono font-medium', change && CHANGE_COLORS[change])}>
+                {after !== undefined ? formatPlanMetric(metric.key, after) : '-'}
+              </span>
+              {change && change !== 'same' && before !== undefined && after !== undefined && (
+                <span className={cn('text-[10px]', CHANGE_COLORS[change])}>
+                  {formatChange(before, after)}
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Column headers */}
+      <div className="grid grid-cols-2 gap-2 px-4 pt-3 pb-1 text-[11px] text-muted-foreground shrink-0">
+        <span>Before · {formatPlanTime(left)}</span>
+        <span>After · {formatPlanTime(right)}</span>
+      </div>
+
+      {/* Aligned nodes */}
+      <div className="flex-1 overflow-auto px-4 pb-4 space-y-1.5">
+        {diff ? (
+          <PlanDiffRow diff={diff} depth={0} />
+        ) : (
+          <p className="text-xs text-muted-foreground py-6 text-center">
+            One of the plans couldn&apos;t be read as a tree, so the plans can&apos;t be compared.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -16,86 +16,61 @@ import {
   Timer,
   TrendingUp,
   Filter,
-  Database
+  Database,
+  Undo2,
+  ArrowLeft,
+  Download,
+  Eye,
+  GitCompare,
+  History,
+  Trash2
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { ExecutionPlanCompare } from '@/components/execution-plan-compare'
 import { cn } from '@/lib/utils'
-
-// PostgreSQL EXPLAIN JSON plan node structure
-interface PlanNode {
-  'Node Type': string
-  'Parallel Aware'?: boolean
-  'Async Capable'?: boolean
-  'Join Type'?: string
-  'Startup Cost'?: number
-  'Total Cost'?: number
-  'Plan Rows'?: number
-  'Plan Width'?: number
-  'Actual Startup Time'?: number
-  'Actual Total Time'?: number
-  'Actual Rows'?: number
-  'Actual Loops'?: number
-  Output?: string[]
-  Filter?: string
-  'Rows Removed by Filter'?: number
-  'Index Cond'?: string
-  'Index Name'?: string
-  'Relation Name'?: string
-  Schema?: string
-  Alias?: string
-  'Hash Cond'?: string
-  'Merge Cond'?: string
-  'Recheck Cond'?: string
-  'Sort Key'?: string[]
-  'Sort Method'?: string
-  'Sort Space Used'?: number
-  'Sort Space Type'?: string
-  'Group Key'?: string[]
-  'Shared Hit Blocks'?: number
-  'Shared Read Blocks'?: number
-  'Shared Dirtied Blocks'?: number
-  'Shared Written Blocks'?: number
-  'Local Hit Blocks'?: number
-  'Local Read Blocks'?: number
-  'Temp Read Blocks'?: number
-  'Temp Written Blocks'?: number
-  'I/O Read Time'?: number
-  'I/O Write Time'?: number
-  'Workers Planned'?: number
-  'Workers Launched'?: number
-  'Heap Fetches'?: number
-  'Exact Heap Blocks'?: number
-  'Lossy Heap Blocks'?: number
-  Plans?: PlanNode[]
-}
-
-interface ExplainPlan {
-  Plan: PlanNode
-  'Planning Time'?: number
-  'Execution Time'?: number
-  Triggers?: unknown[]
-}
+import { downloadPlanFile, formatCost, getPlanTotals } from '@/lib/execution-plan'
+import { getPlanHistoryKey, notify, usePlanHistoryStore, type SavedPlan } from '@/stores'
+import type { ExecutionPlan, PlanCondition, PlanNode } from '@shared/index'
 
 interface ExecutionPlanViewerProps {
-  plan: ExplainPlan[]
+  plan: ExecutionPlan
   durationMs: number
+  /** Connection and query the plan's history is saved under */
+  connectionId: string
+  query: string
   onClose: () => void
 }
 
+// Label and color of each kind of node condition
+const CONDITION_STYLES: Record<PlanCondition['kind'], { label: string; className: string }> = {
+  index: { label: 'Index Cond:', className: 'text-green-600 dark:text-green-400' },
+  filter: { label: 'Filter:', className: 'text-blue-600 dark:text-blue-400' },
+  recheck: { label: 'Recheck:', className: 'text-purple-600 dark:text-purple-400' },
+  hash: { label: 'Hash Cond:', className: 'text-cyan-600 dark:text-cyan-400' },
+  merge: { label: 'Merge Cond:', className: 'text-amber-600 dark:text-amber-400' },
+  join: { label: 'Join Filter:', className: 'text-sky-600 dark:text-sky-400' }
+}
+
 // Get node type color and icon
-function getNodeTypeInfo(nodeType: string): { color: string; bgColor: string } {
-  const type = nodeType.toLowerCase()
+function getNodeTypeInfo(node: PlanNode): { color: string; bgColor: string } {
+  const type = node.nodeType.toLowerCase()
 
-  if (type.includes('seq scan')) {
+  if (node.fullScan) {
     return { color: 'text-orange-500', bgColor: 'bg-orange-500/10' }
   }
   if (type.includes('index') || type.includes('bitmap')) {
     return { color: 'text-green-500', bgColor: 'bg-green-500/10' }
   }
-  if (type.includes('hash') || type.includes('merge') || type.includes('nested')) {
+  if (
+    type.includes('hash') ||
+    type.includes('merge') ||
+    type.includes('nested') ||
+    type.includes('join')
+  ) {
     return { color: 'text-blue-500', bgColor: 'bg-blue-500/10' }
   }
   if (type.includes('sort') || type.includes('aggregate') || type.includes('group')) {
@@ -144,41 +119,6 @@ function getTimeBarColor(timePercentage: number, actualTimeMs: number): string {
   return '[&>div]:bg-green-500'
 }
 
-// Get warning indicators for potential issues
-function getNodeWarnings(node: PlanNode): string[] {
-  const warnings: string[] = []
-
-  // Check for sequential scans on tables (potential index candidate)
-  if (node['Node Type'] === 'Seq Scan' && (node['Actual Rows'] ?? 0) > 1000) {
-    warnings.push('Sequential scan on large table - consider adding an index')
-  }
-
-  // Check for high filter removals (inefficient filtering)
-  if (node['Rows Removed by Filter'] && node['Actual Rows']) {
-    const ratio =
-      node['Rows Removed by Filter'] / (node['Actual Rows'] + node['Rows Removed by Filter'])
-    if (ratio > 0.9) {
-      warnings.push('High filter selectivity - index may improve performance')
-    }
-  }
-
-  // Check for row estimate vs actual mismatch
-  if (node['Plan Rows'] && node['Actual Rows']) {
-    const estimate = node['Plan Rows']
-    const actual = node['Actual Rows']
-    if (actual > 0 && (estimate / actual > 10 || actual / estimate > 10)) {
-      warnings.push('Row estimate significantly off - consider ANALYZE')
-    }
-  }
-
-  // Check for sorts spilling to disk
-  if (node['Sort Space Type'] === 'Disk') {
-    warnings.push('Sort spilling to disk - consider increasing work_mem')
-  }
-
-  return warnings
-}
-
 // Plan Node Component
 function PlanNodeView({
   node,
@@ -192,11 +132,11 @@ function PlanNodeView({
   maxTime: number
 }) {
   const [isOpen, setIsOpen] = useState(depth < 3)
-  const { color, bgColor } = getNodeTypeInfo(node['Node Type'])
-  const costPercentage = calculateCostPercentage(node['Total Cost'] ?? 0, totalCost)
-  const timePercentage = maxTime > 0 ? ((node['Actual Total Time'] ?? 0) / maxTime) * 100 : 0
-  const warnings = getNodeWarnings(node)
-  const hasChildren = node.Plans && node.Plans.length > 0
+  const { color, bgColor } = getNodeTypeInfo(node)
+  const costPercentage = calculateCostPercentage(node.totalCost ?? 0, totalCost)
+  const timePercentage = maxTime > 0 ? ((node.actualTimeMs ?? 0) / maxTime) * 100 : 0
+  const { warnings, buffers } = node
+  const hasChildren = node.children.length > 0
 
   return (
     <div className={cn('relative', depth > 0 && 'ml-6 border-l border-border/50 pl-4')}>
@@ -218,36 +158,35 @@ function PlanNodeView({
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 flex-wrap">
                   <Badge variant="outline" className={cn('font-mono text-xs', color, bgColor)}>
-                    {node['Node Type']}
+                    {node.nodeType}
                   </Badge>
 
-                  {node['Relation Name'] && (
+                  {node.relation && (
                     <span className="text-xs text-muted-foreground">
                       on{' '}
                       <span className="font-medium text-foreground">
-                        {node['Schema'] ? `${node['Schema']}.` : ''}
-                        {node['Relation Name']}
+                        {node.schema ? `${node.schema}.` : ''}
+                        {node.relation}
                       </span>
-                      {node['Alias'] && node['Alias'] !== node['Relation Name'] && (
-                        <span className="text-muted-foreground"> as {node['Alias']}</span>
+                      {node.alias && node.alias !== node.relation && (
+                        <span className="text-muted-foreground"> as {node.alias}</span>
                       )}
                     </span>
                   )}
 
-                  {node['Index Name'] && (
+                  {node.index && (
                     <span className="text-xs text-muted-foreground">
-                      using{' '}
-                      <span className="font-medium text-foreground">{node['Index Name']}</span>
+                      using <span className="font-medium text-foreground">{node.index}</span>
                     </span>
                   )}
 
-                  {node['Join Type'] && (
+                  {node.joinType && (
                     <Badge variant="outline" className="text-[10px]">
-                      {node['Join Type']}
+                      {node.joinType}
                     </Badge>
                   )}
 
-                  {node['Parallel Aware'] && (
+                  {node.parallel && (
                     <Badge
                       variant="outline"
                       className="text-[10px] text-blue-500 border-blue-500/30"
@@ -257,7 +196,7 @@ function PlanNodeView({
                     </Badge>
                   )}
 
-                  {node['Async Capable'] && (
+                  {node.asyncCapable && (
                     <Badge
                       variant="outline"
                       className="text-[10px] text-purple-500 border-purple-500/30"
@@ -271,64 +210,71 @@ function PlanNodeView({
 
                 {/* Metrics Row - Primary */}
                 <div className="flex items-center gap-4 mt-1.5 text-xs text-muted-foreground flex-wrap">
-                  {node['Actual Rows'] !== undefined && (
+                  {node.actualRows !== undefined && (
                     <span className="flex items-center gap-1">
                       <Rows3 className="size-3" />
-                      <span className="font-mono">{node['Actual Rows'].toLocaleString()}</span> rows
-                      {node['Actual Loops'] && node['Actual Loops'] > 1 && (
-                        <span className="text-muted-foreground/70"> x{node['Actual Loops']}</span>
+                      <span className="font-mono">{node.actualRows.toLocaleString()}</span> rows
+                      {node.actualLoops && node.actualLoops > 1 && (
+                        <span className="text-muted-foreground/70"> x{node.actualLoops}</span>
                       )}
                       {/* Show estimate accuracy */}
-                      {node['Plan Rows'] !== undefined && node['Actual Rows'] !== undefined && (
+                      {node.estimatedRows !== undefined && (
                         <span
                           className={cn(
                             'text-[10px]',
-                            node['Plan Rows'] === node['Actual Rows']
+                            node.estimatedRows === node.actualRows
                               ? 'text-green-500'
-                              : Math.abs(node['Plan Rows'] - node['Actual Rows']) /
-                                    Math.max(node['Plan Rows'], node['Actual Rows'], 1) >
+                              : Math.abs(node.estimatedRows - node.actualRows) /
+                                    Math.max(node.estimatedRows, node.actualRows, 1) >
                                   0.5
                                 ? 'text-orange-500'
                                 : 'text-muted-foreground/70'
                           )}
                         >
-                          (est: {node['Plan Rows'].toLocaleString()})
+                          (est: {node.estimatedRows.toLocaleString()})
                         </span>
                       )}
                     </span>
                   )}
 
-                  {node['Actual Total Time'] !== undefined && (
+                  {/* Estimated rows when the plan wasn't executed */}
+                  {node.actualRows === undefined && node.estimatedRows !== undefined && (
+                    <span className="flex items-center gap-1">
+                      <Rows3 className="size-3" />
+                      <span className="font-mono">~{node.estimatedRows.toLocaleString()}</span> rows
+                      (est)
+                    </span>
+                  )}
+
+                  {node.actualTimeMs !== undefined && (
                     <span className="flex items-center gap-1">
                       <Clock className="size-3" />
-                      <span className="font-mono">{node['Actual Total Time'].toFixed(2)}</span> ms
+                      <span className="font-mono">{node.actualTimeMs.toFixed(2)}</span> ms
                       {/* Show startup time if significant */}
-                      {node['Actual Startup Time'] !== undefined &&
-                        node['Actual Startup Time'] > 0.1 && (
-                          <span className="text-[10px] text-muted-foreground/70">
-                            (startup: {node['Actual Startup Time'].toFixed(2)}ms)
-                          </span>
-                        )}
+                      {node.actualStartupTimeMs !== undefined && node.actualStartupTimeMs > 0.1 && (
+                        <span className="text-[10px] text-muted-foreground/70">
+                          (startup: {node.actualStartupTimeMs.toFixed(2)}ms)
+                        </span>
+                      )}
                     </span>
                   )}
 
-                  {node['Total Cost'] !== undefined && (
+                  {node.totalCost !== undefined && (
                     <span className="flex items-center gap-1">
                       <Activity className="size-3" />
-                      cost: <span className="font-mono">{node['Total Cost'].toFixed(0)}</span>
+                      cost: <span className="font-mono">{formatCost(node.totalCost)}</span>
                       <span className="text-muted-foreground/70">({costPercentage}%)</span>
                     </span>
                   )}
 
                   {/* Parallel workers */}
-                  {node['Workers Launched'] !== undefined && node['Workers Launched'] > 0 && (
+                  {node.workersLaunched !== undefined && node.workersLaunched > 0 && (
                     <span className="flex items-center gap-1 text-blue-500">
                       <Users className="size-3" />
-                      <span className="font-mono">{node['Workers Launched']}</span>
-                      {node['Workers Planned'] &&
-                        node['Workers Launched'] < node['Workers Planned'] && (
-                          <span className="text-orange-500">/{node['Workers Planned']}</span>
-                        )}
+                      <span className="font-mono">{node.workersLaunched}</span>
+                      {node.workersPlanned && node.workersLaunched < node.workersPlanned && (
+                        <span className="text-orange-500">/{node.workersPlanned}</span>
+                      )}
                       workers
                     </span>
                   )}
@@ -337,39 +283,37 @@ function PlanNodeView({
                 {/* Metrics Row - Secondary (I/O, filters, sort) */}
                 <div className="flex items-center gap-4 mt-1 text-xs text-muted-foreground flex-wrap">
                   {/* Buffer stats */}
-                  {node['Shared Hit Blocks'] !== undefined && (
+                  {buffers?.sharedHit !== undefined && (
                     <span className="flex items-center gap-1">
                       <HardDrive className="size-3" />
-                      hits: <span className="font-mono">{node['Shared Hit Blocks']}</span>
-                      {node['Shared Read Blocks'] ? (
-                        <span className="text-orange-500">reads: {node['Shared Read Blocks']}</span>
+                      hits: <span className="font-mono">{buffers.sharedHit}</span>
+                      {buffers.sharedRead ? (
+                        <span className="text-orange-500">reads: {buffers.sharedRead}</span>
                       ) : null}
-                      {node['Shared Dirtied Blocks'] ? (
-                        <span className="text-yellow-500">
-                          dirty: {node['Shared Dirtied Blocks']}
-                        </span>
+                      {buffers.sharedDirtied ? (
+                        <span className="text-yellow-500">dirty: {buffers.sharedDirtied}</span>
                       ) : null}
                     </span>
                   )}
 
                   {/* I/O times */}
-                  {(node['I/O Read Time'] !== undefined ||
-                    node['I/O Write Time'] !== undefined) && (
+                  {(buffers?.ioReadTimeMs !== undefined ||
+                    buffers?.ioWriteTimeMs !== undefined) && (
                     <span className="flex items-center gap-1">
                       <Timer className="size-3" />
-                      {node['I/O Read Time'] !== undefined && (
+                      {buffers.ioReadTimeMs !== undefined && (
                         <span>
                           read:{' '}
                           <span className="font-mono text-orange-500">
-                            {node['I/O Read Time'].toFixed(2)}ms
+                            {buffers.ioReadTimeMs.toFixed(2)}ms
                           </span>
                         </span>
                       )}
-                      {node['I/O Write Time'] !== undefined && (
+                      {buffers.ioWriteTimeMs !== undefined && (
                         <span>
                           write:{' '}
                           <span className="font-mono text-orange-500">
-                            {node['I/O Write Time'].toFixed(2)}ms
+                            {buffers.ioWriteTimeMs.toFixed(2)}ms
                           </span>
                         </span>
                       )}
@@ -377,80 +321,76 @@ function PlanNodeView({
                   )}
 
                   {/* Rows removed by filter */}
-                  {node['Rows Removed by Filter'] !== undefined &&
-                    node['Rows Removed by Filter'] > 0 && (
-                      <span className="flex items-center gap-1">
-                        <Filter className="size-3" />
-                        <span
-                          className={cn(
-                            'font-mono',
-                            node['Rows Removed by Filter'] > (node['Actual Rows'] ?? 0) * 10
-                              ? 'text-orange-500'
-                              : ''
-                          )}
-                        >
-                          -{node['Rows Removed by Filter'].toLocaleString()}
-                        </span>
-                        filtered
+                  {node.rowsRemovedByFilter !== undefined && node.rowsRemovedByFilter > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Filter className="size-3" />
+                      <span
+                        className={cn(
+                          'font-mono',
+                          node.rowsRemovedByFilter > (node.actualRows ?? 0) * 10
+                            ? 'text-orange-500'
+                            : ''
+                        )}
+                      >
+                        -{node.rowsRemovedByFilter.toLocaleString()}
                       </span>
-                    )}
+                      filtered
+                    </span>
+                  )}
 
                   {/* Heap fetches for index scans */}
-                  {node['Heap Fetches'] !== undefined && (
+                  {node.heapFetches !== undefined && (
                     <span className="flex items-center gap-1">
                       <Database className="size-3" />
-                      <span className="font-mono">
-                        {node['Heap Fetches'].toLocaleString()}
-                      </span>{' '}
-                      heap fetches
+                      <span className="font-mono">{node.heapFetches.toLocaleString()}</span> heap
+                      fetches
                     </span>
                   )}
 
                   {/* Temp blocks (spilling to disk) */}
-                  {(node['Temp Read Blocks'] !== undefined ||
-                    node['Temp Written Blocks'] !== undefined) && (
+                  {(buffers?.tempRead !== undefined || buffers?.tempWritten !== undefined) && (
                     <span className="flex items-center gap-1 text-orange-500">
                       <HardDrive className="size-3" />
                       temp:
-                      {node['Temp Read Blocks'] !== undefined && (
-                        <span className="font-mono">r:{node['Temp Read Blocks']}</span>
+                      {buffers.tempRead !== undefined && (
+                        <span className="font-mono">r:{buffers.tempRead}</span>
                       )}
-                      {node['Temp Written Blocks'] !== undefined && (
-                        <span className="font-mono">w:{node['Temp Written Blocks']}</span>
+                      {buffers.tempWritten !== undefined && (
+                        <span className="font-mono">w:{buffers.tempWritten}</span>
                       )}
                     </span>
                   )}
                 </div>
 
                 {/* Sort details */}
-                {node['Sort Key'] && (
+                {node.sortKey && node.sortKey.length > 0 && (
                   <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
                     <ArrowUpDown className="size-3" />
-                    <span className="font-mono text-[11px]">{node['Sort Key'].join(', ')}</span>
-                    {node['Sort Method'] && (
+                    <span className="font-mono text-[11px]">{node.sortKey.join(', ')}</span>
+                    {node.sortMethod && (
                       <Badge variant="outline" className="text-[10px] h-4">
-                        {node['Sort Method']}
+                        {node.sortMethod}
                       </Badge>
                     )}
-                    {node['Sort Space Used'] !== undefined && (
+                    {node.sortSpaceKb !== undefined && (
                       <span
                         className={cn(
                           'text-[10px]',
-                          node['Sort Space Type'] === 'Disk' ? 'text-orange-500' : ''
+                          node.sortSpaceType === 'Disk' ? 'text-orange-500' : ''
                         )}
                       >
-                        {node['Sort Space Used']}kB {node['Sort Space Type']}
+                        {node.sortSpaceKb}kB {node.sortSpaceType}
                       </span>
                     )}
                   </div>
                 )}
 
                 {/* Group key */}
-                {node['Group Key'] && (
+                {node.groupKey && node.groupKey.length > 0 && (
                   <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
                     <TrendingUp className="size-3" />
                     <span className="text-[10px]">GROUP BY</span>
-                    <span className="font-mono text-[11px]">{node['Group Key'].join(', ')}</span>
+                    <span className="font-mono text-[11px]">{node.groupKey.join(', ')}</span>
                   </div>
                 )}
 
@@ -461,49 +401,25 @@ function PlanNodeView({
                       value={timePercentage}
                       className={cn(
                         'h-1.5',
-                        getTimeBarColor(timePercentage, node['Actual Total Time'] ?? 0)
+                        getTimeBarColor(timePercentage, node.actualTimeMs ?? 0)
                       )}
                     />
                   </div>
                 )}
 
                 {/* Filter/Condition Info */}
-                {(node['Filter'] ||
-                  node['Index Cond'] ||
-                  node['Hash Cond'] ||
-                  node['Merge Cond'] ||
-                  node['Recheck Cond']) && (
+                {node.conditions.length > 0 && (
                   <div className="mt-1.5 text-[11px] text-muted-foreground font-mono bg-muted/50 px-2 py-1 rounded space-y-0.5">
-                    {node['Index Cond'] && (
-                      <div className="flex gap-2">
-                        <span className="text-green-600 dark:text-green-400">Index Cond:</span>
-                        <span>{node['Index Cond']}</span>
-                      </div>
-                    )}
-                    {node['Filter'] && (
-                      <div className="flex gap-2">
-                        <span className="text-blue-600 dark:text-blue-400">Filter:</span>
-                        <span>{node['Filter']}</span>
-                      </div>
-                    )}
-                    {node['Recheck Cond'] && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-600 dark:text-purple-400">Recheck:</span>
-                        <span>{node['Recheck Cond']}</span>
-                      </div>
-                    )}
-                    {node['Hash Cond'] && (
-                      <div className="flex gap-2">
-                        <span className="text-cyan-600 dark:text-cyan-400">Hash Cond:</span>
-                        <span>{node['Hash Cond']}</span>
-                      </div>
-                    )}
-                    {node['Merge Cond'] && (
-                      <div className="flex gap-2">
-                        <span className="text-amber-600 dark:text-amber-400">Merge Cond:</span>
-                        <span>{node['Merge Cond']}</span>
+                    {node.conditions.map((condition, i) => (
+                      <div key={i} className="flex gap-2">
+                        <span
+                          className={cn('shrink-0', CONDITION_STYLES[condition.kind].className)}
+                        >
+                          {CONDITION_STYLES[condition.kind].label}
+                        </span>
+                        <span>{condition.expression}</span>
                       </div>
-                    )}
+                    ))}
                   </div>
                 )}
 
@@ -527,7 +443,7 @@ function PlanNodeView({
 
           {hasChildren && (
             <CollapsibleContent>
-              {node.Plans!.map((childNode, index) => (
+              {node.children.map((childNode, index) => (
                 <PlanNodeView
                   key={index}
                   node={childNode}
@@ -544,10 +460,9 @@ function PlanNodeView({
   )
 }
 
-export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlanViewerProps) {
-  const rootPlan = plan[0]?.Plan
-  const planningTime = plan[0]?.['Planning Time']
-  const executionTime = plan[0]?.['Execution Time']
+// Plan body: notices, summary stats and the node tree
+function PlanDetails({ plan }: { plan: ExecutionPlan }) {
+  const rootPlan = plan.root
 
   // Calculate totals for percentage calculations and aggregate stats
   const stats = useMemo(() => {
@@ -559,7 +474,7 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
         totalBufferReads: 0,
         totalTempBlocks: 0,
         nodeCount: 0,
-        hasSeqScan: false,
+        hasFullScan: false,
         hasParallel: false
       }
 
@@ -567,24 +482,24 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
     let totalBufferReads = 0
     let totalTempBlocks = 0
     let nodeCount = 0
-    let hasSeqScan = false
+    let maxCost = 0
+    let hasFullScan = false
     let hasParallel = false
 
     function traverse(node: PlanNode): number {
       nodeCount++
-      let max = node['Actual Total Time'] ?? 0
+      let max = node.actualTimeMs ?? 0
+      maxCost = Math.max(maxCost, node.totalCost ?? 0)
 
-      totalBufferHits += node['Shared Hit Blocks'] ?? 0
-      totalBufferReads += node['Shared Read Blocks'] ?? 0
-      totalTempBlocks += (node['Temp Read Blocks'] ?? 0) + (node['Temp Written Blocks'] ?? 0)
+      totalBufferHits += node.buffers?.sharedHit ?? 0
+      totalBufferReads += node.buffers?.sharedRead ?? 0
+      totalTempBlocks += (node.buffers?.tempRead ?? 0) + (node.buffers?.tempWritten ?? 0)
 
-      if (node['Node Type'] === 'Seq Scan') hasSeqScan = true
-      if (node['Parallel Aware'] || (node['Workers Launched'] ?? 0) > 0) hasParallel = true
+      if (node.fullScan) hasFullScan = true
+      if (node.parallel || (node.workersLaunched ?? 0) > 0) hasParallel = true
 
-      if (node.Plans) {
-        for (const child of node.Plans) {
-          max = Math.max(max, traverse(child))
-        }
+      for (const child of node.children) {
+        max = Math.max(max, traverse(child))
       }
       return max
     }
@@ -592,13 +507,14 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
     const maxTime = traverse(rootPlan)
 
     return {
-      totalCost: rootPlan['Total Cost'] ?? 0,
+      // Grouping nodes (e.g. a batch of statements) have no cost of their own
+      totalCost: rootPlan.totalCost ?? maxCost,
       maxTime,
       totalBufferHits,
       totalBufferReads,
       totalTempBlocks,
       nodeCount,
-      hasSeqScan,
+      hasFullScan,
       hasParallel
     }
   }, [rootPlan])
@@ -607,29 +523,16 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
 
   if (!rootPlan) {
     return (
-      <div className="flex flex-col h-full bg-background border-l border-border">
-        {/* Header */}
-        <div className="flex items-center justify-between px-4 py-3 border-b border-border/40 bg-muted/30 shrink-0">
-          <div className="flex items-center gap-2">
-            <BarChart3 className="size-4 text-primary" />
-            <span className="font-medium text-sm">Query Execution Plan</span>
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center space-y-3">
+          <div className="size-12 rounded-full bg-muted/50 flex items-center justify-center mx-auto">
+            <AlertTriangle className="size-6 text-muted-foreground" />
           </div>
-          <Button variant="ghost" size="icon" className="size-7" onClick={onClose}>
-            <X className="size-4" />
-          </Button>
-        </div>
-        {/* Empty state */}
-        <div className="flex-1 flex items-center justify-center p-6">
-          <div className="text-center space-y-3">
-            <div className="size-12 rounded-full bg-muted/50 flex items-center justify-center mx-auto">
-              <AlertTriangle className="size-6 text-muted-foreground" />
-            </div>
-            <div>
-              <p className="text-sm font-medium">No execution plan available</p>
-              <p className="text-xs text-muted-foreground mt-1">
-                The execution plan format may not be supported for this database type.
-              </p>
-            </div>
+          <div>
+            <p className="text-sm font-medium">No execution plan available</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              The execution plan format may not be supported for this database type.
+            </p>
           </div>
         </div>
       </div>
@@ -637,57 +540,36 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
   }
 
   return (
-    <div className="flex flex-col h-full bg-background border-l border-border">
-      {/* Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border/40 bg-muted/30 shrink-0">
-        <div className="flex items-center gap-2">
-          <BarChart3 className="size-4 text-primary" />
-          <span className="font-medium text-sm">Query Execution Plan</span>
-        </div>
-        <div className="flex items-center gap-3">
-          <div className="flex items-center gap-4 text-xs text-muted-foreground">
-            {planningTime !== undefined && (
-              <span>
-                Planning:{' '}
-                <span className="font-mono text-foreground">{planningTime.toFixed(2)}ms</span>
-              </span>
-            )}
-            {executionTime !== undefined && (
-              <span>
-                Execution:{' '}
-                <span className="font-mono text-foreground">{executionTime.toFixed(2)}ms</span>
-              </span>
-            )}
-            <span>
-              Total: <span className="font-mono text-foreground">{durationMs}ms</span>
-            </span>
-          </div>
-          <Button variant="ghost" size="icon" className="size-7" onClick={onClose}>
-            <X className="size-4" />
-          </Button>
+    <>
+      {/* Rolled back notice for data-modifying statements */}
+      {plan.rolledBack && (
+        <div className="px-4 py-2 border-b border-border/40 flex items-start gap-2 text-xs text-blue-600 dark:text-blue-400 bg-blue-500/5 shrink-0">
+          <Undo2 className="size-3.5 shrink-0 mt-0.5" />
+          <span>
+            This statement modifies data. It was executed in a transaction that was rolled back, so
+            none of its changes were kept.
+          </span>
         </div>
-      </div>
+      )}
 
       {/* Summary Stats */}
       <div className="px-4 py-2 border-b border-border/40 flex items-center gap-4 text-xs shrink-0 flex-wrap">
         <div className="flex items-center gap-1.5">
           <Activity className="size-3 text-muted-foreground" />
           <span className="text-muted-foreground">Cost:</span>
-          <span className="font-mono font-medium">{totalCost.toFixed(0)}</span>
+          <span className="font-mono font-medium">{formatCost(totalCost)}</span>
         </div>
-        {rootPlan['Actual Rows'] !== undefined && (
+        {rootPlan.actualRows !== undefined && (
           <div className="flex items-center gap-1.5">
             <Rows3 className="size-3 text-muted-foreground" />
             <span className="text-muted-foreground">Rows:</span>
-            <span className="font-mono font-medium">
-              {rootPlan['Actual Rows'].toLocaleString()}
-            </span>
+            <span className="font-mono font-medium">{rootPlan.actualRows.toLocaleString()}</span>
           </div>
         )}
-        {rootPlan['Plan Width'] !== undefined && (
+        {rootPlan.rowWidth !== undefined && (
           <div className="flex items-center gap-1.5">
             <span className="text-muted-foreground">Width:</span>
-            <span className="font-mono font-medium">{rootPlan['Plan Width']}B</span>
+            <span className="font-mono font-medium">{rootPlan.rowWidth}B</span>
           </div>
         )}
         {(stats.totalBufferHits > 0 || stats.totalBufferReads > 0) && (
@@ -719,17 +601,32 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
               Parallel
             </Badge>
           )}
-          {stats.hasSeqScan && (
+          {stats.hasFullScan && (
             <Badge
               variant="outline"
               className="text-[10px] h-4 text-orange-500 border-orange-500/30"
             >
-              Seq Scan
+              Full Scan
             </Badge>
           )}
         </div>
       </div>
 
+      {/* Plan-wide warnings (e.g. missing indexes) */}
+      {plan.warnings.length > 0 && (
+        <div className="px-4 py-2 border-b border-border/40 space-y-1 shrink-0">
+          {plan.warnings.map((warning, i) => (
+            <div
+              key={i}
+              className="flex items-start gap-1.5 text-[11px] text-yellow-600 dark:text-yellow-500"
+            >
+              <AlertTriangle className="size-3 shrink-0 mt-0.5" />
+              {warning}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Plan Tree */}
       <div className="flex-1 overflow-auto p-4">
         <PlanNodeView node={rootPlan} depth={0} totalCost={totalCost} maxTime={maxTime} />
@@ -739,7 +636,7 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
       <div className="px-4 py-2 border-t border-border/40 flex items-center gap-4 text-[10px] text-muted-foreground shrink-0">
         <span className="flex items-center gap-1">
           <div className="size-2 rounded bg-orange-500" />
-          Seq Scan
+          Full Scan
         </span>
         <span className="flex items-center gap-1">
           <div className="size-2 rounded bg-green-500" />
@@ -754,6 +651,287 @@ export function ExecutionPlanViewer({ plan, durationMs, onClose }: ExecutionPlan
           Sort/Aggregate
         </span>
       </div>
+    </>
+  )
+}
+
+// Saved plans of the query, to view again or pick two to compare
+function PlanHistoryList({
+  plans,
+  shownId,
+  selectedIds,
+  onToggleSelected,
+  onView,
+  onRemove
+}: {
+  plans: SavedPlan[]
+  shownId: string | undefined
+  selectedIds: string[]
+  onToggleSelected: (id: string) => void
+  onView: (id: string) => void
+  onRemove: (id: string) => void
+}) {
+  if (plans.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6 text-xs text-muted-foreground">
+        No saved plans for this query yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      {plans.map((saved, index) => {
+        const totals = getPlanTotals(saved.plan, saved.durationMs)
+        return (
+          <div
+            key={saved.id}
+            className={cn(
+              'flex items-center gap-3 px-4 py-2 border-b border-border/40 text-xs',
+              saved.id === shownId && 'bg-muted/40'
+            )}
+          >
+            <Checkbox
+              checked={selectedIds.includes(saved.id)}
+              disabled={!selectedIds.includes(saved.id) && selectedIds.length >= 2}
+              onCheckedChange={() => onToggleSelected(saved.id)}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{new Date(saved.createdAt).toLocaleString()}</span>
+                {index === 0 && (
+                  <Badge variant="outline" className="text-[10px] h-4">
+                    Latest
+                  </Badge>
+                )}
+                {!saved.plan.analyzed && (
+                  <Badge variant="outline" className="text-[10px] h-4">
+                    Estimated
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-3 mt-0.5 text-muted-foreground">
+                {totals.cost !== undefined && (
+                  <span>
+                    cost: <span className="font-mono">{formatCost(totals.cost)}</span>
+                  </span>
+                )}
+                {totals.time !== undefined && (
+                  <span>
+                    time: <span className="font-mono">{totals.time.toFixed(2)}ms</span>
+                  </span>
+                )}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              title="View plan"
+              onClick={() => onView(saved.id)}
+            >
+              <Eye className="size-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              title="Delete plan"
+              onClick={() => onRemove(saved.id)}
+            >
+              <Trash2 className="size-3.5" />
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const EMPTY_HISTORY: SavedPlan[] = []
+
+export function ExecutionPlanViewer({
+  plan,
+  durationMs,
+  connectionId,
+  query,
+  onClose
+}: ExecutionPlanViewerProps) {
+  const history =
+    usePlanHistoryStore((state) => state.plans[getPlanHistoryKey(connectionId, query)]) ??
+    EMPTY_HISTORY
+  const removePlan = usePlanHistoryStore((state) => state.removePlan)
+  const clearPlans = usePlanHistoryStore((state) => state.clearPlans)
+
+  const [view, setView] = useState<'plan' | 'history' | 'compare'>('plan')
+  const [shownPlanId, setShownPlanId] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+
+  // A plan picked from the history, else the plan that was just explained
+  const shownPlan = history.find((saved) => saved.id === shownPlanId)
+  const shown = shownPlan ?? { plan, durationMs, createdAt: undefined }
+  const planningTime = shown.plan.planningTimeMs
+  const executionTime = shown.plan.executionTimeMs
+
+  // Older plan on the left
+  const compared = history
+    .filter((saved) => compareIds.includes(saved.id))
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  const handleToggleCompare = (id: string) => {
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]))
+  }
+
+  const handleRemove = (id: string) => {
+    removePlan(connectionId, query, id)
+    setCompareIds((ids) => ids.filter((i) => i !== id))
+    if (shownPlanId === id) setShownPlanId(null)
+  }
+
+  const handleClear = () => {
+    clearPlans(connectionId, query)
+    setCompareIds([])
+    setShownPlanId(null)
+  }
+
+  const handleExport = () => {
+    if (!downloadPlanFile(shown.plan, shown.createdAt)) {
+      notify.error('Export failed', 'This plan has no source to export')
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-background border-l border-border">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border/40 bg-muted/30 shrink-0">
+        <div className="flex items-center gap-2">
+          {view !== 'plan' && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              title="Back to plan"
+              onClick={() => setView(view === 'compare' ? 'history' : 'plan')}
+            >
+              <ArrowLeft className="size-4" />
+            </Button>
+          )}
+          <BarChart3 className="size-4 text-primary" />
+          <span className="font-medium text-sm">
+            {view === 'history'
+              ? 'Plan History'
+              : view === 'compare'
+                ? 'Compare Plans'
+                : 'Query Execution Plan'}
+          </span>
+          {view === 'plan' && !shown.plan.analyzed && (
+            <Badge variant="outline" className="text-[10px] h-4">
+              Estimated
+            </Badge>
+          )}
+          {view === 'plan' && shownPlan && (
+            <Badge variant="outline" className="text-[10px] h-4">
+              {new Date(shownPlan.createdAt).toLocaleString()}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {view === 'plan' && (
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+              {planningTime !== undefined && (
+                <span>
+                  Planning:{' '}
+                  <span className="font-mono text-foreground">{planningTime.toFixed(2)}ms</span>
+                </span>
+              )}
+              {executionTime !== undefined && (
+                <span>
+                  Execution:{' '}
+                  <span className="font-mono text-foreground">{executionTime.toFixed(2)}ms</span>
+                </span>
+              )}
+              <span>
+                Total: <span className="font-mono text-foreground">{shown.durationMs}ms</span>
+              </span>
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            {view === 'plan' && shown.plan.source && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                title="Export plan for other plan visualizers"
+                onClick={handleExport}
+              >
+                <Download className="size-4" />
+              </Button>
+            )}
+            {view === 'plan' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-xs"
+                title="Saved plans of this query"
+                onClick={() => setView('history')}
+              >
+                <History className="size-3.5" />
+                {history.length}
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="size-7" onClick={onClose}>
+              <X className="size-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {view === 'plan' && <PlanDetails plan={shown.plan} />}
+
+      {view === 'history' && (
+        <>
+          <PlanHistoryList
+            plans={history}
+            shownId={shownPlan?.id ?? history[0]?.id}
+            selectedIds={compareIds}
+            onToggleSelected={handleToggleCompare}
+            onView={(id) => {
+              setShownPlanId(id)
+              setView('plan')
+            }}
+            onRemove={handleRemove}
+          />
+          <div className="px-4 py-2 border-t border-border/40 flex items-center justify-between gap-2 shrink-0">
+            <span className="text-[11px] text-muted-foreground">
+              Select two plans to compare them
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={history.length === 0}
+                onClick={handleClear}
+              >
+                Clear
+              </Button>
+              <Button
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                disabled={compared.length !== 2}
+                onClick={() => setView('compare')}
+              >
+                <GitCompare className="size-3.5" />
+                Compare
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {view === 'compare' && compared.length === 2 && (
+        <ExecutionPlanCompare left={compared[0]} right={compared[1]} />
+      )}
     </div>
   )
 }
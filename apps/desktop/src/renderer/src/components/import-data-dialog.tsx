@@ -0,0 +1,511 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, CheckCircle2, FileUp, Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { useConnectionStore } from '@/stores'
+import {
+  IMPORT_COLUMN_TYPES,
+  IMPORT_FILE_FILTERS,
+  buildDefaultMappings,
+  formatPreviewValue,
+  toImportColumnType
+} from '@/lib/import'
+import type {
+  ImportColumnMapping,
+  ImportColumnType,
+  ImportFileData,
+  ImportResult
+} from '@shared/index'
+
+const PREVIEW_ROW_COUNT = 10
+const DEFAULT_BATCH_SIZE = 500
+const SKIP_COLUMN = '__skip__'
+
+type ImportStep = 'file' | 'configure' | 'result'
+type TargetMode = 'existing' | 'new'
+
+interface ImportDataDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Preselect a target table (e.g. when opened from a table's menu) */
+  initialSchema?: string
+  initialTable?: string
+}
+
+// Suggest a table name from the file name (customers-2024.csv -> customers_2024)
+function tableNameFromFile(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^A-Za-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase()
+}
+
+export function ImportDataDialog({
+  open,
+  onOpenChange,
+  initialSchema,
+  initialTable
+}: ImportDataDialogProps) {
+  const activeConnection = useConnectionStore((s) => s.getActiveConnection())
+  const schemas = useConnectionStore((s) => s.schemas)
+  const fetchSchemas = useConnectionStore((s) => s.fetchSchemas)
+
+  const [step, setStep] = useState<ImportStep>('file')
+  const [file, setFile] = useState<ImportFileData | null>(null)
+  const [isReadingFile, setIsReadingFile] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [targetMode, setTargetMode] = useState<TargetMode>('existing')
+  const [schema, setSchema] = useState('')
+  const [table, setTable] = useState('')
+  const [newTableName, setNewTableName] = useState('')
+  const [mappings, setMappings] = useState<ImportColumnMapping[]>([])
+  const [batchSize, setBatchSize] = useState(String(DEFAULT_BATCH_SIZE))
+  const [dryRun, setDryRun] = useState(false)
+
+  const [isImporting, setIsImporting] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const schemaInfo = schemas.find((s) => s.name === schema)
+  const tables = useMemo(
+    () => (schemaInfo?.tables ?? []).filter((t) => t.type === 'table'),
+    [schemaInfo]
+  )
+  const tableColumns = useMemo(() => tables.find((t) => t.name === table)?.columns, [tables, table])
+
+  // Start over each time the dialog opens (not when the schema refreshes after an import)
+  useEffect(() => {
+    if (!open) return
+    const { schemas } = useConnectionStore.getState()
+    setStep('file')
+    setFile(null)
+    setError(null)
+    setResult(null)
+    setDryRun(false)
+    setBatchSize(String(DEFAULT_BATCH_SIZE))
+    setTargetMode(initialTable ? 'existing' : 'new')
+    setSchema(initialSchema ?? schemas[0]?.name ?? '')
+    setTable(initialTable ?? '')
+    setNewTableName('')
+    setMappings([])
+  }, [open, initialSchema, initialTable])
+
+  // Re-map when the file or the target table changes
+  useEffect(() => {
+    if (!file) return
+    setMappings(buildDefaultMappings(file, targetMode === 'existing' ? tableColumns : undefined))
+  }, [file, targetMode, tableColumns])
+
+  const handleChooseFile = async () => {
+    const picked = await window.api.files.openFile({
+      title: 'Select a file to import',
+      filters: IMPORT_FILE_FILTERS
+    })
+    if (!picked.success || !picked.data) return
+
+    setIsReadingFile(true)
+    setError(null)
+    try {
+      const response = await window.api.dataImport.readFile(picked.data)
+      if (response.success && response.data) {
+        setFile(response.data)
+        setNewTableName(tableNameFromFile(response.data.fileName))
+        setStep('configure')
+      } else {
+        setError(response.error ?? 'Failed to read file')
+      }
+    } finally {
+      setIsReadingFile(false)
+    }
+  }
+
+  const updateMapping = (sourceColumn: string, changes: Partial<ImportColumnMapping>) => {
+    setMappings((prev) =>
+      prev.map((m) => (m.sourceColumn === sourceColumn ? { ...m, ...changes } : m))
+    )
+  }
+
+  const activeMappings = mappings.filter((m) => m.targetColumn.trim())
+  const targetTable = targetMode === 'existing' ? table : newTableName.trim()
+  const canRun = !!file && !!targetTable && activeMappings.length > 0 && !isImporting
+
+  const handleRun = async () => {
+    if (!file || !activeConnection || !canRun) return
+
+    setIsImporting(true)
+    setError(null)
+    try {
+      const response = await window.api.dataImport.run(activeConnection, {
+        schema,
+        table: targetTable,
+        createTable: targetMode === 'new',
+        mappings: activeMappings.map((m) => ({ ...m, targetColumn: m.targetColumn.trim() })),
+        rows: file.rows,
+        batchSize: Number(batchSize) || DEFAULT_BATCH_SIZE,
+        dryRun
+      })
+
+      if (response.success && response.data) {
+        setResult(response.data)
+        setStep('result')
+        if (!response.data.dryRun) {
+          fetchSchemas(activeConnection.id, true)
+        }
+      } else {
+        setError(response.error ?? 'Import failed')
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const previewRows = file?.rows.slice(0, PREVIEW_ROW_COUNT) ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="size-4" />
+            Import Data
+          </DialogTitle>
+          <DialogDescription>
+            Load a CSV, JSON or Excel file into an existing table or a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="flex flex-col items-center justify-center gap-3 py-10">
+            <FileUp className="size-8 text-muted-foreground" />
+            <Button onClick={handleChooseFile} disabled={isReadingFile} className="gap-1.5">
+              {isReadingFile && <Loader2 className="size-3.5 animate-spin" />}
+              {isReadingFile ? 'Reading file...' : 'Choose File...'}
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              .csv, .tsv, .json, .ndjson or .xlsx (first sheet)
+            </p>
+          </div>
+        )}
+
+        {step === 'configure' && file && (
+          <div className="flex-1 min-h-0 space-y-4 overflow-auto py-2 pr-1">
+            {/* File */}
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium truncate">{file.fileName}</span>
+              <Badge variant="outline" className="uppercase text-[10px]">
+                {file.format}
+              </Badge>
+              {file.sheetName && (
+                <span className="text-xs text-muted-foreground">sheet {file.sheetName}</span>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {file.rows.length.toLocaleString()} rows
+              </span>
+              <Button
+                variant="link"
+                size="sm"
+                className="ml-auto h-auto p-0 text-xs"
+                onClick={handleChooseFile}
+              >
+                Change file
+              </Button>
+            </div>
+
+            {/* Target */}
+            <div className="space-y-2">
+              <Label>Target</Label>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={targetMode}
+                  onValueChange={(value) => setTargetMode(value as TargetMode)}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="existing">Existing table</SelectItem>
+                    <SelectItem value="new">New table</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={schema}
+                  onValueChange={(value) => {
+                    setSchema(value)
+                    setTable('')
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Schema" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schemas.map((s) => (
+                      <SelectItem key={s.name} value={s.name}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {targetMode === 'existing' ? (
+                  <Select value={table} onValueChange={setTable}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a table" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tables.map((t) => (
+                        <SelectItem key={t.name} value={t.name}>
+                          {t.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    placeholder="New table name"
+                    value={newTableName}
+                    onChange={(e) => setNewTableName(e.target.value)}
+                    className="flex-1"
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* Column mapping */}
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <div className="rounded-md border divide-y">
+                {mappings.map((mapping) => (
+                  <div key={mapping.sourceColumn} className="flex items-center gap-2 px-2 py-1.5">
+                    <span className="w-40 shrink-0 truncate font-mono text-xs">
+                      {mapping.sourceColumn}
+                    </span>
+                    <span className="text-xs text-muted-foreground">→</span>
+                    {targetMode === 'existing' ? (
+                      <Select
+                        value={mapping.targetColumn || SKIP_COLUMN}
+                        onValueChange={(value) => {
+                          const column = tableColumns?.find((c) => c.name === value)
+                          updateMapping(mapping.sourceColumn, {
+                            targetColumn: value === SKIP_COLUMN ? '' : value,
+                            ...(column && { type: toImportColumnType(column.dataType) })
+                          })
+                        }}
+                      >
+                        <SelectTrigger className="h-8 flex-1 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={SKIP_COLUMN} className="text-xs">
+                            Skip column
+                          </SelectItem>
+                          {(tableColumns ?? []).map((c) => (
+                            <SelectItem key={c.name} value={c.name} className="text-xs">
+                              {c.name}
+                              <span className="text-muted-foreground"> {c.dataType}</span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        placeholder="Skip column"
+                        value={mapping.targetColumn}
+                        onChange={(e) =>
+                          updateMapping(mapping.sourceColumn, { targetColumn: e.target.value })
+                        }
+                        className="h-8 flex-1 font-mono text-xs"
+                      />
+                    )}
+                    <Select
+                      value={mapping.type}
+                      onValueChange={(value) =>
+                        updateMapping(mapping.sourceColumn, { type: value as ImportColumnType })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-32 shrink-0 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {IMPORT_COLUMN_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value} className="text-xs">
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            {activeMappings.length > 0 && (
+              <div className="space-y-2">
+                <Label>
+                  Preview{' '}
+                  <span className="font-normal text-muted-foreground">
+                    (first {Math.min(PREVIEW_ROW_COUNT, file.rows.length)} of{' '}
+                    {file.rows.length.toLocaleString()} rows)
+                  </span>
+                </Label>
+                <div className="overflow-auto rounded-md border max-h-56">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/50 sticky top-0">
+                      <tr>
+                        {activeMappings.map((m) => (
+                          <th
+                            key={m.sourceColumn}
+                            className="px-2 py-1 text-left font-medium whitespace-nowrap"
+                          >
+                            {m.targetColumn}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                      {previewRows.map((row, index) => (
+                        <tr key={index} className="border-t">
+                          {activeMappings.map((m) => (
+                            <td
+                              key={m.sourceColumn}
+                              className="px-2 py-1 max-w-48 truncate whitespace-nowrap"
+                            >
+                              {formatPreviewValue(row[m.sourceColumn])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Options */}
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="import-batch-size" className="text-sm font-normal">
+                  Rows per transaction
+                </Label>
+                <Input
+                  id="import-batch-size"
+                  type="number"
+                  min={1}
+                  value={batchSize}
+                  onChange={(e) => setBatchSize(e.target.value)}
+                  className="h-8 w-24"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="import-dry-run"
+                  checked={dryRun}
+                  onCheckedChange={(checked) => setDryRun(checked === true)}
+                />
+                <Label htmlFor="import-dry-run" className="text-sm font-normal cursor-pointer">
+                  Dry run (validate only, nothing is written)
+                </Label>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'result' && result && (
+          <div className="flex-1 min-h-0 space-y-3 overflow-auto py-2">
+            <div className="flex items-center gap-2 text-sm">
+              {result.failedRows === 0 ? (
+                <CheckCircle2 className="size-4 text-green-500" />
+              ) : (
+                <AlertCircle className="size-4 text-yellow-500" />
+              )}
+              <span>
+                {result.dryRun
+                  ? `Dry run: ${result.insertedRows.toLocaleString()} of ${result.totalRows.toLocaleString()} rows are valid`
+                  : `Imported ${result.insertedRows.toLocaleString()} of ${result.totalRows.toLocaleString()} rows`}
+                {result.failedRows > 0 && `, ${result.failedRows.toLocaleString()} failed`}
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground">{result.durationMs}ms</span>
+            </div>
+
+            {result.createTableSql && (
+              <div className="space-y-1">
+                <Label className="text-xs">
+                  {result.dryRun ? 'Table that would be created' : 'Created table'}
+                </Label>
+                <pre className="text-xs font-mono bg-muted/50 rounded-md px-3 py-2 max-h-32 overflow-auto">
+                  {result.createTableSql}
+                </pre>
+              </div>
+            )}
+
+            {result.errors.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Row errors</Label>
+                <div className="rounded-md border divide-y max-h-64 overflow-auto">
+                  {result.errors.map((rowError) => (
+                    <div key={rowError.rowIndex} className="flex gap-3 px-2 py-1 text-xs">
+                      <span className="w-16 shrink-0 text-muted-foreground">
+                        Row {rowError.rowIndex + 1}
+                      </span>
+                      <span className="text-red-500 break-all">{rowError.message}</span>
+                    </div>
+                  ))}
+                </div>
+                {result.errorsTruncated && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {result.errors.length.toLocaleString()} errors.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500 break-all">{error}</p>}
+
+        <DialogFooter>
+          {step === 'result' ? (
+            <>
+              <Button variant="outline" onClick={() => setStep('configure')}>
+                Back
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              {step === 'configure' && (
+                <Button onClick={handleRun} disabled={!canRun} className="gap-1.5">
+                  {isImporting && <Loader2 className="size-3.5 animate-spin" />}
+                  {dryRun ? 'Validate' : 'Import'}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
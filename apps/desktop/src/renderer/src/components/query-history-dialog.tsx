@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useCallback } from 'react'
 import {
   Clock,
   Copy,
@@ -11,7 +11,10 @@ import {
   CheckCircle2,
   XCircle,
   Calendar,
-  Filter
+  Filter,
+  FilePlus,
+  Settings2,
+  Loader2
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -26,8 +29,16 @@ import {
 } from '@/components/ui/select'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { useQueryStore, useConnectionStore, useTabStore } from '@/stores'
+import {
+  useQueryStore,
+  useConnectionStore,
+  useTabStore,
+  toHistoryItem,
+  notify,
+  type QueryHistoryItem
+} from '@/stores'
 import { cn } from '@/lib/utils'
+import type { QueryHistoryFilter, QueryHistoryRetention } from '@shared/index'
 
 interface QueryHistoryDialogProps {
   open: boolean
@@ -84,75 +95,135 @@ function getQueryTypeColor(type: string): string {
 
 type FilterStatus = 'all' | 'success' | 'error'
 type FilterType = 'all' | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'DDL'
+type FilterDate = 'all' | 'today' | '7d' | '30d'
+
+const PAGE_SIZE = 100
+const SEARCH_DEBOUNCE_MS = 250
+
+const STATEMENT_TYPES: Record<Exclude<FilterType, 'all'>, string[]> = {
+  SELECT: ['SELECT', 'WITH'],
+  INSERT: ['INSERT'],
+  UPDATE: ['UPDATE'],
+  DELETE: ['DELETE'],
+  DDL: ['CREATE', 'ALTER', 'DROP']
+}
+
+const RETENTION_ENTRY_OPTIONS = [
+  { value: 1000, label: '1,000 queries' },
+  { value: 10000, label: '10,000 queries' },
+  { value: 100000, label: '100,000 queries' },
+  { value: 0, label: 'Unlimited' }
+]
+
+const RETENTION_AGE_OPTIONS = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: 0, label: 'Forever' }
+]
+
+function getDateFrom(filter: FilterDate): number | undefined {
+  if (filter === 'all') return undefined
+  const start = new Date()
+  start.setHours(0, 0, 0, 0)
+  if (filter === '7d') start.setDate(start.getDate() - 6)
+  if (filter === '30d') start.setDate(start.getDate() - 29)
+  return start.getTime()
+}
 
 export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogProps) {
-  const history = useQueryStore((s) => s.history)
   const removeFromHistory = useQueryStore((s) => s.removeFromHistory)
   const clearHistory = useQueryStore((s) => s.clearHistory)
   const connections = useConnectionStore((s) => s.connections)
   const activeConnectionId = useConnectionStore((s) => s.activeConnectionId)
   const createQueryTab = useTabStore((s) => s.createQueryTab)
-  const updateTabQuery = useTabStore((s) => s.updateTabQuery)
 
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('all')
   const [filterType, setFilterType] = useState<FilterType>('all')
+  const [filterDate, setFilterDate] = useState<FilterDate>('all')
   const [selectedConnection, setSelectedConnection] = useState<string>('all')
 
-  // Filter history
-  const filteredHistory = useMemo(() => {
-    return history.filter((item) => {
-      // Search filter
-      if (searchQuery && !item.query.toLowerCase().includes(searchQuery.toLowerCase())) {
-        return false
-      }
-
-      // Status filter
-      if (filterStatus !== 'all' && item.status !== filterStatus) {
-        return false
-      }
+  const [entries, setEntries] = useState<QueryHistoryItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [showRetention, setShowRetention] = useState(false)
+  const [retention, setRetention] = useState<QueryHistoryRetention | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const filter = useMemo<QueryHistoryFilter>(
+    () => ({
+      search: debouncedSearch || undefined,
+      status: filterStatus === 'all' ? undefined : filterStatus,
+      statementTypes: filterType === 'all' ? undefined : STATEMENT_TYPES[filterType],
+      connectionId: selectedConnection === 'all' ? undefined : selectedConnection,
+      from: getDateFrom(filterDate)
+    }),
+    [debouncedSearch, filterStatus, filterType, selectedConnection, filterDate]
+  )
 
-      // Type filter
-      if (filterType !== 'all') {
-        const queryType = getQueryType(item.query)
-        if (filterType === 'DDL') {
-          if (!['CREATE', 'ALTER', 'DROP'].includes(queryType)) return false
-        } else if (queryType !== filterType) {
-          return false
+  const hasFilters =
+    !!filter.search ||
+    !!filter.status ||
+    !!filter.statementTypes ||
+    !!filter.connectionId ||
+    !!filter.from
+
+  const loadEntries = useCallback(
+    async (offset: number) => {
+      setIsLoading(true)
+      try {
+        const response = await window.api.history.search({ ...filter, limit: PAGE_SIZE, offset })
+        if (response.success && response.data) {
+          const page = response.data.entries.map(toHistoryItem)
+          setEntries((prev) => (offset === 0 ? page : [...prev, ...page]))
+          setTotal(response.data.total)
+        } else {
+          notify.error('Could not load query history', response.error)
         }
+      } finally {
+        setIsLoading(false)
       }
+    },
+    [filter]
+  )
 
-      // Connection filter
-      if (selectedConnection !== 'all' && item.connectionId !== selectedConnection) {
-        return false
-      }
+  useEffect(() => {
+    if (open) loadEntries(0)
+  }, [open, loadEntries])
 
-      return true
+  useEffect(() => {
+    if (!open) return
+    window.api.history.getRetention().then((response) => {
+      if (response.success && response.data) setRetention(response.data)
     })
-  }, [history, searchQuery, filterStatus, filterType, selectedConnection])
+  }, [open])
 
   // Group by date
   const groupedHistory = useMemo(() => {
-    const groups: { label: string; items: typeof history }[] = []
+    const groups: { label: string; items: QueryHistoryItem[] }[] = []
     const today = new Date()
     const yesterday = new Date(today)
     yesterday.setDate(yesterday.getDate() - 1)
 
-    const todayItems = filteredHistory.filter((item) => {
-      const itemDate = new Date(item.timestamp)
-      return itemDate.toDateString() === today.toDateString()
+    const todayItems = entries.filter((item) => {
+      return item.timestamp.toDateString() === today.toDateString()
     })
 
-    const yesterdayItems = filteredHistory.filter((item) => {
-      const itemDate = new Date(item.timestamp)
-      return itemDate.toDateString() === yesterday.toDateString()
+    const yesterdayItems = entries.filter((item) => {
+      return item.timestamp.toDateString() === yesterday.toDateString()
     })
 
-    const olderItems = filteredHistory.filter((item) => {
-      const itemDate = new Date(item.timestamp)
+    const olderItems = entries.filter((item) => {
       return (
-        itemDate.toDateString() !== today.toDateString() &&
-        itemDate.toDateString() !== yesterday.toDateString()
+        item.timestamp.toDateString() !== today.toDateString() &&
+        item.timestamp.toDateString() !== yesterday.toDateString()
       )
     })
 
@@ -161,15 +232,15 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
     if (olderItems.length > 0) groups.push({ label: 'Older', items: olderItems })
 
     return groups
-  }, [filteredHistory])
+  }, [entries])
 
-  const handleRunQuery = (query: string, connectionId: string) => {
+  const openInNewTab = (item: QueryHistoryItem, run: boolean) => {
     // Find or use active connection
-    const targetConnectionId = connectionId || activeConnectionId
+    const connectionExists = connections.some((c) => c.id === item.connectionId)
+    const targetConnectionId = connectionExists ? item.connectionId : activeConnectionId
     if (!targetConnectionId) return
 
-    const tabId = createQueryTab(targetConnectionId)
-    updateTabQuery(tabId, query)
+    createQueryTab(targetConnectionId, item.query, { runOnOpen: run })
     onOpenChange(false)
   }
 
@@ -177,9 +248,33 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
     navigator.clipboard.writeText(query)
   }
 
-  const getConnectionName = (connectionId: string) => {
-    const conn = connections.find((c) => c.id === connectionId)
-    return conn?.name || 'Unknown'
+  const handleDelete = async (id: string) => {
+    await removeFromHistory(id)
+    setEntries((prev) => prev.filter((item) => item.id !== id))
+    setTotal((prev) => Math.max(0, prev - 1))
+  }
+
+  const handleClearAll = async () => {
+    if (!confirm('Clear all query history?')) return
+    await clearHistory()
+    setEntries([])
+    setTotal(0)
+  }
+
+  const handleRetentionChange = async (changes: Partial<QueryHistoryRetention>) => {
+    if (!retention) return
+    const response = await window.api.history.setRetention({ ...retention, ...changes })
+    if (response.success && response.data) {
+      setRetention(response.data)
+      loadEntries(0)
+    } else {
+      notify.error('Could not update history retention', response.error)
+    }
+  }
+
+  const getConnectionName = (item: QueryHistoryItem) => {
+    const conn = connections.find((c) => c.id === item.connectionId)
+    return conn?.name || item.connectionName || 'Unknown'
   }
 
   return (
@@ -190,8 +285,9 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
             <Clock className="size-4" />
             Query History
             <Badge variant="secondary" className="ml-2">
-              {filteredHistory.length} queries
+              {total.toLocaleString()} queries
             </Badge>
+            {isLoading && <Loader2 className="size-3.5 animate-spin text-muted-foreground" />}
           </DialogTitle>
         </DialogHeader>
 
@@ -201,7 +297,7 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
             <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
             <Input
               type="text"
-              placeholder="Search queries..."
+              placeholder="Search queries and errors..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-9 pr-9"
@@ -249,6 +345,18 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
               </SelectContent>
             </Select>
 
+            <Select value={filterDate} onValueChange={(v) => setFilterDate(v as FilterDate)}>
+              <SelectTrigger className="w-[130px] h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any time</SelectItem>
+                <SelectItem value="today">Today</SelectItem>
+                <SelectItem value="7d">Last 7 days</SelectItem>
+                <SelectItem value="30d">Last 30 days</SelectItem>
+              </SelectContent>
+            </Select>
+
             {connections.length > 1 && (
               <Select value={selectedConnection} onValueChange={setSelectedConnection}>
                 <SelectTrigger className="w-[150px] h-8 text-xs">
@@ -265,22 +373,69 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
               </Select>
             )}
 
-            {history.length > 0 && (
+            <div className="flex items-center gap-1 ml-auto">
               <Button
-                variant="ghost"
+                variant={showRetention ? 'secondary' : 'ghost'}
                 size="sm"
-                className="h-8 text-xs text-red-500 hover:text-red-600 hover:bg-red-500/10 ml-auto"
-                onClick={() => {
-                  if (confirm('Clear all query history?')) {
-                    clearHistory()
-                  }
-                }}
+                className="h-8 text-xs"
+                onClick={() => setShowRetention((prev) => !prev)}
               >
-                <Trash2 className="size-3.5 mr-1.5" />
-                Clear All
+                <Settings2 className="size-3.5 mr-1.5" />
+                Retention
               </Button>
-            )}
+              {total > 0 && !hasFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 text-xs text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                  onClick={handleClearAll}
+                >
+                  <Trash2 className="size-3.5 mr-1.5" />
+                  Clear All
+                </Button>
+              )}
+            </div>
           </div>
+
+          {showRetention && retention && (
+            <div className="flex items-center gap-2 flex-wrap rounded-md border bg-muted/30 px-3 py-2">
+              <span className="text-xs text-muted-foreground">Keep at most</span>
+              <Select
+                value={String(retention.maxEntries)}
+                onValueChange={(v) => handleRetentionChange({ maxEntries: Number(v) })}
+              >
+                <SelectTrigger className="w-[140px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_ENTRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">for</span>
+              <Select
+                value={String(retention.maxAgeDays)}
+                onValueChange={(v) => handleRetentionChange({ maxAgeDays: Number(v) })}
+              >
+                <SelectTrigger className="w-[110px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_AGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">
+                Older queries are removed automatically.
+              </span>
+            </div>
+          )}
         </div>
 
         {/* History List */}
@@ -288,7 +443,7 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
           <div className="p-4 space-y-6">
             {groupedHistory.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
-                {history.length === 0 ? (
+                {isLoading ? null : !hasFilters ? (
                   <div className="space-y-2">
                     <Clock className="size-8 mx-auto opacity-50" />
                     <p>No query history yet</p>
@@ -333,7 +488,10 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
                                 ) : (
                                   <XCircle className="size-3.5 text-red-500" />
                                 )}
-                                <span className="text-xs text-muted-foreground">
+                                <span
+                                  className="text-xs text-muted-foreground"
+                                  title={item.timestamp.toLocaleString()}
+                                >
                                   {formatRelativeTime(item.timestamp)}
                                 </span>
                                 {item.status === 'success' && (
@@ -346,10 +504,14 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
                                     </span>
                                   </>
                                 )}
-                                {connections.length > 1 && (
-                                  <Badge variant="outline" className="text-[10px]">
-                                    {getConnectionName(item.connectionId)}
-                                  </Badge>
+                                <Badge variant="outline" className="text-[10px]">
+                                  {getConnectionName(item)}
+                                  {item.database && ` / ${item.database}`}
+                                </Badge>
+                                {item.tabTitle && (
+                                  <span className="text-xs text-muted-foreground truncate max-w-[160px]">
+                                    in {item.tabTitle}
+                                  </span>
                                 )}
                               </div>
                               <pre className="text-xs font-mono text-foreground/90 whitespace-pre-wrap break-all bg-muted/50 rounded px-2 py-1.5 max-h-[100px] overflow-auto">
@@ -368,11 +530,27 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
                                       variant="ghost"
                                       size="icon"
                                       className="size-7"
-                                      onClick={() => handleRunQuery(item.query, item.connectionId)}
+                                      onClick={() => openInNewTab(item, true)}
                                     >
                                       <Play className="size-3.5" />
                                     </Button>
                                   </TooltipTrigger>
+                                  <TooltipContent>Re-run in new tab</TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="size-7"
+                                      onClick={() => openInNewTab(item, false)}
+                                    >
+                                      <FilePlus className="size-3.5" />
+                                    </Button>
+                                  </TooltipTrigger>
                                   <TooltipContent>Open in new tab</TooltipContent>
                                 </Tooltip>
                               </TooltipProvider>
@@ -400,7 +578,7 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
                                       variant="ghost"
                                       size="icon"
                                       className="size-7 text-red-500 hover:text-red-600 hover:bg-red-500/10"
-                                      onClick={() => removeFromHistory(item.id)}
+                                      onClick={() => handleDelete(item.id)}
                                     >
                                       <Trash2 className="size-3.5" />
                                     </Button>
@@ -417,6 +595,21 @@ export function QueryHistoryDialog({ open, onOpenChange }: QueryHistoryDialogPro
                 </div>
               ))
             )}
+
+            {entries.length < total && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  disabled={isLoading}
+                  onClick={() => loadEntries(entries.length)}
+                >
+                  {isLoading && <Loader2 className="size-3.5 mr-1.5 animate-spin" />}
+                  Load more ({(total - entries.length).toLocaleString()} older)
+                </Button>
+              </div>
+            )}
           </div>
         </ScrollArea>
       </DialogContent>
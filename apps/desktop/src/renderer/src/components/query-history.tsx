@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { ChevronRight, Clock, Copy, MoreHorizontal, Play, Trash2 } from 'lucide-react'
 
 import { Badge } from '@/components/ui/badge'
@@ -83,6 +83,8 @@ export function QueryHistory() {
   const history = useQueryStore((s) => s.history)
   const clearHistory = useQueryStore((s) => s.clearHistory)
   const removeFromHistory = useQueryStore((s) => s.removeFromHistory)
+  const isHistoryInitialized = useQueryStore((s) => s.isHistoryInitialized)
+  const initializeHistory = useQueryStore((s) => s.initializeHistory)
   const activeConnectionId = useConnectionStore((s) => s.activeConnectionId)
   const activeTabId = useTabStore((s) => s.activeTabId)
   const updateTabQuery = useTabStore((s) => s.updateTabQuery)
@@ -91,6 +93,13 @@ export function QueryHistory() {
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false)
   const [isExpanded, setIsExpanded] = useState(false)
 
+  // Load the persisted journal on mount
+  useEffect(() => {
+    if (!isHistoryInitialized) {
+      initializeHistory()
+    }
+  }, [isHistoryInitialized, initializeHistory])
+
   // Filter history by active connection
   const filteredHistory = activeConnectionId
     ? history.filter((h) => h.connectionId === activeConnectionId || !h.connectionId)
@@ -0,0 +1,249 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Braces, Play } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { useQueryParameterStore, type ParameterInput } from '@/stores'
+import { QUERY_PARAMETER_TYPES, getQueryParameters, toParameterValue } from '@/lib/query-parameters'
+import type { QueryParameterDefinition, QueryParameterType } from '@shared/index'
+
+interface ParameterTypeSelectProps {
+  value: QueryParameterType
+  onChange: (type: QueryParameterType) => void
+}
+
+export function ParameterTypeSelect({ value, onChange }: ParameterTypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as QueryParameterType)}>
+      <SelectTrigger className="h-8 w-28 shrink-0 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {QUERY_PARAMETER_TYPES.map((type) => (
+          <SelectItem key={type.value} value={type.value} className="text-xs">
+            {type.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface ParameterValueInputProps {
+  id?: string
+  type: QueryParameterType
+  value: string
+  onChange: (value: string) => void
+}
+
+/**
+ * Value input matching a parameter's type
+ */
+export function ParameterValueInput({ id, type, value, onChange }: ParameterValueInputProps) {
+  switch (type) {
+    case 'boolean':
+      return (
+        <Select value={value || 'null'} onValueChange={(v) => onChange(v === 'null' ? '' : v)}>
+          <SelectTrigger id={id} className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true" className="text-xs">
+              true
+            </SelectItem>
+            <SelectItem value="false" className="text-xs">
+              false
+            </SelectItem>
+            <SelectItem value="null" className="text-xs">
+              NULL
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      )
+    case 'json':
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className="flex-1 resize-none font-mono text-xs"
+        />
+      )
+    default:
+      return (
+        <Input
+          id={id}
+          type={
+            type === 'number'
+              ? 'number'
+              : type === 'date'
+                ? 'date'
+                : type === 'timestamp'
+                  ? 'datetime-local'
+                  : 'text'
+          }
+          step={type === 'timestamp' ? 1 : undefined}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-8 flex-1 font-mono text-xs"
+        />
+      )
+  }
+}
+
+interface QueryParametersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  query: string
+  /** Definitions saved with the query, used when there are no remembered values */
+  definitions?: QueryParameterDefinition[]
+  onRun: (parameters: Record<string, unknown>) => void
+}
+
+/**
+ * Prompt for the values of a query's placeholders before it runs.
+ * The last values entered are remembered per query.
+ */
+export function QueryParametersDialog({
+  open,
+  onOpenChange,
+  query,
+  definitions,
+  onRun
+}: QueryParametersDialogProps) {
+  const getLastInputs = useQueryParameterStore((s) => s.getLastInputs)
+  const rememberInputs = useQueryParameterStore((s) => s.rememberInputs)
+
+  const parameters = useMemo(() => getQueryParameters(query), [query])
+  const [inputs, setInputs] = useState<Record<string, ParameterInput>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Start from the last values used, then the saved defaults
+  useEffect(() => {
+    if (!open) return
+
+    const lastInputs = getLastInputs(query)
+    const initial: Record<string, ParameterInput> = {}
+    for (const param of parameters) {
+      const definition = definitions?.find((d) => d.name === param.name)
+      initial[param.name] = lastInputs?.[param.name] ?? {
+        type: definition?.type ?? 'text',
+        value: definition?.defaultValue ?? ''
+      }
+    }
+    setInputs(initial)
+    setErrors({})
+  }, [open, query, parameters, definitions, getLastInputs])
+
+  const updateInput = (name: string, changes: Partial<ParameterInput>) => {
+    setInputs((prev) => ({ ...prev, [name]: { ...prev[name], ...changes } }))
+    setErrors((prev) => {
+      const next = { ...prev }
+      delete next[name]
+      return next
+    })
+  }
+
+  const handleRun = () => {
+    const values: Record<string, unknown> = {}
+    const nextErrors: Record<string, string> = {}
+
+    for (const param of parameters) {
+      const input = inputs[param.name]
+      if (!input) continue
+      try {
+        values[param.name] = toParameterValue(input.type, input.value)
+      } catch (error) {
+        nextErrors[param.name] = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    if (Object.keys(nextErrors).length > 0) {
+      setErrors(nextErrors)
+      return
+    }
+
+    rememberInputs(query, inputs)
+    onOpenChange(false)
+    onRun(values)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      handleRun()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" onKeyDown={handleKeyDown}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Braces className="size-4" />
+            Query Parameters
+          </DialogTitle>
+          <DialogDescription>
+            Values are sent to the database separately from the SQL.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2 max-h-[60vh] overflow-auto">
+          {parameters.map((param) => {
+            const input = inputs[param.name]
+            if (!input) return null
+            return (
+              <div key={param.name} className="space-y-1">
+                <Label htmlFor={`param-${param.name}`} className="font-mono text-xs">
+                  {param.placeholder}
+                </Label>
+                <div className="flex items-start gap-2">
+                  <ParameterTypeSelect
+                    value={input.type}
+                    onChange={(type) => updateInput(param.name, { type, value: '' })}
+                  />
+                  <ParameterValueInput
+                    id={`param-${param.name}`}
+                    type={input.type}
+                    value={input.value}
+                    onChange={(value) => updateInput(param.name, { value })}
+                  />
+                </div>
+                {errors[param.name] && <p className="text-xs text-red-500">{errors[param.name]}</p>}
+              </div>
+            )
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRun} className="gap-1.5">
+            <Play className="size-3.5" />
+            Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
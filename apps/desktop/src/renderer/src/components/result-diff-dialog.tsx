@@ -0,0 +1,446 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowRight, Download, GitCompare, KeyRound, Loader2, Play } from 'lucide-react'
+import type { ExportFormat, StatementResult } from '@shared/index'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select'
+import { useConnectionStore, useQueryStore, useTabStore, notify } from '@/stores'
+import type { Tab } from '@/stores/tab-store'
+import { EXPORT_FORMATS, exportData, generateExportFilename } from '@/lib/export'
+import {
+  diffResults,
+  formatDiffValue,
+  getTabStatementResult,
+  guessKeyColumns,
+  toDiffExportData,
+  type RowDiffStatus
+} from '@/lib/result-diff'
+import { isReadOnlyQuery } from '@/lib/safe-mode'
+import { cn } from '@/lib/utils'
+
+type CompareSource = 'tab' | 'connection' | 'history'
+
+const COMPARE_SOURCES: Array<{ value: CompareSource; label: string }> = [
+  { value: 'tab', label: 'Another tab' },
+  { value: 'connection', label: 'This query on…' },
+  { value: 'history', label: 'A history query on…' }
+]
+
+/** Rows rendered in the diff table (the export always has every row) */
+const MAX_DIFF_ROWS = 500
+
+const STATUS_STYLES: Record<RowDiffStatus, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'text-green-500 border-green-500/40 bg-green-500/10' },
+  removed: { label: 'Removed', className: 'text-red-500 border-red-500/40 bg-red-500/10' },
+  changed: { label: 'Changed', className: 'text-amber-500 border-amber-500/40 bg-amber-500/10' },
+  unchanged: { label: 'Unchanged', className: 'text-muted-foreground border-border bg-muted/50' }
+}
+
+const ROW_BACKGROUNDS: Record<RowDiffStatus, string> = {
+  added: 'bg-green-500/5',
+  removed: 'bg-red-500/5',
+  changed: '',
+  unchanged: ''
+}
+
+interface ResultDiffDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Tab whose active result is the left side of the comparison */
+  tab: Tab
+}
+
+/**
+ * Compare the active result of a tab with the result of another tab, or with a query
+ * (this one or one from history) run on a connection
+ */
+export function ResultDiffDialog({ open, onOpenChange, tab }: ResultDiffDialogProps) {
+  const tabs = useTabStore((s) => s.tabs)
+  const connections = useConnectionStore((s) => s.connections)
+  const schemas = useConnectionStore((s) => s.schemas)
+  const history = useQueryStore((s) => s.history)
+
+  const [source, setSource] = useState<CompareSource>('tab')
+  const [otherTabId, setOtherTabId] = useState<string>('')
+  const [connectionId, setConnectionId] = useState<string>('')
+  const [historyId, setHistoryId] = useState<string>('')
+  const [fetchedResult, setFetchedResult] = useState<StatementResult | null>(null)
+  const [fetchError, setFetchError] = useState<string | null>(null)
+  const [isFetching, setIsFetching] = useState(false)
+  const [selectedKeys, setSelectedKeys] = useState<string[] | null>(null)
+  const [visibleStatuses, setVisibleStatuses] = useState<RowDiffStatus[]>([
+    'added',
+    'removed',
+    'changed'
+  ])
+
+  const left = useMemo(() => getTabStatementResult(tab), [tab])
+
+  useEffect(() => {
+    if (!open) return
+    setFetchedResult(null)
+    setFetchError(null)
+    setSelectedKeys(null)
+    setConnectionId(tab.connectionId ?? '')
+  }, [open, tab.connectionId])
+
+  const otherTabs = useMemo(
+    () => tabs.filter((t) => t.id !== tab.id && getTabStatementResult(t)),
+    [tabs, tab.id]
+  )
+
+  const readHistory = useMemo(
+    () => history.filter((item) => item.status === 'success' && isReadOnlyQuery(item.query)),
+    [history]
+  )
+
+  const otherTab = otherTabs.find((t) => t.id === otherTabId)
+  const otherTabResult = useMemo(() => otherTab && getTabStatementResult(otherTab), [otherTab])
+  const right = source === 'tab' ? otherTabResult : fetchedResult
+
+  const commonColumns = useMemo(() => {
+    if (!left || !right) return []
+    const rightNames = new Set(right.fields.map((field) => field.name))
+    return left.fields.map((field) => field.name).filter((name) => rightNames.has(name))
+  }, [left, right])
+
+  const guessedKeys = useMemo(() => {
+    if (!left) return []
+    const table =
+      tab.type === 'table-preview' ? { schema: tab.schemaName, name: tab.tableName } : undefined
+    return guessKeyColumns(left.statement, commonColumns, schemas, table)
+  }, [left, tab, commonColumns, schemas])
+
+  const keyColumns = selectedKeys ?? guessedKeys
+
+  const diff = useMemo(
+    () => (left && right ? diffResults(left, right, keyColumns) : null),
+    [left, right, keyColumns]
+  )
+
+  const visibleRows = useMemo(
+    () => diff?.rows.filter((row) => visibleStatuses.includes(row.status)) ?? [],
+    [diff, visibleStatuses]
+  )
+
+  const toggleKey = (column: string) => {
+    setSelectedKeys(
+      keyColumns.includes(column)
+        ? keyColumns.filter((name) => name !== column)
+        : [...keyColumns, column]
+    )
+  }
+
+  const toggleStatus = (status: RowDiffStatus) => {
+    setVisibleStatuses((current) =>
+      current.includes(status) ? current.filter((s) => s !== status) : [...current, status]
+    )
+  }
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as CompareSource)
+    setFetchedResult(null)
+    setFetchError(null)
+    setSelectedKeys(null)
+  }
+
+  const handleFetch = async () => {
+    const connection = connections.find((c) => c.id === connectionId)
+    const query =
+      source === 'history'
+        ? readHistory.find((item) => item.id === historyId)?.query
+        : left?.statement
+    if (!connection || !query) return
+
+    if (!isReadOnlyQuery(query)) {
+      setFetchError('Only queries that read data can be run for a comparison')
+      return
+    }
+
+    setIsFetching(true)
+    setFetchError(null)
+    try {
+      const response = await window.api.db.query(connection, query)
+      if (response.success && response.data) {
+        const data = response.data as { results: StatementResult[] }
+        const result = data.results.find((r) => r.isDataReturning) ?? data.results[0]
+        setFetchedResult(result ?? null)
+        setSelectedKeys(null)
+      } else {
+        setFetchError(response.error ?? 'Query failed')
+      }
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsFetching(false)
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!diff) return
+    try {
+      const result = await exportData(toDiffExportData(diff), {
+        filename: generateExportFilename('result_diff'),
+        format
+      })
+      if (result) {
+        notify.success(
+          'Export complete',
+          `Saved ${result.rowCount.toLocaleString()} rows to ${result.filePath}`
+        )
+      }
+    } catch (error) {
+      notify.error('Export failed', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const canFetch = !!connectionId && (source === 'connection' ? !!left : !!historyId) && !isFetching
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="size-4" />
+            Compare Results
+          </DialogTitle>
+          <DialogDescription>
+            Rows of <span className="font-medium text-foreground">{tab.title}</span> matched against
+            another result by their key columns
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Right-hand side of the comparison */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={source} onValueChange={handleSourceChange}>
+            <SelectTrigger className="h-8 w-44">
+              <span>{COMPARE_SOURCES.find((option) => option.value === source)?.label}</span>
+            </SelectTrigger>
+            <SelectContent>
+              {COMPARE_SOURCES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {source === 'tab' ? (
+            <Select value={otherTabId} onValueChange={setOtherTabId}>
+              <SelectTrigger className="h-8 w-64">
+                <span className="truncate">{otherTab?.title ?? 'Select a tab with results'}</span>
+              </SelectTrigger>
+              <SelectContent>
+                {otherTabs.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <>
+              <Select value={connectionId} onValueChange={setConnectionId}>
+                <SelectTrigger className="h-8 w-52">
+                  <span className="truncate">
+                    {connections.find((c) => c.id === connectionId)?.name ?? 'Select a connection'}
+                  </span>
+                </SelectTrigger>
+                <SelectContent>
+                  {connections.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {source === 'history' && (
+                <Select value={historyId} onValueChange={setHistoryId}>
+                  <SelectTrigger className="h-8 w-72">
+                    <span className="truncate font-mono text-xs">
+                      {readHistory.find((item) => item.id === historyId)?.query ?? 'Select a query'}
+                    </span>
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {readHistory.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        <span className="max-w-96 truncate font-mono text-xs">{item.query}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button size="sm" className="h-8 gap-1.5" onClick={handleFetch} disabled={!canFetch}>
+                {isFetching ? (
+                  <Loader2 className="size-3.5 animate-spin" />
+                ) : (
+                  <Play className="size-3.5" />
+                )}
+                Run
+              </Button>
+            </>
+          )}
+        </div>
+
+        {fetchError && <p className="text-xs text-red-500">{fetchError}</p>}
+
+        {!left ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Run a query in this tab to compare its result
+          </p>
+        ) : !diff ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Choose a result to compare with
+          </p>
+        ) : (
+          <>
+            {/* Key columns */}
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <KeyRound className="size-3" />
+                Match rows by
+              </span>
+              {commonColumns.map((column) => (
+                <button
+                  key={column}
+                  type="button"
+                  onClick={() => toggleKey(column)}
+                  className={cn(
+                    'rounded-md border px-1.5 py-0.5 font-mono transition-colors',
+                    keyColumns.includes(column)
+                      ? 'border-primary/50 bg-primary/10 text-primary'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {column}
+                </button>
+              ))}
+              {diff.keyColumns.length === 0 && (
+                <span className="text-muted-foreground">(whole rows)</span>
+              )}
+            </div>
+
+            {/* Summary; each count toggles its rows */}
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {(Object.keys(STATUS_STYLES) as RowDiffStatus[]).map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => toggleStatus(status)}
+                  className={cn(
+                    'rounded-full border px-2 py-0.5 font-medium transition-opacity',
+                    STATUS_STYLES[status].className,
+                    !visibleStatuses.includes(status) && 'opacity-40'
+                  )}
+                >
+                  {diff.counts[status].toLocaleString()} {STATUS_STYLES[status].label}
+                </button>
+              ))}
+              {diff.duplicateKeys > 0 && (
+                <span className="text-amber-500">
+                  {diff.duplicateKeys} duplicate {diff.duplicateKeys === 1 ? 'key' : 'keys'}{' '}
+                  (matched in order)
+                </span>
+              )}
+              {(diff.leftOnlyColumns.length > 0 || diff.rightOnlyColumns.length > 0) && (
+                <span className="text-muted-foreground">
+                  Not compared: {[...diff.leftOnlyColumns, ...diff.rightOnlyColumns].join(', ')}
+                </span>
+              )}
+              <div className="ml-auto">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="h-7 gap-1.5">
+                      <Download className="size-3.5" />
+                      Export Diff
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {EXPORT_FORMATS.filter(({ format }) => format !== 'sql').map(
+                      ({ format, label }) => (
+                        <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+                          Export as {label}
+                        </DropdownMenuItem>
+                      )
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+
+            <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    <th className="w-20 px-2 py-1.5 text-left font-medium">Status</th>
+                    {diff.columns.map((column) => (
+                      <th key={column} className="px-2 py-1.5 text-left font-medium font-mono">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.slice(0, MAX_DIFF_ROWS).map((row, index) => (
+                    <tr key={index} className={cn('border-t', ROW_BACKGROUNDS[row.status])}>
+                      <td className="px-2 py-1">
+                        <span
+                          className={cn(
+                            'rounded-full border px-1.5 py-0.5 text-[10px] font-medium',
+                            STATUS_STYLES[row.status].className
+                          )}
+                        >
+                          {STATUS_STYLES[row.status].label}
+                        </span>
+                      </td>
+                      {diff.columns.map((column) => (
+                        <td key={column} className="max-w-64 truncate px-2 py-1 font-mono">
+                          {row.changedColumns.includes(column) ? (
+                            <span className="flex items-center gap-1">
+                              <span className="truncate text-red-500 line-through">
+                                {formatDiffValue(row.left?.[column])}
+                              </span>
+                              <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+                              <span className="truncate text-green-500">
+                                {formatDiffValue(row.right?.[column])}
+                              </span>
+                            </span>
+                          ) : (
+                            formatDiffValue((row.left ?? row.right)?.[column])
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleRows.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">No rows to show</p>
+              )}
+            </div>
+            {visibleRows.length > MAX_DIFF_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {MAX_DIFF_ROWS.toLocaleString()} of{' '}
+                {visibleRows.length.toLocaleString()} rows. Export the diff to see them all.
+              </p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ShieldAlert } from 'lucide-react'
+import type { StatementClassification } from '@shared/index'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { ConnectionEnvironmentBadge } from '@/components/connection-environment-badge'
+import type { Connection } from '@/stores'
+
+interface SafeModeConfirmDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  connection: Connection
+  /** The destructive statements that need confirming */
+  statements: StatementClassification[]
+  onConfirm: () => void
+}
+
+/**
+ * Typed confirmation for destructive statements on a connection in safe mode:
+ * the connection's name has to be typed before they run
+ */
+export function SafeModeConfirmDialog({
+  open,
+  onOpenChange,
+  connection,
+  statements,
+  onConfirm
+}: SafeModeConfirmDialogProps) {
+  const [typedName, setTypedName] = useState('')
+
+  useEffect(() => {
+    if (open) setTypedName('')
+  }, [open])
+
+  const matches = typedName.trim() === connection.name
+
+  const handleConfirm = () => {
+    if (!matches) return
+    onOpenChange(false)
+    onConfirm()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="size-4 text-red-500" />
+            Confirm destructive {statements.length === 1 ? 'statement' : 'statements'}
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-1.5">
+            This query changes data or schema on
+            <span className="font-medium text-foreground">{connection.name}</span>
+            <ConnectionEnvironmentBadge
+              environment={connection.environment}
+              color={connection.color}
+            />
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2 max-h-[40vh] overflow-auto">
+          {statements.map((statement, index) => (
+            <div key={index} className="rounded-md border border-red-500/30 bg-red-500/5 p-2">
+              <div className="text-xs font-medium text-red-500">{statement.reason}</div>
+              <pre className="mt-1 whitespace-pre-wrap break-all font-mono text-xs text-muted-foreground line-clamp-4">
+                {statement.sql}
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="safe-mode-confirm" className="text-xs">
+            Type <span className="font-mono font-semibold">{connection.name}</span> to run it
+          </Label>
+          <Input
+            id="safe-mode-confirm"
+            value={typedName}
+            onChange={(e) => setTypedName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleConfirm()
+              }
+            }}
+            autoComplete="off"
+            spellCheck={false}
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!matches}>
+            Run anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useMemo } from 'react'
-import { Bookmark, X, Plus, FolderPlus, Link2 } from 'lucide-react'
+import { Bookmark, X, Plus, FolderPlus, Link2, Braces } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
@@ -22,8 +22,10 @@ import {
 } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
+import { ParameterTypeSelect, ParameterValueInput } from '@/components/query-parameters-dialog'
 import { useSavedQueryStore, useConnectionStore } from '@/stores'
-import type { SavedQuery } from '@shared/index'
+import { getQueryParameters } from '@/lib/query-parameters'
+import type { QueryParameterDefinition, SavedQuery } from '@shared/index'
 
 interface SaveQueryDialogProps {
   open: boolean
@@ -51,6 +53,11 @@ export function SaveQueryDialog({ open, onOpenChange, query, editingQuery }: Sav
   const [newTag, setNewTag] = useState('')
   const [bindToConnection, setBindToConnection] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
+  const [parameterDefinitions, setParameterDefinitions] = useState<
+    Record<string, QueryParameterDefinition>
+  >({})
+
+  const parameters = useMemo(() => getQueryParameters(query), [query])
 
   // Get available folders and tags
   const existingFolders = useMemo(() => getFolders(), [getFolders, savedQueries])
@@ -65,12 +72,16 @@ export function SaveQueryDialog({ open, onOpenChange, query, editingQuery }: Sav
         setFolder(editingQuery.folder || '')
         setTags(editingQuery.tags)
         setBindToConnection(!!editingQuery.connectionId)
+        setParameterDefinitions(
+          Object.fromEntries((editingQuery.parameters ?? []).map((p) => [p.name, p]))
+        )
       } else {
         setName('')
         setDescription('')
         setFolder('')
         setTags([])
         setBindToConnection(false)
+        setParameterDefinitions({})
       }
       setNewFolder('')
       setNewTag('')
@@ -105,9 +116,29 @@ export function SaveQueryDialog({ open, onOpenChange, query, editingQuery }: Sav
     }
   }
 
+  const updateParameterDefinition = (
+    name: string,
+    changes: Partial<Omit<QueryParameterDefinition, 'name'>>
+  ) => {
+    setParameterDefinitions((prev) => ({
+      ...prev,
+      [name]: { ...(prev[name] ?? { name, type: 'text' }), ...changes }
+    }))
+  }
+
   const handleSave = async () => {
     if (!name.trim()) return
 
+    // Only keep definitions for placeholders still in the query
+    const definitions: QueryParameterDefinition[] = parameters.map((param) => {
+      const definition = parameterDefinitions[param.name]
+      return {
+        name: param.name,
+        type: definition?.type ?? 'text',
+        defaultValue: definition?.defaultValue || undefined
+      }
+    })
+
     setIsSaving(true)
 
     try {
@@ -118,7 +149,8 @@ export function SaveQueryDialog({ open, onOpenChange, query, editingQuery }: Sav
           description: description.trim() || undefined,
           folder: folder || undefined,
           tags,
-          connectionId: bindToConnection ? activeConnectionId || undefined : undefined
+          connectionId: bindToConnection ? activeConnectionId || undefined : undefined,
+          parameters: definitions.length > 0 ? definitions : undefined
         })
       } else {
         await addSavedQuery({
@@ -127,7 +159,8 @@ export function SaveQueryDialog({ open, onOpenChange, query, editingQuery }: Sav
           description: description.trim() || undefined,
           folder: folder || undefined,
           tags,
-          connectionId: bindToConnection ? activeConnectionId || undefined : undefined
+          connectionId: bindToConnection ? activeConnectionId || undefined : undefined,
+          parameters: definitions.length > 0 ? definitions : undefined
         })
       }
       onOpenChange(false)
@@ -189,6 +222,48 @@ export function SaveQueryDialog({ open, onOpenChange, query, editingQuery }: Sav
             </pre>
           </div>
 
+          {/* Parameters */}
+          {parameters.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1.5">
+                <Braces className="size-3.5" />
+                Parameters
+              </Label>
+              <div className="space-y-2">
+                {parameters.map((param) => {
+                  const definition = parameterDefinitions[param.name]
+                  const type = definition?.type ?? 'text'
+                  return (
+                    <div key={param.name} className="flex items-start gap-2">
+                      <span className="w-24 shrink-0 truncate pt-2 font-mono text-xs">
+                        {param.placeholder}
+                      </span>
+                      <ParameterTypeSelect
+                        value={type}
+                        onChange={(nextType) =>
+                          updateParameterDefinition(param.name, {
+                            type: nextType,
+                            defaultValue: undefined
+                          })
+                        }
+                      />
+                      <ParameterValueInput
+                        type={type}
+                        value={definition?.defaultValue ?? ''}
+                        onChange={(defaultValue) =>
+                          updateParameterDefinition(param.name, { defaultValue })
+                        }
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Defaults pre-fill the parameter prompt when the query runs.
+              </p>
+            </div>
+          )}
+
           {/* Folder */}
           <div className="space-y-2">
             <Label>Folder</Label>
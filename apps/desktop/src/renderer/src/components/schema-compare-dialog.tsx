@@ -0,0 +1,565 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  AlertTriangle,
+  ArrowLeftRight,
+  Check,
+  Copy,
+  FileCode,
+  GitCompare,
+  Loader2,
+  Play
+} from 'lucide-react'
+import type {
+  SchemaCompareResult,
+  SchemaDiffStatus,
+  SchemaObjectDiff,
+  StatementClassification,
+  TableDiff
+} from '@shared/index'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { SafeModeConfirmDialog } from '@/components/safe-mode-confirm-dialog'
+import { useConnectionStore, useTabStore, notify } from '@/stores'
+import { getStatementsToConfirm, isReadOnlyConnection } from '@/lib/safe-mode'
+import { cn } from '@/lib/utils'
+
+const STATUS_STYLES: Record<SchemaDiffStatus, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'text-green-500 border-green-500/40 bg-green-500/10' },
+  removed: { label: 'Removed', className: 'text-red-500 border-red-500/40 bg-red-500/10' },
+  changed: { label: 'Changed', className: 'text-amber-500 border-amber-500/40 bg-amber-500/10' },
+  unchanged: { label: 'Same', className: 'text-muted-foreground border-border bg-muted/50' }
+}
+
+/** Schemas picked by default, in order of preference */
+const DEFAULT_SCHEMAS = ['public', 'dbo', 'main']
+
+interface CompareSide {
+  connectionId: string
+  schema: string
+}
+
+function StatusBadge({ status }: { status: SchemaDiffStatus }) {
+  return (
+    <span
+      className={cn(
+        'rounded-full border px-1.5 py-0.5 text-[10px] font-medium',
+        STATUS_STYLES[status].className
+      )}
+    >
+      {STATUS_STYLES[status].label}
+    </span>
+  )
+}
+
+interface SidePickerProps {
+  label: string
+  value: CompareSide
+  onChange: (value: CompareSide) => void
+}
+
+/**
+ * Connection and schema of one side of the comparison
+ */
+function SidePicker({ label, value, onChange }: SidePickerProps) {
+  const connections = useConnectionStore((s) => s.connections)
+  const [schemaNames, setSchemaNames] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const connection = connections.find((c) => c.id === value.connectionId)
+    if (!connection) return
+
+    let cancelled = false
+    setSchemaNames([])
+    setIsLoading(true)
+    window.api.db
+      .schemas(connection)
+      .then((response) => {
+        if (cancelled) return
+        if (response.success && response.data) {
+          setSchemaNames(response.data.schemas.map((s) => s.name))
+        } else {
+          setSchemaNames([])
+          notify.error('Failed to load schemas', response.error ?? connection.name)
+        }
+      })
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [connections, value.connectionId])
+
+  // Pick a schema once the list for a new connection is in
+  useEffect(() => {
+    if (schemaNames.length === 0 || schemaNames.includes(value.schema)) return
+    const schema = DEFAULT_SCHEMAS.find((name) => schemaNames.includes(name)) ?? schemaNames[0]
+    onChange({ ...value, schema })
+  }, [schemaNames, value, onChange])
+
+  return (
+    <div className="flex flex-1 flex-col gap-1.5">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex gap-2">
+        <Select
+          value={value.connectionId}
+          onValueChange={(connectionId) => onChange({ connectionId, schema: '' })}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <span className="truncate">
+              {connections.find((c) => c.id === value.connectionId)?.name ?? 'Connection'}
+            </span>
+          </SelectTrigger>
+          <SelectContent>
+            {connections.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={value.schema} onValueChange={(schema) => onChange({ ...value, schema })}>
+          <SelectTrigger className="h-8 w-36" disabled={isLoading || schemaNames.length === 0}>
+            <SelectValue placeholder={isLoading ? 'Loading…' : 'Schema'} />
+          </SelectTrigger>
+          <SelectContent>
+            {schemaNames.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
+
+function ObjectDiffList<T>({
+  title,
+  diffs,
+  showUnchanged
+}: {
+  title: string
+  diffs: SchemaObjectDiff<T>[]
+  showUnchanged: boolean
+}) {
+  const visible = diffs.filter((diff) => showUnchanged || diff.status !== 'unchanged')
+  if (visible.length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-medium text-muted-foreground">{title}</h4>
+      {visible.map((diff) => (
+        <div key={diff.name} className="flex items-start gap-2 text-xs">
+          <StatusBadge status={diff.status} />
+          <div className="min-w-0">
+            <span className="font-mono">{diff.name}</span>
+            {diff.changes.map((change) => (
+              <div key={change} className="break-all font-mono text-muted-foreground">
+                {change}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface SchemaCompareDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Compare the tables of two schemas (on one or two connections) and generate the
+ * migration script that brings the target in line with the source
+ */
+export function SchemaCompareDialog({ open, onOpenChange }: SchemaCompareDialogProps) {
+  const connections = useConnectionStore((s) => s.connections)
+  const activeConnectionId = useConnectionStore((s) => s.activeConnectionId)
+  const createQueryTab = useTabStore((s) => s.createQueryTab)
+  const setActiveTab = useTabStore((s) => s.setActiveTab)
+
+  const [source, setSource] = useState<CompareSide>({ connectionId: '', schema: '' })
+  const [target, setTarget] = useState<CompareSide>({ connectionId: '', schema: '' })
+  const [result, setResult] = useState<SchemaCompareResult | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [selectedTable, setSelectedTable] = useState<string | null>(null)
+  const [view, setView] = useState<'differences' | 'migration'>('differences')
+  const [copied, setCopied] = useState(false)
+  const [statementsToConfirm, setStatementsToConfirm] = useState<StatementClassification[]>([])
+
+  useEffect(() => {
+    if (!open) return
+    setResult(null)
+    setSource((s) => (s.connectionId ? s : { connectionId: activeConnectionId ?? '', schema: '' }))
+    setTarget((t) => (t.connectionId ? t : { connectionId: activeConnectionId ?? '', schema: '' }))
+  }, [open, activeConnectionId])
+
+  const sourceConnection = connections.find((c) => c.id === source.connectionId)
+  const targetConnection = connections.find((c) => c.id === target.connectionId)
+  const targetReadOnly = !!targetConnection && isReadOnlyConnection(targetConnection)
+
+  const visibleTables = useMemo(
+    () => result?.tables.filter((t) => showUnchanged || t.status !== 'unchanged') ?? [],
+    [result, showUnchanged]
+  )
+  const tableCounts = useMemo(() => {
+    const counts: Record<SchemaDiffStatus, number> = {
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0
+    }
+    for (const table of result?.tables ?? []) counts[table.status]++
+    return counts
+  }, [result])
+
+  const selected: TableDiff | undefined =
+    visibleTables.find((t) => t.name === selectedTable) ?? visibleTables[0]
+  const script = result?.migration.map((step) => step.sql).join('\n\n') ?? ''
+  const destructiveSteps = result?.migration.filter((step) => step.destructive).length ?? 0
+
+  const handleSwap = () => {
+    setSource(target)
+    setTarget(source)
+    setResult(null)
+  }
+
+  const handleCompare = async () => {
+    if (!sourceConnection || !targetConnection || !source.schema || !target.schema) return
+
+    setIsComparing(true)
+    try {
+      const response = await window.api.ddl.compareSchemas(
+        { config: sourceConnection, schema: source.schema },
+        { config: targetConnection, schema: target.schema }
+      )
+      if (response.success && response.data) {
+        setResult(response.data)
+        setSelectedTable(null)
+      } else {
+        notify.error('Schema compare failed', response.error ?? 'Unknown error')
+      }
+    } catch (error) {
+      notify.error('Schema compare failed', error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const applyMigration = async (confirmed = false) => {
+    if (!result || !targetConnection) return
+
+    setIsApplying(true)
+    try {
+      const response = await window.api.ddl.applyMigration(
+        targetConnection,
+        result.migration.map((step) => step.sql),
+        confirmed
+      )
+      if (response.success) {
+        notify.success(
+          'Migration applied',
+          `${result.migration.length} statements ran on ${targetConnection.name}`
+        )
+        await handleCompare()
+      } else {
+        notify.error('Migration failed', response.error ?? 'Unknown error')
+      }
+    } catch (error) {
+      notify.error('Migration failed', error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const handleApply = () => {
+    if (!targetConnection) return
+    const statements = getStatementsToConfirm(targetConnection, script)
+    if (statements.length > 0) {
+      setStatementsToConfirm(statements)
+      return
+    }
+    applyMigration()
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(script)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleOpenInTab = () => {
+    const tabId = createQueryTab(target.connectionId || null, script)
+    setActiveTab(tabId)
+    onOpenChange(false)
+  }
+
+  const canCompare =
+    !!sourceConnection && !!targetConnection && !!source.schema && !!target.schema && !isComparing
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="size-4" />
+            Compare Schemas
+          </DialogTitle>
+          <DialogDescription>
+            Differences in tables, columns, constraints and indexes, and the migration that makes
+            the target match the source
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <SidePicker label="Source (desired state)" value={source} onChange={setSource} />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            title="Swap source and target"
+            onClick={handleSwap}
+          >
+            <ArrowLeftRight className="size-4" />
+          </Button>
+          <SidePicker label="Target (to migrate)" value={target} onChange={setTarget} />
+          <Button size="sm" className="h-8 gap-1.5" onClick={handleCompare} disabled={!canCompare}>
+            {isComparing ? (
+              <Loader2 className="size-3.5 animate-spin" />
+            ) : (
+              <GitCompare className="size-3.5" />
+            )}
+            Compare
+          </Button>
+        </div>
+
+        {!result ? (
+          <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+            {isComparing ? 'Reading table definitions…' : 'Pick two schemas and compare them'}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {(['added', 'removed', 'changed', 'unchanged'] as SchemaDiffStatus[]).map(
+                (status) => (
+                  <span
+                    key={status}
+                    className={cn(
+                      'rounded-full border px-2 py-0.5 font-medium',
+                      STATUS_STYLES[status].className
+                    )}
+                  >
+                    {tableCounts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                  </span>
+                )
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                <Switch
+                  id="schema-compare-unchanged"
+                  checked={showUnchanged}
+                  onCheckedChange={setShowUnchanged}
+                />
+                <Label htmlFor="schema-compare-unchanged" className="text-xs">
+                  Show unchanged
+                </Label>
+              </div>
+              <div className="flex rounded-lg border bg-muted p-0.5">
+                {(['differences', 'migration'] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setView(option)}
+                    className={cn(
+                      'rounded-md px-2 py-1 font-medium capitalize transition-colors',
+                      view === option
+                        ? 'bg-background text-foreground shadow-sm'
+                        : 'text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {option === 'migration'
+                      ? `Migration (${result.migration.length})`
+                      : 'Differences'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {result.warnings.length > 0 && (
+              <div className="space-y-0.5 rounded-md border border-amber-500/30 bg-amber-500/5 p-2 text-xs text-amber-500">
+                {result.warnings.map((warning) => (
+                  <div key={warning} className="flex items-start gap-1.5">
+                    <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {view === 'differences' ? (
+              <div className="flex min-h-0 flex-1 gap-3">
+                <div className="w-64 shrink-0 overflow-auto rounded-md border">
+                  {visibleTables.length === 0 ? (
+                    <p className="p-4 text-center text-xs text-muted-foreground">
+                      The schemas have the same tables
+                    </p>
+                  ) : (
+                    visibleTables.map((table) => (
+                      <button
+                        key={table.name}
+                        type="button"
+                        onClick={() => setSelectedTable(table.name)}
+                        className={cn(
+                          'flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left text-xs hover:bg-muted',
+                          selected?.name === table.name && 'bg-muted'
+                        )}
+                      >
+                        <span className="truncate font-mono">{table.name}</span>
+                        <StatusBadge status={table.status} />
+                      </button>
+                    ))
+                  )}
+                </div>
+                <div className="min-w-0 flex-1 space-y-3 overflow-auto rounded-md border p-3">
+                  {selected && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm font-medium">{selected.name}</span>
+                        <StatusBadge status={selected.status} />
+                      </div>
+                      {selected.changes.map((change) => (
+                        <div key={change} className="font-mono text-xs text-muted-foreground">
+                          {change}
+                        </div>
+                      ))}
+                      <ObjectDiffList
+                        title="Columns"
+                        diffs={selected.columns}
+                        showUnchanged={showUnchanged}
+                      />
+                      <ObjectDiffList
+                        title="Constraints"
+                        diffs={selected.constraints}
+                        showUnchanged={showUnchanged}
+                      />
+                      <ObjectDiffList
+                        title="Indexes"
+                        diffs={selected.indexes}
+                        showUnchanged={showUnchanged}
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="flex min-h-0 flex-1 flex-col gap-2">
+                <div className="min-h-0 flex-1 space-y-2 overflow-auto rounded-md border p-3">
+                  {result.migration.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">
+                      Nothing to migrate
+                    </p>
+                  ) : (
+                    result.migration.map((step, index) => (
+                      <div key={index}>
+                        <div
+                          className={cn(
+                            'text-xs text-muted-foreground',
+                            step.destructive && 'text-red-500'
+                          )}
+                        >
+                          -- {index + 1}. {step.description}
+                        </div>
+                        <pre className="whitespace-pre-wrap break-all font-mono text-xs">
+                          {step.sql}
+                        </pre>
+                      </div>
+                    ))
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {destructiveSteps > 0 && (
+                    <span className="text-xs text-red-500">
+                      {destructiveSteps} {destructiveSteps === 1 ? 'step drops' : 'steps drop'}{' '}
+                      objects in the target
+                    </span>
+                  )}
+                  <div className="flex-1" />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1.5"
+                    onClick={handleCopy}
+                    disabled={!script}
+                  >
+                    {copied ? (
+                      <Check className="size-3.5 text-green-500" />
+                    ) : (
+                      <Copy className="size-3.5" />
+                    )}
+                    Copy
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1.5"
+                    onClick={handleOpenInTab}
+                    disabled={!script}
+                  >
+                    <FileCode className="size-3.5" />
+                    Open in Tab
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="h-7 gap-1.5"
+                    onClick={handleApply}
+                    disabled={!script || isApplying || targetReadOnly}
+                    title={targetReadOnly ? 'The target connection is read-only' : undefined}
+                  >
+                    {isApplying ? (
+                      <Loader2 className="size-3.5 animate-spin" />
+                    ) : (
+                      <Play className="size-3.5" />
+                    )}
+                    Apply to {targetConnection?.name}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {targetConnection && statementsToConfirm.length > 0 && (
+          <SafeModeConfirmDialog
+            open
+            onOpenChange={(isOpen) => !isOpen && setStatementsToConfirm([])}
+            connection={targetConnection}
+            statements={statementsToConfirm}
+            onConfirm={() => applyMigration(true)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
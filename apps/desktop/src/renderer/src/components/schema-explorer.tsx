@@ -22,7 +22,13 @@ import {
   ArrowRight,
   Eye,
   Play,
-  Filter
+  Filter,
+  Upload,
+  FileCode,
+  ListTree,
+  Zap,
+  Hash,
+  Shapes
 } from 'lucide-react'
 
 import { Badge } from '@/components/ui/badge'
@@ -50,8 +56,11 @@ import {
   SidebarMenuSubItem
 } from '@/components/ui/sidebar'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { useConnectionStore, useTabStore } from '@/stores'
-import type { TableInfo, RoutineInfo } from '@shared/index'
+import { ImportDataDialog } from '@/components/import-data-dialog'
+import { SchemaObjectGroups } from '@/components/schema-object-groups'
+import { useConnectionStore, useTabStore, notify } from '@/stores'
+import type { TableInfo, RoutineInfo, SchemaObjectRef } from '@shared/index'
+import { isReadOnlyConnection } from '@/lib/safe-mode'
 
 // Threshold for enabling virtualization
 const VIRTUALIZATION_THRESHOLD = 50
@@ -82,6 +91,80 @@ function DataTypeBadge({ type }: { type: string }) {
   )
 }
 
+interface TableActionsMenuProps {
+  schemaName: string
+  table: TableInfo
+  onViewData: () => void
+  onEditTable: () => void
+  onImportTable: () => void
+  onShowDefinition: (object: SchemaObjectRef) => void
+}
+
+/**
+ * Actions of a table, view or materialized view
+ */
+function TableActionsMenu({
+  schemaName,
+  table,
+  onViewData,
+  onEditTable,
+  onImportTable,
+  onShowDefinition
+}: TableActionsMenuProps) {
+  const isReadOnly = useConnectionStore((s) => {
+    const connection = s.connections.find((c) => c.id === s.activeConnectionId)
+    return !!connection && isReadOnlyConnection(connection)
+  })
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-5 p-0 opacity-0 group-hover/table:opacity-100 transition-opacity"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <MoreHorizontal className="size-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-40">
+        <DropdownMenuItem onClick={onViewData}>
+          <Table2 className="size-4 mr-2" />
+          View Data
+        </DropdownMenuItem>
+        {table.type === 'table' ? (
+          <>
+            <DropdownMenuItem onClick={onEditTable}>
+              <Pencil className="size-4 mr-2" />
+              Edit Table
+            </DropdownMenuItem>
+            {!isReadOnly && (
+              <DropdownMenuItem onClick={onImportTable}>
+                <Upload className="size-4 mr-2" />
+                Import Data
+              </DropdownMenuItem>
+            )}
+          </>
+        ) : (
+          <DropdownMenuItem
+            onClick={() =>
+              onShowDefinition({
+                kind: table.type === 'view' ? 'view' : 'materialized-view',
+                schema: schemaName,
+                name: table.name
+              })
+            }
+          >
+            <FileCode className="size-4 mr-2" />
+            Show Definition
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
 // Union type for items in virtualized list
 type SchemaItem =
   | { type: 'table'; data: TableInfo; schemaName: string }
@@ -96,6 +179,8 @@ interface VirtualizedSchemaItemsProps {
   onToggleRoutine: (routineKey: string) => void
   onTableClick: (schemaName: string, table: TableInfo) => void
   onEditTable: (schemaName: string, tableName: string) => void
+  onImportTable: (schemaName: string, tableName: string) => void
+  onShowDefinition: (object: SchemaObjectRef) => void
   onExecuteRoutine: (
     schemaName: string,
     routineName: string,
@@ -113,6 +198,8 @@ function VirtualizedSchemaItems({
   onToggleRoutine,
   onTableClick,
   onEditTable,
+  onImportTable,
+  onShowDefinition,
   onExecuteRoutine
 }: VirtualizedSchemaItemsProps) {
   const parentRef = React.useRef<HTMLDivElement>(null)
@@ -195,42 +282,26 @@ function VirtualizedSchemaItems({
                       className="flex-1"
                     >
                       <Table2
-                        className={`size-3.5 ${table.type === 'view' ? 'text-purple-500' : 'text-muted-foreground'}`}
+                        className={`size-3.5 ${table.type !== 'table' ? 'text-purple-500' : 'text-muted-foreground'}`}
                       />
                       <span className="flex-1 truncate">{table.name}</span>
-                      {table.type === 'view' && (
+                      {table.type !== 'table' && (
                         <Badge
                           variant="outline"
                           className="text-[11px] px-1.5 py-0 text-purple-500"
                         >
-                          view
+                          {table.type === 'view' ? 'view' : 'mat. view'}
                         </Badge>
                       )}
                     </SidebarMenuSubButton>
-                    {table.type === 'table' && (
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="size-5 p-0 opacity-0 group-hover/table:opacity-100 transition-opacity"
-                            onClick={(e) => e.stopPropagation()}
-                          >
-                            <MoreHorizontal className="size-3.5" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end" className="w-40">
-                          <DropdownMenuItem onClick={() => onTableClick(schemaName, table)}>
-                            <Table2 className="size-4 mr-2" />
-                            View Data
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => onEditTable(schemaName, table.name)}>
-                            <Pencil className="size-4 mr-2" />
-                            Edit Table
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    )}
+                    <TableActionsMenu
+                      schemaName={schemaName}
+                      table={table}
+                      onViewData={() => onTableClick(schemaName, table)}
+                      onEditTable={() => onEditTable(schemaName, table.name)}
+                      onImportTable={() => onImportTable(schemaName, table.name)}
+                      onShowDefinition={onShowDefinition}
+                    />
                   </div>
                   {isExpanded && (
                     <div className="ml-6 border-l border-border/50 pl-2 py-1 space-y-0.5">
@@ -428,6 +499,14 @@ export function SchemaExplorer() {
   const fetchSchemas = useConnectionStore((s) => s.fetchSchemas)
   const schemaFromCache = useConnectionStore((s) => s.schemaFromCache)
   const isRefreshingSchema = useConnectionStore((s) => s.isRefreshingSchema)
+  const customTypes = useConnectionStore((s) => s.customTypes)
+  const sequences = useConnectionStore((s) => s.sequences)
+  const indexes = useConnectionStore((s) => s.indexes)
+  const triggers = useConnectionStore((s) => s.triggers)
+  const isReadOnly = useConnectionStore((s) => {
+    const connection = s.connections.find((c) => c.id === s.activeConnectionId)
+    return !!connection && isReadOnlyConnection(connection)
+  })
 
   const createTablePreviewTab = useTabStore((s) => s.createTablePreviewTab)
   const findTablePreviewTab = useTabStore((s) => s.findTablePreviewTab)
@@ -447,6 +526,16 @@ export function SchemaExplorer() {
   const [showViews, setShowViews] = React.useState(true)
   const [showFunctions, setShowFunctions] = React.useState(false)
   const [showProcedures, setShowProcedures] = React.useState(true)
+  const [showIndexes, setShowIndexes] = React.useState(false)
+  const [showTriggers, setShowTriggers] = React.useState(true)
+  const [showSequences, setShowSequences] = React.useState(true)
+  const [showTypes, setShowTypes] = React.useState(true)
+
+  // Import wizard target (null when closed; an empty target lets the user choose)
+  const [importTarget, setImportTarget] = React.useState<{
+    schema?: string
+    table?: string
+  } | null>(null)
 
   const createQueryTab = useTabStore((s) => s.createQueryTab)
 
@@ -460,7 +549,7 @@ export function SchemaExplorer() {
         const filteredTables = schema.tables.filter((table) => {
           // Type filter
           if (table.type === 'table' && !showTables) return false
-          if (table.type === 'view' && !showViews) return false
+          if (table.type !== 'table' && !showViews) return false
           // Search filter
           if (query && !table.name.toLowerCase().includes(query)) return false
           return true
@@ -476,14 +565,52 @@ export function SchemaExplorer() {
           return true
         })
 
+        // Indexes, triggers, sequences and types of the schema
+        const inSchema = <T extends { schema: string; name: string }>(
+          objects: T[],
+          show: boolean
+        ): T[] =>
+          show
+            ? objects.filter(
+                (o) => o.schema === schema.name && (!query || o.name.toLowerCase().includes(query))
+              )
+            : []
+
         return {
           ...schema,
           tables: filteredTables,
-          routines: filteredRoutines
+          routines: filteredRoutines,
+          indexes: inSchema(indexes, showIndexes),
+          triggers: inSchema(triggers, showTriggers),
+          sequences: inSchema(sequences, showSequences),
+          customTypes: inSchema(customTypes, showTypes)
         }
       })
-      .filter((schema) => schema.tables.length > 0 || (schema.routines?.length ?? 0) > 0)
-  }, [schemas, searchQuery, showTables, showViews, showFunctions, showProcedures])
+      .filter(
+        (schema) =>
+          schema.tables.length > 0 ||
+          (schema.routines?.length ?? 0) > 0 ||
+          schema.indexes.length > 0 ||
+          schema.triggers.length > 0 ||
+          schema.sequences.length > 0 ||
+          schema.customTypes.length > 0
+      )
+  }, [
+    schemas,
+    customTypes,
+    sequences,
+    indexes,
+    triggers,
+    searchQuery,
+    showTables,
+    showViews,
+    showFunctions,
+    showProcedures,
+    showIndexes,
+    showTriggers,
+    showSequences,
+    showTypes
+  ])
 
   // Auto-expand schemas when searching
   React.useEffect(() => {
@@ -623,8 +750,28 @@ export function SchemaExplorer() {
     createQueryTab(connection.id, sql)
   }
 
+  const handleShowDefinition = async (object: SchemaObjectRef) => {
+    const connection = getActiveConnection()
+    if (!connection) return
+
+    const response = await window.api.ddl.getDefinition(connection, object)
+    if (response.success && response.data !== undefined) {
+      createQueryTab(connection.id, response.data)
+    } else {
+      notify.error('Could not load definition', response.error ?? 'Unknown error')
+    }
+  }
+
   // Check if any filter is active (not all enabled)
-  const isFilterActive = !showTables || !showViews || !showFunctions || !showProcedures
+  const isFilterActive =
+    !showTables ||
+    !showViews ||
+    !showFunctions ||
+    !showProcedures ||
+    !showIndexes ||
+    !showTriggers ||
+    !showSequences ||
+    !showTypes
 
   if (!activeConnectionId) {
     return (
@@ -682,15 +829,28 @@ export function SchemaExplorer() {
       <SidebarGroupLabel className="flex items-center justify-between">
         <span>Schema</span>
         <div className="flex items-center gap-1">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="size-5 p-0 hover:bg-sidebar-accent"
-            onClick={() => handleCreateTable()}
-            title="Create new table"
-          >
-            <Plus className="size-3.5" />
-          </Button>
+          {!isReadOnly && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-5 p-0 hover:bg-sidebar-accent"
+                onClick={() => handleCreateTable()}
+                title="Create new table"
+              >
+                <Plus className="size-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-5 p-0 hover:bg-sidebar-accent"
+                onClick={() => setImportTarget({})}
+                title="Import data from a file"
+              >
+                <Upload className="size-3.5" />
+              </Button>
+            </>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -746,6 +906,38 @@ export function SchemaExplorer() {
                 <Workflow className="size-3.5 mr-2 text-orange-500" />
                 Procedures
               </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={showIndexes}
+                onCheckedChange={setShowIndexes}
+                className="text-xs"
+              >
+                <ListTree className="size-3.5 mr-2 text-sky-500" />
+                Indexes
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={showTriggers}
+                onCheckedChange={setShowTriggers}
+                className="text-xs"
+              >
+                <Zap className="size-3.5 mr-2 text-amber-500" />
+                Triggers
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={showSequences}
+                onCheckedChange={setShowSequences}
+                className="text-xs"
+              >
+                <Hash className="size-3.5 mr-2 text-emerald-500" />
+                Sequences
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={showTypes}
+                onCheckedChange={setShowTypes}
+                className="text-xs"
+              >
+                <Shapes className="size-3.5 mr-2 text-pink-500" />
+                Types
+              </DropdownMenuCheckboxItem>
             </DropdownMenuContent>
           </DropdownMenu>
           <TooltipProvider>
@@ -781,7 +973,7 @@ export function SchemaExplorer() {
             <Search className="absolute left-2 top-1/2 -translate-y-1/2 size-3.5 text-muted-foreground" />
             <Input
               type="text"
-              placeholder="Search tables, routines..."
+              placeholder="Search tables, routines, indexes..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="h-7 pl-7 pr-7 text-xs"
@@ -801,7 +993,7 @@ export function SchemaExplorer() {
         <SidebarMenu>
           {filteredSchemas.length === 0 ? (
             <div className="px-2 py-4 text-xs text-muted-foreground text-center">
-              {searchQuery ? 'No tables or routines match your search' : 'No schemas found'}
+              {searchQuery ? 'No objects match your search' : 'No schemas found'}
             </div>
           ) : (
             filteredSchemas.map((schema) => (
@@ -819,7 +1011,12 @@ export function SchemaExplorer() {
                       <SchemaIcon className="size-4 text-muted-foreground" />
                       <span>{schema.name}</span>
                       <Badge variant="outline" className="ml-auto text-[11px] px-1.5 py-0">
-                        {schema.tables.length + (schema.routines?.length ?? 0)}
+                        {schema.tables.length +
+                          (schema.routines?.length ?? 0) +
+                          schema.indexes.length +
+                          schema.triggers.length +
+                          schema.sequences.length +
+                          schema.customTypes.length}
                       </Badge>
                     </SidebarMenuButton>
                   </CollapsibleTrigger>
@@ -857,6 +1054,10 @@ export function SchemaExplorer() {
                             onToggleRoutine={toggleRoutine}
                             onTableClick={handleTableClick}
                             onEditTable={handleEditTable}
+                            onImportTable={(schemaName, tableName) =>
+                              setImportTarget({ schema: schemaName, table: tableName })
+                            }
+                            onShowDefinition={handleShowDefinition}
                             onExecuteRoutine={handleExecuteRoutine}
                           />
                         )
@@ -891,46 +1092,28 @@ export function SchemaExplorer() {
                                       className="flex-1"
                                     >
                                       <Table2
-                                        className={`size-3.5 ${table.type === 'view' ? 'text-purple-500' : 'text-muted-foreground'}`}
+                                        className={`size-3.5 ${table.type !== 'table' ? 'text-purple-500' : 'text-muted-foreground'}`}
                                       />
                                       <span className="flex-1">{table.name}</span>
-                                      {table.type === 'view' && (
+                                      {table.type !== 'table' && (
                                         <Badge
                                           variant="outline"
                                           className="text-[11px] px-1.5 py-0 text-purple-500"
                                         >
-                                          view
+                                          {table.type === 'view' ? 'view' : 'mat. view'}
                                         </Badge>
                                       )}
                                     </SidebarMenuSubButton>
-                                    {table.type === 'table' && (
-                                      <DropdownMenu>
-                                        <DropdownMenuTrigger asChild>
-                                          <Button
-                                            variant="ghost"
-                                            size="icon"
-                                            className="size-5 p-0 opacity-0 group-hover/table:opacity-100 transition-opacity"
-                                            onClick={(e) => e.stopPropagation()}
-                                          >
-                                            <MoreHorizontal className="size-3.5" />
-                                          </Button>
-                                        </DropdownMenuTrigger>
-                                        <DropdownMenuContent align="end" className="w-40">
-                                          <DropdownMenuItem
-                                            onClick={() => handleTableClick(schema.name, table)}
-                                          >
-                                            <Table2 className="size-4 mr-2" />
-                                            View Data
-                                          </DropdownMenuItem>
-                                          <DropdownMenuItem
-                                            onClick={() => handleEditTable(schema.name, table.name)}
-                                          >
-                                            <Pencil className="size-4 mr-2" />
-                                            Edit Table
-                                          </DropdownMenuItem>
-                                        </DropdownMenuContent>
-                                      </DropdownMenu>
-                                    )}
+                                    <TableActionsMenu
+                                      schemaName={schema.name}
+                                      table={table}
+                                      onViewData={() => handleTableClick(schema.name, table)}
+                                      onEditTable={() => handleEditTable(schema.name, table.name)}
+                                      onImportTable={() =>
+                                        setImportTarget({ schema: schema.name, table: table.name })
+                                      }
+                                      onShowDefinition={handleShowDefinition}
+                                    />
                                   </div>
                                   <CollapsibleContent>
                                     <div className="ml-6 border-l border-border/50 pl-2 py-1 space-y-0.5">
@@ -1131,6 +1314,15 @@ export function SchemaExplorer() {
                         </SidebarMenuSub>
                       )
                     })()}
+                    <SchemaObjectGroups
+                      schemaName={schema.name}
+                      indexes={schema.indexes}
+                      triggers={schema.triggers}
+                      sequences={schema.sequences}
+                      customTypes={schema.customTypes}
+                      expandAll={!!searchQuery.trim()}
+                      onShowDefinition={handleShowDefinition}
+                    />
                   </CollapsibleContent>
                 </SidebarMenuItem>
               </Collapsible>
@@ -1138,6 +1330,13 @@ export function SchemaExplorer() {
           )}
         </SidebarMenu>
       </SidebarGroupContent>
+
+      <ImportDataDialog
+        open={importTarget !== null}
+        onOpenChange={(open) => !open && setImportTarget(null)}
+        initialSchema={importTarget?.schema}
+        initialTable={importTarget?.table}
+      />
     </SidebarGroup>
   )
 }
@@ -0,0 +1,225 @@
+'use client'
+
+import * as React from 'react'
+import { ChevronRight, FileCode, Hash, ListTree, MoreHorizontal, Shapes, Zap } from 'lucide-react'
+import type {
+  CustomTypeInfo,
+  IndexInfo,
+  SchemaObjectRef,
+  SequenceInfo,
+  TriggerInfo
+} from '@shared/index'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { SidebarMenuSub, SidebarMenuSubButton, SidebarMenuSubItem } from '@/components/ui/sidebar'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+
+interface SchemaObjectGroupsProps {
+  schemaName: string
+  indexes: IndexInfo[]
+  triggers: TriggerInfo[]
+  sequences: SequenceInfo[]
+  customTypes: CustomTypeInfo[]
+  /** Expand every non-empty group (e.g. while searching) */
+  expandAll?: boolean
+  onShowDefinition: (object: SchemaObjectRef) => void
+}
+
+interface ObjectItem {
+  key: string
+  name: string
+  /** Short muted text after the name */
+  detail?: string
+  /** Lines shown in the tooltip */
+  info: string[]
+  object: SchemaObjectRef
+}
+
+interface ObjectGroup {
+  id: string
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+  color: string
+  items: ObjectItem[]
+}
+
+function buildGroups({
+  schemaName,
+  indexes,
+  triggers,
+  sequences,
+  customTypes
+}: SchemaObjectGroupsProps): ObjectGroup[] {
+  const groups: ObjectGroup[] = [
+    {
+      id: 'indexes',
+      label: 'Indexes',
+      icon: ListTree,
+      color: 'text-sky-500',
+      items: indexes.map((index) => ({
+        key: `${index.table}.${index.name}`,
+        name: index.name,
+        detail: index.table,
+        info: [
+          `Table: ${index.table}`,
+          `Columns: ${index.columns.join(', ')}`,
+          ...(index.isPrimary ? ['Primary key'] : index.isUnique ? ['Unique'] : [])
+        ],
+        object: { kind: 'index', schema: schemaName, name: index.name, table: index.table }
+      }))
+    },
+    {
+      id: 'triggers',
+      label: 'Triggers',
+      icon: Zap,
+      color: 'text-amber-500',
+      items: triggers.map((trigger) => ({
+        key: `${trigger.table}.${trigger.name}`,
+        name: trigger.name,
+        detail: trigger.table,
+        info: [
+          `Table: ${trigger.table}`,
+          `Fires: ${trigger.timing} ${trigger.events.join(' OR ')}`.trim()
+        ],
+        object: { kind: 'trigger', schema: schemaName, name: trigger.name, table: trigger.table }
+      }))
+    },
+    {
+      id: 'sequences',
+      label: 'Sequences',
+      icon: Hash,
+      color: 'text-emerald-500',
+      items: sequences.map((sequence) => ({
+        key: sequence.name,
+        name: sequence.name,
+        detail: sequence.dataType,
+        info: [
+          `Type: ${sequence.dataType}`,
+          `Start: ${sequence.startValue}`,
+          `Increment: ${sequence.increment}`
+        ],
+        object: { kind: 'sequence', schema: schemaName, name: sequence.name }
+      }))
+    },
+    {
+      id: 'types',
+      label: 'Types',
+      icon: Shapes,
+      color: 'text-pink-500',
+      items: customTypes.map((type) => ({
+        key: type.name,
+        name: type.name,
+        detail: type.type,
+        info: [`Kind: ${type.type}`, ...(type.values ? [`Values: ${type.values.join(', ')}`] : [])],
+        object: { kind: 'type', schema: schemaName, name: type.name }
+      }))
+    }
+  ]
+
+  return groups.filter((group) => group.items.length > 0)
+}
+
+/**
+ * Collapsible Indexes, Triggers, Sequences and Types nodes of a schema
+ */
+export function SchemaObjectGroups(props: SchemaObjectGroupsProps) {
+  const { expandAll, onShowDefinition } = props
+  const [expandedGroups, setExpandedGroups] = React.useState<Set<string>>(new Set())
+
+  const groups = buildGroups(props)
+  if (groups.length === 0) return null
+
+  const toggleGroup = (groupId: string) => {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev)
+      if (next.has(groupId)) {
+        next.delete(groupId)
+      } else {
+        next.add(groupId)
+      }
+      return next
+    })
+  }
+
+  return (
+    <SidebarMenuSub>
+      {groups.map((group) => {
+        const isExpanded = expandAll || expandedGroups.has(group.id)
+        const Icon = group.icon
+
+        return (
+          <Collapsible key={group.id} open={isExpanded} onOpenChange={() => toggleGroup(group.id)}>
+            <SidebarMenuSubItem>
+              <CollapsibleTrigger asChild>
+                <SidebarMenuSubButton className="cursor-pointer">
+                  <ChevronRight
+                    className={`size-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+                  />
+                  <Icon className={`size-3.5 ${group.color}`} />
+                  <span className="flex-1">{group.label}</span>
+                  <Badge variant="outline" className="text-[11px] px-1.5 py-0">
+                    {group.items.length}
+                  </Badge>
+                </SidebarMenuSubButton>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <div className="ml-6 border-l border-border/50 pl-2 py-1 space-y-0.5">
+                  {group.items.map((item) => (
+                    <div key={item.key} className="flex items-center group/object">
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <div className="flex flex-1 min-w-0 items-center gap-1.5 py-0.5 px-1 text-xs text-muted-foreground hover:bg-accent/50 rounded cursor-default">
+                              <Icon className={`size-3 shrink-0 ${group.color}`} />
+                              <span className="truncate text-foreground">{item.name}</span>
+                              {item.detail && (
+                                <span className="truncate text-[11px]">{item.detail}</span>
+                              )}
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent side="right" className="text-xs">
+                            <div className="space-y-1">
+                              {item.info.map((line) => (
+                                <div key={line}>{line}</div>
+                              ))}
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-5 p-0 opacity-0 group-hover/object:opacity-100 transition-opacity"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <MoreHorizontal className="size-3.5" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-44">
+                          <DropdownMenuItem onClick={() => onShowDefinition(item.object)}>
+                            <FileCode className="size-4 mr-2" />
+                            Show Definition
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  ))}
+                </div>
+              </CollapsibleContent>
+            </SidebarMenuSubItem>
+          </Collapsible>
+        )
+      })}
+    </SidebarMenuSub>
+  )
+}
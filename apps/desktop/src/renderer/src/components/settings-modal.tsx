@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/dialog'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { useSettingsStore } from '@/stores/settings-store'
 
 interface SettingsModalProps {
@@ -23,9 +24,11 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     hideQueryEditorByDefault,
     expandJsonByDefault,
     hideQuickQueryPanel,
+    maxResultRows,
     setHideQueryEditorByDefault,
     setExpandJsonByDefault,
     setHideQuickQueryPanel,
+    setMaxResultRows,
     resetSettings
   } = useSettingsStore()
 
@@ -81,6 +84,33 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
             </div>
           </div>
 
+          {/* Query Results Section */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+              Query Results
+            </h3>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="max-result-rows">Max rows per result</Label>
+                <p className="text-xs text-muted-foreground">
+                  Stop loading more rows into a tab past this limit
+                </p>
+              </div>
+              <Input
+                id="max-result-rows"
+                type="number"
+                min={1000}
+                step={1000}
+                value={maxResultRows}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10)
+                  if (value > 0) setMaxResultRows(value)
+                }}
+                className="w-28"
+              />
+            </div>
+          </div>
+
           {/* JSON Display Section */}
           <div className="space-y-4">
             <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
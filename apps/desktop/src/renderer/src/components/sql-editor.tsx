@@ -7,7 +7,7 @@ import editorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker'
 import { formatSQL } from '@/lib/sql-formatter'
 import { cn } from '@/lib/utils'
 import { useTheme } from '@/components/theme-provider'
-import type { SchemaInfo, TableInfo } from '@data-peek/shared'
+import type { AIQueryAssistMode, SchemaInfo, TableInfo } from '@data-peek/shared'
 
 // Configure Monaco workers for Vite + Electron (avoids CSP issues)
 self.MonacoEnvironment = {
@@ -352,12 +352,12 @@ const ensureCompletionProvider = (monacoInstance: Monaco): void => {
             suggestions.push({
               label: table.name,
               kind:
-                table.type === 'view'
+                table.type !== 'table'
                   ? monacoInstance.languages.CompletionItemKind.Interface
                   : monacoInstance.languages.CompletionItemKind.Class,
               insertText: table.name,
               range,
-              detail: `${table.type} (${table.columns.length} columns)`,
+              detail: `${table.type.replace('-', ' ')} (${table.columns.length} columns)`,
               documentation: table.columns.map((c) => `${c.name}: ${c.dataType}`).join('\n'),
               sortText: '0' + table.name
             })
@@ -496,12 +496,12 @@ const ensureCompletionProvider = (monacoInstance: Monaco): void => {
           suggestions.push({
             label: table.name + labelSuffix,
             kind:
-              table.type === 'view'
+              table.type !== 'table'
                 ? monacoInstance.languages.CompletionItemKind.Interface
                 : monacoInstance.languages.CompletionItemKind.Class,
             insertText: insertText,
             range,
-            detail: `${table.type} (${table.columns.length} columns)`,
+            detail: `${table.type.replace('-', ' ')} (${table.columns.length} columns)`,
             documentation:
               table.columns
                 .slice(0, 10)
@@ -531,6 +531,14 @@ export interface SQLEditorProps {
   compact?: boolean
   /** Database schemas for autocomplete (tables, columns) */
   schemas?: SchemaInfo[]
+  /**
+   * Adds "Explain/Optimize Query with AI" to the context menu. Called with the selected
+   * SQL, or the whole query if nothing is selected, and its offsets in the value.
+   */
+  onAIAssist?: (
+    mode: AIQueryAssistMode,
+    selection: { sql: string; from: number; to: number }
+  ) => void
 }
 
 // Custom dark theme inspired by the app's aesthetic
@@ -621,7 +629,8 @@ export function SQLEditor({
   className,
   placeholder = 'SELECT * FROM your_table LIMIT 100;',
   compact = false,
-  schemas = []
+  schemas = [],
+  onAIAssist
 }: SQLEditorProps) {
   const { theme } = useTheme()
   const editorRef = React.useRef<EditorType | null>(null)
@@ -630,6 +639,7 @@ export function SQLEditor({
   // Use refs to always hold the latest callbacks to avoid stale closures
   const onRunRef = React.useRef(onRun)
   const onFormatRef = React.useRef(onFormat)
+  const onAIAssistRef = React.useRef(onAIAssist)
 
   // Resolve system theme
   const resolvedTheme = React.useMemo(() => {
@@ -648,6 +658,10 @@ export function SQLEditor({
     onFormatRef.current = onFormat
   }, [onFormat])
 
+  React.useEffect(() => {
+    onAIAssistRef.current = onAIAssist
+  }, [onAIAssist])
+
   const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor
     monacoRef.current = monaco
@@ -681,6 +695,40 @@ export function SQLEditor({
       }
     })
 
+    if (onAIAssistRef.current) {
+      const assist = (mode: AIQueryAssistMode) => {
+        const model = editor.getModel()
+        if (!model) return
+        const selection = editor.getSelection()
+        const selected = selection ? model.getValueInRange(selection) : ''
+        if (selection && selected.trim()) {
+          onAIAssistRef.current?.(mode, {
+            sql: selected,
+            from: model.getOffsetAt(selection.getStartPosition()),
+            to: model.getOffsetAt(selection.getEndPosition())
+          })
+        } else {
+          const sql = model.getValue()
+          if (sql.trim()) onAIAssistRef.current?.(mode, { sql, from: 0, to: sql.length })
+        }
+      }
+
+      editor.addAction({
+        id: 'data-peek.ai-explain-query',
+        label: 'Explain Query with AI',
+        contextMenuGroupId: '1_ai',
+        contextMenuOrder: 1,
+        run: () => assist('explain')
+      })
+      editor.addAction({
+        id: 'data-peek.ai-optimize-query',
+        label: 'Optimize Query with AI',
+        contextMenuGroupId: '1_ai',
+        contextMenuOrder: 2,
+        run: () => assist('optimize')
+      })
+    }
+
     // Configure editor for SQL
     editor.updateOptions({
       fontSize: compact ? 12 : 13,
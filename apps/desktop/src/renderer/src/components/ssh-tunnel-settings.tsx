@@ -0,0 +1,178 @@
+'use client'
+
+import { FolderOpen, KeyRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { SSHAuthMethod, SSHTunnelConfig } from '@shared/index'
+
+export const DEFAULT_SSH_CONFIG: SSHTunnelConfig = {
+  enabled: false,
+  host: '',
+  port: 22,
+  username: '',
+  authMethod: 'password'
+}
+
+const AUTH_METHODS: Array<{ value: SSHAuthMethod; label: string }> = [
+  { value: 'password', label: 'Password' },
+  { value: 'privateKey', label: 'Private Key' },
+  { value: 'agent', label: 'SSH Agent' }
+]
+
+interface SSHTunnelSettingsProps {
+  value: SSHTunnelConfig
+  onChange: (value: SSHTunnelConfig) => void
+}
+
+export function SSHTunnelSettings({ value, onChange }: SSHTunnelSettingsProps) {
+  const update = (changes: Partial<SSHTunnelConfig>) => onChange({ ...value, ...changes })
+
+  const handleBrowseKeyFile = async () => {
+    const result = await window.api.files.openFile({ title: 'Select SSH Private Key' })
+    if (result.success && result.data) {
+      update({ privateKeyPath: result.data })
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <input
+          id="ssh-enabled"
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="size-4 rounded border-input"
+        />
+        <label htmlFor="ssh-enabled" className="flex items-center gap-1.5 text-sm font-medium">
+          <KeyRound className="size-3.5" />
+          Connect through SSH tunnel
+        </label>
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="grid grid-cols-[1fr_5rem] gap-2">
+            <div className="flex flex-col gap-2">
+              <label htmlFor="ssh-host" className="text-sm font-medium">
+                SSH Host
+              </label>
+              <Input
+                id="ssh-host"
+                placeholder="bastion.example.com"
+                value={value.host}
+                onChange={(e) => update({ host: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <label htmlFor="ssh-port" className="text-sm font-medium">
+                Port
+              </label>
+              <Input
+                id="ssh-port"
+                type="number"
+                placeholder="22"
+                value={value.port || ''}
+                onChange={(e) => update({ port: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <label htmlFor="ssh-username" className="text-sm font-medium">
+              SSH Username
+            </label>
+            <Input
+              id="ssh-username"
+              placeholder="ubuntu"
+              value={value.username}
+              onChange={(e) => update({ username: e.target.value })}
+            />
+          </div>
+
+          <div className="flex rounded-lg border bg-muted p-1">
+            {AUTH_METHODS.map((method) => (
+              <button
+                key={method.value}
+                type="button"
+                onClick={() => update({ authMethod: method.value })}
+                className={`flex flex-1 items-center justify-center rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                  value.authMethod === method.value
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {method.label}
+              </button>
+            ))}
+          </div>
+
+          {value.authMethod === 'password' && (
+            <div className="flex flex-col gap-2">
+              <label htmlFor="ssh-password" className="text-sm font-medium">
+                SSH Password
+              </label>
+              <Input
+                id="ssh-password"
+                type="password"
+                placeholder="••••••••"
+                value={value.password ?? ''}
+                onChange={(e) => update({ password: e.target.value })}
+              />
+            </div>
+          )}
+
+          {value.authMethod === 'privateKey' && (
+            <>
+              <div className="flex flex-col gap-2">
+                <label htmlFor="ssh-key" className="text-sm font-medium">
+                  Private Key File
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    id="ssh-key"
+                    placeholder="~/.ssh/id_ed25519"
+                    value={value.privateKeyPath ?? ''}
+                    onChange={(e) => update({ privateKeyPath: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                  <Button type="button" variant="outline" onClick={handleBrowseKeyFile}>
+                    <FolderOpen className="size-4" />
+                    Browse
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-col gap-2">
+                <label htmlFor="ssh-passphrase" className="text-sm font-medium">
+                  Passphrase
+                </label>
+                <Input
+                  id="ssh-passphrase"
+                  type="password"
+                  placeholder="Optional"
+                  value={value.passphrase ?? ''}
+                  onChange={(e) => update({ passphrase: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+
+          {value.authMethod === 'agent' && (
+            <div className="flex flex-col gap-2">
+              <label htmlFor="ssh-agent" className="text-sm font-medium">
+                Agent Socket
+              </label>
+              <Input
+                id="ssh-agent"
+                placeholder="Defaults to $SSH_AUTH_SOCK"
+                value={value.agentSocket ?? ''}
+                onChange={(e) => update({ agentSocket: e.target.value })}
+                className="font-mono text-sm"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
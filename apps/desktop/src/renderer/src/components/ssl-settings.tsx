@@ -0,0 +1,144 @@
+'use client'
+
+import { FolderOpen, ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { SSLConfig, SSLMode } from '@shared/index'
+
+export const DEFAULT_SSL_CONFIG: SSLConfig = {
+  mode: 'disable'
+}
+
+const SSL_MODES: Array<{ value: SSLMode; label: string; description: string }> = [
+  { value: 'disable', label: 'Off', description: 'Connect without encryption' },
+  {
+    value: 'require',
+    label: 'Require',
+    description: 'Encrypt, but accept any server certificate'
+  },
+  {
+    value: 'verify-ca',
+    label: 'Verify CA',
+    description: 'Encrypt and verify the certificate chain'
+  },
+  {
+    value: 'verify-full',
+    label: 'Verify Full',
+    description: 'Encrypt and verify the chain and hostname'
+  }
+]
+
+type CertificateFileField = 'caPath' | 'certPath' | 'keyPath'
+
+const CERTIFICATE_FILES: Array<{
+  field: CertificateFileField
+  label: string
+  placeholder: string
+}> = [
+  { field: 'caPath', label: 'CA Certificate', placeholder: 'Uses system CAs when empty' },
+  { field: 'certPath', label: 'Client Certificate', placeholder: 'Optional' },
+  { field: 'keyPath', label: 'Client Key', placeholder: 'Optional' }
+]
+
+/**
+ * Normalize a connection's ssl setting (legacy `true` means verify-full)
+ */
+export function toSSLConfig(ssl: boolean | SSLConfig | undefined): SSLConfig {
+  if (!ssl) return DEFAULT_SSL_CONFIG
+  if (ssl === true) return { mode: 'verify-full' }
+  return ssl
+}
+
+interface SSLSettingsProps {
+  value: SSLConfig
+  onChange: (value: SSLConfig) => void
+}
+
+export function SSLSettings({ value, onChange }: SSLSettingsProps) {
+  const update = (changes: Partial<SSLConfig>) => onChange({ ...value, ...changes })
+  const selectedMode = SSL_MODES.find((mode) => mode.value === value.mode)
+
+  const handleBrowse = async (field: CertificateFileField, label: string) => {
+    const result = await window.api.files.openFile({
+      title: `Select ${label}`,
+      filters: [
+        { name: 'Certificates', extensions: ['pem', 'crt', 'cer', 'key'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    })
+    if (result.success && result.data) {
+      update({ [field]: result.data })
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-3">
+      <span className="flex items-center gap-1.5 text-sm font-medium">
+        <ShieldCheck className="size-3.5" />
+        SSL / TLS
+      </span>
+
+      <div className="flex rounded-lg border bg-muted p-1">
+        {SSL_MODES.map((mode) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => update({ mode: mode.value })}
+            className={`flex flex-1 items-center justify-center rounded-md px-2 py-1.5 text-sm font-medium transition-colors ${
+              value.mode === mode.value
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      {selectedMode && <p className="text-xs text-muted-foreground">{selectedMode.description}</p>}
+
+      {value.mode !== 'disable' && (
+        <>
+          {CERTIFICATE_FILES.map(({ field, label, placeholder }) => (
+            <div key={field} className="flex flex-col gap-2">
+              <label htmlFor={`ssl-${field}`} className="text-sm font-medium">
+                {label}
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id={`ssl-${field}`}
+                  placeholder={placeholder}
+                  value={value[field] ?? ''}
+                  onChange={(e) => update({ [field]: e.target.value || undefined })}
+                  className="font-mono text-sm"
+                />
+                <Button type="button" variant="outline" onClick={() => handleBrowse(field, label)}>
+                  <FolderOpen className="size-4" />
+                  Browse
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {value.keyPath && (
+            <div className="flex flex-col gap-2">
+              <label htmlFor="ssl-key-passphrase" className="text-sm font-medium">
+                Key Passphrase
+              </label>
+              <Input
+                id="ssl-key-passphrase"
+                type="password"
+                placeholder="Optional"
+                value={value.keyPassphrase ?? ''}
+                onChange={(e) => update({ keyPassphrase: e.target.value || undefined })}
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Certificate files are copied into encrypted storage when the connection is saved.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -39,6 +39,7 @@ export function TabBar({ className }: TabBarProps) {
   const isTabDirty = useTabStore((s) => s.isTabDirty)
 
   const activeConnectionId = useConnectionStore((s) => s.activeConnectionId)
+  const connections = useConnectionStore((s) => s.connections)
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -89,6 +90,7 @@ export function TabBar({ className }: TabBarProps) {
             <Tab
               key={tab.id}
               tab={tab}
+              connection={connections.find((c) => c.id === tab.connectionId)}
               isActive={tab.id === activeTabId}
               isDirty={isTabDirty(tab.id)}
               onSelect={() => setActiveTab(tab.id)}
@@ -1,11 +1,14 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import {
   Play,
   Download,
   FileJson,
   FileSpreadsheet,
+  FileCode,
+  FileText,
+  FileArchive,
   Loader2,
   AlertCircle,
   Database,
@@ -17,7 +20,9 @@ import {
   DatabaseZap,
   BarChart3,
   Bookmark,
-  Maximize2
+  Maximize2,
+  Square,
+  GitCompare
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
@@ -26,9 +31,24 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu'
-import { useTabStore, useConnectionStore, useQueryStore, useSettingsStore } from '@/stores'
+import {
+  useTabStore,
+  useConnectionStore,
+  useQueryStore,
+  useSavedQueryStore,
+  useSettingsStore,
+  usePlanHistoryStore,
+  notify
+} from '@/stores'
 import type { Tab, MultiQueryResult } from '@/stores/tab-store'
-import type { StatementResult } from '@data-peek/shared'
+import { useAIStore } from '@/stores/ai-store'
+import type {
+  ExecutionPlan,
+  ExportFormat,
+  SessionTransaction,
+  StatementResult,
+  TablePageRequest
+} from '@data-peek/shared'
 import {
   DataTable,
   type DataTableFilter,
@@ -43,20 +63,43 @@ import type { EditContext } from '@data-peek/shared'
 import { SQLEditor } from '@/components/sql-editor'
 import { formatSQL } from '@/lib/sql-formatter'
 import { keys } from '@/lib/utils'
-import { downloadCSV, downloadJSON, generateExportFilename } from '@/lib/export'
-import { buildSelectQuery } from '@/lib/sql-helpers'
-import type { QueryResult as IpcQueryResult, ForeignKeyInfo, ColumnInfo } from '@data-peek/shared'
+import { EXPORT_FORMATS, exportData, generateExportFilename } from '@/lib/export'
+import { buildSelectQuery, getTableKeyColumns } from '@/lib/sql-helpers'
+import type {
+  QueryResult as IpcQueryResult,
+  ForeignKeyInfo,
+  ColumnInfo,
+  StatementClassification
+} from '@data-peek/shared'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { FKPanelStack, type FKPanelItem } from '@/components/fk-panel-stack'
 import { ERDVisualization } from '@/components/erd-visualization'
 import { ExecutionPlanViewer } from '@/components/execution-plan-viewer'
 import { TableDesigner } from '@/components/table-designer'
 import { SaveQueryDialog } from '@/components/save-query-dialog'
+import { QueryParametersDialog } from '@/components/query-parameters-dialog'
+import { getQueryParameters } from '@/lib/query-parameters'
+import { TransactionControls } from '@/components/transaction-controls'
+import { SafeModeConfirmDialog } from '@/components/safe-mode-confirm-dialog'
+import { ResultDiffDialog } from '@/components/result-diff-dialog'
+import { getStatementsToConfirm } from '@/lib/safe-mode'
 
 interface TabQueryEditorProps {
   tabId: string
 }
 
+/** Rows loaded per round trip when streaming query results */
+const RESULT_CHUNK_SIZE = 1000
+
+const EXPORT_FORMAT_ICONS: Record<ExportFormat, typeof FileText> = {
+  csv: FileSpreadsheet,
+  json: FileJson,
+  xlsx: FileSpreadsheet,
+  parquet: FileArchive,
+  markdown: FileText,
+  sql: FileCode
+}
+
 export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
   const tab = useTabStore((s) => s.getTab(tabId)) as Tab | undefined
   const updateTabQuery = useTabStore((s) => s.updateTabQuery)
@@ -64,6 +107,10 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
   const updateTabMultiResult = useTabStore((s) => s.updateTabMultiResult)
   const setActiveResultIndex = useTabStore((s) => s.setActiveResultIndex)
   const updateTabExecuting = useTabStore((s) => s.updateTabExecuting)
+  const setTabCursor = useTabStore((s) => s.setTabCursor)
+  const setTabTransaction = useTabStore((s) => s.setTabTransaction)
+  const appendTabResultRows = useTabStore((s) => s.appendTabResultRows)
+  const updateTablePreviewPage = useTabStore((s) => s.updateTablePreviewPage)
   const markTabSaved = useTabStore((s) => s.markTabSaved)
   const getTabPaginatedRows = useTabStore((s) => s.getTabPaginatedRows)
   const getActiveResultPaginatedRows = useTabStore((s) => s.getActiveResultPaginatedRows)
@@ -74,7 +121,10 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
   const schemas = useConnectionStore((s) => s.schemas)
   const getEnumValues = useConnectionStore((s) => s.getEnumValues)
   const addToHistory = useQueryStore((s) => s.addToHistory)
+  const addPlan = usePlanHistoryStore((s) => s.addPlan)
   const hideQueryEditorByDefault = useSettingsStore((s) => s.hideQueryEditorByDefault)
+  const maxResultRows = useSettingsStore((s) => s.maxResultRows)
+  const openQueryAssist = useAIStore((s) => s.openQueryAssist)
 
   // Get the connection for this tab
   const tabConnection = tab?.connectionId
@@ -90,6 +140,7 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
     tab?.type === 'table-preview' ? hideQueryEditorByDefault : false
   )
   const [isResultsCollapsed, setIsResultsCollapsed] = useState(false)
+  const [isFetchingMore, setIsFetchingMore] = useState(false)
 
   // Track client-side filters and sorting for "Apply to Query"
   const [tableFilters, setTableFilters] = useState<DataTableFilter[]>([])
@@ -100,8 +151,10 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
 
   // Execution plan state
   const [executionPlan, setExecutionPlan] = useState<{
-    plan: unknown[]
+    plan: ExecutionPlan
     durationMs: number
+    connectionId: string
+    query: string
   } | null>(null)
   const [isExplaining, setIsExplaining] = useState(false)
   const [executionPlanWidth, setExecutionPlanWidth] = useState(() => {
@@ -114,6 +167,23 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
   // Save query dialog state
   const [saveDialogOpen, setSaveDialogOpen] = useState(false)
 
+  // Parameter prompt state, with the definitions of the matching saved query
+  const [parameterDialogOpen, setParameterDialogOpen] = useState(false)
+  // Destructive statements awaiting safe-mode confirmation, with the parameters to run them with
+  const [safeModeConfirmation, setSafeModeConfirmation] = useState<{
+    statements: StatementClassification[]
+    parameters?: Record<string, unknown>
+  } | null>(null)
+
+  // Compare results dialog state
+  const [compareDialogOpen, setCompareDialogOpen] = useState(false)
+  const savedQueries = useSavedQueryStore((s) => s.savedQueries)
+  const savedParameterDefinitions = useMemo(() => {
+    const query = tab && 'query' in tab ? tab.query.trim() : undefined
+    if (!query) return undefined
+    return savedQueries.find((q) => q.query.trim() === query)?.parameters
+  }, [savedQueries, tab])
+
   // Get the createForeignKeyTab action
   const createForeignKeyTab = useTabStore((s) => s.createForeignKeyTab)
 
@@ -141,102 +211,272 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
     }
   }, [handleExecutionPlanResize, stopResizing])
 
-  const handleRunQuery = useCallback(async () => {
-    if (
-      !tab ||
-      tab.type === 'erd' ||
-      tab.type === 'table-designer' ||
-      !tabConnection ||
-      tab.isExecuting ||
-      !tab.query.trim()
-    ) {
-      return
-    }
+  // Load a page of a table preview. Filters, sort and paging run in the database.
+  const loadTablePage = useCallback(
+    async (
+      changes: Partial<Pick<TablePageRequest, 'page' | 'filters' | 'sort' | 'exactCount'>>
+    ) => {
+      if (!tab || tab.type !== 'table-preview' || !tabConnection || tab.isExecuting) return
+
+      const tableInfo = schemas
+        .find((s) => s.name === tab.schemaName)
+        ?.tables.find((t) => t.name === tab.tableName)
+      const request: TablePageRequest = {
+        schema: tab.schemaName,
+        table: tab.tableName,
+        filters: tab.filters,
+        sort: tab.sort,
+        page: tab.currentPage - 1,
+        pageSize: tab.pageSize,
+        exactCount: tab.exactCount,
+        keyColumns: tableInfo && getTableKeyColumns(tableInfo.columns, tabConnection.dbType),
+        ...changes
+      }
 
-    updateTabExecuting(tabId, true)
+      updateTabExecuting(tabId, true)
+      try {
+        const response = await window.api.db.tablePage(tabConnection, request)
+        if (response.success && response.data) {
+          updateTablePreviewPage(tabId, request, response.data)
+        } else if (tab.result) {
+          // Keep the current page on screen so the filter can be corrected
+          notify.error('Could not load table data', response.error)
+        } else {
+          updateTabResult(tabId, null, response.error ?? 'Failed to load table data')
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        updateTabResult(tabId, null, errorMessage)
+      } finally {
+        updateTabExecuting(tabId, false)
+      }
+    },
+    [
+      tab,
+      tabConnection,
+      tabId,
+      schemas,
+      updateTabExecuting,
+      updateTabResult,
+      updateTablePreviewPage
+    ]
+  )
 
-    try {
-      const response = await window.api.db.query(tabConnection, tab.query)
+  const runQuery = useCallback(
+    async (parameters?: Record<string, unknown>, confirmed?: boolean) => {
+      if (
+        !tab ||
+        tab.type === 'erd' ||
+        tab.type === 'table-designer' ||
+        !tabConnection ||
+        tab.isExecuting ||
+        !tab.query.trim()
+      ) {
+        return
+      }
 
-      if (response.success && response.data) {
-        const data = response.data as
-          | { results: StatementResult[]; totalDurationMs: number; statementCount: number }
-          | IpcQueryResult
-
-        // Check if we have multi-statement results
-        if ('results' in data && Array.isArray(data.results)) {
-          // Multi-statement result
-          const multiResult: MultiQueryResult = {
-            statements: data.results as StatementResult[],
-            totalDurationMs: data.totalDurationMs,
-            statementCount: data.statementCount
-          }
+      // Table previews reload their page unless the SQL was edited into a custom query
+      if (tab.type === 'table-preview' && !tab.multiResult && tab.query === tab.savedQuery) {
+        await loadTablePage({})
+        return
+      }
 
-          updateTabMultiResult(tabId, multiResult, null)
-          markTabSaved(tabId)
+      // Placeholders are filled in through the parameter prompt first
+      if (!parameters && getQueryParameters(tab.query).length > 0) {
+        setParameterDialogOpen(true)
+        return
+      }
 
-          // Add to global history with total row count
-          const totalRows = multiResult.statements.reduce((sum, s) => sum + s.rowCount, 0)
-          addToHistory({
-            query: tab.query,
-            durationMs: multiResult.totalDurationMs,
-            rowCount: totalRows,
-            status: 'success',
-            connectionId: tabConnection.id
-          })
-        } else {
-          // Legacy single result (fallback)
-          const singleResult = data as IpcQueryResult
-          const result = {
-            columns: singleResult.fields.map((f: { name: string; dataType: string }) => ({
-              name: f.name,
-              dataType: f.dataType
-            })),
-            rows: singleResult.rows,
-            rowCount: singleResult.rowCount ?? singleResult.rows.length,
-            durationMs: singleResult.durationMs
-          }
+      // Safe mode asks for typed confirmation of destructive statements
+      if (!confirmed) {
+        const statements = getStatementsToConfirm(tabConnection, tab.query)
+        if (statements.length > 0) {
+          setSafeModeConfirmation({ statements, parameters })
+          return
+        }
+      }
+
+      // Release the cursor still holding the previous result
+      if (tab.cursorId) {
+        window.api.db.closeCursor(tab.cursorId)
+        setTabCursor(tabId, undefined)
+      }
+
+      const executionId = crypto.randomUUID()
+      updateTabExecuting(tabId, true, executionId)
 
-          updateTabResult(tabId, result, null)
-          markTabSaved(tabId)
+      // Table previews are already limited and editable, so only query tabs stream
+      const chunkSize = tab.type === 'query' ? RESULT_CHUNK_SIZE : undefined
+      // Manual-commit tabs run on their own session, keyed by the tab
+      const sessionId = tab.type === 'query' && tab.manualCommit ? tabId : undefined
+
+      try {
+        const response = await window.api.db.query(
+          tabConnection,
+          tab.query,
+          executionId,
+          chunkSize,
+          parameters,
+          sessionId,
+          confirmed
+        )
+
+        // Session runs report the transaction state, whether they succeeded or not
+        const transaction = (response.data as { transaction?: SessionTransaction } | undefined)
+          ?.transaction
+        if (sessionId && transaction) {
+          setTabTransaction(tabId, transaction)
+        }
+
+        if (response.success && response.data) {
+          const data = response.data as
+            | { results: StatementResult[]; totalDurationMs: number; statementCount: number }
+            | IpcQueryResult
+
+          // Check if we have multi-statement results
+          if ('results' in data && Array.isArray(data.results)) {
+            // Multi-statement result
+            const multiResult: MultiQueryResult = {
+              statements: data.results as StatementResult[],
+              totalDurationMs: data.totalDurationMs,
+              statementCount: data.statementCount
+            }
+
+            updateTabMultiResult(tabId, multiResult, null)
+            if (multiResult.statements.some((statement) => statement.hasMore)) {
+              setTabCursor(tabId, executionId)
+            }
+            markTabSaved(tabId)
+
+            // Add to global history with total row count
+            const totalRows = multiResult.statements.reduce((sum, s) => sum + s.rowCount, 0)
+            addToHistory({
+              query: tab.query,
+              durationMs: multiResult.totalDurationMs,
+              rowCount: totalRows,
+              status: 'success',
+              connectionId: tabConnection.id,
+              connectionName: tabConnection.name,
+              database: tabConnection.database,
+              tabId,
+              tabTitle: tab.title
+            })
+          } else {
+            // Legacy single result (fallback)
+            const singleResult = data as IpcQueryResult
+            const result = {
+              columns: singleResult.fields.map((f: { name: string; dataType: string }) => ({
+                name: f.name,
+                dataType: f.dataType
+              })),
+              rows: singleResult.rows,
+              rowCount: singleResult.rowCount ?? singleResult.rows.length,
+              durationMs: singleResult.durationMs
+            }
+
+            updateTabResult(tabId, result, null)
+            markTabSaved(tabId)
+
+            addToHistory({
+              query: tab.query,
+              durationMs: singleResult.durationMs,
+              rowCount: result.rowCount,
+              status: 'success',
+              connectionId: tabConnection.id,
+              connectionName: tabConnection.name,
+              database: tabConnection.database,
+              tabId,
+              tabTitle: tab.title
+            })
+          }
+        } else {
+          const errorMessage = response.error ?? 'Query execution failed'
+          updateTabMultiResult(tabId, null, errorMessage)
 
           addToHistory({
             query: tab.query,
-            durationMs: singleResult.durationMs,
-            rowCount: result.rowCount,
-            status: 'success',
-            connectionId: tabConnection.id
+            durationMs: 0,
+            rowCount: 0,
+            status: 'error',
+            connectionId: tabConnection.id,
+            connectionName: tabConnection.name,
+            database: tabConnection.database,
+            tabId,
+            tabTitle: tab.title,
+            errorMessage
           })
         }
-      } else {
-        const errorMessage = response.error ?? 'Query execution failed'
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
         updateTabMultiResult(tabId, null, errorMessage)
+      } finally {
+        updateTabExecuting(tabId, false)
+      }
+    },
+    [
+      tab,
+      tabConnection,
+      tabId,
+      loadTablePage,
+      updateTabExecuting,
+      updateTabResult,
+      updateTabMultiResult,
+      setTabCursor,
+      setTabTransaction,
+      markTabSaved,
+      addToHistory
+    ]
+  )
 
-        addToHistory({
-          query: tab.query,
-          durationMs: 0,
-          rowCount: 0,
-          status: 'error',
-          connectionId: tabConnection.id,
-          errorMessage
-        })
+  const handleRunQuery = useCallback(() => runQuery(), [runQuery])
+
+  const handleFetchMore = useCallback(async () => {
+    if (!tab || tab.type === 'erd' || tab.type === 'table-designer') return
+    if (!tab.cursorId || isFetchingMore) return
+
+    const cursorId = tab.cursorId
+    const statements = tab.multiResult?.statements ?? []
+    const loadedRows = statements[statements.length - 1]?.rows.length ?? 0
+    const remaining = maxResultRows - loadedRows
+
+    if (remaining <= 0) {
+      window.api.db.closeCursor(cursorId)
+      appendTabResultRows(tabId, [], false, true)
+      return
+    }
+
+    setIsFetchingMore(true)
+    try {
+      const response = await window.api.db.fetchMore(
+        cursorId,
+        Math.min(RESULT_CHUNK_SIZE, remaining)
+      )
+
+      if (response.success && response.data) {
+        const { rows, hasMore } = response.data
+        // Stop streaming once the tab holds as many rows as the settings allow
+        const rowLimitReached = hasMore && loadedRows + rows.length >= maxResultRows
+        if (rowLimitReached) {
+          window.api.db.closeCursor(cursorId)
+        }
+        appendTabResultRows(tabId, rows, hasMore && !rowLimitReached, rowLimitReached)
+      } else {
+        notify.error('Could not load more rows', response.error)
+        appendTabResultRows(tabId, [], false)
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      updateTabMultiResult(tabId, null, errorMessage)
     } finally {
-      updateTabExecuting(tabId, false)
+      setIsFetchingMore(false)
     }
-  }, [
-    tab,
-    tabConnection,
-    tabId,
-    updateTabExecuting,
-    updateTabResult,
-    updateTabMultiResult,
-    markTabSaved,
-    addToHistory
-  ])
+  }, [tab, tabId, isFetchingMore, maxResultRows, appendTabResultRows])
+
+  const handleCancelQuery = useCallback(async () => {
+    if (!tab || tab.type === 'erd' || tab.type === 'table-designer' || !tab.executionId) return
+
+    const response = await window.api.db.cancel(tab.executionId)
+    if (!response.success) {
+      notify.error('Could not cancel query', response.error)
+    }
+  }, [tab])
 
   const handleFormatQuery = () => {
     if (!tab || tab.type === 'erd' || tab.type === 'table-designer' || !tab.query.trim()) return
@@ -263,9 +503,13 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
       const response = await window.api.db.explain(tabConnection, tab.query, true)
 
       if (response.success && response.data) {
+        // Keep every plan so runs of the query can be compared while tuning it
+        addPlan(tabConnection.id, tab.query, response.data.plan, response.data.durationMs)
         setExecutionPlan({
-          plan: response.data.plan as unknown[],
-          durationMs: response.data.durationMs
+          plan: response.data.plan,
+          durationMs: response.data.durationMs,
+          connectionId: tabConnection.id,
+          query: tab.query
         })
       } else {
         // Show error in the existing error display
@@ -277,7 +521,7 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
     } finally {
       setIsExplaining(false)
     }
-  }, [tab, tabConnection, tabId, isExplaining, updateTabResult])
+  }, [tab, tabConnection, tabId, isExplaining, updateTabResult, addPlan])
 
   const handleQueryChange = (value: string) => {
     updateTabQuery(tabId, value)
@@ -522,24 +766,8 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
   const buildQueryWithFilters = (): string => {
     if (!tab || tab.type === 'erd' || tab.type === 'table-designer') return ''
 
-    // For table preview tabs, rebuild from scratch
-    if (tab.type === 'table-preview') {
-      // Build table reference (handle MSSQL's dbo schema)
-      const defaultSchema = tabConnection?.dbType === 'mssql' ? 'dbo' : 'public'
-      const tableRef =
-        tab.schemaName === defaultSchema ? tab.tableName : `${tab.schemaName}.${tab.tableName}`
-      const wherePart = generateWhereClause(tableFilters)
-      const orderPart = generateOrderByClause(tableSorting)
-      return buildSelectQuery(tableRef, tabConnection?.dbType, {
-        where: wherePart,
-        orderBy: orderPart,
-        limit: 100
-      })
-        .replace(/\s+/g, ' ')
-        .trim()
-    }
-
-    // For query tabs, try to inject WHERE/ORDER BY
+    // Table previews filter and sort on the server; this only applies to
+    // query tabs and previews running a custom query. Try to inject WHERE/ORDER BY
     // This is simplified - a full implementation would parse the SQL AST
     let baseQuery = tab.query.trim()
 
@@ -571,12 +799,34 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
     setTimeout(() => handleRunQuery(), 100)
   }
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!tab || !('result' in tab) || !tab.result) return
+    const table =
+      tab.type === 'table-preview' ? { schema: tab.schemaName, name: tab.tableName } : undefined
+    try {
+      const result = await exportData(tab.result, {
+        filename: generateExportFilename(table?.name),
+        format,
+        dbType: tabConnection?.dbType,
+        table
+      })
+      if (result) {
+        notify.success(
+          'Export complete',
+          `Saved ${result.rowCount.toLocaleString()} rows to ${result.filePath}`
+        )
+      }
+    } catch (error) {
+      notify.error('Export failed', error instanceof Error ? error.message : String(error))
+    }
+  }
+
   const hasActiveFiltersOrSorting = tableFilters.length > 0 || tableSorting.length > 0
 
-  // Auto-run query for table-preview tabs when first created
+  // Auto-run query for table-preview tabs (and query tabs opened to run) when first created
   useEffect(() => {
     if (
-      tab?.type === 'table-preview' &&
+      (tab?.type === 'table-preview' || (tab?.type === 'query' && tab.runOnOpen)) &&
       !tab.result &&
       !tab.multiResult &&
       !tab.error &&
@@ -651,6 +901,20 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
     ? getActiveResultPaginatedRows(tabId)
     : getTabPaginatedRows(tabId)
 
+  // Every row loaded so far for the active result (the data table pages through them)
+  const activeResultRows = hasMultipleResults
+    ? (activeStatementResult?.rows ?? [])
+    : (tab.result?.rows ?? [])
+
+  // Table previews page on the server until the user runs a custom query in them
+  const isServerPaged = tab.type === 'table-preview' && !tab.multiResult
+
+  // Only the last result set is streamed, so only it can load more rows
+  const canFetchMore =
+    !!tab.cursorId &&
+    !!statementResults[statementResults.length - 1]?.hasMore &&
+    activeResultIndex === statementResults.length - 1
+
   // Get columns from active statement result (for multi-statement) or legacy result
   const getActiveResultColumns = () => {
     if (activeStatementResult) {
@@ -683,6 +947,7 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
               height={isResultsCollapsed ? '100%' : 160}
               placeholder="SELECT * FROM your_table LIMIT 100;"
               schemas={schemas}
+              onAIAssist={(mode, selection) => openQueryAssist({ mode, tabId, ...selection })}
             />
           </div>
         )}
@@ -717,6 +982,18 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
               Run
               <kbd className="ml-1.5 rounded bg-primary-foreground/20 px-1.5 py-0.5 text-[10px] font-medium text-primary-foreground">{keys.mod}{keys.enter}</kbd>
             </Button>
+            {tab.isExecuting && tab.executionId && (
+              <Button
+                variant="destructive"
+                size="sm"
+                className="gap-1.5 h-7"
+                onClick={handleCancelQuery}
+                title="Cancel running query"
+              >
+                <Square className="size-3.5" />
+                Cancel
+              </Button>
+            )}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -789,6 +1066,7 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
             )}
           </div>
           <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            {tab.type === 'query' && <TransactionControls tab={tab} connection={tabConnection} />}
             {isEditorCollapsed && (
               <code className="text-[10px] bg-muted/50 px-2 py-0.5 rounded max-w-[300px] truncate">
                 {tab.query.replace(/\s+/g, ' ').slice(0, 60)}
@@ -908,7 +1186,12 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
                     <EditableDataTable
                       tabId={tabId}
                       columns={getColumnsForEditing()}
-                      data={paginatedRows as Record<string, unknown>[]}
+                      data={
+                        (isServerPaged ? (tab.result?.rows ?? []) : paginatedRows) as Record<
+                          string,
+                          unknown
+                        >[]
+                      }
                       pageSize={tab.pageSize}
                       canEdit={true}
                       editContext={getEditContext()}
@@ -918,6 +1201,22 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
                       onForeignKeyClick={handleFKClick}
                       onForeignKeyOpenTab={handleFKOpenTab}
                       onChangesCommitted={handleRunQuery}
+                      serverPaging={
+                        isServerPaged
+                          ? {
+                              page: tab.currentPage - 1,
+                              totalCount: tab.totalCount,
+                              totalCountIsEstimate: tab.totalCountIsEstimate,
+                              filters: tab.filters,
+                              sort: tab.sort,
+                              isLoading: tab.isExecuting,
+                              onPageChange: (page) => loadTablePage({ page }),
+                              onFiltersChange: (filters) => loadTablePage({ filters, page: 0 }),
+                              onSortChange: (sort) => loadTablePage({ sort, page: 0 }),
+                              onCountExactly: () => loadTablePage({ exactCount: true })
+                            }
+                          : undefined
+                      }
                     />
                   ) : (
                     <DataTable
@@ -929,12 +1228,15 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
                             }))
                           : getColumnsWithFKInfo()
                       }
-                      data={paginatedRows as Record<string, unknown>[]}
+                      data={activeResultRows}
                       pageSize={tab.pageSize}
                       onFiltersChange={setTableFilters}
                       onSortingChange={setTableSorting}
                       onForeignKeyClick={handleFKClick}
                       onForeignKeyOpenTab={handleFKOpenTab}
+                      hasMore={canFetchMore}
+                      isLoadingMore={isFetchingMore}
+                      onLoadMore={handleFetchMore}
                     />
                   )}
                 </div>
@@ -968,11 +1270,18 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
                         <>
                           <span className="flex items-center gap-1.5">
                             <span className="size-1.5 rounded-full bg-green-500" />
-                            {tab.result?.rowCount ?? 0} rows returned
+                            {tab.result?.rowCount ?? 0}
+                            {canFetchMore ? '+' : ''} rows returned
                           </span>
                           <span>{tab.result?.durationMs}ms</span>
                         </>
                       )}
+                      {tab.multiResult?.rowLimitReached && (
+                        <span className="text-amber-500">
+                          Row limit reached ({maxResultRows.toLocaleString()}). Refine the query or
+                          raise the limit in Settings.
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -999,6 +1308,15 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
                         </Tooltip>
                       </TooltipProvider>
                     )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1.5 h-7"
+                      onClick={() => setCompareDialogOpen(true)}
+                    >
+                      <GitCompare className="size-3.5" />
+                      Compare
+                    </Button>
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button variant="outline" size="sm" className="gap-1.5 h-7">
@@ -1007,30 +1325,15 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem
-                          onClick={() => {
-                            if (!tab.result) return
-                            const filename = generateExportFilename(
-                              tab.type === 'table-preview' ? tab.tableName : undefined
-                            )
-                            downloadCSV(tab.result, filename)
-                          }}
-                        >
-                          <FileSpreadsheet className="size-4 text-muted-foreground" />
-                          Export as CSV
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => {
-                            if (!tab.result) return
-                            const filename = generateExportFilename(
-                              tab.type === 'table-preview' ? tab.tableName : undefined
-                            )
-                            downloadJSON(tab.result, filename)
-                          }}
-                        >
-                          <FileJson className="size-4 text-muted-foreground" />
-                          Export as JSON
-                        </DropdownMenuItem>
+                        {EXPORT_FORMATS.map(({ format, label }) => {
+                          const Icon = EXPORT_FORMAT_ICONS[format]
+                          return (
+                            <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+                              <Icon className="size-4 text-muted-foreground" />
+                              Export as {label}
+                            </DropdownMenuItem>
+                          )
+                        })}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -1081,8 +1384,10 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
               }}
             />
             <ExecutionPlanViewer
-              plan={executionPlan.plan as Parameters<typeof ExecutionPlanViewer>[0]['plan']}
+              plan={executionPlan.plan}
               durationMs={executionPlan.durationMs}
+              connectionId={executionPlan.connectionId}
+              query={executionPlan.query}
               onClose={() => setExecutionPlan(null)}
             />
           </div>
@@ -1091,6 +1396,29 @@ export function TabQueryEditor({ tabId }: TabQueryEditorProps) {
 
       {/* Save Query Dialog */}
       <SaveQueryDialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen} query={tab.query} />
+
+      {/* Query Parameters Dialog */}
+      <QueryParametersDialog
+        open={parameterDialogOpen}
+        onOpenChange={setParameterDialogOpen}
+        query={tab.query}
+        definitions={savedParameterDefinitions}
+        onRun={runQuery}
+      />
+
+      {/* Safe Mode Confirmation Dialog */}
+      {safeModeConfirmation && tabConnection && (
+        <SafeModeConfirmDialog
+          open
+          onOpenChange={(open) => !open && setSafeModeConfirmation(null)}
+          connection={tabConnection}
+          statements={safeModeConfirmation.statements}
+          onConfirm={() => runQuery(safeModeConfirmation.parameters, true)}
+        />
+      )}
+
+      {/* Compare Results Dialog */}
+      <ResultDiffDialog open={compareDialogOpen} onOpenChange={setCompareDialogOpen} tab={tab} />
     </div>
   )
 }
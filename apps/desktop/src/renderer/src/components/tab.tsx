@@ -4,6 +4,8 @@ import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { FileCode, Table2, Pin, X, Network } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { getConnectionColor } from '@/lib/safe-mode'
+import type { Connection } from '@/stores'
 import type { Tab as TabType } from '@/stores/tab-store'
 import {
   ContextMenu,
@@ -15,6 +17,8 @@ import {
 
 interface TabProps {
   tab: TabType
+  /** The tab's connection, whose color marks the tab */
+  connection?: Connection
   isActive: boolean
   isDirty: boolean
   onSelect: () => void
@@ -28,6 +32,7 @@ interface TabProps {
 
 export function Tab({
   tab,
+  connection,
   isActive,
   isDirty,
   onSelect,
@@ -48,6 +53,7 @@ export function Tab({
   }
 
   const Icon = tab.type === 'query' ? FileCode : tab.type === 'erd' ? Network : Table2
+  const connectionColor = connection && getConnectionColor(connection)
 
   return (
     <ContextMenu>
@@ -58,6 +64,7 @@ export function Tab({
           {...attributes}
           {...listeners}
           onClick={onSelect}
+          title={connection ? `${tab.title} (${connection.name})` : tab.title}
           className={cn(
             'group relative flex h-9 min-w-[100px] max-w-[180px] cursor-pointer items-center gap-2 border-r border-border/40 px-3 transition-colors',
             isActive
@@ -67,6 +74,14 @@ export function Tab({
             tab.isPinned && 'bg-muted/40'
           )}
         >
+          {/* Connection color */}
+          {connectionColor && (
+            <span
+              className="absolute inset-x-0 top-0 h-0.5"
+              style={{ backgroundColor: connectionColor }}
+            />
+          )}
+
           {/* Pin indicator */}
           {tab.isPinned && <Pin className="size-3 shrink-0 text-muted-foreground" />}
 
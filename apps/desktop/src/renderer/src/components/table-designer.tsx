@@ -12,7 +12,8 @@ import {
   GripVertical,
   Copy,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Lock
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -39,6 +40,7 @@ import { useDDLStore, type ValidationError } from '@/stores/ddl-store'
 import type { TableDesignerTab } from '@/stores/tab-store'
 import type { ColumnDefinition, PostgresDataType, ConstraintType } from '@data-peek/shared'
 import { cn } from '@/lib/utils'
+import { isReadOnlyConnection } from '@/lib/safe-mode'
 import { ConstraintEditor } from '@/components/constraint-editor'
 import { IndexEditor } from '@/components/index-editor'
 
@@ -218,7 +220,7 @@ export function TableDesigner({ tabId }: TableDesignerProps) {
   }, [definition, tabId, validate, setSqlPreview, setError])
 
   const handleSave = useCallback(async () => {
-    if (!definition || !tabConnection) return
+    if (!definition || !tabConnection || isReadOnlyConnection(tabConnection)) return
 
     // Validate
     const errors = validate(tabId)
@@ -315,6 +317,12 @@ export function TableDesigner({ tabId }: TableDesignerProps) {
               Unsaved changes
             </span>
           )}
+          {isReadOnlyConnection(tabConnection) && (
+            <span className="flex items-center gap-1 text-xs text-amber-500 bg-amber-500/10 px-2 py-0.5 rounded">
+              <Lock className="size-3" />
+              Read-only connection
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -334,7 +342,7 @@ export function TableDesigner({ tabId }: TableDesignerProps) {
           <Button
             size="sm"
             onClick={handleSave}
-            disabled={state?.isSaving || hasErrors || !dirty}
+            disabled={state?.isSaving || hasErrors || !dirty || isReadOnlyConnection(tabConnection)}
             className="gap-1.5"
           >
             {state?.isSaving ? (
@@ -0,0 +1,167 @@
+'use client'
+
+import * as React from 'react'
+import type { TableFilter, TableFilterOperator } from '@data-peek/shared'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select'
+
+const FILTER_OPERATORS: Array<{ value: TableFilterOperator; label: string }> = [
+  { value: 'like', label: 'contains' },
+  { value: 'not-like', label: 'not contains' },
+  { value: '=', label: '=' },
+  { value: '!=', label: '≠' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '≤' },
+  { value: '>', label: '>' },
+  { value: '>=', label: '≥' },
+  { value: 'in', label: 'in' },
+  { value: 'between', label: 'between' },
+  { value: 'is-null', label: 'is null' },
+  { value: 'is-not-null', label: 'not null' }
+]
+
+const NULL_OPERATORS: TableFilterOperator[] = ['is-null', 'is-not-null']
+
+function isTextType(dataType: string): boolean {
+  const lower = dataType.toLowerCase()
+  return (
+    lower.includes('char') ||
+    lower.includes('text') ||
+    lower.includes('json') ||
+    lower.includes('uuid') ||
+    lower === 'string'
+  )
+}
+
+/**
+ * Turn the draft into a filter, or null when there is nothing to filter on
+ */
+function toFilter(
+  column: string,
+  operator: TableFilterOperator,
+  value: string,
+  valueTo: string
+): TableFilter | null {
+  if (NULL_OPERATORS.includes(operator)) {
+    return { column, operator }
+  }
+
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  switch (operator) {
+    case 'in': {
+      const values = trimmed
+        .split(',')
+        .map((v) => v.trim())
+        .filter(Boolean)
+      return values.length > 0 ? { column, operator, values } : null
+    }
+    case 'between':
+      return valueTo.trim() ? { column, operator, value: trimmed, valueTo: valueTo.trim() } : null
+    case 'like':
+    case 'not-like':
+      // Plain text means "contains"; a value with % is used as the pattern itself
+      return { column, operator, value: trimmed.includes('%') ? trimmed : `%${trimmed}%` }
+    default:
+      return { column, operator, value: trimmed }
+  }
+}
+
+function toDraftValue(filter: TableFilter | undefined): string {
+  if (!filter) return ''
+  if (filter.operator === 'in') return (filter.values ?? []).join(', ')
+  if (filter.operator === 'like' || filter.operator === 'not-like') {
+    const value = filter.value ?? ''
+    const contains = value.match(/^%([^%]*)%$/)
+    return contains ? contains[1] : value
+  }
+  return filter.value ?? ''
+}
+
+interface TableFilterCellProps {
+  column: string
+  dataType: string
+  filter?: TableFilter
+  onChange: (filter: TableFilter | null) => void
+}
+
+/**
+ * Operator + value filter for one column of a server-paged table.
+ * Text filters apply on Enter or when the input loses focus.
+ */
+export function TableFilterCell({ column, dataType, filter, onChange }: TableFilterCellProps) {
+  const defaultOperator: TableFilterOperator = isTextType(dataType) ? 'like' : '='
+  const [operator, setOperator] = React.useState<TableFilterOperator>(
+    filter?.operator ?? defaultOperator
+  )
+  const [value, setValue] = React.useState(toDraftValue(filter))
+  const [valueTo, setValueTo] = React.useState(filter?.valueTo ?? '')
+
+  // Follow filters changed from outside (e.g. "Clear all")
+  React.useEffect(() => {
+    setOperator(filter?.operator ?? defaultOperator)
+    setValue(toDraftValue(filter))
+    setValueTo(filter?.valueTo ?? '')
+  }, [filter, defaultOperator])
+
+  const commit = (nextOperator = operator, nextValue = value, nextValueTo = valueTo) => {
+    const next = toFilter(column, nextOperator, nextValue, nextValueTo)
+    if (JSON.stringify(next) === JSON.stringify(filter ?? null)) return
+    onChange(next)
+  }
+
+  const handleOperatorChange = (next: string) => {
+    const nextOperator = next as TableFilterOperator
+    setOperator(nextOperator)
+    // Null checks need no value, and switching away from one clears the filter
+    if (NULL_OPERATORS.includes(nextOperator) || NULL_OPERATORS.includes(operator)) {
+      commit(nextOperator)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit()
+  }
+
+  const selectedLabel = FILTER_OPERATORS.find((op) => op.value === operator)?.label
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={operator} onValueChange={handleOperatorChange}>
+        <SelectTrigger className="h-7 w-auto shrink-0 gap-1 px-1.5 text-xs bg-background/80">
+          <span>{selectedLabel}</span>
+        </SelectTrigger>
+        <SelectContent className="w-32">
+          {FILTER_OPERATORS.map((op) => (
+            <SelectItem key={op.value} value={op.value} className="text-xs">
+              {op.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {!NULL_OPERATORS.includes(operator) && (
+        <Input
+          placeholder={
+            operator === 'in' ? 'a, b, c' : operator === 'between' ? 'from' : 'Filter...'
+          }
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => commit()}
+          className="h-7 min-w-20 text-xs bg-background/80"
+        />
+      )}
+      {operator === 'between' && (
+        <Input
+          placeholder="to"
+          value={valueTo}
+          onChange={(e) => setValueTo(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => commit()}
+          className="h-7 min-w-20 text-xs bg-background/80"
+        />
+      )}
+    </div>
+  )
+}
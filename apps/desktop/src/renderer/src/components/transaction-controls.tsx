@@ -0,0 +1,151 @@
+'use client'
+
+import * as React from 'react'
+import { GitCommitHorizontal, Loader2, Lock, LockOpen, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { useTabStore, notify, type Connection, type QueryTab } from '@/stores'
+
+interface TransactionControlsProps {
+  tab: QueryTab
+  connection: Connection
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`
+}
+
+/**
+ * Ticking time since a transaction started
+ */
+function useElapsed(startedAt: number | undefined): number {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    if (startedAt === undefined) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [startedAt])
+
+  return startedAt === undefined ? 0 : now - startedAt
+}
+
+/**
+ * Auto-commit / manual-commit toggle for a query tab, with the open transaction's
+ * elapsed time and Commit/Rollback buttons in manual-commit mode
+ */
+export function TransactionControls({ tab, connection }: TransactionControlsProps) {
+  const setTabManualCommit = useTabStore((s) => s.setTabManualCommit)
+  const setTabTransaction = useTabStore((s) => s.setTabTransaction)
+  const [pendingAction, setPendingAction] = React.useState<'commit' | 'rollback' | null>(null)
+
+  const transactionOpen = !!tab.manualCommit && !!tab.transaction?.open
+  const startedAt = transactionOpen ? tab.transaction?.startedAt : undefined
+  const elapsed = useElapsed(startedAt)
+
+  const endTransaction = async (action: 'commit' | 'rollback') => {
+    setPendingAction(action)
+    try {
+      const response =
+        action === 'commit'
+          ? await window.api.db.commit(connection, tab.id)
+          : await window.api.db.rollback(connection, tab.id)
+
+      // Failures report the state too (e.g. closed when the server dropped the session)
+      if (response.data) {
+        setTabTransaction(tab.id, response.data)
+      }
+      if (response.success) {
+        notify.success(action === 'commit' ? 'Transaction committed' : 'Transaction rolled back')
+      } else {
+        notify.error(
+          action === 'commit' ? 'Commit failed' : 'Rollback failed',
+          response.error ?? 'Unknown error'
+        )
+      }
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const busy = tab.isExecuting || pendingAction !== null
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {transactionOpen && (
+        <>
+          <Badge
+            variant="outline"
+            className="gap-1.5 h-6 border-amber-500/40 bg-amber-500/10 text-amber-500 font-normal"
+            title={startedAt ? `Started at ${new Date(startedAt).toLocaleTimeString()}` : undefined}
+          >
+            <span className="size-1.5 rounded-full bg-amber-500 animate-pulse" />
+            Transaction open
+            <span className="tabular-nums">{formatElapsed(elapsed)}</span>
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1.5 h-7 text-green-500 hover:text-green-600"
+            disabled={busy}
+            onClick={() => endTransaction('commit')}
+          >
+            {pendingAction === 'commit' ? (
+              <Loader2 className="size-3.5 animate-spin" />
+            ) : (
+              <GitCommitHorizontal className="size-3.5" />
+            )}
+            Commit
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1.5 h-7 text-red-500 hover:text-red-600"
+            disabled={busy}
+            onClick={() => endTransaction('rollback')}
+          >
+            {pendingAction === 'rollback' ? (
+              <Loader2 className="size-3.5 animate-spin" />
+            ) : (
+              <RotateCcw className="size-3.5" />
+            )}
+            Rollback
+          </Button>
+        </>
+      )}
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`gap-1.5 h-7 ${tab.manualCommit ? 'text-amber-500' : ''}`}
+              disabled={busy || transactionOpen}
+              onClick={() => setTabManualCommit(tab.id, !tab.manualCommit)}
+            >
+              {tab.manualCommit ? <Lock className="size-3.5" /> : <LockOpen className="size-3.5" />}
+              {tab.manualCommit ? 'Manual commit' : 'Auto-commit'}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p className="text-xs">
+              {transactionOpen
+                ? 'Commit or roll back the open transaction to switch modes'
+                : tab.manualCommit
+                  ? 'Queries run in one transaction until you commit or roll back'
+                  : 'Each query is committed as soon as it runs'}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import type { ExecutionPlan, PlanNode, PlanSource } from '@shared/index'
+
+export type PlanNodeDiffStatus = 'matched' | 'added' | 'removed'
+
+export interface PlanNodeDiff {
+  status: PlanNodeDiffStatus
+  /** Node of the left plan (absent for added nodes) */
+  left?: PlanNode
+  /** Node of the right plan (absent for removed nodes) */
+  right?: PlanNode
+  children: PlanNodeDiff[]
+}
+
+export type PlanMetricKey = 'cost' | 'time' | 'rows' | 'buffers'
+
+export interface PlanMetric {
+  key: PlanMetricKey
+  label: string
+  /** Whether a higher value is worse (row counts only change) */
+  higherIsWorse: boolean
+  get: (node: PlanNode) => number | undefined
+}
+
+// Blocks read from cache and from disk
+function getBufferTotal(node: PlanNode): number | undefined {
+  return node.buffers ? (node.buffers.sharedHit ?? 0) + (node.buffers.sharedRead ?? 0) : undefined
+}
+
+export const PLAN_METRICS: PlanMetric[] = [
+  { key: 'cost', label: 'Cost', higherIsWorse: true, get: (node) => node.totalCost },
+  { key: 'time', label: 'Time', higherIsWorse: true, get: (node) => node.actualTimeMs },
+  {
+    key: 'rows',
+    label: 'Rows',
+    higherIsWorse: false,
+    get: (node) => node.actualRows ?? node.estimatedRows
+  },
+  { key: 'buffers', label: 'Buffers', higherIsWorse: true, get: getBufferTotal }
+]
+
+/**
+ * Format a cost in the database's units (SQL Server costs are fractions)
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0 || cost >= 100) return cost.toFixed(0)
+  return cost >= 1 ? cost.toFixed(2) : cost.toPrecision(2)
+}
+
+/**
+ * Text shown for a metric's value
+ */
+export function formatPlanMetric(key: PlanMetricKey, value: number): string {
+  switch (key) {
+    case 'cost':
+      return formatCost(value)
+    case 'time':
+      return `${value.toFixed(2)}ms`
+    default:
+      return value.toLocaleString()
+  }
+}
+
+export type MetricChange = 'better' | 'worse' | 'changed' | 'same'
+
+// Relative change below which a metric counts as unchanged
+const CHANGE_THRESHOLD = 0.1
+
+/**
+ * How a metric changed from the left plan to the right one
+ * @returns undefined when a side doesn't report the metric
+ */
+export function compareMetric(
+  metric: PlanMetric,
+  left: number | undefined,
+  right: number | undefined
+): MetricChange | undefined {
+  if (left === undefined || right === undefined) return undefined
+  const base = Math.max(Math.abs(left), Math.abs(right))
+  if (base === 0 || Math.abs(right - left) / base < CHANGE_THRESHOLD) return 'same'
+  if (!metric.higherIsWorse) return 'changed'
+  return right > left ? 'worse' : 'better'
+}
+
+/**
+ * What identifies a node across plans: the table it reads (so a sequential scan
+ * replaced by an index scan still lines up), else its operator
+ */
+function getNodeKey(node: PlanNode): string {
+  return node.relation ? `${node.schema ?? ''}.${node.relation}` : node.nodeType
+}
+
+function onlyInOnePlan(node: PlanNode, status: 'added' | 'removed'): PlanNodeDiff {
+  return {
+    status,
+    [status === 'added' ? 'right' : 'left']: node,
+    children: node.children.map((child) => onlyInOnePlan(child, status))
+  }
+}
+
+/**
+ * Align the children of two matched nodes: the longest common sequence of keys is
+ * matched first, then the nodes left between two matches are paired in order
+ */
+function alignChildren(left: PlanNode[], right: PlanNode[]): PlanNodeDiff[] {
+  const leftKeys = left.map(getNodeKey)
+  const rightKeys = right.map(getNodeKey)
+
+  // lengths[i][j]: longest common sequence of left[i..] and right[j..]
+  const lengths = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0)
+  )
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        leftKeys[i] === rightKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const aligned: PlanNodeDiff[] = []
+  let gapLeft: PlanNode[] = []
+  let gapRight: PlanNode[] = []
+
+  const flushGap = (): void => {
+    const paired = Math.min(gapLeft.length, gapRight.length)
+    for (let k = 0; k < paired; k++) {
+      aligned.push(alignPlanNodes(gapLeft[k], gapRight[k]))
+    }
+    aligned.push(...gapLeft.slice(paired).map((node) => onlyInOnePlan(node, 'removed')))
+    aligned.push(...gapRight.slice(paired).map((node) => onlyInOnePlan(node, 'added')))
+    gapLeft = []
+    gapRight = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < left.length && j < right.length) {
+    if (leftKeys[i] === rightKeys[j]) {
+      flushGap()
+      aligned.push(alignPlanNodes(left[i++], right[j++]))
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      gapLeft.push(left[i++])
+    } else {
+      gapRight.push(right[j++])
+    }
+  }
+  gapLeft.push(...left.slice(i))
+  gapRight.push(...right.slice(j))
+  flushGap()
+
+  return aligned
+}
+
+/**
+ * Pair up the nodes of two plans of the same query
+ */
+export function alignPlanNodes(left: PlanNode, right: PlanNode): PlanNodeDiff {
+  return {
+    status: 'matched',
+    left,
+    right,
+    children: alignChildren(left.children, right.children)
+  }
+}
+
+/**
+ * Whole-plan figures: the root's cost, rows and buffers (which include its children's)
+ * and the execution time
+ */
+export function getPlanTotals(
+  plan: ExecutionPlan,
+  durationMs: number
+): Record<PlanMetricKey, number | undefined> {
+  const root = plan.root
+  return {
+    cost: root?.totalCost,
+    time: plan.executionTimeMs ?? durationMs,
+    rows: root ? (root.actualRows ?? root.estimatedRows) : undefined,
+    buffers: root ? getBufferTotal(root) : undefined
+  }
+}
+
+const PLAN_FILE_TYPES: Record<PlanSource['format'], { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  xml: { extension: 'xml', mimeType: 'application/xml' },
+  text: { extension: 'txt', mimeType: 'text/plain' }
+}
+
+/**
+ * Save the plan as the database returned it, in a file other plan visualizers open
+ * (JSON for PostgreSQL and MySQL, .sqlplan for SQL Server)
+ * @returns false when the plan has no source to save
+ */
+export function downloadPlanFile(plan: ExecutionPlan, createdAt = Date.now()): boolean {
+  if (!plan.source) return false
+
+  const { format, content } = plan.source
+  const { extension, mimeType } = PLAN_FILE_TYPES[format]
+  const timestamp = new Date(createdAt).toISOString().slice(0, 19).replace(/[:.]/g, '-')
+
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  // SSMS and other showplan viewers open .sqlplan files
+  a.download = `query_plan_${timestamp}.${plan.dbType === 'mssql' ? 'sqlplan' : extension}`
+  a.click()
+  URL.revokeObjectURL(url)
+  return true
+}
@@ -1,8 +1,14 @@
-// Export utilities for CSV, JSON, and Excel formats
+// Export utilities; files are built and written by the main process
+
+import type { DatabaseType, ExportFormat, ExportResult } from '@shared/index'
 
 export interface ExportOptions {
   filename: string
-  format: 'csv' | 'json' | 'xlsx'
+  format: ExportFormat
+  /** Dialect for SQL INSERT exports */
+  dbType?: DatabaseType
+  /** Table the rows came from (INSERT target and sheet name) */
+  table?: { schema?: string; name: string }
 }
 
 export interface ExportData {
@@ -10,66 +16,37 @@ export interface ExportData {
   rows: Record<string, unknown>[]
 }
 
-// Convert value to CSV-safe string
-function escapeCSVValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return ''
-  }
-
-  const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value)
-
-  // Escape if contains comma, newline, or double quotes
-  if (stringValue.includes(',') || stringValue.includes('\n') || stringValue.includes('"')) {
-    return `"${stringValue.replace(/"/g, '""')}"`
-  }
-
-  return stringValue
-}
-
-// Export data to CSV format
-export function exportToCSV(data: ExportData): string {
-  const headers = data.columns.map((col) => escapeCSVValue(col.name)).join(',')
-  const rows = data.rows.map((row) =>
-    data.columns.map((col) => escapeCSVValue(row[col.name])).join(',')
-  )
-  return [headers, ...rows].join('\n')
-}
-
-// Export data to JSON format
-export function exportToJSON(data: ExportData, pretty: boolean = true): string {
-  const jsonData = data.rows.map((row) => {
-    const obj: Record<string, unknown> = {}
-    data.columns.forEach((col) => {
-      obj[col.name] = row[col.name]
-    })
-    return obj
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'parquet', label: 'Parquet' },
+  { format: 'markdown', label: 'Markdown Table' },
+  { format: 'sql', label: 'SQL INSERT Statements' }
+]
+
+/**
+ * Ask for a file location and write the data there
+ * @returns The written file, or null if the user cancelled
+ * @throws Error when the file couldn't be written
+ */
+export async function exportData(
+  data: ExportData,
+  options: ExportOptions
+): Promise<ExportResult | null> {
+  const response = await window.api.export.save({
+    format: options.format,
+    columns: data.columns.map((col) => ({ name: col.name, dataType: col.dataType })),
+    rows: data.rows,
+    defaultFileName: options.filename,
+    dbType: options.dbType,
+    table: options.table
   })
-  return pretty ? JSON.stringify(jsonData, null, 2) : JSON.stringify(jsonData)
-}
-
-// Trigger download in browser
-export function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
-  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType })
-  const url = URL.createObjectURL(blob)
-  const link = document.createElement('a')
-  link.href = url
-  link.download = filename
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
-  URL.revokeObjectURL(url)
-}
-
-// Export and download CSV
-export function downloadCSV(data: ExportData, filename: string): void {
-  const csv = exportToCSV(data)
-  downloadFile(csv, filename.endsWith('.csv') ? filename : `${filename}.csv`, 'text/csv')
-}
 
-// Export and download JSON
-export function downloadJSON(data: ExportData, filename: string): void {
-  const json = exportToJSON(data)
-  downloadFile(json, filename.endsWith('.json') ? filename : `${filename}.json`, 'application/json')
+  if (!response.success) {
+    throw new Error(response.error ?? 'Export failed')
+  }
+  return response.data ?? null
 }
 
 // Generate default filename based on timestamp and optional table name
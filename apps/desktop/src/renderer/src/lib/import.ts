@@ -0,0 +1,74 @@
+// Helpers for the data import wizard
+
+import type {
+  ColumnInfo,
+  ImportColumnMapping,
+  ImportColumnType,
+  ImportFileData
+} from '@shared/index'
+
+export const IMPORT_COLUMN_TYPES: Array<{ value: ImportColumnType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'decimal', label: 'Decimal' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'timestamp', label: 'Timestamp' },
+  { value: 'json', label: 'JSON' }
+]
+
+export const IMPORT_FILE_FILTERS = [
+  { name: 'Data Files', extensions: ['csv', 'tsv', 'txt', 'json', 'ndjson', 'jsonl', 'xlsx'] },
+  { name: 'All Files', extensions: ['*'] }
+]
+
+// Map a database column type to the type imported values are converted to
+export function toImportColumnType(dataType: string): ImportColumnType {
+  const lower = dataType.toLowerCase()
+  if (lower === 'bit' || lower.includes('bool') || lower === 'tinyint(1)') return 'boolean'
+  if (lower.includes('int') || lower === 'serial' || lower === 'bigserial') return 'integer'
+  if (
+    lower.includes('numeric') ||
+    lower.includes('decimal') ||
+    lower.includes('float') ||
+    lower.includes('double') ||
+    lower.includes('real') ||
+    lower.includes('money')
+  ) {
+    return 'decimal'
+  }
+  if (lower.includes('timestamp') || lower.includes('datetime')) return 'timestamp'
+  if (lower === 'date') return 'date'
+  if (lower.includes('json')) return 'json'
+  return 'text'
+}
+
+/**
+ * Initial mappings for a file. With table columns, file columns are matched by name
+ * (case-insensitive) and unmatched ones are skipped; otherwise every column is kept
+ * under its own name with the inferred type.
+ */
+export function buildDefaultMappings(
+  file: ImportFileData,
+  tableColumns?: ColumnInfo[]
+): ImportColumnMapping[] {
+  return file.columns.map((column) => {
+    if (!tableColumns) {
+      return { sourceColumn: column.name, targetColumn: column.name, type: column.inferredType }
+    }
+
+    const match = tableColumns.find((c) => c.name.toLowerCase() === column.name.toLowerCase())
+    return {
+      sourceColumn: column.name,
+      targetColumn: match?.name ?? '',
+      type: match ? toImportColumnType(match.dataType) : column.inferredType
+    }
+  })
+}
+
+// Render a file value for the preview grid
+export function formatPreviewValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
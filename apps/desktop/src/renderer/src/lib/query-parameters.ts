@@ -0,0 +1,74 @@
+import { findQueryParameters } from '@shared/index'
+import type { QueryParameterType } from '@shared/index'
+
+export const QUERY_PARAMETER_TYPES: Array<{ value: QueryParameterType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'timestamp', label: 'Timestamp' },
+  { value: 'json', label: 'JSON' }
+]
+
+export interface QueryParameterInfo {
+  name: string
+  placeholder: string
+}
+
+/**
+ * Get the distinct parameters in a query, in order of first use
+ * @param sql - Query text
+ * @returns One entry per parameter name
+ */
+export function getQueryParameters(sql: string): QueryParameterInfo[] {
+  const seen = new Map<string, QueryParameterInfo>()
+  for (const token of findQueryParameters(sql)) {
+    if (!seen.has(token.name)) {
+      seen.set(token.name, { name: token.name, placeholder: token.placeholder })
+    }
+  }
+  return Array.from(seen.values())
+}
+
+/**
+ * Key used to remember parameter values for a query (whitespace-insensitive)
+ */
+export function getQueryParameterKey(sql: string): string {
+  return sql.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Convert a value typed into the parameter form to the value that is bound.
+ * Empty input binds NULL for every type except text.
+ * @throws Error when the input is not valid for the type
+ */
+export function toParameterValue(type: QueryParameterType, input: string): unknown {
+  if (type === 'text') return input
+
+  const trimmed = input.trim()
+  if (!trimmed) return null
+
+  switch (type) {
+    case 'number': {
+      const value = Number(trimmed)
+      if (Number.isNaN(value)) throw new Error(`"${trimmed}" is not a number`)
+      return value
+    }
+    case 'boolean':
+      if (trimmed === 'true') return true
+      if (trimmed === 'false') return false
+      throw new Error(`"${trimmed}" is not true or false`)
+    case 'timestamp':
+      // datetime-local inputs use a T separator, which not every database accepts
+      return trimmed.replace('T', ' ')
+    case 'json':
+      try {
+        JSON.parse(trimmed)
+      } catch {
+        throw new Error('Invalid JSON')
+      }
+      return trimmed
+    default:
+      return trimmed
+  }
+}
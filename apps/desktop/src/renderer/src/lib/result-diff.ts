@@ -0,0 +1,225 @@
+import type { SchemaInfo, StatementResult } from '@shared/index'
+import type { Tab } from '@/stores/tab-store'
+import type { ExportData } from '@/lib/export'
+
+export type RowDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface RowDiff {
+  status: RowDiffStatus
+  /** Row of the left result (absent for added rows) */
+  left?: Record<string, unknown>
+  /** Row of the right result (absent for removed rows) */
+  right?: Record<string, unknown>
+  /** Columns whose values differ (changed rows only) */
+  changedColumns: string[]
+}
+
+export interface ResultDiff {
+  /** Columns in both results, in the left result's order */
+  columns: string[]
+  /** Columns only one of the results has (not compared) */
+  leftOnlyColumns: string[]
+  rightOnlyColumns: string[]
+  keyColumns: string[]
+  /** Left rows in order with their match, then the right rows no left row matched */
+  rows: RowDiff[]
+  counts: Record<RowDiffStatus, number>
+  /** Keys found on more than one row of a side (such rows are paired in order) */
+  duplicateKeys: number
+}
+
+/**
+ * Comparable form of a cell value. Primitives compare by their text so results from
+ * drivers that return numbers as strings still match.
+ */
+function toComparable(value: unknown): string {
+  if (value === null || value === undefined) return '\u0000null'
+  if (value instanceof Date) return value.toISOString()
+  if (value instanceof Uint8Array) {
+    return Array.from(value, (byte) => byte.toString(16).padStart(2, '0')).join('')
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Text shown for a cell value in the diff
+ */
+export function formatDiffValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Match the rows of two results by key columns and classify them as added, removed,
+ * changed or unchanged
+ * @param keyColumns - Columns identifying a row; when empty, whole rows are matched
+ */
+export function diffResults(
+  left: StatementResult,
+  right: StatementResult,
+  keyColumns: string[]
+): ResultDiff {
+  const leftNames = left.fields.map((field) => field.name)
+  const rightNames = new Set(right.fields.map((field) => field.name))
+  const columns = leftNames.filter((name) => rightNames.has(name))
+  const keys = keyColumns.filter((name) => columns.includes(name))
+  const matchColumns = keys.length > 0 ? keys : columns
+
+  const keyOf = (row: Record<string, unknown>): string =>
+    JSON.stringify(matchColumns.map((name) => toComparable(row[name])))
+
+  // Right rows waiting for a match, by key
+  const pending = new Map<string, Record<string, unknown>[]>()
+  for (const row of right.rows) {
+    const key = keyOf(row)
+    const queue = pending.get(key)
+    if (queue) {
+      queue.push(row)
+    } else {
+      pending.set(key, [row])
+    }
+  }
+
+  const duplicates = new Set<string>()
+  for (const [key, queue] of pending) {
+    if (queue.length > 1) duplicates.add(key)
+  }
+
+  const rows: RowDiff[] = []
+  const seenLeftKeys = new Set<string>()
+
+  for (const row of left.rows) {
+    const key = keyOf(row)
+    if (seenLeftKeys.has(key)) duplicates.add(key)
+    seenLeftKeys.add(key)
+
+    const match = pending.get(key)?.shift()
+    if (!match) {
+      rows.push({ status: 'removed', left: row, changedColumns: [] })
+      continue
+    }
+
+    const changedColumns = columns.filter(
+      (name) => toComparable(row[name]) !== toComparable(match[name])
+    )
+    rows.push({
+      status: changedColumns.length > 0 ? 'changed' : 'unchanged',
+      left: row,
+      right: match,
+      changedColumns
+    })
+  }
+
+  for (const queue of pending.values()) {
+    for (const row of queue) {
+      rows.push({ status: 'added', right: row, changedColumns: [] })
+    }
+  }
+
+  const counts: Record<RowDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  for (const row of rows) counts[row.status]++
+
+  return {
+    columns,
+    leftOnlyColumns: leftNames.filter((name) => !rightNames.has(name)),
+    rightOnlyColumns: right.fields.map((field) => field.name).filter((n) => !leftNames.includes(n)),
+    keyColumns: keys,
+    rows,
+    counts,
+    duplicateKeys: duplicates.size
+  }
+}
+
+/**
+ * Guess the key columns of a result: the primary key of the table the query reads
+ * (when the result has all its columns), else an `id` column
+ */
+export function guessKeyColumns(
+  sql: string,
+  columns: string[],
+  schemas: SchemaInfo[],
+  table?: { schema: string; name: string }
+): string[] {
+  const unquote = (part: string): string => part.replace(/^["`[]|["`\]]$/g, '')
+  let target = table
+  if (!target) {
+    const match = sql.match(/\bFROM\s+((?:[\w"`[\]]+\.)?[\w"`[\]]+)/i)
+    if (match) {
+      const parts = match[1].split('.').map(unquote)
+      target =
+        parts.length === 2 ? { schema: parts[0], name: parts[1] } : { schema: '', name: parts[0] }
+    }
+  }
+
+  if (target) {
+    const { schema, name } = target
+    const tableInfo = schemas
+      .filter((s) => !schema || s.name === schema)
+      .flatMap((s) => s.tables)
+      .find((t) => t.name === name)
+    const primaryKey = tableInfo?.columns.filter((c) => c.isPrimaryKey).map((c) => c.name) ?? []
+    if (primaryKey.length > 0 && primaryKey.every((c) => columns.includes(c))) {
+      return primaryKey
+    }
+  }
+
+  return columns.includes('id') ? ['id'] : []
+}
+
+/**
+ * The result a tab shows, as a statement result (table previews only keep the page
+ * on screen as a plain result)
+ */
+export function getTabStatementResult(tab: Tab): StatementResult | undefined {
+  if (tab.type === 'erd' || tab.type === 'table-designer') return undefined
+
+  const statement = tab.multiResult?.statements[tab.activeResultIndex]
+  if (statement) return statement
+  if (!tab.result) return undefined
+
+  return {
+    statement: tab.query,
+    statementIndex: 0,
+    rows: tab.result.rows,
+    fields: tab.result.columns.map((column) => ({
+      name: column.name,
+      dataType: column.dataType
+    })),
+    rowCount: tab.result.rowCount,
+    durationMs: tab.result.durationMs,
+    isDataReturning: true
+  }
+}
+
+/**
+ * Rows for exporting a diff: the status, the key columns once, then each compared
+ * column's left and right value
+ */
+export function toDiffExportData(diff: ResultDiff): ExportData {
+  const valueColumns = diff.columns.filter((name) => !diff.keyColumns.includes(name))
+  const columns = [
+    { name: 'diff_status', dataType: 'text' },
+    ...diff.keyColumns.map((name) => ({ name, dataType: 'text' })),
+    ...valueColumns.flatMap((name) => [
+      { name: `${name} (left)`, dataType: 'text' },
+      { name: `${name} (right)`, dataType: 'text' }
+    ])
+  ]
+
+  const rows = diff.rows.map((row) => {
+    const exported: Record<string, unknown> = { diff_status: row.status }
+    for (const name of diff.keyColumns) {
+      exported[name] = (row.left ?? row.right)?.[name]
+    }
+    for (const name of valueColumns) {
+      exported[`${name} (left)`] = row.left?.[name]
+      exported[`${name} (right)`] = row.right?.[name]
+    }
+    return exported
+  })
+
+  return { columns, rows }
+}
@@ -0,0 +1,60 @@
+import { classifyQuery, getSafeMode } from '@shared/index'
+import type {
+  ConnectionConfig,
+  ConnectionEnvironment,
+  StatementClassification
+} from '@shared/index'
+
+export const CONNECTION_ENVIRONMENTS: Array<{
+  value: ConnectionEnvironment
+  label: string
+  /** Badge text */
+  short: string
+  /** Accent color used when the connection has none of its own */
+  color: string
+}> = [
+  { value: 'development', label: 'Development', short: 'DEV', color: '#22c55e' },
+  { value: 'staging', label: 'Staging', short: 'STAGING', color: '#f59e0b' },
+  { value: 'production', label: 'Production', short: 'PROD', color: '#ef4444' }
+]
+
+/**
+ * Accent color of a connection: its own color, else its environment's
+ */
+export function getConnectionColor(
+  connection: Pick<ConnectionConfig, 'color' | 'environment'>
+): string | undefined {
+  return (
+    connection.color ??
+    CONNECTION_ENVIRONMENTS.find((env) => env.value === connection.environment)?.color
+  )
+}
+
+/**
+ * Whether a connection rejects all writes, so editing is disabled
+ */
+export function isReadOnlyConnection(
+  connection: Pick<ConnectionConfig, 'environment' | 'safeMode' | 'readOnly'>
+): boolean {
+  return getSafeMode(connection) === 'read-only'
+}
+
+/**
+ * Destructive statements in a query that safe mode requires the user to confirm
+ * @returns An empty list if the query can run straight away
+ */
+export function getStatementsToConfirm(
+  connection: Pick<ConnectionConfig, 'environment' | 'safeMode'>,
+  sql: string
+): StatementClassification[] {
+  if (getSafeMode(connection) !== 'confirm') return []
+  return classifyQuery(sql).filter((statement) => statement.risk === 'destructive')
+}
+
+/**
+ * Whether a query only reads, so it can be re-run without asking
+ */
+export function isReadOnlyQuery(sql: string): boolean {
+  const statements = classifyQuery(sql)
+  return statements.length > 0 && statements.every((statement) => statement.risk === 'read')
+}
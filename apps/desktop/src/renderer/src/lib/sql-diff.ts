@@ -0,0 +1,49 @@
+import { formatSQL } from '@/lib/sql-formatter'
+
+export type SqlDiffLineType = 'unchanged' | 'added' | 'removed'
+
+export interface SqlDiffLine {
+  type: SqlDiffLineType
+  text: string
+}
+
+/**
+ * Line diff between two versions of a query. Both are formatted first, so queries
+ * written on a single line still diff clause by clause.
+ */
+export function diffSql(before: string, after: string): SqlDiffLine[] {
+  const left = formatSQL(before).split('\n')
+  const right = formatSQL(after).split('\n')
+
+  // lengths[i][j]: longest common subsequence of left[i..] and right[j..]
+  const lengths = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0)
+  )
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        left[i] === right[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: SqlDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      lines.push({ type: 'unchanged', text: left[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: left[i++] })
+    } else {
+      lines.push({ type: 'added', text: right[j++] })
+    }
+  }
+  while (i < left.length) lines.push({ type: 'removed', text: left[i++] })
+  while (j < right.length) lines.push({ type: 'added', text: right[j++] })
+
+  return lines
+}
@@ -1,4 +1,4 @@
-import type { DatabaseType } from '@shared/index'
+import type { ColumnInfo, DatabaseType } from '@shared/index'
 
 /**
  * Generate database-appropriate LIMIT/TOP clause
@@ -47,3 +47,25 @@ export function buildSelectQuery(
     return parts.join(' ') + ';'
   }
 }
+
+/**
+ * Columns that give a table's rows a stable order for paging: the primary key, else
+ * every column the database can sort by
+ * @param columns - The table's columns
+ * @param dbType - Database type
+ * @returns Column names, empty when no column can be sorted
+ */
+export function getTableKeyColumns(
+  columns: ColumnInfo[],
+  dbType: DatabaseType | undefined
+): string[] {
+  const primaryKey = columns.filter((c) => c.isPrimaryKey)
+  if (primaryKey.length > 0) return primaryKey.map((c) => c.name)
+
+  // Types without ordering (SQL Server's legacy LOB types can't be compared either)
+  const unsortable =
+    dbType === 'mssql'
+      ? /^(xml|text|ntext|image|geometry|geography)\b/i
+      : /^(json|xml|point|line|lseg|box|path|polygon|circle|geometry|geography)\b/i
+  return columns.filter((c) => !unsortable.test(c.dataType)).map((c) => c.name)
+}
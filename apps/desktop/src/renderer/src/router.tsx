@@ -8,7 +8,7 @@ import {
   useNavigate
 } from '@tanstack/react-router'
 import { useState, useEffect, useCallback, useMemo } from 'react'
-import { Moon, Sun, Monitor, Sparkles, Command } from 'lucide-react'
+import { Moon, Sun, Monitor, Sparkles, Command, GitCompare, Zap } from 'lucide-react'
 import { useAutoUpdater } from '@/hooks/use-auto-updater'
 import { ThemeProvider, useTheme } from '@/components/theme-provider'
 import {
@@ -22,6 +22,7 @@ import {
   Keyboard
 } from '@/components/command-palette'
 import { SavedQueriesDialog } from '@/components/saved-queries-dialog'
+import { SchemaCompareDialog } from '@/components/schema-compare-dialog'
 import { DatabaseIcon } from '@/components/database-icons'
 import { AppSidebar } from '@/components/app-sidebar'
 import { NavActions } from '@/components/nav-actions'
@@ -32,9 +33,10 @@ import { ConnectionPicker } from '@/components/connection-picker'
 import { LicenseStatusIndicator } from '@/components/license-status-indicator'
 import { LicenseActivationModal } from '@/components/license-activation-modal'
 import { LicenseSettingsModal } from '@/components/license-settings-modal'
-import { AIChatPanel, AISettingsModal } from '@/components/ai'
+import { AIChatPanel, AIQueryAssistDialog, AISettingsModal } from '@/components/ai'
 import { Notifications } from '@/components/notifications'
 import { useAIStore } from '@/stores/ai-store'
+import type { AIQueryAssistMode } from '@data-peek/shared'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { useConnectionStore, useLicenseStore, useSettingsStore, useTabStore } from '@/stores'
@@ -61,6 +63,9 @@ function LayoutContent() {
   // Saved queries dialog state
   const [isSavedQueriesOpen, setIsSavedQueriesOpen] = useState(false)
 
+  // Schema compare dialog state
+  const [isSchemaCompareOpen, setIsSchemaCompareOpen] = useState(false)
+
   // License modal states from store
   const isActivationModalOpen = useLicenseStore((s) => s.isActivationModalOpen)
   const closeActivationModal = useLicenseStore((s) => s.closeActivationModal)
@@ -77,11 +82,14 @@ function LayoutContent() {
   const closeAISettings = useAIStore((s) => s.closeSettings)
   const multiProviderConfig = useAIStore((s) => s.multiProviderConfig)
   const isAIConfigured = useAIStore((s) => s.isConfigured)
+  const queryFixAttempts = useAIStore((s) => s.queryFixAttempts)
+  const setQueryFixAttempts = useAIStore((s) => s.setQueryFixAttempts)
   const setProviderConfig = useAIStore((s) => s.setProviderConfig)
   const removeProviderConfig = useAIStore((s) => s.removeProviderConfig)
   const setActiveProvider = useAIStore((s) => s.setActiveProvider)
   const setActiveModel = useAIStore((s) => s.setActiveModel)
   const loadConfigFromMain = useAIStore((s) => s.loadConfigFromMain)
+  const openQueryAssist = useAIStore((s) => s.openQueryAssist)
 
   // Get schemas for AI context
   const schemas = useConnectionStore((s) => s.schemas)
@@ -90,6 +98,12 @@ function LayoutContent() {
   const createQueryTab = useTabStore((s) => s.createQueryTab)
   const setActiveTab = useTabStore((s) => s.setActiveTab)
 
+  // Whether the active tab has a query for the AI to explain or optimize
+  const hasActiveQuery = useTabStore((s) => {
+    const tab = s.getActiveTab()
+    return (tab?.type === 'query' || tab?.type === 'table-preview') && !!tab.query.trim()
+  })
+
   // Handle opening SQL in a new tab (without execution)
   const handleAIOpenInTab = useCallback(
     (sql: string) => {
@@ -164,6 +178,15 @@ function LayoutContent() {
         },
         keywords: ['reload', 'schema', 'tables']
       },
+      {
+        id: 'connection-compare-schemas',
+        label: 'Compare Schemas',
+        description: 'Diff two schemas and generate a migration script',
+        icon: <GitCompare className="size-4 text-emerald-400" />,
+        category: 'Connections',
+        action: () => setIsSchemaCompareOpen(true),
+        keywords: ['diff', 'migration', 'ddl', 'sync']
+      },
 
       // Query Commands
       {
@@ -249,6 +272,35 @@ function LayoutContent() {
       }
     ]
 
+    // Explain or optimize the whole query of the active tab
+    if (hasActiveQuery) {
+      const assistActiveQuery = (mode: AIQueryAssistMode) => {
+        const tab = useTabStore.getState().getActiveTab()
+        if (tab?.type !== 'query' && tab?.type !== 'table-preview') return
+        openQueryAssist({ mode, tabId: tab.id, sql: tab.query, from: 0, to: tab.query.length })
+      }
+      cmds.push(
+        {
+          id: 'ai-explain-query',
+          label: 'Explain Query with AI',
+          description: 'Explain what the current query does',
+          icon: <Sparkles className="size-4 text-blue-400" />,
+          category: 'AI',
+          action: () => assistActiveQuery('explain'),
+          keywords: ['describe', 'understand', 'sql']
+        },
+        {
+          id: 'ai-optimize-query',
+          label: 'Optimize Query with AI',
+          description: 'Suggest a faster version of the current query',
+          icon: <Zap className="size-4 text-blue-400" />,
+          category: 'AI',
+          action: () => assistActiveQuery('optimize'),
+          keywords: ['performance', 'rewrite', 'index', 'slow', 'sql']
+        }
+      )
+    }
+
     // Add connection quick-switch commands
     connections.slice(0, 9).forEach((conn, index) => {
       cmds.push({
@@ -270,9 +322,11 @@ function LayoutContent() {
     createQueryTab,
     fetchSchemas,
     handleSelectConnection,
+    hasActiveQuery,
     navigate,
     openAIPanel,
     openAISettings,
+    openQueryAssist,
     setActiveTab,
     setTheme,
     toggleSidebar
@@ -399,6 +453,9 @@ function LayoutContent() {
       {/* Saved Queries Dialog */}
       <SavedQueriesDialog open={isSavedQueriesOpen} onOpenChange={setIsSavedQueriesOpen} />
 
+      {/* Schema Compare Dialog */}
+      <SchemaCompareDialog open={isSchemaCompareOpen} onOpenChange={setIsSchemaCompareOpen} />
+
       {/* License Modals */}
       <LicenseActivationModal open={isActivationModalOpen} onOpenChange={closeActivationModal} />
       <LicenseSettingsModal open={isSettingsModalOpen} onOpenChange={closeSettingsModal} />
@@ -414,6 +471,9 @@ function LayoutContent() {
         onOpenInTab={handleAIOpenInTab}
       />
 
+      {/* AI Explain / Optimize Query Dialog */}
+      <AIQueryAssistDialog />
+
       {/* AI Settings Modal */}
       <AISettingsModal
         isOpen={isAISettingsOpen}
@@ -443,6 +503,8 @@ function LayoutContent() {
           // Set model in main process
           await window.api.ai.setActiveModel(provider, model)
         }}
+        queryFixAttempts={queryFixAttempts}
+        onQueryFixAttemptsChange={setQueryFixAttempts}
       />
     </>
   )
@@ -1,6 +1,12 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { AIProvider, AIConfig, AIMultiProviderConfig, AIProviderConfig } from '@shared/index'
+import type {
+  AIProvider,
+  AIConfig,
+  AIMultiProviderConfig,
+  AIProviderConfig,
+  AIQueryAssistMode
+} from '@shared/index'
 import { DEFAULT_MODELS } from '@shared/index'
 
 // Re-export types for convenience
@@ -23,6 +29,16 @@ export interface AIChatMessage {
   createdAt: Date
 }
 
+// Query sent from the editor to be explained or optimized
+export interface AIQueryAssistRequest {
+  mode: AIQueryAssistMode
+  tabId: string
+  sql: string
+  /** Where the SQL is in the tab's query, replaced when a rewrite is applied */
+  from: number
+  to: number
+}
+
 // Conversation for a specific connection
 export interface AIConversation {
   connectionId: string
@@ -46,6 +62,15 @@ interface AIState {
   // Conversations (keyed by connection ID)
   conversations: Record<string, AIConversation>
 
+  // Tables ("schema.table") always sent to the AI, keyed by connection ID
+  pinnedTables: Record<string, string[]>
+
+  // Times the AI may fix a generated query that fails before giving up (0 turns it off)
+  queryFixAttempts: number
+
+  // Query being explained or optimized, shown in a dialog
+  queryAssist: AIQueryAssistRequest | null
+
   // Legacy Actions (kept for backward compatibility)
   setConfig: (config: AIConfig | null) => void
   clearConfig: () => void
@@ -72,8 +97,19 @@ interface AIState {
   updateMessage: (connectionId: string, messageId: string, updates: Partial<AIChatMessage>) => void
   clearConversation: (connectionId: string) => void
   getConversation: (connectionId: string) => AIChatMessage[]
+
+  // Pinned tables
+  pinTable: (connectionId: string, tableKey: string) => void
+  unpinTable: (connectionId: string, tableKey: string) => void
+
+  setQueryFixAttempts: (attempts: number) => void
+
+  openQueryAssist: (request: AIQueryAssistRequest) => void
+  closeQueryAssist: () => void
 }
 
+const NO_PINNED_TABLES: string[] = []
+
 // Helper to check if multi-provider config is valid
 const isMultiProviderConfigured = (config: AIMultiProviderConfig | null): boolean => {
   if (!config?.providers || !config.activeProvider) return false
@@ -113,6 +149,9 @@ export const useAIStore = create<AIState>()(
       isSettingsOpen: false,
       isLoading: false,
       conversations: {},
+      pinnedTables: {},
+      queryFixAttempts: 2,
+      queryAssist: null,
 
       // Legacy configuration actions (for backward compatibility)
       setConfig: (config) => {
@@ -301,14 +340,39 @@ export const useAIStore = create<AIState>()(
       getConversation: (connectionId) => {
         const { conversations } = get()
         return conversations[connectionId]?.messages || []
-      }
+      },
+
+      // Pinned table actions
+      pinTable: (connectionId, tableKey) => {
+        const { pinnedTables } = get()
+        const pinned = pinnedTables[connectionId] || []
+        if (pinned.includes(tableKey)) return
+
+        set({ pinnedTables: { ...pinnedTables, [connectionId]: [...pinned, tableKey] } })
+      },
+
+      unpinTable: (connectionId, tableKey) => {
+        const { pinnedTables } = get()
+        const pinned = (pinnedTables[connectionId] || []).filter((key) => key !== tableKey)
+        const newPinnedTables = { ...pinnedTables, [connectionId]: pinned }
+        if (pinned.length === 0) delete newPinnedTables[connectionId]
+
+        set({ pinnedTables: newPinnedTables })
+      },
+
+      setQueryFixAttempts: (attempts) => set({ queryFixAttempts: attempts }),
+
+      openQueryAssist: (request) => set({ queryAssist: request }),
+      closeQueryAssist: () => set({ queryAssist: null })
     }),
     {
       name: 'ai-store',
       partialize: (state) => ({
-        // Only persist multi-provider config, not conversations or UI state
+        // Only persist multi-provider config, pins and settings, not conversations or UI state
         multiProviderConfig: state.multiProviderConfig,
-        isConfigured: state.isConfigured
+        isConfigured: state.isConfigured,
+        pinnedTables: state.pinnedTables,
+        queryFixAttempts: state.queryFixAttempts
       })
     }
   )
@@ -321,3 +385,7 @@ export const useAIConfigured = () => useAIStore((state) => state.isConfigured)
 export const useAIPanelOpen = () => useAIStore((state) => state.isPanelOpen)
 export const useAISettingsOpen = () => useAIStore((state) => state.isSettingsOpen)
 export const useAILoading = () => useAIStore((state) => state.isLoading)
+export const usePinnedTables = (connectionId: string | undefined) =>
+  useAIStore((state) =>
+    connectionId ? (state.pinnedTables[connectionId] ?? NO_PINNED_TABLES) : NO_PINNED_TABLES
+  )
@@ -6,7 +6,16 @@ import {
   ColumnInfo,
   DatabaseType,
   CustomTypeInfo,
-  MSSQLConnectionOptions
+  SequenceInfo,
+  IndexInfo,
+  TriggerInfo,
+  DatabaseSchemaResponse,
+  MSSQLConnectionOptions,
+  ConnectionPoolOptions,
+  SSHTunnelConfig,
+  SSLConfig,
+  ConnectionEnvironment,
+  SafeMode
 } from '@shared/index'
 import { notify } from './notification-store'
 
@@ -28,10 +37,17 @@ export interface Connection {
   database: string
   user?: string // Optional for MSSQL with Azure AD authentication
   password?: string
-  ssl?: boolean
+  ssl?: boolean | SSLConfig
   group?: string
   dbType: DatabaseType
   mssqlOptions?: MSSQLConnectionOptions
+  pool?: ConnectionPoolOptions
+  statementTimeout?: number
+  ssh?: SSHTunnelConfig
+  environment?: ConnectionEnvironment
+  color?: string
+  safeMode?: SafeMode
+  readOnly?: boolean
 }
 
 export interface ConnectionWithStatus extends Connection {
@@ -54,6 +70,9 @@ interface ConnectionState {
   // Schema for active connection
   schemas: Schema[]
   customTypes: CustomTypeInfo[]
+  sequences: SequenceInfo[]
+  indexes: IndexInfo[]
+  triggers: TriggerInfo[]
   isLoadingSchema: boolean
   schemaError: string | null
   schemaFromCache: boolean
@@ -83,6 +102,23 @@ interface ConnectionState {
   getEnumValues: (dataType: string) => string[] | undefined
 }
 
+// Objects listed in the schema explorer besides tables, views and routines
+type SchemaObjects = Pick<ConnectionState, 'customTypes' | 'sequences' | 'indexes' | 'triggers'>
+
+const EMPTY_SCHEMA_OBJECTS: SchemaObjects = {
+  customTypes: [],
+  sequences: [],
+  indexes: [],
+  triggers: []
+}
+
+const toSchemaObjects = (data: DatabaseSchemaResponse): SchemaObjects => ({
+  customTypes: data.customTypes ?? [],
+  sequences: data.sequences ?? [],
+  indexes: data.indexes ?? [],
+  triggers: data.triggers ?? []
+})
+
 // Helper to convert ConnectionConfig to ConnectionWithStatus
 const toConnectionWithStatus = (config: ConnectionConfig): ConnectionWithStatus => ({
   ...config,
@@ -98,7 +134,7 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
   activeConnectionId: null,
   isInitialized: false,
   schemas: [],
-  customTypes: [],
+  ...EMPTY_SCHEMA_OBJECTS,
   isLoadingSchema: false,
   schemaError: null,
   schemaFromCache: false,
@@ -180,7 +216,7 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
     } else {
       set({
         schemas: [],
-        customTypes: [],
+        ...EMPTY_SCHEMA_OBJECTS,
         schemaError: null,
         schemaFromCache: false,
         schemaFetchedAt: null
@@ -198,7 +234,7 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
     set({
       isLoadingSchema: true,
       schemas: [],
-      customTypes: [],
+      ...EMPTY_SCHEMA_OBJECTS,
       schemaError: null,
       schemaFromCache: false,
       schemaFetchedAt: null
@@ -209,11 +245,11 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
       const schemasResult = await window.api.db.schemas(connection, forceRefresh)
 
       if (schemasResult.success && schemasResult.data) {
-        const { schemas, customTypes, fetchedAt, fromCache, stale, refreshError } = schemasResult.data
+        const { schemas, fetchedAt, fromCache, stale, refreshError } = schemasResult.data
 
         set({
           schemas,
-          customTypes: customTypes ?? [],
+          ...toSchemaObjects(schemasResult.data),
           isLoadingSchema: false,
           schemaError: null,
           schemaFromCache: fromCache ?? false,
@@ -238,7 +274,7 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
       } else {
         set({
           schemas: [],
-          customTypes: [],
+          ...EMPTY_SCHEMA_OBJECTS,
           isLoadingSchema: false,
           schemaError: schemasResult.error || 'Failed to fetch schemas'
         })
@@ -247,7 +283,7 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
       console.error('Failed to fetch schemas:', error)
       set({
         schemas: [],
-        customTypes: [],
+        ...EMPTY_SCHEMA_OBJECTS,
         isLoadingSchema: false,
         schemaError: error instanceof Error ? error.message : 'Unknown error'
       })
@@ -276,17 +312,25 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
       }
 
       if (schemasResult.success && schemasResult.data) {
-        const { schemas, customTypes, fetchedAt } = schemasResult.data
-        const currentSchemas = get().schemas
+        const { schemas, fetchedAt } = schemasResult.data
+        const objects = toSchemaObjects(schemasResult.data)
+        const current = get()
 
-        // Check if schemas actually changed
+        // Check if schemas (or their indexes, triggers, etc.) actually changed
         const schemasChanged =
-          JSON.stringify(schemas) !== JSON.stringify(currentSchemas)
+          JSON.stringify(schemas) !== JSON.stringify(current.schemas) ||
+          JSON.stringify(objects) !==
+            JSON.stringify({
+              customTypes: current.customTypes,
+              sequences: current.sequences,
+              indexes: current.indexes,
+              triggers: current.triggers
+            })
 
         if (schemasChanged) {
           set({
             schemas,
-            customTypes: customTypes ?? [],
+            ...objects,
             schemaFromCache: false,
             schemaFetchedAt: fetchedAt,
             isRefreshingSchema: false
@@ -6,3 +6,5 @@ export * from './license-store'
 export * from './saved-queries-store'
 export * from './settings-store'
 export * from './notification-store'
+export * from './query-parameter-store'
+export * from './plan-history-store'
@@ -0,0 +1,89 @@
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import type { ExecutionPlan } from '@shared/index'
+import { getQueryParameterKey } from '@/lib/query-parameters'
+
+export interface SavedPlan {
+  id: string
+  plan: ExecutionPlan
+  durationMs: number
+  createdAt: number
+}
+
+// Plans kept per query (oldest dropped first) and queries kept overall
+const MAX_PLANS_PER_QUERY = 10
+const MAX_QUERIES = 30
+
+/**
+ * Key of a query's plans: plans are only comparable on the same connection
+ */
+export function getPlanHistoryKey(connectionId: string, sql: string): string {
+  return `${connectionId}:${getQueryParameterKey(sql)}`
+}
+
+interface PlanHistoryState {
+  /** Saved plans by query key, newest first */
+  plans: Record<string, SavedPlan[]>
+
+  // Actions
+  addPlan: (connectionId: string, sql: string, plan: ExecutionPlan, durationMs: number) => SavedPlan
+  removePlan: (connectionId: string, sql: string, id: string) => void
+  clearPlans: (connectionId: string, sql: string) => void
+}
+
+export const usePlanHistoryStore = create<PlanHistoryState>()(
+  persist(
+    (set) => ({
+      plans: {},
+
+      addPlan: (connectionId, sql, plan, durationMs) => {
+        const saved: SavedPlan = {
+          id: crypto.randomUUID(),
+          plan,
+          durationMs,
+          createdAt: Date.now()
+        }
+        const key = getPlanHistoryKey(connectionId, sql)
+
+        set((state) => {
+          const plans = {
+            ...state.plans,
+            [key]: [saved, ...(state.plans[key] ?? [])].slice(0, MAX_PLANS_PER_QUERY)
+          }
+
+          const keys = Object.keys(plans)
+          if (keys.length > MAX_QUERIES) {
+            keys
+              .sort((a, b) => plans[a][0].createdAt - plans[b][0].createdAt)
+              .slice(0, keys.length - MAX_QUERIES)
+              .forEach((oldKey) => delete plans[oldKey])
+          }
+
+          return { plans }
+        })
+
+        return saved
+      },
+
+      removePlan: (connectionId, sql, id) =>
+        set((state) => {
+          const key = getPlanHistoryKey(connectionId, sql)
+          const remaining = (state.plans[key] ?? []).filter((saved) => saved.id !== id)
+          const plans = { ...state.plans, [key]: remaining }
+          if (remaining.length === 0) delete plans[key]
+          return { plans }
+        }),
+
+      clearPlans: (connectionId, sql) =>
+        set((state) => {
+          const plans = { ...state.plans }
+          delete plans[getPlanHistoryKey(connectionId, sql)]
+          return { plans }
+        })
+    }),
+    {
+      name: 'data-peek-plan-history',
+      storage: createJSONStorage(() => localStorage)
+    }
+  )
+)
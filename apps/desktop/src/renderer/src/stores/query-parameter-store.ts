@@ -0,0 +1,57 @@
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import type { QueryParameterType } from '@shared/index'
+import { getQueryParameterKey } from '@/lib/query-parameters'
+
+export interface ParameterInput {
+  type: QueryParameterType
+  value: string
+}
+
+interface RememberedParameters {
+  inputs: Record<string, ParameterInput>
+  usedAt: number
+}
+
+// Oldest queries are forgotten beyond this many
+const MAX_REMEMBERED_QUERIES = 100
+
+interface QueryParameterState {
+  remembered: Record<string, RememberedParameters>
+
+  // Actions
+  getLastInputs: (sql: string) => Record<string, ParameterInput> | undefined
+  rememberInputs: (sql: string, inputs: Record<string, ParameterInput>) => void
+}
+
+export const useQueryParameterStore = create<QueryParameterState>()(
+  persist(
+    (set, get) => ({
+      remembered: {},
+
+      getLastInputs: (sql) => get().remembered[getQueryParameterKey(sql)]?.inputs,
+
+      rememberInputs: (sql, inputs) =>
+        set((state) => {
+          const remembered = {
+            ...state.remembered,
+            [getQueryParameterKey(sql)]: { inputs, usedAt: Date.now() }
+          }
+
+          const keys = Object.keys(remembered)
+          if (keys.length > MAX_REMEMBERED_QUERIES) {
+            keys
+              .sort((a, b) => remembered[a].usedAt - remembered[b].usedAt)
+              .slice(0, keys.length - MAX_REMEMBERED_QUERIES)
+              .forEach((key) => delete remembered[key])
+          }
+
+          return { remembered }
+        })
+    }),
+    {
+      name: 'data-peek-query-parameters',
+      storage: createJSONStorage(() => localStorage)
+    }
+  )
+)
@@ -1,4 +1,4 @@
-import type { QueryResult as IpcQueryResult } from '@data-peek/shared'
+import type { QueryHistoryEntry, QueryResult as IpcQueryResult } from '@data-peek/shared'
 import { create } from 'zustand'
 import { buildSelectQuery } from '@/lib/sql-helpers'
 import type { Connection, Table } from './connection-store'
@@ -12,6 +12,10 @@ export interface QueryHistoryItem {
   status: 'success' | 'error'
   connectionId: string
   errorMessage?: string
+  connectionName?: string
+  database?: string
+  tabId?: string
+  tabTitle?: string
 }
 
 export interface QueryResult {
@@ -31,8 +35,9 @@ interface QueryState {
   result: QueryResult | null
   error: string | null
 
-  // History
+  // History (most recent entries; the full journal lives in the main process)
   history: QueryHistoryItem[]
+  isHistoryInitialized: boolean
 
   // Pagination
   currentPage: number
@@ -50,9 +55,10 @@ interface QueryState {
   // Execute a query against the database
   executeQuery: (connection: Connection, query?: string) => Promise<void>
 
-  addToHistory: (item: Omit<QueryHistoryItem, 'id' | 'timestamp'>) => void
-  clearHistory: () => void
-  removeFromHistory: (id: string) => void
+  initializeHistory: () => Promise<void>
+  addToHistory: (item: Omit<QueryHistoryItem, 'id' | 'timestamp'>) => Promise<void>
+  clearHistory: () => Promise<void>
+  removeFromHistory: (id: string) => Promise<void>
 
   setCurrentPage: (page: number) => void
   setPageSize: (size: number) => void
@@ -200,38 +206,25 @@ function getDataTypeName(dataTypeID: number): string {
 //   return rows
 // }
 
-// Sample history for development
-const sampleHistory: QueryHistoryItem[] = [
-  {
-    id: '1',
-    query:
-      "SELECT * FROM users WHERE created_at > now() - interval '7 days' ORDER BY created_at DESC LIMIT 100",
-    timestamp: new Date(Date.now() - 5 * 60 * 1000),
-    durationMs: 24,
-    rowCount: 47,
-    status: 'success',
-    connectionId: '1'
-  },
-  {
-    id: '2',
-    query: "UPDATE orders SET status = 'shipped' WHERE id = 'abc-123'",
-    timestamp: new Date(Date.now() - 15 * 60 * 1000),
-    durationMs: 12,
-    rowCount: 1,
-    status: 'success',
-    connectionId: '1'
-  },
-  {
-    id: '3',
-    query:
-      'SELECT u.name, COUNT(o.id) as order_count FROM users u LEFT JOIN orders o ON u.id = o.user_id GROUP BY u.id',
-    timestamp: new Date(Date.now() - 30 * 60 * 1000),
-    durationMs: 156,
-    rowCount: 234,
-    status: 'success',
-    connectionId: '1'
+/** Entries kept in memory for the sidebar and quick lists */
+const RECENT_HISTORY_LIMIT = 100
+
+export function toHistoryItem(entry: QueryHistoryEntry): QueryHistoryItem {
+  return {
+    id: entry.id,
+    query: entry.query,
+    timestamp: new Date(entry.executedAt),
+    durationMs: entry.durationMs,
+    rowCount: entry.rowCount,
+    status: entry.status,
+    connectionId: entry.connectionId,
+    errorMessage: entry.errorMessage,
+    connectionName: entry.connectionName,
+    database: entry.database,
+    tabId: entry.tabId,
+    tabTitle: entry.tabTitle
   }
-]
+}
 
 export const useQueryStore = create<QueryState>((set, get) => ({
   // Initial state
@@ -239,7 +232,8 @@ export const useQueryStore = create<QueryState>((set, get) => ({
   isExecuting: false,
   result: null,
   error: null,
-  history: sampleHistory,
+  history: [],
+  isHistoryInitialized: false,
   currentPage: 1,
   pageSize: 100,
 
@@ -294,47 +288,41 @@ export const useQueryStore = create<QueryState>((set, get) => ({
         }
         console.log('[executeQuery] Mapped result:', result)
 
-        // Add to history
-        const history = get().history
-        const newHistoryItem: QueryHistoryItem = {
-          id: crypto.randomUUID(),
+        set({
+          isExecuting: false,
+          result,
+          error: null
+        })
+
+        get().addToHistory({
           query,
-          timestamp: new Date(),
           durationMs: data.durationMs,
           rowCount: result.rowCount,
           status: 'success',
-          connectionId: connection.id
-        }
-
-        set({
-          isExecuting: false,
-          result,
-          error: null,
-          history: [newHistoryItem, ...history].slice(0, 100)
+          connectionId: connection.id,
+          connectionName: connection.name,
+          database: connection.database
         })
       } else {
         // Query failed
         const errorMessage = response.error ?? 'Query execution failed'
         console.log('[executeQuery] Query failed:', errorMessage)
 
-        // Add to history as error
-        const history = get().history
-        const newHistoryItem: QueryHistoryItem = {
-          id: crypto.randomUUID(),
+        set({
+          isExecuting: false,
+          result: null,
+          error: errorMessage
+        })
+
+        get().addToHistory({
           query,
-          timestamp: new Date(),
           durationMs: 0,
           rowCount: 0,
           status: 'error',
           connectionId: connection.id,
+          connectionName: connection.name,
+          database: connection.database,
           errorMessage
-        }
-
-        set({
-          isExecuting: false,
-          result: null,
-          error: errorMessage,
-          history: [newHistoryItem, ...history].slice(0, 100)
         })
       }
     } catch (error) {
@@ -349,24 +337,72 @@ export const useQueryStore = create<QueryState>((set, get) => ({
     }
   },
 
-  addToHistory: (item) =>
-    set((state) => ({
-      history: [
-        {
-          ...item,
-          id: crypto.randomUUID(),
-          timestamp: new Date()
-        },
-        ...state.history
-      ].slice(0, 100)
-    })),
-
-  clearHistory: () => set({ history: [] }),
-
-  removeFromHistory: (id) =>
-    set((state) => ({
-      history: state.history.filter((h) => h.id !== id)
-    })),
+  initializeHistory: async () => {
+    if (get().isHistoryInitialized) return
+    set({ isHistoryInitialized: true })
+
+    try {
+      const response = await window.api.history.search({ limit: RECENT_HISTORY_LIMIT })
+      if (response.success && response.data) {
+        const loaded = response.data.entries.map(toHistoryItem)
+        // Keep anything added while the journal was loading
+        set((state) => ({
+          history: [
+            ...state.history,
+            ...loaded.filter((item) => !state.history.some((h) => h.id === item.id))
+          ]
+        }))
+      } else {
+        console.error('Failed to load query history:', response.error)
+      }
+    } catch (error) {
+      console.error('Failed to load query history:', error)
+    }
+  },
+
+  addToHistory: async (item) => {
+    try {
+      const response = await window.api.history.add({ ...item, executedAt: Date.now() })
+      if (response.success && response.data) {
+        const saved = toHistoryItem(response.data)
+        set((state) => ({
+          history: [saved, ...state.history].slice(0, RECENT_HISTORY_LIMIT)
+        }))
+      } else {
+        console.error('Failed to save query history:', response.error)
+      }
+    } catch (error) {
+      console.error('Failed to save query history:', error)
+    }
+  },
+
+  clearHistory: async () => {
+    try {
+      const response = await window.api.history.clear()
+      if (response.success) {
+        set({ history: [] })
+      } else {
+        console.error('Failed to clear query history:', response.error)
+      }
+    } catch (error) {
+      console.error('Failed to clear query history:', error)
+    }
+  },
+
+  removeFromHistory: async (id) => {
+    try {
+      const response = await window.api.history.delete(id)
+      if (response.success) {
+        set((state) => ({
+          history: state.history.filter((h) => h.id !== id)
+        }))
+      } else {
+        console.error('Failed to delete query history entry:', response.error)
+      }
+    } catch (error) {
+      console.error('Failed to delete query history entry:', error)
+    }
+  },
 
   setCurrentPage: (page) => set({ currentPage: page }),
   setPageSize: (size) => set({ pageSize: size, currentPage: 1 }),
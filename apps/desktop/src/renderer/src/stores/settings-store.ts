@@ -8,6 +8,8 @@ export interface AppSettings {
   expandJsonByDefault: boolean
   hideQuickQueryPanel: boolean
   jsonExpandDepth: number
+  // Query results settings
+  maxResultRows: number // Cap on rows kept in memory per tab when streaming results
 }
 
 interface SettingsState extends AppSettings {
@@ -15,6 +17,7 @@ interface SettingsState extends AppSettings {
   setHideQueryEditorByDefault: (value: boolean) => void
   setExpandJsonByDefault: (value: boolean) => void
   setJsonExpandDepth: (depth: number) => void
+  setMaxResultRows: (value: number) => void
   resetSettings: () => void
   setHideQuickQueryPanel: (value: boolean) => void
 }
@@ -23,7 +26,8 @@ const defaultSettings: AppSettings = {
   hideQueryEditorByDefault: false,
   expandJsonByDefault: false,
   jsonExpandDepth: 2,
-  hideQuickQueryPanel: true
+  hideQuickQueryPanel: true,
+  maxResultRows: 100_000
 }
 
 export const useSettingsStore = create<SettingsState>()(
@@ -33,6 +37,7 @@ export const useSettingsStore = create<SettingsState>()(
       setHideQueryEditorByDefault: (value) => set({ hideQueryEditorByDefault: value }),
       setExpandJsonByDefault: (value) => set({ expandJsonByDefault: value }),
       setJsonExpandDepth: (depth) => set({ jsonExpandDepth: depth }),
+      setMaxResultRows: (value) => set({ maxResultRows: value }),
       setHideQuickQueryPanel: (value) => set({ hideQuickQueryPanel: value }),
       resetSettings: () => set(defaultSettings)
     }),
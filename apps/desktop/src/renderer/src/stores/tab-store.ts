@@ -1,7 +1,14 @@
 import { create } from 'zustand'
 import { createJSONStorage, persist } from 'zustand/middleware'
 import type { QueryResult } from './query-store'
-import type { StatementResult } from '@data-peek/shared'
+import type {
+  SessionTransaction,
+  StatementResult,
+  TableFilter,
+  TablePageRequest,
+  TablePageResult,
+  TableSort
+} from '@data-peek/shared'
 import { buildSelectQuery } from '@/lib/sql-helpers'
 import { useConnectionStore } from './connection-store'
 
@@ -15,6 +22,8 @@ export interface MultiQueryResult {
   totalDurationMs: number
   /** Number of statements */
   statementCount: number
+  /** Streaming stopped at the per-tab row cap, so the last result set is incomplete */
+  rowLimitReached?: boolean
 }
 
 // Tab type discriminator
@@ -41,6 +50,11 @@ export interface QueryTab extends BaseTab {
   activeResultIndex: number // Index of currently displayed result set
   error: string | null
   isExecuting: boolean
+  executionId?: string // ID of the running query, used to cancel it
+  cursorId?: string // Open cursor holding the rest of a streamed result set
+  runOnOpen?: boolean // Run the query as soon as the tab opens (not persisted)
+  manualCommit?: boolean // Run queries on a pinned session inside a transaction (not persisted)
+  transaction?: SessionTransaction // Transaction state of the manual-commit session
   currentPage: number
   pageSize: number
 }
@@ -57,8 +71,16 @@ export interface TablePreviewTab extends BaseTab {
   activeResultIndex: number // Index of currently displayed result set
   error: string | null
   isExecuting: boolean
+  executionId?: string // ID of the running query, used to cancel it
+  cursorId?: string // Open cursor holding the rest of a streamed result set
   currentPage: number
   pageSize: number
+  // Server-side paging: the filters and sort of the page on screen
+  filters: TableFilter[]
+  sort: TableSort[]
+  totalCount: number | null // Rows matching the filters (null until the first page loads)
+  totalCountIsEstimate: boolean
+  exactCount: boolean // User asked for COUNT(*) instead of the table statistics
 }
 
 // ERD visualization tab
@@ -76,6 +98,43 @@ export interface TableDesignerTab extends BaseTab {
 
 export type Tab = QueryTab | TablePreviewTab | ERDTab | TableDesignerTab
 
+/**
+ * Release the server-side cursors held by tabs that are being closed
+ */
+function closeTabCursors(tabs: Tab[]): void {
+  for (const tab of tabs) {
+    if ((tab.type === 'query' || tab.type === 'table-preview') && tab.cursorId) {
+      window.api.db.closeCursor(tab.cursorId)
+    }
+  }
+}
+
+/**
+ * End the pinned sessions of manual-commit tabs that are being closed
+ * (the database rolls back their open transactions)
+ */
+function closeTabSessions(tabs: Tab[]): void {
+  for (const tab of tabs) {
+    if (tab.type === 'query' && tab.manualCommit) {
+      window.api.db.closeSession(tab.id)
+    }
+  }
+}
+
+/**
+ * Ask before closing tabs that hold an open transaction
+ * @returns true if the tabs can be closed
+ */
+function confirmCloseTransactions(tabs: Tab[]): boolean {
+  const count = tabs.filter((tab) => tab.type === 'query' && tab.transaction?.open).length
+  if (count === 0) return true
+  return confirm(
+    count === 1
+      ? 'This tab has an open transaction. Close it and roll back its uncommitted changes?'
+      : `${count} tabs have open transactions. Close them and roll back their uncommitted changes?`
+  )
+}
+
 // Persisted tab data (minimal for storage)
 interface PersistedTab {
   id: string
@@ -88,6 +147,8 @@ interface PersistedTab {
   schemaName?: string
   tableName?: string
   mode?: 'create' | 'edit'
+  filters?: TableFilter[]
+  sort?: TableSort[]
 }
 
 interface TabState {
@@ -96,7 +157,11 @@ interface TabState {
   activeTabId: string | null
 
   // Actions
-  createQueryTab: (connectionId: string | null, initialQuery?: string) => string
+  createQueryTab: (
+    connectionId: string | null,
+    initialQuery?: string,
+    options?: { runOnOpen?: boolean }
+  ) => string
   createTablePreviewTab: (connectionId: string, schemaName: string, tableName: string) => string
   createForeignKeyTab: (
     connectionId: string,
@@ -121,7 +186,22 @@ interface TabState {
     error: string | null
   ) => void
   setActiveResultIndex: (tabId: string, index: number) => void
-  updateTabExecuting: (tabId: string, isExecuting: boolean) => void
+  updateTabExecuting: (tabId: string, isExecuting: boolean, executionId?: string) => void
+  /** Switch a query tab between auto-commit and manual-commit mode */
+  setTabManualCommit: (tabId: string, manualCommit: boolean) => void
+  /** Update the transaction state of a manual-commit tab's session */
+  setTabTransaction: (tabId: string, transaction: SessionTransaction) => void
+  /** Remember (or clear) the open cursor for a tab's streamed result */
+  setTabCursor: (tabId: string, cursorId: string | undefined) => void
+  /** Append rows fetched from the tab's cursor to its streamed (last) result set */
+  appendTabResultRows: (
+    tabId: string,
+    rows: Record<string, unknown>[],
+    hasMore: boolean,
+    rowLimitReached?: boolean
+  ) => void
+  /** Show a page loaded for a table preview (paged, filtered and sorted by the database) */
+  updateTablePreviewPage: (tabId: string, request: TablePageRequest, page: TablePageResult) => void
   markTabSaved: (tabId: string) => void
 
   // Pagination per tab
@@ -173,7 +253,7 @@ export const useTabStore = create<TabState>()(
       tabs: [],
       activeTabId: null,
 
-      createQueryTab: (connectionId, initialQuery = '') => {
+      createQueryTab: (connectionId, initialQuery = '', options) => {
         const id = crypto.randomUUID()
         const tabs = get().tabs
         const maxOrder = tabs.length > 0 ? Math.max(...tabs.map((t) => t.order)) : -1
@@ -193,6 +273,7 @@ export const useTabStore = create<TabState>()(
           activeResultIndex: 0,
           error: null,
           isExecuting: false,
+          runOnOpen: options?.runOnOpen,
           currentPage: 1,
           pageSize: 100
         }
@@ -240,7 +321,12 @@ export const useTabStore = create<TabState>()(
           error: null,
           isExecuting: false,
           currentPage: 1,
-          pageSize: 100
+          pageSize: 100,
+          filters: [],
+          sort: [],
+          totalCount: null,
+          totalCountIsEstimate: false,
+          exactCount: false
         }
 
         set((state) => ({
@@ -386,7 +472,10 @@ export const useTabStore = create<TabState>()(
 
       closeTab: (tabId) => {
         const tab = get().tabs.find((t) => t.id === tabId)
-        if (!tab || tab.isPinned) return
+        if (!tab || tab.isPinned || !confirmCloseTransactions([tab])) return
+
+        closeTabCursors([tab])
+        closeTabSessions([tab])
 
         set((state) => {
           const newTabs = state.tabs.filter((t) => t.id !== tabId)
@@ -403,6 +492,11 @@ export const useTabStore = create<TabState>()(
       },
 
       closeAllTabs: () => {
+        const closing = get().tabs.filter((t) => !t.isPinned)
+        if (!confirmCloseTransactions(closing)) return
+        closeTabCursors(closing)
+        closeTabSessions(closing)
+
         set((state) => {
           // Keep pinned tabs
           const pinnedTabs = state.tabs.filter((t) => t.isPinned)
@@ -414,6 +508,11 @@ export const useTabStore = create<TabState>()(
       },
 
       closeOtherTabs: (tabId) => {
+        const closing = get().tabs.filter((t) => t.id !== tabId && !t.isPinned)
+        if (!confirmCloseTransactions(closing)) return
+        closeTabCursors(closing)
+        closeTabSessions(closing)
+
         set((state) => {
           // Keep the specified tab and all pinned tabs
           const keptTabs = state.tabs.filter((t) => t.id === tabId || t.isPinned)
@@ -425,16 +524,17 @@ export const useTabStore = create<TabState>()(
       },
 
       closeTabsToRight: (tabId) => {
-        set((state) => {
-          const tabIndex = state.tabs.findIndex((t) => t.id === tabId)
-          if (tabIndex === -1) return state
+        const tabs = get().tabs
+        const tabIndex = tabs.findIndex((t) => t.id === tabId)
+        if (tabIndex === -1) return
 
-          const keptTabs = state.tabs.filter((t, i) => i <= tabIndex || t.isPinned)
-          return {
-            tabs: keptTabs,
-            activeTabId: state.activeTabId
-          }
-        })
+        const keptTabs = tabs.filter((t, i) => i <= tabIndex || t.isPinned)
+        const closing = tabs.filter((t) => !keptTabs.includes(t))
+        if (!confirmCloseTransactions(closing)) return
+        closeTabCursors(closing)
+        closeTabSessions(closing)
+
+        set({ tabs: keptTabs })
       },
 
       setActiveTab: (tabId) => {
@@ -497,9 +597,110 @@ export const useTabStore = create<TabState>()(
         }))
       },
 
-      updateTabExecuting: (tabId, isExecuting) => {
+      updateTabExecuting: (tabId, isExecuting, executionId) => {
+        set((state) => ({
+          tabs: state.tabs.map((t) =>
+            t.id === tabId
+              ? { ...t, isExecuting, executionId: isExecuting ? executionId : undefined }
+              : t
+          )
+        }))
+      },
+
+      setTabManualCommit: (tabId, manualCommit) => {
+        const tab = get().tabs.find((t) => t.id === tabId)
+        if (!tab || tab.type !== 'query') return
+
+        // Leaving manual-commit mode ends the session; the UI only allows it with no open
+        // transaction
+        if (!manualCommit && tab.manualCommit) {
+          window.api.db.closeSession(tabId)
+        }
+
+        set((state) => ({
+          tabs: state.tabs.map((t) =>
+            t.id === tabId && t.type === 'query'
+              ? { ...t, manualCommit, transaction: undefined }
+              : t
+          )
+        }))
+      },
+
+      setTabTransaction: (tabId, transaction) => {
+        set((state) => ({
+          tabs: state.tabs.map((t) =>
+            t.id === tabId && t.type === 'query' ? { ...t, transaction } : t
+          )
+        }))
+      },
+
+      setTabCursor: (tabId, cursorId) => {
         set((state) => ({
-          tabs: state.tabs.map((t) => (t.id === tabId ? { ...t, isExecuting } : t))
+          tabs: state.tabs.map((t) =>
+            t.id === tabId && t.type !== 'erd' && t.type !== 'table-designer'
+              ? { ...t, cursorId }
+              : t
+          )
+        }))
+      },
+
+      appendTabResultRows: (tabId, rows, hasMore, rowLimitReached) => {
+        set((state) => ({
+          tabs: state.tabs.map((t) => {
+            if (t.id !== tabId || t.type === 'erd' || t.type === 'table-designer') return t
+            if (!t.multiResult) return t
+
+            const statements = [...t.multiResult.statements]
+            const lastIndex = statements.length - 1
+            const allRows = [...statements[lastIndex].rows, ...rows]
+            statements[lastIndex] = {
+              ...statements[lastIndex],
+              rows: allRows,
+              rowCount: allRows.length,
+              hasMore
+            }
+
+            return {
+              ...t,
+              multiResult: { ...t.multiResult, statements, rowLimitReached },
+              // The legacy result mirrors the first statement
+              result:
+                lastIndex === 0 && t.result
+                  ? { ...t.result, rows: allRows, rowCount: allRows.length }
+                  : t.result,
+              cursorId: hasMore ? t.cursorId : undefined
+            }
+          })
+        }))
+      },
+
+      updateTablePreviewPage: (tabId, request, page) => {
+        set((state) => ({
+          tabs: state.tabs.map((t) =>
+            t.id === tabId && t.type === 'table-preview'
+              ? {
+                  ...t,
+                  result: {
+                    columns: page.fields.map((f) => ({ name: f.name, dataType: f.dataType })),
+                    rows: page.rows,
+                    rowCount: page.rows.length,
+                    durationMs: page.durationMs
+                  },
+                  multiResult: null,
+                  activeResultIndex: 0,
+                  error: null,
+                  // The editor shows the SQL behind the page on screen
+                  query: page.previewSql,
+                  savedQuery: page.previewSql,
+                  currentPage: request.page + 1,
+                  filters: request.filters,
+                  sort: request.sort,
+                  totalCount: page.totalCount,
+                  totalCountIsEstimate: page.totalCountIsEstimate,
+                  exactCount: !!request.exactCount
+                }
+              : t
+          )
         }))
       },
 
@@ -697,7 +898,9 @@ export const useTabStore = create<TabState>()(
               ...base,
               query: t.query,
               schemaName: t.type === 'table-preview' ? t.schemaName : undefined,
-              tableName: t.type === 'table-preview' ? t.tableName : undefined
+              tableName: t.type === 'table-preview' ? t.tableName : undefined,
+              filters: t.type === 'table-preview' ? t.filters : undefined,
+              sort: t.type === 'table-preview' ? t.sort : undefined
             }
           }),
         activeTabId: state.activeTabId
@@ -746,7 +949,12 @@ export const useTabStore = create<TabState>()(
                 ...base,
                 type: 'table-preview' as const,
                 schemaName: (t as unknown as TablePreviewTab).schemaName ?? '',
-                tableName: (t as unknown as TablePreviewTab).tableName ?? ''
+                tableName: (t as unknown as TablePreviewTab).tableName ?? '',
+                filters: (t as unknown as PersistedTab).filters ?? [],
+                sort: (t as unknown as PersistedTab).sort ?? [],
+                totalCount: null,
+                totalCountIsEstimate: false,
+                exactCount: false
               }
             }
 
@@ -312,9 +312,120 @@ export interface AIMessageResponse {
 }
 
 /**
- * Alias for AIChatResponse (same as AIStructuredResponse)
+ * Why a table's definition was sent to the AI with a message
  */
-export type AIChatResponse = AIStructuredResponse;
+export type AIContextTableReason = 'all' | 'pinned' | 'matched' | 'related' | 'recent';
+
+/**
+ * A table whose definition was sent to the AI
+ */
+export interface AIContextTable {
+  schema: string;
+  name: string;
+  reason: AIContextTableReason;
+}
+
+/**
+ * The part of the database schema sent to the AI with a message
+ */
+export interface AISchemaContext {
+  tables: AIContextTable[];
+  /** Tables in the whole database */
+  totalTables: number;
+  /** True when the tables were ranked by relevance (the schema was too large to send) */
+  ranked: boolean;
+}
+
+/**
+ * Extra context for a chat request, used to pick the tables sent to the AI
+ */
+export interface AIChatOptions {
+  /** Connection whose recent queries point at the tables in use */
+  connectionId?: string;
+  /** Tables (as "schema.table") always sent, whatever the question */
+  pinnedTables?: string[];
+  /** Tags the request's progress events, and lets it be stopped with ai:cancel */
+  requestId?: string;
+}
+
+/**
+ * Read-only tools the AI can call to inspect the database before answering
+ */
+export type AIToolName =
+  | 'list_tables'
+  | 'describe_table'
+  | 'sample_rows'
+  | 'count_distinct'
+  | 'explain_query';
+
+/**
+ * A tool call the AI made while answering, shown as a trace under the response
+ */
+export interface AIToolCallTrace {
+  tool: AIToolName;
+  input: Record<string, unknown>;
+  /** What the call found, in a few words (e.g. "5 rows") */
+  summary?: string;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Chat response: the structured response, the tables it was given and the tool calls
+ * made to write it
+ */
+export interface AIChatResponse extends AIStructuredResponse {
+  schemaContext?: AISchemaContext;
+  toolCalls?: AIToolCallTrace[];
+}
+
+/**
+ * A run of AI-generated SQL that failed, sent back to the AI to fix it
+ */
+export interface AIQueryAttempt {
+  sql: string;
+  error: string;
+}
+
+/**
+ * A corrected query proposed by the AI
+ */
+export interface AIQueryFix {
+  sql: string;
+  /** What was wrong and what changed */
+  explanation: string;
+}
+
+/**
+ * What the AI is asked to do with a query from the editor
+ */
+export type AIQueryAssistMode = 'explain' | 'optimize';
+
+/**
+ * The AI's explanation of a query, or its optimized rewrite
+ */
+export interface AIQueryAssistResult {
+  mode: AIQueryAssistMode;
+  /** Plain-language explanation, or the rationale of the rewrite */
+  explanation: string;
+  /** The rewritten query (optimize only), null when there is nothing to improve */
+  sql: string | null;
+  /** Whether the query's execution plan was part of the context */
+  usedPlan: boolean;
+}
+
+/**
+ * A chat response as it streams in, sent to the renderer while the request runs
+ */
+export interface AIChatProgress {
+  requestId: string;
+  /** Message text so far */
+  message: string;
+  /** The response's SQL, once the AI has finished writing it */
+  sql: string | null;
+  /** Tools called so far */
+  toolCalls?: AIToolCallTrace[];
+}
 
 // Stored response data types (without message field since it's in content)
 
@@ -377,6 +488,10 @@ export interface StoredChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   responseData?: StoredResponseData;
+  /** Tables sent to the AI for the response (assistant messages) */
+  schemaContext?: AISchemaContext;
+  /** Tool calls made for the response (assistant messages) */
+  toolCalls?: AIToolCallTrace[];
   createdAt: string; // ISO string for storage
 }
 
@@ -412,18 +527,115 @@ export interface MSSQLConnectionOptions {
   };
 }
 
+/**
+ * Connection pool settings (shared by all server-based database types)
+ */
+export interface ConnectionPoolOptions {
+  /** Maximum number of open connections (default: 5) */
+  max?: number;
+  /** Time in ms an idle connection stays open before being closed (default: 30000) */
+  idleTimeoutMillis?: number;
+}
+
+/**
+ * SSL modes (mirrors libpq's sslmode)
+ * - require: encrypt, but don't verify the server certificate
+ * - verify-ca: verify the certificate chain against the CA
+ * - verify-full: verify the chain and that the hostname matches
+ */
+export type SSLMode = 'disable' | 'require' | 'verify-ca' | 'verify-full';
+
+/**
+ * Structured SSL/TLS settings
+ * Certificate files are imported into encrypted storage when the connection is saved.
+ */
+export interface SSLConfig {
+  mode: SSLMode;
+  /** Path to the CA bundle used to verify the server */
+  caPath?: string;
+  /** Path to the client certificate */
+  certPath?: string;
+  /** Path to the client private key */
+  keyPath?: string;
+  /** Passphrase for an encrypted client key */
+  keyPassphrase?: string;
+  /** PEM contents, filled in by the main process from secure storage (never persisted) */
+  ca?: string;
+  cert?: string;
+  key?: string;
+  /** Hostname to verify against, set by the main process when connecting through a tunnel */
+  servername?: string;
+}
+
+/**
+ * SSH authentication methods for tunnels
+ */
+export type SSHAuthMethod = 'password' | 'privateKey' | 'agent';
+
+/**
+ * SSH tunnel settings for reaching databases behind a bastion/jump host
+ */
+export interface SSHTunnelConfig {
+  enabled: boolean;
+  /** Jump host address */
+  host: string;
+  /** Jump host SSH port (default: 22) */
+  port: number;
+  username: string;
+  authMethod: SSHAuthMethod;
+  /** Password (authMethod 'password') */
+  password?: string;
+  /** Path to the private key file (authMethod 'privateKey') */
+  privateKeyPath?: string;
+  /** Passphrase for an encrypted private key */
+  passphrase?: string;
+  /** Agent socket path (authMethod 'agent', defaults to SSH_AUTH_SOCK) */
+  agentSocket?: string;
+}
+
 export interface ConnectionConfig {
   id: string;
   name: string;
   host: string;
   port: number;
+  /** Database name (for SQLite, the path to the database file) */
   database: string;
   user?: string; // Optional for MSSQL with Azure AD authentication
   password?: string;
-  ssl?: boolean;
+  /** SSL settings (`true` is the legacy flag, equivalent to { mode: 'verify-full' }) */
+  ssl?: boolean | SSLConfig;
   dbType: DatabaseType;
   /** MSSQL-specific connection options (only used when dbType is 'mssql') */
   mssqlOptions?: MSSQLConnectionOptions;
+  /** Connection pool settings */
+  pool?: ConnectionPoolOptions;
+  /** Maximum time in ms a statement may run before the server cancels it (unset = no limit) */
+  statementTimeout?: number;
+  /** SSH tunnel settings (not used for SQLite) */
+  ssh?: SSHTunnelConfig;
+  /** Environment the database belongs to (shown next to the connection name) */
+  environment?: ConnectionEnvironment;
+  /** Accent color for the connection's tabs and switcher entry (CSS color) */
+  color?: string;
+  /** How statements are guarded (unset = 'confirm' for production, 'off' otherwise) */
+  safeMode?: SafeMode;
+  /**
+   * Never write through this connection. Enforced on the database session (read-only
+   * transactions on Postgres and MySQL, ApplicationIntent=ReadOnly on MSSQL, a read-only
+   * handle on SQLite) and implies the read-only safe mode.
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Result of testing a connection, reported per stage so tunnel and database
+ * failures can be told apart
+ */
+export interface ConnectionTestResult {
+  /** SSH tunnel stage (only present when a tunnel is configured) */
+  tunnel?: { success: boolean; error?: string };
+  /** Database stage (absent if the tunnel failed first) */
+  database?: { success: boolean; error?: string };
 }
 
 /**
@@ -469,6 +681,27 @@ export interface StatementResult {
   durationMs: number;
   /** Whether this statement returns rows (SELECT) or affects rows (INSERT/UPDATE/DELETE) */
   isDataReturning: boolean;
+  /** More rows are waiting in an open server-side cursor (fetch them with db:fetch-more) */
+  hasMore?: boolean;
+}
+
+/**
+ * Next chunk of rows read from an open result cursor
+ */
+export interface ResultChunk {
+  rows: Record<string, unknown>[];
+  /** False once the cursor is exhausted (it is closed automatically) */
+  hasMore: boolean;
+}
+
+/**
+ * Transaction state of a query tab's pinned session (manual-commit mode)
+ */
+export interface SessionTransaction {
+  /** A transaction is waiting for COMMIT or ROLLBACK */
+  open: boolean;
+  /** When the open transaction started (Unix timestamp) */
+  startedAt?: number;
 }
 
 /**
@@ -482,6 +715,8 @@ export interface MultiStatementResult {
   totalDurationMs: number;
   /** Total number of statements executed */
   statementCount: number;
+  /** Transaction state after the run (queries run in a session only) */
+  transaction?: SessionTransaction;
 }
 
 export interface IpcResponse<T> {
@@ -490,6 +725,504 @@ export interface IpcResponse<T> {
   error?: string;
 }
 
+// ============================================
+// Query Parameter Types
+// ============================================
+
+/**
+ * Type a parameter's value is converted to before it is bound
+ */
+export type QueryParameterType = 'text' | 'number' | 'boolean' | 'date' | 'timestamp' | 'json';
+
+/**
+ * Definition of a query placeholder (stored with saved queries)
+ */
+export interface QueryParameterDefinition {
+  /** Placeholder name without its prefix (`id` for :id or @id, `1` for $1) */
+  name: string;
+  type: QueryParameterType;
+  defaultValue?: string;
+}
+
+/**
+ * A placeholder found in SQL text
+ */
+export interface QueryParameterToken {
+  name: string;
+  /** The placeholder as written (e.g. `:id`) */
+  placeholder: string;
+  start: number;
+  end: number;
+}
+
+const isIdentifierStart = (char: string | undefined): boolean => !!char && /[A-Za-z_]/.test(char);
+const isIdentifierChar = (char: string | undefined): boolean => !!char && /[A-Za-z0-9_]/.test(char);
+
+/**
+ * Find the parameter placeholders in SQL: `:name`, `$1` and `@name`.
+ *
+ * String literals, quoted identifiers, dollar-quoted bodies and comments are skipped,
+ * as are casts (`::type`), system variables (`@@name`), variables the SQL declares
+ * or assigns itself (`DECLARE @x`, `SET @x = ...`, `@x := ...`), the parameters and
+ * variables of T-SQL procedure, function and trigger definitions, and named procedure
+ * arguments (`EXEC proc @x = ...`).
+ */
+export function findQueryParameters(sql: string): QueryParameterToken[] {
+  const tokens: QueryParameterToken[] = [];
+  const variables = new Set<string>();
+  let i = 0;
+
+  const readName = (start: number): number => {
+    let end = start;
+    while (end < sql.length && isIdentifierChar(sql[end])) end++;
+    return end;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    // String literals and quoted identifiers (doubled quotes are escapes)
+    if (char === "'" || char === '"' || char === '`') {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === char && sql[i + 1] === char) {
+          i += 2;
+        } else if (sql[i] === char) {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (char === '$' && !isIdentifierChar(sql[i - 1])) {
+      // Positional parameter ($1)
+      if (next !== undefined && /[0-9]/.test(next)) {
+        let end = i + 1;
+        while (end < sql.length && /[0-9]/.test(sql[end])) end++;
+        tokens.push({ name: sql.slice(i + 1, end), placeholder: sql.slice(i, end), start: i, end });
+        i = end;
+        continue;
+      }
+
+      // Dollar-quoted body ($$...$$ or $tag$...$tag$)
+      const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+        continue;
+      }
+    }
+
+    if (char === ':') {
+      if (next === ':' || next === '=') {
+        i += 2;
+        continue;
+      }
+      if (isIdentifierStart(next) && !isIdentifierChar(sql[i - 1])) {
+        const end = readName(i + 1);
+        tokens.push({ name: sql.slice(i + 1, end), placeholder: sql.slice(i, end), start: i, end });
+        i = end;
+        continue;
+      }
+    }
+
+    if (char === '@' && !isIdentifierChar(sql[i - 1])) {
+      if (next === '@') {
+        i = readName(i + 2);
+        continue;
+      }
+      if (isIdentifierStart(next)) {
+        const end = readName(i + 1);
+        const name = sql.slice(i + 1, end);
+        const before = sql.slice(0, i);
+        const after = sql.slice(end);
+        // A definition is the whole of its batch, which ends at a GO line
+        const batch = before.split(/^\s*GO\s*$/im).pop() ?? before;
+        const isVariable =
+          /\b(DECLARE|SET)\s+$/i.test(before) ||
+          /\bDECLARE\s[^;]*,\s*$/i.test(before) ||
+          /^\s*:=/.test(after) ||
+          /\b(CREATE|ALTER)\s+(OR\s+ALTER\s+)?(PROC|PROCEDURE|FUNCTION|TRIGGER)\b/i.test(batch);
+        // Only the value of a named argument (`EXEC proc @x = @y`) can be a parameter
+        const isNamedArgument = /\bEXEC(UTE)?\s[^;]*$/i.test(before) && /^\s*=(?!=)/.test(after);
+        if (isVariable) {
+          variables.add(name);
+        } else if (!isNamedArgument) {
+          tokens.push({ name, placeholder: sql.slice(i, end), start: i, end });
+        }
+        i = end;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  // Drop uses of variables the SQL assigns itself
+  return tokens.filter(
+    (token) => !(token.placeholder.startsWith('@') && variables.has(token.name))
+  );
+}
+
+// ============================================
+// Safe Mode Types
+// ============================================
+
+export type ConnectionEnvironment = 'development' | 'staging' | 'production';
+
+/**
+ * How statements run against a connection are guarded:
+ * - off: everything runs
+ * - confirm: destructive statements must be confirmed first
+ * - read-only: statements that write are rejected
+ */
+export type SafeMode = 'off' | 'confirm' | 'read-only';
+
+/**
+ * What running a statement does to the database. `read` covers everything that leaves
+ * data and schema alone (including transaction control and SET).
+ */
+export type StatementRisk = 'read' | 'write' | 'destructive';
+
+export interface StatementClassification {
+  /** The statement as written, trimmed */
+  sql: string;
+  risk: StatementRisk;
+  /** Why the statement is destructive (e.g. `DELETE without WHERE`, `DROP TABLE`) */
+  reason?: string;
+}
+
+/**
+ * Safe mode in effect for a connection
+ */
+export function getSafeMode(
+  config: Pick<ConnectionConfig, 'environment' | 'safeMode' | 'readOnly'>
+): SafeMode {
+  if (config.readOnly) return 'read-only';
+  return config.safeMode ?? (config.environment === 'production' ? 'confirm' : 'off');
+}
+
+/** Statements that leave data and schema alone */
+const READ_KEYWORDS = new Set([
+  'SELECT',
+  'SHOW',
+  'DESCRIBE',
+  'DESC',
+  'VALUES',
+  'TABLE',
+  'EXPLAIN',
+  'BEGIN',
+  'START',
+  'COMMIT',
+  'ROLLBACK',
+  'SAVEPOINT',
+  'RELEASE',
+  'END',
+  'SET',
+  'RESET',
+  'USE',
+  'DECLARE'
+]);
+
+/** Keywords that start the statement an EXPLAIN or a WITH clause wraps */
+const STATEMENT_KEYWORDS = new Set([
+  'SELECT',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'VALUES',
+  'TABLE',
+  'WITH'
+]);
+
+const RISK_ORDER: Record<StatementRisk, number> = { read: 0, write: 1, destructive: 2 };
+
+/**
+ * Mask string literals, quoted identifiers, dollar-quoted bodies and comments with
+ * spaces so keywords can be matched without false hits inside them
+ */
+function maskSql(sql: string): string {
+  let masked = '';
+  let i = 0;
+
+  const skipTo = (end: number): void => {
+    masked += ' '.repeat(end - i);
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === close && sql[end + 1] === close) {
+          end += 2;
+        } else if (sql[end] === close) {
+          end++;
+          break;
+        } else {
+          end++;
+        }
+      }
+      skipTo(end);
+      continue;
+    }
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      skipTo(end === -1 ? sql.length : end);
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      skipTo(end === -1 ? sql.length : end + 2);
+      continue;
+    }
+
+    if (char === '$' && !isIdentifierChar(sql[i - 1])) {
+      const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        skipTo(end === -1 ? sql.length : end + tag[0].length);
+        continue;
+      }
+    }
+
+    masked += char;
+    i++;
+  }
+
+  return masked;
+}
+
+/**
+ * Split SQL text into statements on semicolons and `GO` batch separators, ignoring
+ * those inside literals, quoted identifiers, dollar-quoted bodies and comments
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const masked = maskSql(sql);
+  const statements: string[] = [];
+  const separator = /;|^[ \t]*GO[ \t]*$/gim;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = separator.exec(masked)) !== null) {
+    statements.push(sql.slice(start, match.index));
+    start = match.index + match[0].length;
+  }
+  statements.push(sql.slice(start));
+
+  return statements.map((statement) => statement.trim()).filter((statement) => statement !== '');
+}
+
+/**
+ * Classify a single statement by its leading keyword. This is a lightweight check meant
+ * to catch mistakes, not a parser: anything it doesn't recognise counts as a write.
+ */
+export function classifyStatement(sql: string): StatementClassification {
+  const statement = sql.trim();
+  const masked = maskSql(statement);
+  // Words outside parentheses, so subqueries and CTE bodies don't count
+  const words: string[] = [];
+  // Contents of the outermost parentheses (CTE bodies, subqueries, column lists)
+  const groups: string[] = [];
+  const tokens = /[()]|[A-Za-z_@#][A-Za-z0-9_@#$]*/g;
+  let depth = 0;
+  let groupStart = 0;
+  let token: RegExpExecArray | null;
+  while ((token = tokens.exec(masked)) !== null) {
+    if (token[0] === '(') {
+      if (depth === 0) groupStart = token.index + 1;
+      depth++;
+    } else if (token[0] === ')') {
+      if (depth === 1) groups.push(statement.slice(groupStart, token.index));
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0) {
+      words.push(token[0].toUpperCase());
+    }
+  }
+
+  const classify = (index: number): StatementClassification => {
+    const keyword = words[index];
+    const rest = words.slice(index + 1);
+
+    if (keyword === undefined) return { sql: statement, risk: 'read' };
+
+    // EXPLAIN only runs the statement with ANALYZE (`EXPLAIN ANALYZE` or `EXPLAIN (ANALYZE)`)
+    if (keyword === 'EXPLAIN') {
+      const inner = rest.findIndex((word) => STATEMENT_KEYWORDS.has(word));
+      const analyze = /^EXPLAIN\s*\([^)]*\bANALY[SZ]E\b|^EXPLAIN\s+ANALY[SZ]E\b/i.test(
+        masked.trimStart()
+      );
+      return analyze && inner !== -1
+        ? classify(index + 1 + inner)
+        : { sql: statement, risk: 'read' };
+    }
+
+    // WITH ... AS (...) <statement>: the CTE bodies are parenthesised, so the next
+    // statement keyword is the main statement. A CTE body can write too (`WITH d AS
+    // (DELETE ... RETURNING *) SELECT ...`), so the statement is as risky as the worst.
+    if (keyword === 'WITH') {
+      const inner = rest.findIndex((word) => STATEMENT_KEYWORDS.has(word) && word !== 'WITH');
+      const main: StatementClassification =
+        inner === -1 ? { sql: statement, risk: 'read' } : classify(index + 1 + inner);
+      return groups
+        .filter((group) => {
+          const first = maskSql(group).match(/[A-Za-z_]+/)?.[0].toUpperCase();
+          return first !== undefined && STATEMENT_KEYWORDS.has(first);
+        })
+        .map(classifyStatement)
+        .reduce<StatementClassification>(
+          (worst, body) =>
+            RISK_ORDER[body.risk] > RISK_ORDER[worst.risk] ? { ...body, sql: statement } : worst,
+          main
+        );
+    }
+
+    if (keyword === 'DELETE' || keyword === 'UPDATE') {
+      return rest.includes('WHERE')
+        ? { sql: statement, risk: 'write' }
+        : { sql: statement, risk: 'destructive', reason: `${keyword} without WHERE` };
+    }
+
+    if (keyword === 'DROP' || keyword === 'ALTER') {
+      const object = rest[0] && /^[A-Z_]+$/.test(rest[0]) ? ` ${rest[0]}` : '';
+      return { sql: statement, risk: 'destructive', reason: `${keyword}${object}` };
+    }
+
+    if (keyword === 'TRUNCATE') {
+      return { sql: statement, risk: 'destructive', reason: 'TRUNCATE' };
+    }
+
+    // Switching a session or transaction back to read-write counts as a write, whether
+    // with SET (`=`, `TO` or `:=`) or from a query (`SELECT set_config(...)`)
+    if (
+      /\bREAD\s+WRITE\b|READ_ONLY\s*(:?=|TO)\s*'?(OFF|FALSE|0|DEFAULT)\b/i.test(statement) ||
+      /\bSET_CONFIG\s*\(\s*'[^']*TRANSACTION_READ_ONLY'/i.test(statement)
+    ) {
+      return { sql: statement, risk: 'write' };
+    }
+
+    // SELECT ... INTO creates a table (or writes a file) unless it only fills variables
+    if (keyword === 'SELECT') {
+      const into = rest.indexOf('INTO');
+      const target = into === -1 ? undefined : rest[into + 1];
+      return target !== undefined && !target.startsWith('@')
+        ? { sql: statement, risk: 'write' }
+        : { sql: statement, risk: 'read' };
+    }
+
+    // SQLite pragmas only change settings when assigned
+    if (keyword === 'PRAGMA') {
+      return { sql: statement, risk: masked.includes('=') ? 'write' : 'read' };
+    }
+
+    return { sql: statement, risk: READ_KEYWORDS.has(keyword) ? 'read' : 'write' };
+  };
+
+  return classify(0);
+}
+
+/**
+ * Classify every statement in SQL text
+ */
+export function classifyQuery(sql: string): StatementClassification[] {
+  return splitSqlStatements(sql).map(classifyStatement);
+}
+
+// ============================================
+// Table Preview Types - Server-side paging
+// ============================================
+
+/**
+ * Filter operators for table previews
+ */
+export type TableFilterOperator =
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'like'
+  | 'not-like'
+  | 'in'
+  | 'is-null'
+  | 'is-not-null'
+  | 'between';
+
+/**
+ * A filter on a single column, applied in the WHERE clause
+ */
+export interface TableFilter {
+  column: string;
+  operator: TableFilterOperator;
+  /** Operand (lower bound for 'between'; unused for the null checks) */
+  value?: string;
+  /** Upper bound for 'between' */
+  valueTo?: string;
+  /** Operands for 'in' */
+  values?: string[];
+}
+
+export interface TableSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * One page of a table, filtered and sorted by the database
+ */
+export interface TablePageRequest {
+  schema: string;
+  table: string;
+  filters: TableFilter[];
+  sort: TableSort[];
+  /** Zero-based page index */
+  page: number;
+  pageSize: number;
+  /** Always run COUNT(*) instead of using the planner's row estimate */
+  exactCount?: boolean;
+  /**
+   * Columns the rows are ordered by when no sort is chosen (the primary key, else every
+   * sortable column), so that rows don't repeat or go missing between pages
+   */
+  keyColumns?: string[];
+}
+
+export interface TablePageResult {
+  rows: Record<string, unknown>[];
+  fields: QueryField[];
+  /** Rows matching the filters (null when the database can't tell) */
+  totalCount: number | null;
+  /** totalCount comes from table statistics rather than COUNT(*) */
+  totalCountIsEstimate: boolean;
+  /** The page query with values inlined, for "Open in Query Editor" */
+  previewSql: string;
+  durationMs: number;
+}
+
 // ============================================
 // Schema Types - Shared across all DB adapters
 // ============================================
@@ -529,7 +1262,7 @@ export interface ColumnInfo {
  */
 export interface TableInfo {
   name: string;
-  type: 'table' | 'view';
+  type: 'table' | 'view' | 'materialized-view';
   columns: ColumnInfo[];
   /** Estimated row count (if available) */
   estimatedRowCount?: number;
@@ -594,6 +1327,12 @@ export interface DatabaseSchema {
 export interface DatabaseSchemaResponse extends DatabaseSchema {
   /** Custom database types (enums, composites, etc.) */
   customTypes?: CustomTypeInfo[];
+  /** Sequences */
+  sequences?: SequenceInfo[];
+  /** Table indexes */
+  indexes?: IndexInfo[];
+  /** Table triggers */
+  triggers?: TriggerInfo[];
   /** Whether the response was served from cache */
   fromCache?: boolean;
   /** Whether the cached data is stale (past TTL but still usable) */
@@ -1006,6 +1745,169 @@ export interface DDLResult {
   errors?: string[];
 }
 
+// ============================================
+// Schema Compare Types
+// ============================================
+
+/**
+ * How an object differs between the source and target of a schema comparison.
+ * `added` objects exist only in the source, `removed` ones only in the target.
+ */
+export type SchemaDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * One side of a schema comparison
+ */
+export interface SchemaCompareSide {
+  config: ConnectionConfig;
+  schema: string;
+}
+
+/**
+ * Difference of a column, constraint or index between source and target
+ */
+export interface SchemaObjectDiff<T> {
+  name: string;
+  status: SchemaDiffStatus;
+  source?: T;
+  target?: T;
+  /** What differs, for changed objects (e.g. "type int4 → int8") */
+  changes: string[];
+}
+
+/**
+ * Difference of a table between source and target
+ */
+export interface TableDiff {
+  name: string;
+  status: SchemaDiffStatus;
+  source?: TableDefinition;
+  target?: TableDefinition;
+  columns: SchemaObjectDiff<ColumnDefinition>[];
+  constraints: SchemaObjectDiff<ConstraintDefinition>[];
+  indexes: SchemaObjectDiff<IndexDefinition>[];
+  /** Table-level differences (primary key, comment) */
+  changes: string[];
+}
+
+/**
+ * Step of a migration script, in the order it has to run
+ */
+export interface MigrationStep {
+  /** Table the step applies to */
+  table: string;
+  description: string;
+  sql: string;
+  /** Drops a table, column, constraint or index */
+  destructive: boolean;
+}
+
+/**
+ * Result of comparing two schemas: the differences and the script that turns the
+ * target schema into the source schema
+ */
+export interface SchemaCompareResult {
+  tables: TableDiff[];
+  migration: MigrationStep[];
+  /** Differences the script doesn't migrate (they need to be handled by hand) */
+  warnings: string[];
+}
+
+// ============================================
+// Execution Plan Types
+// ============================================
+
+/**
+ * A join, filter or lookup condition of a plan node
+ */
+export interface PlanCondition {
+  kind: 'index' | 'filter' | 'recheck' | 'hash' | 'merge' | 'join';
+  expression: string;
+}
+
+/**
+ * Block and I/O statistics of a plan node (only PostgreSQL reports them)
+ */
+export interface PlanBuffers {
+  sharedHit?: number;
+  sharedRead?: number;
+  sharedDirtied?: number;
+  tempRead?: number;
+  tempWritten?: number;
+  ioReadTimeMs?: number;
+  ioWriteTimeMs?: number;
+}
+
+/**
+ * One operator of an execution plan, normalized from the database's native format
+ * (PostgreSQL EXPLAIN JSON, MySQL EXPLAIN FORMAT=JSON or ANALYZE, SQL Server showplan
+ * XML, SQLite EXPLAIN QUERY PLAN). Costs are in the database's own units and include
+ * the cost of the node's children.
+ */
+export interface PlanNode {
+  /** Operator name as the database reports it, e.g. 'Seq Scan' or 'Clustered Index Seek' */
+  nodeType: string;
+  relation?: string;
+  schema?: string;
+  alias?: string;
+  index?: string;
+  joinType?: string;
+  /** Whether the operator reads every row of a table */
+  fullScan?: boolean;
+  parallel?: boolean;
+  asyncCapable?: boolean;
+  startupCost?: number;
+  totalCost?: number;
+  estimatedRows?: number;
+  /** Estimated row size in bytes */
+  rowWidth?: number;
+  actualRows?: number;
+  actualLoops?: number;
+  actualStartupTimeMs?: number;
+  actualTimeMs?: number;
+  rowsRemovedByFilter?: number;
+  heapFetches?: number;
+  sortKey?: string[];
+  sortMethod?: string;
+  sortSpaceKb?: number;
+  sortSpaceType?: string;
+  groupKey?: string[];
+  workersPlanned?: number;
+  workersLaunched?: number;
+  buffers?: PlanBuffers;
+  conditions: PlanCondition[];
+  /** Problems reported by the database or spotted in the node's figures */
+  warnings: string[];
+  children: PlanNode[];
+}
+
+/**
+ * A plan as the database returned it, in the format other plan visualizers read
+ * (PostgreSQL and MySQL JSON, SQL Server showplan XML, MySQL and SQLite text trees)
+ */
+export interface PlanSource {
+  format: 'json' | 'xml' | 'text';
+  content: string;
+}
+
+/**
+ * Execution plan of a statement in the dialect-neutral node model
+ */
+export interface ExecutionPlan {
+  dbType: DatabaseType;
+  /** Null when the database's plan output couldn't be read as a tree */
+  root: PlanNode | null;
+  /** Whether the statement was executed (actual rows and times are present) */
+  analyzed: boolean;
+  /** The statement modifies data: it was executed in a transaction that was rolled back */
+  rolledBack?: boolean;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+  /** Plan-wide warnings, e.g. missing index suggestions */
+  warnings: string[];
+  source?: PlanSource;
+}
+
 // ============================================
 // Database Metadata Types
 // ============================================
@@ -1040,6 +1942,61 @@ export interface CustomTypeInfo {
   values?: string[];
 }
 
+/**
+ * Index on a table (or materialized view)
+ */
+export interface IndexInfo {
+  /** Schema containing the index */
+  schema: string;
+  /** Index name */
+  name: string;
+  /** Table the index belongs to */
+  table: string;
+  /** Indexed columns (or expressions) in key order */
+  columns: string[];
+  isUnique: boolean;
+  /** Whether the index backs the primary key */
+  isPrimary: boolean;
+}
+
+/**
+ * Trigger on a table or view
+ */
+export interface TriggerInfo {
+  /** Schema containing the trigger */
+  schema: string;
+  /** Trigger name */
+  name: string;
+  /** Table (or view) the trigger fires on */
+  table: string;
+  /** When the trigger fires: BEFORE, AFTER or INSTEAD OF */
+  timing: string;
+  /** Events the trigger fires on (INSERT, UPDATE, DELETE, TRUNCATE) */
+  events: string[];
+}
+
+/**
+ * Kinds of schema objects whose definition can be shown
+ */
+export type SchemaObjectKind =
+  | 'view'
+  | 'materialized-view'
+  | 'index'
+  | 'trigger'
+  | 'sequence'
+  | 'type';
+
+/**
+ * Reference to a schema object, for fetching its definition
+ */
+export interface SchemaObjectRef {
+  kind: SchemaObjectKind;
+  schema: string;
+  name: string;
+  /** Table the object belongs to (indexes and triggers) */
+  table?: string;
+}
+
 // ============================================
 // License Types
 // ============================================
@@ -1148,6 +2105,8 @@ export interface SavedQuery {
   tags: string[];
   /** Folder path for grouping (e.g., "Reports/Monthly") */
   folder?: string;
+  /** Types and defaults for the query's :name / $1 / @name placeholders */
+  parameters?: QueryParameterDefinition[];
   /** Number of times this query has been used */
   usageCount: number;
   /** Last time the query was used (Unix timestamp) */
@@ -1157,3 +2116,190 @@ export interface SavedQuery {
   /** When the query was last updated (Unix timestamp) */
   updatedAt: number;
 }
+
+// ============================================
+// Data Import Types
+// ============================================
+
+export type ImportFileFormat = 'csv' | 'json' | 'xlsx';
+
+/**
+ * Column type used to convert imported values (and to create new tables)
+ */
+export type ImportColumnType =
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'json'
+  | 'text';
+
+/**
+ * A column found in an import file
+ */
+export interface ImportFileColumn {
+  name: string;
+  /** Type inferred from the column's values */
+  inferredType: ImportColumnType;
+}
+
+/**
+ * Parsed contents of an import file
+ */
+export interface ImportFileData {
+  fileName: string;
+  format: ImportFileFormat;
+  columns: ImportFileColumn[];
+  /** Rows keyed by file column name */
+  rows: Record<string, unknown>[];
+  /** Sheet that was read (Excel only) */
+  sheetName?: string;
+}
+
+/**
+ * Maps a file column to a table column
+ */
+export interface ImportColumnMapping {
+  sourceColumn: string;
+  targetColumn: string;
+  type: ImportColumnType;
+}
+
+export interface ImportRequest {
+  schema: string;
+  table: string;
+  /** Create the table from the mappings before inserting */
+  createTable?: boolean;
+  mappings: ImportColumnMapping[];
+  rows: Record<string, unknown>[];
+  /** Rows per transaction (default 500) */
+  batchSize?: number;
+  /** Convert and validate every row without touching the database */
+  dryRun?: boolean;
+}
+
+export interface ImportRowError {
+  /** 0-based index into the request's rows */
+  rowIndex: number;
+  message: string;
+}
+
+export interface ImportResult {
+  totalRows: number;
+  /** Rows inserted (in a dry run, rows that passed conversion) */
+  insertedRows: number;
+  failedRows: number;
+  /** Per-row errors (capped, see errorsTruncated) */
+  errors: ImportRowError[];
+  errorsTruncated: boolean;
+  dryRun: boolean;
+  /** CREATE TABLE statement that was (or, in a dry run, would be) executed */
+  createTableSql?: string;
+  durationMs: number;
+}
+
+// ============================================
+// Export Types
+// ============================================
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'parquet' | 'markdown' | 'sql';
+
+/**
+ * A result column to export
+ */
+export interface ExportColumn {
+  name: string;
+  /** Database type name, used to pick typed cells (XLSX) and column types (Parquet) */
+  dataType: string;
+}
+
+/**
+ * Rows to write to a file chosen by the user
+ */
+export interface ExportRequest {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  rows: Record<string, unknown>[];
+  /** Suggested file name without extension */
+  defaultFileName: string;
+  /** SQL dialect for INSERT statement exports (defaults to PostgreSQL) */
+  dbType?: DatabaseType;
+  /** Table the rows came from; the INSERT target and sheet name when set */
+  table?: {
+    schema?: string;
+    name: string;
+  };
+}
+
+/**
+ * A finished export
+ */
+export interface ExportResult {
+  filePath: string;
+  rowCount: number;
+  /** Size of the written file in bytes */
+  bytes: number;
+}
+
+// ============================================
+// Query History Types
+// ============================================
+
+export type QueryHistoryStatus = 'success' | 'error';
+
+/**
+ * One executed query in the history journal
+ */
+export interface QueryHistoryEntry {
+  id: string;
+  query: string;
+  /** When the query ran (Unix timestamp) */
+  executedAt: number;
+  durationMs: number;
+  rowCount: number;
+  status: QueryHistoryStatus;
+  connectionId: string;
+  /** Connection name when the query ran (kept if the connection is deleted) */
+  connectionName?: string;
+  database?: string;
+  errorMessage?: string;
+  /** Tab the query ran in */
+  tabId?: string;
+  tabTitle?: string;
+}
+
+/**
+ * Search and filters for the history journal
+ */
+export interface QueryHistoryFilter {
+  /** Full-text search over query text and error messages */
+  search?: string;
+  connectionId?: string;
+  status?: QueryHistoryStatus;
+  /** Only queries starting with one of these keywords (e.g. "SELECT") */
+  statementTypes?: string[];
+  /** Only entries at or after this Unix timestamp */
+  from?: number;
+  /** Only entries before this Unix timestamp */
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A page of history entries, newest first
+ */
+export interface QueryHistoryPage {
+  entries: QueryHistoryEntry[];
+  /** Entries matching the filter across all pages */
+  total: number;
+}
+
+/**
+ * How much history is kept; 0 means no limit
+ */
+export interface QueryHistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+}